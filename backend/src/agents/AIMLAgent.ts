@@ -1,9 +1,19 @@
 // AI/ML Expert Agent - Focused on model selection, evaluation, and MLOps readiness
 
-import { Agent } from './Agent.js';
+import { z } from 'zod';
+import { Agent, reviewSchema } from './Agent.js';
 import type { ModelRouter } from '../models/ModelRouter.js';
 import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
 
+const mlAnalysisSchema = z.object({
+  problemType: z.string(),
+  dataNeeds: z.unknown().optional(),
+  modelOptions: z.array(z.unknown()).default([]),
+  evaluationPlan: z.string(),
+  risks: z.array(z.string()).default([]),
+  steps: z.array(z.string()).min(1)
+}).passthrough();
+
 export class AIMLAgent extends Agent {
   constructor(modelRouter: ModelRouter) {
     const capabilities: AgentCapabilities = {
@@ -40,26 +50,15 @@ Return JSON with keys:
 - steps (array)
 `;
 
-    const response = await this.executeWithModel(prompt, { temperature: 0.3, maxTokens: 1200 });
-
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        estimatedComplexity: parsed.problemType ? 'high' : 'medium',
-        requiredSteps: parsed.steps || [],
-        potentialChallenges: parsed.risks || [],
-        recommendedApproach: parsed.evaluationPlan || 'Use standard train/val/test split with reproducible seeds.',
-        additionalInfo: parsed
-      };
-    } catch (error) {
-      return {
-        estimatedComplexity: 'medium',
-        requiredSteps: ['Clarify data sources', 'Choose baseline model', 'Define metrics'],
-        potentialChallenges: ['Unclear data quality'],
-        recommendedApproach: response,
-        additionalInfo: {}
-      };
-    }
+    const parsed = await this.executeStructured(prompt, mlAnalysisSchema, { temperature: 0.3, maxTokens: 1200 });
+
+    return {
+      estimatedComplexity: 'high',
+      requiredSteps: parsed.steps,
+      potentialChallenges: parsed.risks,
+      recommendedApproach: parsed.evaluationPlan,
+      additionalInfo: parsed
+    };
   }
 
   protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
@@ -105,15 +104,10 @@ Ensure it includes evaluation, monitoring, and uses open standards.
 Respond as JSON: { "isValid": boolean, "issues": string[] }
 `;
 
-    try {
-      const validation = await this.executeWithModel(validationPrompt, { temperature: 0.2, maxTokens: 800 });
-      const parsed = JSON.parse(validation);
-      return {
-        isValid: parsed.isValid !== false,
-        reason: parsed.issues?.join(', ')
-      };
-    } catch (error) {
-      return { isValid: true };
-    }
+    const validation = await this.executeStructured(validationPrompt, reviewSchema, { temperature: 0.2, maxTokens: 800 });
+    return {
+      isValid: validation.isValid,
+      reason: validation.issues.join(', ') || undefined
+    };
   }
 }
@@ -1,7 +1,9 @@
 // Base Agent Class - Abstract class for all agent types
 
 import { v4 as uuidv4 } from 'uuid';
+import { z, type ZodTypeAny } from 'zod';
 import type { ModelRouter } from '../models/ModelRouter.js';
+import { ContextManager, type ContextDrop, type PromptSection } from '../models/ContextManager.js';
 import type {
   AgentType,
   AgentStatus,
@@ -11,9 +13,29 @@ import type {
   TaskResult,
   TaskAnalysis,
   ValidationResult,
-  GenerateOptions
+  GenerateOptions,
+  ChatMessage,
+  EnsembleOptions,
+  TaskPhase,
+  TaskPriority
 } from '../shared/types.js';
 
+// Complexity labels as models tend to write them ("Medium", "HIGH")
+export const complexitySchema = z.preprocess(
+  value => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+  z.enum(['low', 'medium', 'high'])
+).default('medium');
+
+// Shape expected from model-based reviews in validate()
+export const reviewSchema = z.object({
+  isValid: z.boolean(),
+  issues: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).optional()
+});
+
+// Reply allowance when a call sets no maxTokens, matching the providers' own default
+const DEFAULT_COMPLETION_TOKENS = 2048;
+
 export abstract class Agent {
   public readonly id: string;
   public readonly name: string;
@@ -24,6 +46,22 @@ export abstract class Agent {
   
   protected modelRouter: ModelRouter;
   protected context: Map<string, any> = new Map();
+  protected conversations: Map<string, ChatMessage[]> = new Map();
+  // Router tools this agent may call; see ModelRouter.registerTool
+  protected toolNames: string[] = [];
+  // Task being processed, so model calls are billed to it in the usage ledger
+  protected activeTask?: Task;
+  // Aborted by the orchestrator on cancellation or timeout; passed to every model call
+  protected activeSignal?: AbortSignal;
+  // Stage of the active task, used to tag streamed output
+  protected activePhase?: TaskPhase;
+  private chunkListener?: (phase: TaskPhase, text: string) => void;
+  // Analysis of CRITICAL tasks is sampled several times, so one bad sample cannot derail the task
+  protected criticalEnsemble: EnsembleOptions = { samples: 3 };
+  // Trims oversized prompts to the context window; see buildMessages
+  protected contextManager: ContextManager;
+  // Prompt sections cut for the active task, reported in the result metadata
+  private contextDrops: ContextDrop[] = [];
 
   constructor(
     name: string,
@@ -37,6 +75,9 @@ export abstract class Agent {
     this.status = 'INITIALIZED' as AgentStatus;
     this.capabilities = capabilities;
     this.modelRouter = modelRouter;
+    this.contextManager = new ContextManager({
+      summarize: (text, targetTokens) => this.summarizeSection(text, targetTokens)
+    });
     
     this.metrics = {
       totalTasks: 0,
@@ -49,22 +90,42 @@ export abstract class Agent {
     };
   }
 
-  async processTask(task: Task): Promise<TaskResult> {
+  /**
+   * Runs analyze, execute and validate for the task. With onChunk set, model
+   * replies are streamed to it as they arrive, tagged with the phase.
+   */
+  async processTask(
+    task: Task,
+    signal?: AbortSignal,
+    onChunk?: (phase: TaskPhase, text: string) => void
+  ): Promise<TaskResult> {
     const startTime = Date.now();
+    this.activeTask = task;
+    this.activeSignal = signal;
+    this.chunkListener = onChunk;
+    this.contextDrops = [];
+    if (task.context.tokenBudget) {
+      this.modelRouter.getUsageLedger().setTaskBudget(task.id, task.context.tokenBudget);
+    }
     
     try {
       // Update status
       this.updateStatus('THINKING' as AgentStatus);
       
       // Analyze task
+      this.activePhase = 'analyze';
       const analysis = await this.analyzeTask(task);
+      signal?.throwIfAborted();
       
       // Execute
       this.updateStatus('EXECUTING' as AgentStatus);
+      this.activePhase = 'execute';
       const result = await this.execute(analysis, task);
+      signal?.throwIfAborted();
       
       // Validate
       this.updateStatus('VALIDATING' as AgentStatus);
+      this.activePhase = 'validate';
       const validation = await this.validate(result);
       
       if (!validation.isValid) {
@@ -83,6 +144,7 @@ export abstract class Agent {
         taskId: task.id,
         success: true,
         result,
+        metadata: this.resultMetadata(),
         executionTime,
         agentId: this.id,
         completedAt: new Date()
@@ -94,17 +156,29 @@ export abstract class Agent {
       const executionTime = Date.now() - startTime;
       this.updateMetrics(false, executionTime, task.type);
       
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      // Whatever the provider threw, an aborted task fails for the abort's reason
+      const cause = signal?.aborted ? signal.reason : error;
+      const errorMessage = cause instanceof Error ? cause.message : 'Unknown error';
       
       return {
         taskId: task.id,
         success: false,
         error: errorMessage,
+        metadata: this.resultMetadata(),
         executionTime,
         agentId: this.id,
         completedAt: new Date()
       };
     } finally {
+      if (task.context.tokenBudget) {
+        this.modelRouter.getUsageLedger().clearTaskBudget(task.id);
+      }
+      this.activeTask = undefined;
+      this.activeSignal = undefined;
+      this.activePhase = undefined;
+      this.chunkListener = undefined;
+      this.contextDrops = [];
+
       // Return to idle after completion or error
       setTimeout(() => {
         if (this.status === 'COMPLETED' as AgentStatus || this.status === 'ERROR' as AgentStatus) {
@@ -129,35 +203,208 @@ export abstract class Agent {
     return { ...this.metrics };
   }
 
+  /**
+   * Sends a follow-up message in an ongoing conversation with this agent.
+   * History is kept per conversation id, so later turns see earlier answers.
+   */
+  async converse(conversationId: string, message: string, options?: GenerateOptions): Promise<string> {
+    const history = this.conversations.get(conversationId) || [];
+    const userMessage: ChatMessage = { role: 'user', content: message };
+
+    const reply = await this.modelRouter.chat(
+      [{ role: 'system', content: this.buildSystemInstruction() }, ...history, userMessage],
+      this.buildOptions(options)
+    );
+
+    this.conversations.set(conversationId, [...history, userMessage, { role: 'assistant', content: reply }]);
+    return reply;
+  }
+
+  getConversation(conversationId: string): ChatMessage[] {
+    return [...(this.conversations.get(conversationId) || [])];
+  }
+
   protected async executeWithModel(
     prompt: string,
     options?: GenerateOptions
   ): Promise<string> {
-    const fullPrompt = this.buildPrompt(prompt);
-    return this.modelRouter.generate(fullPrompt, options);
+    const request = await this.buildMessages(prompt, this.buildOptions(options));
+    return this.modelRouter.chat(request.messages, request.options);
   }
 
-  protected buildPrompt(userPrompt: string): string {
-    const contextSummary = Array.from(this.context.entries())
-      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
-      .join('\n');
+  protected async executeStructured<S extends ZodTypeAny>(
+    prompt: string,
+    schema: S,
+    options?: GenerateOptions
+  ): Promise<z.infer<S>> {
+    const request = await this.buildMessages(prompt, { ...this.buildOptions(options), responseSchema: schema });
+    return this.modelRouter.chatStructured<z.infer<S>>(request.messages, request.options);
+  }
 
-    return `
+  /**
+   * Fills in tools, priority, abort signal, output streaming, ensembles and
+   * usage attribution unless the caller set them. A retried task skips the
+   * response cache, which would otherwise replay the answers that failed.
+   */
+  protected buildOptions(options?: GenerateOptions): GenerateOptions {
+    const task = this.activeTask;
+    const listener = this.chunkListener;
+    const phase = this.activePhase;
+    const tools = options?.tools ?? (this.toolNames.length > 0
+      ? this.modelRouter.getToolDeclarations(this.toolNames)
+      : undefined);
+
+    return {
+      ...options,
+      tools,
+      priority: options?.priority ?? task?.priority,
+      signal: options?.signal ?? this.activeSignal,
+      noCache: options?.noCache ?? (task?.context.attempt ?? 1) > 1,
+      onChunk: options?.onChunk ?? (listener && phase ? text => listener(phase, text) : undefined),
+      ensemble: options?.ensemble ?? (phase === 'analyze' && task?.priority === 'CRITICAL' as TaskPriority
+        ? this.criticalEnsemble
+        : undefined),
+      usageContext: options?.usageContext ?? {
+        agentId: this.id,
+        taskId: task?.id,
+        projectId: task?.context.projectId,
+        workflowExecutionId: task?.context.workflowExecutionId
+      }
+    };
+  }
+
+  /**
+   * Builds the system and user turns for a prompt and fits them into the
+   * largest context window that can serve the call. Agent context gives way
+   * first, then workflow inputs, then the prompt; the persona is kept whole.
+   * The returned options keep the call off providers too small for the result.
+   */
+  protected async buildMessages(
+    userPrompt: string,
+    options: GenerateOptions
+  ): Promise<{ messages: ChatMessage[]; options: GenerateOptions }> {
+    const system = this.buildSystemSections();
+    const user = this.buildPromptSections(userPrompt);
+    const draft = this.composeMessages(system, user);
+
+    const window = this.modelRouter.getContextWindow(draft, options);
+    if (window === undefined) {
+      return { messages: draft, options };
+    }
+
+    const reserve = Math.min(options.maxTokens ?? DEFAULT_COMPLETION_TOKENS, Math.floor(window / 2));
+    const fitted = await this.contextManager.fit([...system, ...user], window - reserve);
+    this.contextDrops.push(...fitted.drops);
+
+    const kept = new Map(fitted.sections.map(section => [section.name, section]));
+    const keep = (sections: PromptSection[]) =>
+      sections.flatMap(section => kept.get(section.name) ?? []);
+
+    return {
+      messages: this.composeMessages(keep(system), keep(user)),
+      options: {
+        ...options,
+        requirements: {
+          ...options.requirements,
+          minContextTokens: Math.max(options.requirements?.minContextTokens ?? 0, fitted.totalTokens + reserve)
+        }
+      }
+    };
+  }
+
+  // Persona and context, kept out of the user turn
+  protected buildSystemInstruction(): string {
+    return this.composeSystem(this.buildSystemSections());
+  }
+
+  // Each context entry is its own section, so one large entry can be cut without losing the rest
+  protected buildSystemSections(): PromptSection[] {
+    return [
+      {
+        name: 'persona',
+        content: `
 You are ${this.name}, a specialized ${this.type} agent.
 
 Your capabilities:
 ${this.capabilities.skills.join(', ')}
+        `.trim(),
+        priority: 100,
+        required: true
+      },
+      ...Array.from(this.context.entries()).map(([key, value]) => ({
+        name: `context:${key}`,
+        content: `${key}: ${JSON.stringify(value)}`,
+        priority: 1
+      }))
+    ];
+  }
 
-Current context:
-${contextSummary || 'No context available'}
+  // Workflow inputs come before the prompt so its output instructions stay last
+  protected buildPromptSections(userPrompt: string): PromptSection[] {
+    const inputs = Object.entries(this.activeTask?.context.inputs || {}).map(([key, value]) => ({
+      name: `input:${key}`,
+      content: `${key}: ${typeof value === 'string' ? value : JSON.stringify(value, null, 2)}`,
+      priority: 5
+    }));
+
+    return [...inputs, { name: 'prompt', content: userPrompt.trim(), priority: 10 }];
+  }
 
-Task:
-${userPrompt}
+  // The active task's attachments go with every prompt made for it
+  private composeMessages(system: PromptSection[], user: PromptSection[]): ChatMessage[] {
+    const attachments = this.activeTask?.context.attachments;
+    const inputs = user.filter(section => section.name.startsWith('input:'));
+    const prompt = user.filter(section => !section.name.startsWith('input:'));
+    const content = [
+      ...(inputs.length > 0
+        ? [`Inputs from earlier workflow steps:\n${inputs.map(section => section.content).join('\n\n')}`]
+        : []),
+      ...prompt.map(section => section.content)
+    ].join('\n\n');
+
+    return [
+      { role: 'system', content: this.composeSystem(system) },
+      { role: 'user', content, attachments: attachments?.length ? attachments : undefined }
+    ];
+  }
+
+  private composeSystem(sections: PromptSection[]): string {
+    const persona = sections.filter(section => !section.name.startsWith('context:'));
+    const context = sections.filter(section => section.name.startsWith('context:'));
+
+    return `
+${persona.map(section => section.content).join('\n\n')}
+
+Current context:
+${context.map(section => section.content).join('\n') || 'No context available'}
 
 Provide a detailed, actionable response.
     `.trim();
   }
 
+  // Condenses a prompt section that does not fit; billed to the active task like any other call
+  private async summarizeSection(text: string, targetTokens: number): Promise<string> {
+    return this.modelRouter.chat(
+      [
+        {
+          role: 'system',
+          content: `Summarize the material you are given in at most ${Math.max(1, Math.floor(targetTokens * 0.75))} words. Keep names, numbers, decisions and requirements; drop repetition and formatting.`
+        },
+        { role: 'user', content: text }
+      ],
+      {
+        ...this.buildOptions({ temperature: 0.2, maxTokens: targetTokens }),
+        tools: undefined,
+        onChunk: undefined,
+        ensemble: undefined
+      }
+    );
+  }
+
+  private resultMetadata(): Record<string, any> | undefined {
+    return this.contextDrops.length > 0 ? { contextDrops: [...this.contextDrops] } : undefined;
+  }
+
   protected updateMetrics(success: boolean, executionTime: number, taskType: string): void {
     this.metrics.totalTasks++;
     
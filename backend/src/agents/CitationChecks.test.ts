@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { checkCitations, citedNumbers } from './CitationChecks.js';
+
+const passages = [
+  'PostgreSQL supports partial indexes, which index only the rows matching a predicate.',
+  'In the 2024 survey, 1,200 teams reported that 38% of their queries hit a partial index.'
+];
+
+describe('citedNumbers', () => {
+  it('reads single and grouped markers in order', () => {
+    expect(citedNumbers('Fast [1]. Common [2, 3] and [ 4 ]. See also [1,2].')).toEqual([1, 2, 3, 1, 2]);
+  });
+});
+
+describe('checkCitations', () => {
+  it('accepts claims whose words and figures come from the cited passages', () => {
+    const result = checkCitations('Partial indexes exist [1]. Many teams use them [2].', [
+      { text: 'PostgreSQL supports partial indexes over matching rows', citations: [1] },
+      { text: '38% of queries from 1200 surveyed teams hit a partial index', citations: [2] }
+    ], passages);
+
+    expect(result).toEqual({ issues: [], unsupportedClaims: [] });
+  });
+
+  it('reports markers in the answer that point past the retrieved passages', () => {
+    const result = checkCitations('See [3] and [0], and again [3].', [], passages);
+
+    expect(result.issues).toEqual([
+      { claim: 'answer', severity: 'error', message: 'Cites [3], [0], which are not among the 2 retrieved passages' }
+    ]);
+  });
+
+  it('flags a claim citing only passages that were not retrieved', () => {
+    const claim = 'Partial indexes are faster';
+
+    const result = checkCitations('', [{ text: claim, citations: [5] }], passages);
+
+    expect(result.issues).toEqual([
+      { claim, severity: 'error', message: 'Cites [5], which were not retrieved' },
+      { claim, severity: 'warning', message: 'Cites no retrieved passage' }
+    ]);
+    expect(result.unsupportedClaims).toEqual([claim]);
+  });
+
+  it('flags a claim with too few of its words in the cited passages', () => {
+    const claim = 'MongoDB sharding balances collections automatically';
+
+    const result = checkCitations('', [{ text: claim, citations: [1] }], passages);
+
+    expect(result.issues).toEqual([
+      { claim, severity: 'warning', message: 'Only 0 of 5 key terms appear in the cited passages' }
+    ]);
+  });
+
+  it('honors a looser overlap threshold', () => {
+    const claims = [{ text: 'PostgreSQL partial indexes shrink disk storage dramatically', citations: [1] }];
+
+    expect(checkCitations('', claims, passages).unsupportedClaims).toHaveLength(1);
+    expect(checkCitations('', claims, passages, 0.4).unsupportedClaims).toHaveLength(0);
+  });
+
+  it('flags figures the cited passages do not contain', () => {
+    const claim = 'In the survey 45% of teams reported queries hitting a partial index';
+
+    const result = checkCitations('', [{ text: claim, citations: [2] }], passages);
+
+    expect(result.issues).toEqual([
+      { claim, severity: 'warning', message: 'States 45, which the cited passages do not contain' }
+    ]);
+  });
+
+  it('checks figures only against the passages a claim cites', () => {
+    const claim = 'Partial indexes matched 38% of queries';
+
+    expect(checkCitations('', [{ text: claim, citations: [1] }], passages).unsupportedClaims).toEqual([claim]);
+    expect(checkCitations('', [{ text: claim, citations: [1, 2] }], passages).unsupportedClaims).toEqual([]);
+  });
+});
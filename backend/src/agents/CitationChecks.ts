@@ -0,0 +1,110 @@
+// Citation Checks - whether each claim of an answer is backed by the passages it cites
+
+export interface Claim {
+  text: string;
+  // 1-based numbers of the passages the claim cites
+  citations: number[];
+}
+
+export interface CitationIssue {
+  // The claim text, or "answer" for problems with the answer as a whole
+  claim: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface CitationCheckResult {
+  issues: CitationIssue[];
+  unsupportedClaims: string[];
+}
+
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'with', 'this', 'that', 'these', 'those', 'from', 'into', 'onto',
+  'was', 'were', 'been', 'being', 'have', 'has', 'had', 'its', 'their', 'they', 'them', 'there', 'than', 'then',
+  'which', 'who', 'whom', 'what', 'when', 'where', 'while', 'will', 'would', 'can', 'could', 'should', 'may',
+  'might', 'must', 'also', 'such', 'more', 'most', 'some', 'any', 'all', 'each', 'other', 'about', 'over',
+  'under', 'between', 'both', 'only', 'very', 'our', 'your', 'his', 'her', 'she', 'him', 'you', 'per', 'via'
+]);
+
+// Passage numbers from inline markers such as [2] or [1, 3]
+export function citedNumbers(text: string): number[] {
+  const numbers: number[] = [];
+  for (const marker of text.matchAll(CITATION_MARKER)) {
+    numbers.push(...marker[1].split(',').map(part => Number(part.trim())));
+  }
+  return numbers;
+}
+
+/**
+ * Errors for citations of passages that were never retrieved. A claim is
+ * unsupported, and gets a warning, when it cites nothing, when under
+ * minOverlap of its content words appear in the passages it cites, or when
+ * it states a number none of them contain. Word matching is lexical, so a
+ * faithful paraphrase can be flagged; fabricated figures and off-topic
+ * claims are what it catches.
+ */
+export function checkCitations(
+  answer: string,
+  claims: Claim[],
+  passages: string[],
+  minOverlap: number = 0.5
+): CitationCheckResult {
+  const issues: CitationIssue[] = [];
+  const unsupportedClaims: string[] = [];
+  const inRange = (number: number) => Number.isInteger(number) && number >= 1 && number <= passages.length;
+
+  const unknown = [...new Set(citedNumbers(answer).filter(number => !inRange(number)))];
+  if (unknown.length > 0) {
+    issues.push({ claim: 'answer', severity: 'error', message: `Cites [${unknown.join('], [')}], which are not among the ${passages.length} retrieved passages` });
+  }
+
+  for (const claim of claims) {
+    const unsupported = (message: string) => {
+      issues.push({ claim: claim.text, severity: 'warning', message });
+      unsupportedClaims.push(claim.text);
+    };
+
+    const missing = claim.citations.filter(number => !inRange(number));
+    if (missing.length > 0) {
+      issues.push({ claim: claim.text, severity: 'error', message: `Cites [${missing.join('], [')}], which were not retrieved` });
+    }
+
+    const cited = claim.citations.filter(inRange).map(number => passages[number - 1]);
+    if (cited.length === 0) {
+      unsupported('Cites no retrieved passage');
+      continue;
+    }
+
+    const support = cited.join('\n');
+    const supportTerms = new Set(terms(support));
+    const claimTerms = [...new Set(terms(claim.text))];
+    const matched = claimTerms.filter(term => supportTerms.has(term)).length;
+    if (claimTerms.length > 0 && matched / claimTerms.length < minOverlap) {
+      unsupported(`Only ${matched} of ${claimTerms.length} key terms appear in the cited passages`);
+      continue;
+    }
+
+    const supportNumbers = new Set(numbersIn(support));
+    const figures = numbersIn(claim.text).filter(number => !supportNumbers.has(number));
+    if (figures.length > 0) {
+      unsupported(`States ${figures.join(', ')}, which the cited passages do not contain`);
+    }
+  }
+
+  return { issues, unsupportedClaims };
+}
+
+// Lowercased content words with a crude plural/suffix strip, so "indexes" matches "index"
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9-]{2,}/g) ?? [])
+    .filter(word => !STOPWORDS.has(word))
+    .map(word => word.replace(/(?:ies|es|s|ed|ing)$/, '') || word);
+}
+
+// "1,200" and "1200" compare equal; percentages keep their number
+function numbersIn(text: string): string[] {
+  return (text.replace(/\[\d+(?:\s*,\s*\d+)*\]/g, '').match(/\d[\d,]*(?:\.\d+)?/g) ?? [])
+    .map(number => number.replace(/,(?=\d{3}\b)/g, '').replace(/,$/, ''));
+}
@@ -0,0 +1,350 @@
+import { describe, expect, it } from 'vitest';
+import { checkDeploymentFile, checkDeploymentFiles, detectFileKind, isPinnedImage } from './DeploymentChecks.js';
+
+const messages = (path: string, content: string) => checkDeploymentFile({ path, content }).map(issue => `${issue.severity}: ${issue.message}`);
+
+const dockerfile = (body: string) => messages('Dockerfile', body);
+const workflow = (body: string) => messages('.github/workflows/ci.yml', body);
+const manifest = (body: string) => messages('k8s/app.yaml', body);
+
+const POD = [
+  '    spec:',
+  '      containers:',
+  '        - name: web',
+  '          image: nginx:1.27',
+  '          resources:',
+  '            limits:',
+  '              memory: 128Mi'
+].join('\n');
+
+describe('detectFileKind', () => {
+  it('recognizes Dockerfiles, workflows, Cloud Build configs and manifests', () => {
+    expect(detectFileKind({ path: 'Dockerfile', content: '' })).toBe('dockerfile');
+    expect(detectFileKind({ path: 'docker/Dockerfile.prod', content: '' })).toBe('dockerfile');
+    expect(detectFileKind({ path: 'api.dockerfile', content: '' })).toBe('dockerfile');
+    expect(detectFileKind({ path: '.github\\workflows\\ci.yaml', content: '' })).toBe('github-actions');
+    expect(detectFileKind({ path: 'cloudbuild.yaml', content: '' })).toBe('cloud-build');
+    expect(detectFileKind({ path: 'deploy.yml', content: 'apiVersion: v1\n' })).toBe('kubernetes');
+    expect(detectFileKind({ path: 'values.yml', content: 'replicas: 2\n' })).toBeUndefined();
+    expect(detectFileKind({ path: 'README.md', content: 'apiVersion: v1' })).toBeUndefined();
+  });
+
+  it('warns about files it cannot check', () => {
+    expect(messages('notes.txt', 'hello')).toEqual(['warning: Not a recognized deployment file, so it was not checked']);
+  });
+});
+
+describe('isPinnedImage', () => {
+  it('needs a tag other than latest, or a digest', () => {
+    expect(isPinnedImage('node:20-alpine')).toBe(true);
+    expect(isPinnedImage('node')).toBe(false);
+    expect(isPinnedImage('node:latest')).toBe(false);
+    expect(isPinnedImage('node:')).toBe(false);
+    expect(isPinnedImage(`node@sha256:${'a'.repeat(64)}`)).toBe(true);
+    expect(isPinnedImage('docker://alpine:3.20')).toBe(true);
+  });
+
+  it('does not mistake a registry port for a tag', () => {
+    expect(isPinnedImage('localhost:5000/app')).toBe(false);
+    expect(isPinnedImage('registry.example.com:443/team/app')).toBe(false);
+    expect(isPinnedImage('registry.example.com:443/team/app:2.1.0')).toBe(true);
+    expect(isPinnedImage('localhost:5000/app:latest')).toBe(false);
+  });
+
+  it('accepts variables that name a commit, tag or version', () => {
+    expect(isPinnedImage('gcr.io/$PROJECT_ID/app:$SHORT_SHA')).toBe(true);
+    expect(isPinnedImage('ghcr.io/org/app:${{ github.sha }}')).toBe(true);
+    expect(isPinnedImage('app:${VERSION}')).toBe(true);
+    expect(isPinnedImage('app:$BRANCH_NAME')).toBe(false);
+  });
+});
+
+describe('Dockerfile checks', () => {
+  it('accepts a pinned multi-stage build with a user and command', () => {
+    expect(
+      dockerfile(
+        [
+          '# syntax=docker/dockerfile:1',
+          'ARG NODE_VERSION=20.11',
+          'FROM --platform=linux/amd64 node:${NODE_VERSION} AS build',
+          'RUN npm ci \\',
+          '  && npm run build',
+          'FROM build AS test',
+          'FROM gcr.io/distroless/nodejs20-debian12:nonroot',
+          'COPY --from=build /app /app',
+          'USER nonroot',
+          'CMD ["/app/index.js"]'
+        ].join('\n')
+      )
+    ).toEqual([]);
+  });
+
+  it('flags unpinned base images, unknown instructions and instructions before FROM', () => {
+    expect(dockerfile('RUN echo hi\nFROM node\nFROM ubuntu:latest\nRUNN apt-get update\nUSER app\nCMD ["sh"]')).toEqual([
+      'error: RUN appears before the first FROM',
+      'error: Base image node is not pinned to a version tag or digest',
+      'error: Base image ubuntu:latest is not pinned to a version tag or digest',
+      'error: Unknown instruction RUNN'
+    ]);
+  });
+
+  it('resolves ARG defaults in FROM and still flags an unpinned result', () => {
+    expect(dockerfile('ARG TAG=latest\nFROM node:${TAG}\nUSER app\nCMD ["node"]')).toEqual([
+      'error: Base image node:${TAG} is not pinned to a version tag or digest'
+    ]);
+  });
+
+  it('allows scratch and earlier stages as bases', () => {
+    expect(dockerfile('FROM golang:1.22 AS build\nFROM build AS verify\nFROM scratch\nUSER 65532\nENTRYPOINT ["/app"]')).toEqual([]);
+  });
+
+  it('warns when the final stage runs as root or has no command', () => {
+    expect(dockerfile('FROM node:20 AS build\nUSER node\nCMD ["node"]\nFROM node:20-slim\nCOPY . .')).toEqual([
+      'warning: Final stage has no CMD or ENTRYPOINT and relies on the base image',
+      'warning: Final stage has no USER, so the container runs as root'
+    ]);
+  });
+
+  it('needs a FROM', () => {
+    expect(dockerfile('# empty\n')).toEqual(['error: No FROM instruction']);
+    expect(dockerfile('FROM --platform=linux/amd64')).toEqual(['error: FROM has no image', 'error: No FROM instruction']);
+  });
+});
+
+describe('GitHub Actions checks', () => {
+  it('accepts a workflow with pinned actions, local actions and reusable workflows', () => {
+    expect(
+      workflow(
+        [
+          'on: push',
+          'jobs:',
+          '  test:',
+          '    runs-on: ubuntu-latest',
+          '    container: node:20',
+          '    steps:',
+          '      - uses: actions/checkout@v4',
+          '      - uses: ./.github/actions/setup',
+          '      - run: npm test',
+          '  deploy:',
+          '    needs: [test]',
+          '    uses: org/workflows/.github/workflows/deploy.yml@v1.2.0'
+        ].join('\n')
+      )
+    ).toEqual([]);
+  });
+
+  it('needs a trigger and jobs', () => {
+    expect(workflow('name: CI\n')).toEqual(['error: Missing "on" trigger', 'error: Missing "jobs"']);
+  });
+
+  it('flags unknown needs, missing runners and steps without exactly one of uses or run', () => {
+    expect(
+      workflow(
+        [
+          'on: push',
+          'jobs:',
+          '  build:',
+          '    needs: lint',
+          '    steps:',
+          '      - name: Both',
+          '        uses: actions/setup-node@v4',
+          '        run: npm ci',
+          '      - env: { A: b }',
+          '  empty:',
+          '    runs-on: ubuntu-latest',
+          '    steps: []'
+        ].join('\n')
+      )
+    ).toEqual([
+      'error: Job build needs unknown job lint',
+      'error: Job build is missing "runs-on"',
+      'error: Job build step "Both" needs exactly one of "uses" or "run"',
+      'error: Job build step 2 needs exactly one of "uses" or "run"',
+      'error: Job empty has no steps'
+    ]);
+  });
+
+  it('flags actions without a version or on a branch, and unpinned images', () => {
+    expect(
+      workflow(
+        [
+          'on: push',
+          'jobs:',
+          '  build:',
+          '    runs-on: ubuntu-latest',
+          '    container:',
+          '      image: node',
+          '    services:',
+          '      db:',
+          '        image: postgres:latest',
+          '    steps:',
+          '      - uses: actions/checkout',
+          '      - uses: actions/setup-node@main',
+          '      - uses: docker://alpine',
+          '      - uses: actions/cache@0123456789abcdef0123456789abcdef01234567'
+        ].join('\n')
+      )
+    ).toEqual([
+      'warning: Job build container node is not pinned',
+      'warning: Job build service db image postgres:latest is not pinned',
+      'error: Job build step 1 uses actions/checkout without a version',
+      'error: Job build step 2 uses actions/setup-node@main, a branch rather than a release tag or commit',
+      'error: Job build step 3 uses unpinned image docker://alpine'
+    ]);
+  });
+
+  it('reports YAML it cannot parse', () => {
+    expect(workflow('on: [push\njobs: {}')[0]).toMatch(/^error: Invalid YAML: /);
+  });
+});
+
+describe('Cloud Build checks', () => {
+  it('flags missing builders, unknown waitFor ids, duplicate ids and unpinned pushed images', () => {
+    expect(
+      messages(
+        'cloudbuild.yaml',
+        [
+          'steps:',
+          '  - id: build',
+          '    name: gcr.io/cloud-builders/docker',
+          '  - id: build',
+          '    name: gcr.io/cloud-builders/docker:24.0',
+          '    waitFor: ["-", "test"]',
+          '  - args: [echo]',
+          'images:',
+          '  - gcr.io/$PROJECT_ID/app:$SHORT_SHA',
+          '  - gcr.io/$PROJECT_ID/app'
+        ].join('\n')
+      )
+    ).toEqual([
+      'warning: Step "build" builder gcr.io/cloud-builders/docker is not pinned',
+      'error: Step "build" waits for unknown step test',
+      'error: Duplicate step id build',
+      'error: Step 3 is missing the builder image "name"',
+      'error: Pushed image gcr.io/$PROJECT_ID/app is not pinned to a version tag or digest'
+    ]);
+  });
+});
+
+describe('Kubernetes checks', () => {
+  it('accepts a deployment whose selector matches its pod labels, and a service with ports', () => {
+    expect(
+      manifest(
+        [
+          'apiVersion: apps/v1',
+          'kind: Deployment',
+          'metadata:',
+          '  name: web',
+          'spec:',
+          '  selector:',
+          '    matchLabels: { app: web }',
+          '  template:',
+          '    metadata:',
+          '      labels: { app: web, tier: front }',
+          POD,
+          '---',
+          'apiVersion: v1',
+          'kind: Service',
+          'metadata:',
+          '  name: web',
+          'spec:',
+          '  ports:',
+          '    - port: 80'
+        ].join('\n')
+      )
+    ).toEqual([]);
+  });
+
+  it('flags missing identity fields and duplicate manifests', () => {
+    expect(
+      manifest(
+        [
+          'apiVersion: v1',
+          'kind: ConfigMap',
+          'metadata: { name: settings }',
+          '---',
+          'apiVersion: v1',
+          'kind: ConfigMap',
+          'metadata: { name: settings }',
+          '---',
+          'apiVersion: v1',
+          'kind: ConfigMap',
+          'metadata: { name: settings, namespace: other }',
+          '---',
+          'apiVersion: v1',
+          'metadata: { name: nameless-kind }',
+          '---',
+          'kind: Secret',
+          'metadata: {}'
+        ].join('\n')
+      )
+    ).toEqual([
+      'error: ConfigMap settings is defined twice',
+      'error: Manifest is missing "kind"',
+      'error: Manifest is missing "apiVersion"',
+      'error: Secret is missing "metadata.name"'
+    ]);
+  });
+
+  it('checks containers, including init containers, for pinned images and limits', () => {
+    expect(
+      manifest(
+        [
+          'apiVersion: batch/v1',
+          'kind: CronJob',
+          'metadata: { name: nightly }',
+          'spec:',
+          '  jobTemplate:',
+          '    spec:',
+          '      template:',
+          '        spec:',
+          '          initContainers:',
+          '            - name: migrate',
+          '              image: localhost:5000/migrate',
+          '          containers:',
+          '            - name: run',
+          '              image: busybox:latest',
+          '              resources: { limits: { cpu: 100m } }',
+          '            - image: busybox:1.36'
+        ].join('\n')
+      )
+    ).toEqual([
+      'error: CronJob nightly container run image busybox:latest is not pinned to a version tag or digest',
+      'error: CronJob nightly has a container without a name',
+      'error: CronJob nightly container migrate image localhost:5000/migrate is not pinned to a version tag or digest',
+      'warning: CronJob nightly container migrate has no resource limits'
+    ]);
+  });
+
+  it('flags workloads without a pod spec or containers', () => {
+    expect(manifest('apiVersion: v1\nkind: Pod\nmetadata: { name: bare }')).toEqual(['error: Pod bare is missing its pod spec']);
+    expect(manifest('apiVersion: v1\nkind: Pod\nmetadata: { name: empty }\nspec: { containers: [] }')).toEqual(['error: Pod empty has no containers']);
+  });
+
+  it('flags selectors that are missing or do not match the pod template', () => {
+    const deployment = (selector: string) =>
+      manifest(['apiVersion: apps/v1', 'kind: Deployment', 'metadata: { name: web }', 'spec:', selector, '  template:', '    metadata:', '      labels: { app: web }', POD].join('\n'));
+
+    expect(deployment('  replicas: 1')).toEqual(['error: Deployment web is missing "spec.selector.matchLabels"']);
+    expect(deployment('  selector: { matchLabels: { app: api } }')).toEqual([
+      'error: Deployment web selector app=api does not match the pod template labels'
+    ]);
+  });
+
+  it('flags services without ports or with a port missing its number', () => {
+    expect(manifest('apiVersion: v1\nkind: Service\nmetadata: { name: a }\nspec: {}')).toEqual(['error: Service a has no ports']);
+    expect(manifest('apiVersion: v1\nkind: Service\nmetadata: { name: b }\nspec:\n  ports:\n    - targetPort: 80')).toEqual([
+      'error: Service b has a port without "port"'
+    ]);
+  });
+});
+
+describe('checkDeploymentFiles', () => {
+  it('labels each issue with its file', () => {
+    const issues = checkDeploymentFiles([
+      { path: 'Dockerfile', content: 'FROM node:20\nUSER node\nCMD ["node"]' },
+      { path: 'infra/Dockerfile', content: 'FROM node\nUSER node\nCMD ["node"]' }
+    ]);
+    expect(issues).toEqual([{ path: 'infra/Dockerfile', severity: 'error', message: 'Base image node is not pinned to a version tag or digest' }]);
+  });
+});
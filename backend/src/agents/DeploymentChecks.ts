@@ -0,0 +1,407 @@
+// Deployment Checks - offline validation of Dockerfiles, CI pipelines and Kubernetes manifests
+
+import { parseYaml, parseYamlDocuments } from '../shared/yaml.js';
+
+export type DeploymentFileKind = 'dockerfile' | 'github-actions' | 'cloud-build' | 'kubernetes';
+
+export interface DeploymentFile {
+  path: string;
+  content: string;
+}
+
+export interface DeploymentIssue {
+  path: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+type YamlMap = Record<string, unknown>;
+
+const DOCKERFILE_INSTRUCTIONS = new Set([
+  'FROM', 'RUN', 'CMD', 'LABEL', 'EXPOSE', 'ENV', 'ADD', 'COPY', 'ENTRYPOINT', 'VOLUME',
+  'USER', 'WORKDIR', 'ARG', 'ONBUILD', 'STOPSIGNAL', 'HEALTHCHECK', 'SHELL', 'MAINTAINER'
+]);
+
+// Where each workload kind keeps its pod spec
+const POD_SPEC_PATHS: Record<string, string[]> = {
+  Pod: ['spec'],
+  Deployment: ['spec', 'template', 'spec'],
+  StatefulSet: ['spec', 'template', 'spec'],
+  DaemonSet: ['spec', 'template', 'spec'],
+  ReplicaSet: ['spec', 'template', 'spec'],
+  Job: ['spec', 'template', 'spec'],
+  CronJob: ['spec', 'jobTemplate', 'spec', 'template', 'spec']
+};
+
+const SELECTOR_KINDS = new Set(['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet']);
+
+// Branch names move; an action pinned to one runs whatever was pushed last
+const FLOATING_REFS = new Set(['main', 'master', 'latest', 'head', 'develop', 'trunk']);
+
+export function detectFileKind(file: DeploymentFile): DeploymentFileKind | undefined {
+  const path = file.path.replace(/\\/g, '/');
+  const name = path.split('/').pop() ?? path;
+
+  if (/^Dockerfile(\..+)?$/i.test(name) || /\.dockerfile$/i.test(name)) return 'dockerfile';
+  if (!/\.ya?ml$/i.test(name)) return undefined;
+  if (path.includes('.github/workflows/')) return 'github-actions';
+  if (/^cloudbuild/i.test(name)) return 'cloud-build';
+  if (/^\s*apiVersion:/m.test(file.content)) return 'kubernetes';
+  return undefined;
+}
+
+/**
+ * A tag counts as pinned unless it is missing or "latest". Digests always
+ * count, and so do build-time variables naming a commit, tag or version
+ * (e.g. $SHORT_SHA, ${{ github.sha }}), since they resolve to a fixed value.
+ */
+export function isPinnedImage(image: string): boolean {
+  const reference = image.trim().replace(/^docker:\/\//, '');
+  if (reference.includes('@sha256:')) return true;
+
+  const name = reference.slice(reference.lastIndexOf('/') + 1);
+  const colon = name.indexOf(':');
+  if (colon === -1) return false;
+
+  const tag = name.slice(colon + 1);
+  if (tag.includes('$')) return /sha|tag|version|ref_name/i.test(tag);
+  return tag !== '' && tag !== 'latest';
+}
+
+export function checkDeploymentFiles(files: DeploymentFile[]): DeploymentIssue[] {
+  return files.flatMap(file => checkDeploymentFile(file));
+}
+
+export function checkDeploymentFile(file: DeploymentFile): DeploymentIssue[] {
+  const issues = new IssueList(file.path);
+  const kind = detectFileKind(file);
+
+  try {
+    switch (kind) {
+      case 'dockerfile':
+        checkDockerfile(file.content, issues);
+        break;
+      case 'github-actions':
+        checkGitHubActions(parseYaml(file.content), issues);
+        break;
+      case 'cloud-build':
+        checkCloudBuild(parseYaml(file.content), issues);
+        break;
+      case 'kubernetes':
+        checkKubernetes(parseYamlDocuments(file.content), issues);
+        break;
+      default:
+        issues.warn('Not a recognized deployment file, so it was not checked');
+    }
+  } catch (error) {
+    issues.error(`Invalid YAML: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return issues.items;
+}
+
+class IssueList {
+  items: DeploymentIssue[] = [];
+
+  constructor(private path: string) {}
+
+  error(message: string): void {
+    this.items.push({ path: this.path, severity: 'error', message });
+  }
+
+  warn(message: string): void {
+    this.items.push({ path: this.path, severity: 'warning', message });
+  }
+}
+
+function checkDockerfile(content: string, issues: IssueList): void {
+  // Join continuation lines, drop comments
+  const instructions = content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .filter(line => !/^\s*#/.test(line))
+    .join('\n')
+    .replace(/\\\n/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const [keyword, ...args] = line.split(/\s+/);
+      return { keyword: keyword.toUpperCase(), args };
+    });
+
+  const args = new Map<string, string>();
+  const stages = new Set<string>();
+  let finalStage: string[] = [];
+
+  for (const { keyword, args: values } of instructions) {
+    if (!DOCKERFILE_INSTRUCTIONS.has(keyword)) {
+      issues.error(`Unknown instruction ${keyword}`);
+      continue;
+    }
+
+    if (keyword === 'ARG' && stages.size === 0 && finalStage.length === 0) {
+      const [name, defaultValue] = values.join(' ').split('=');
+      if (defaultValue !== undefined) args.set(name, defaultValue);
+      continue;
+    }
+
+    if (keyword === 'FROM') {
+      const [image, as, alias] = values.filter(value => !value.startsWith('--'));
+      if (!image) {
+        issues.error('FROM has no image');
+        continue;
+      }
+      const resolved = image.replace(/\$\{?(\w+)\}?/g, (match, name: string) => args.get(name) ?? match);
+      if (resolved !== 'scratch' && !stages.has(resolved) && !isPinnedImage(resolved)) {
+        issues.error(`Base image ${image} is not pinned to a version tag or digest`);
+      }
+      if (as?.toUpperCase() === 'AS' && alias) stages.add(alias);
+      finalStage = ['FROM'];
+      continue;
+    }
+
+    if (finalStage.length === 0) {
+      issues.error(`${keyword} appears before the first FROM`);
+      continue;
+    }
+    finalStage.push(keyword);
+  }
+
+  if (finalStage.length === 0) {
+    issues.error('No FROM instruction');
+    return;
+  }
+  if (!finalStage.includes('CMD') && !finalStage.includes('ENTRYPOINT')) {
+    issues.warn('Final stage has no CMD or ENTRYPOINT and relies on the base image');
+  }
+  if (!finalStage.includes('USER')) {
+    issues.warn('Final stage has no USER, so the container runs as root');
+  }
+}
+
+function checkGitHubActions(workflow: unknown, issues: IssueList): void {
+  if (!isMap(workflow)) {
+    issues.error('Workflow must be a mapping');
+    return;
+  }
+  if (workflow.on === undefined) issues.error('Missing "on" trigger');
+
+  const jobs = workflow.jobs;
+  if (!isMap(jobs) || Object.keys(jobs).length === 0) {
+    issues.error('Missing "jobs"');
+    return;
+  }
+
+  for (const [id, job] of Object.entries(jobs)) {
+    if (!isMap(job)) {
+      issues.error(`Job ${id} must be a mapping`);
+      continue;
+    }
+
+    const needs = typeof job.needs === 'string' ? [job.needs] : job.needs;
+    if (Array.isArray(needs)) {
+      for (const dependency of needs) {
+        if (!(String(dependency) in jobs)) issues.error(`Job ${id} needs unknown job ${dependency}`);
+      }
+    }
+
+    // Reusable workflow calls have no runner or steps of their own
+    if (typeof job.uses === 'string') {
+      checkActionRef(job.uses, `Job ${id}`, issues);
+      continue;
+    }
+    if (job['runs-on'] === undefined) issues.error(`Job ${id} is missing "runs-on"`);
+
+    const container = isMap(job.container) ? job.container.image : job.container;
+    if (typeof container === 'string' && !isPinnedImage(container)) {
+      issues.warn(`Job ${id} container ${container} is not pinned`);
+    }
+    if (isMap(job.services)) {
+      for (const [name, service] of Object.entries(job.services)) {
+        if (isMap(service) && typeof service.image === 'string' && !isPinnedImage(service.image)) {
+          issues.warn(`Job ${id} service ${name} image ${service.image} is not pinned`);
+        }
+      }
+    }
+
+    if (!Array.isArray(job.steps) || job.steps.length === 0) {
+      issues.error(`Job ${id} has no steps`);
+      continue;
+    }
+    job.steps.forEach((step, index) => {
+      const label = `Job ${id} step ${isMap(step) && step.name ? `"${step.name}"` : index + 1}`;
+      if (!isMap(step)) {
+        issues.error(`${label} must be a mapping`);
+        return;
+      }
+      const hasUses = typeof step.uses === 'string';
+      const hasRun = typeof step.run === 'string';
+      if (hasUses === hasRun) {
+        issues.error(`${label} needs exactly one of "uses" or "run"`);
+      }
+      if (hasUses) checkActionRef(step.uses as string, label, issues);
+    });
+  }
+}
+
+function checkActionRef(uses: string, label: string, issues: IssueList): void {
+  if (uses.startsWith('./')) return;
+  if (uses.startsWith('docker://')) {
+    if (!isPinnedImage(uses)) issues.error(`${label} uses unpinned image ${uses}`);
+    return;
+  }
+
+  const ref = uses.split('@')[1];
+  if (!ref) {
+    issues.error(`${label} uses ${uses} without a version`);
+  } else if (FLOATING_REFS.has(ref.toLowerCase())) {
+    issues.error(`${label} uses ${uses}, a branch rather than a release tag or commit`);
+  }
+}
+
+function checkCloudBuild(build: unknown, issues: IssueList): void {
+  if (!isMap(build)) {
+    issues.error('Build config must be a mapping');
+    return;
+  }
+  if (!Array.isArray(build.steps) || build.steps.length === 0) {
+    issues.error('Missing "steps"');
+    return;
+  }
+
+  const ids = new Set<string>();
+  build.steps.forEach((step, index) => {
+    const label = `Step ${isMap(step) && step.id ? `"${step.id}"` : index + 1}`;
+    if (!isMap(step)) {
+      issues.error(`${label} must be a mapping`);
+      return;
+    }
+
+    if (typeof step.name !== 'string' || step.name === '') {
+      issues.error(`${label} is missing the builder image "name"`);
+    } else if (!isPinnedImage(step.name)) {
+      issues.warn(`${label} builder ${step.name} is not pinned`);
+    }
+
+    if (Array.isArray(step.waitFor)) {
+      for (const dependency of step.waitFor) {
+        if (dependency !== '-' && !ids.has(String(dependency))) {
+          issues.error(`${label} waits for unknown step ${dependency}`);
+        }
+      }
+    }
+    if (typeof step.id === 'string') {
+      if (ids.has(step.id)) issues.error(`Duplicate step id ${step.id}`);
+      ids.add(step.id);
+    }
+  });
+
+  if (Array.isArray(build.images)) {
+    for (const image of build.images) {
+      if (typeof image !== 'string' || !isPinnedImage(image)) {
+        issues.error(`Pushed image ${image} is not pinned to a version tag or digest`);
+      }
+    }
+  }
+}
+
+function checkKubernetes(documents: unknown[], issues: IssueList): void {
+  if (documents.length === 0) {
+    issues.error('No manifests in file');
+    return;
+  }
+
+  const seen = new Set<string>();
+  for (const document of documents) {
+    if (!isMap(document)) {
+      issues.error('Manifest must be a mapping');
+      continue;
+    }
+
+    const kind = document.kind;
+    const name = isMap(document.metadata) ? document.metadata.name : undefined;
+    if (typeof document.apiVersion !== 'string') issues.error('Manifest is missing "apiVersion"');
+    if (typeof kind !== 'string') {
+      issues.error('Manifest is missing "kind"');
+      continue;
+    }
+    if (typeof name !== 'string' || name === '') {
+      issues.error(`${kind} is missing "metadata.name"`);
+      continue;
+    }
+
+    const label = `${kind} ${name}`;
+    const namespace = isMap(document.metadata) ? document.metadata.namespace ?? '' : '';
+    const key = `${kind}/${namespace}/${name}`;
+    if (seen.has(key)) issues.error(`${label} is defined twice`);
+    seen.add(key);
+
+    if (POD_SPEC_PATHS[kind]) {
+      checkPodSpec(dig(document, POD_SPEC_PATHS[kind]), label, issues);
+    }
+    if (SELECTOR_KINDS.has(kind)) {
+      checkSelector(document, label, issues);
+    }
+    if (kind === 'Service') {
+      const ports = dig(document, ['spec', 'ports']);
+      if (!Array.isArray(ports) || ports.length === 0) {
+        issues.error(`${label} has no ports`);
+      } else if (ports.some(port => !isMap(port) || port.port === undefined)) {
+        issues.error(`${label} has a port without "port"`);
+      }
+    }
+  }
+}
+
+function checkPodSpec(spec: unknown, label: string, issues: IssueList): void {
+  if (!isMap(spec)) {
+    issues.error(`${label} is missing its pod spec`);
+    return;
+  }
+  if (!Array.isArray(spec.containers) || spec.containers.length === 0) {
+    issues.error(`${label} has no containers`);
+    return;
+  }
+
+  const containers = [...spec.containers, ...(Array.isArray(spec.initContainers) ? spec.initContainers : [])];
+  for (const container of containers) {
+    if (!isMap(container) || typeof container.name !== 'string') {
+      issues.error(`${label} has a container without a name`);
+      continue;
+    }
+
+    const containerLabel = `${label} container ${container.name}`;
+    if (typeof container.image !== 'string' || container.image === '') {
+      issues.error(`${containerLabel} has no image`);
+    } else if (!isPinnedImage(container.image)) {
+      issues.error(`${containerLabel} image ${container.image} is not pinned to a version tag or digest`);
+    }
+    if (!isMap(dig(container, ['resources', 'limits']))) {
+      issues.warn(`${containerLabel} has no resource limits`);
+    }
+  }
+}
+
+function checkSelector(document: YamlMap, label: string, issues: IssueList): void {
+  const selector = dig(document, ['spec', 'selector', 'matchLabels']);
+  const labels = dig(document, ['spec', 'template', 'metadata', 'labels']);
+  if (!isMap(selector)) {
+    issues.error(`${label} is missing "spec.selector.matchLabels"`);
+    return;
+  }
+  const podLabels = isMap(labels) ? labels : {};
+  for (const [key, value] of Object.entries(selector)) {
+    if (podLabels[key] !== value) {
+      issues.error(`${label} selector ${key}=${value} does not match the pod template labels`);
+    }
+  }
+}
+
+function dig(value: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((current, key) => (isMap(current) ? current[key] : undefined), value);
+}
+
+function isMap(value: unknown): value is YamlMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkComponents,
+  checkContrast,
+  checkDesignTokens,
+  checkWireframes,
+  contrastRatio,
+  parseColor,
+  type DesignTokens
+} from './DesignChecks.js';
+
+function tokens(overrides: Partial<DesignTokens> = {}): DesignTokens {
+  return {
+    colors: { text: '#111111', muted: '#767676', background: '#ffffff', primary: 'rgb(0, 82, 204)' },
+    typography: {
+      fontFamily: 'Inter, sans-serif',
+      scale: [
+        { name: 'body', size: 16, lineHeight: 24, weight: 400 },
+        { name: 'heading', size: 24, lineHeight: 32, weight: 700 }
+      ]
+    },
+    spacing: { sm: 8, md: 16 },
+    contrastPairs: [
+      { foreground: 'text', background: 'background', usage: 'text' },
+      { foreground: 'muted', background: 'background', usage: 'text' }
+    ],
+    ...overrides
+  };
+}
+
+const svg = (body: string, attributes = 'xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"') =>
+  `<svg ${attributes}>${body}</svg>`;
+
+describe('parseColor', () => {
+  it('reads short and long hex and rgb() colors', () => {
+    expect(parseColor('#0af')).toEqual([0, 170, 255]);
+    expect(parseColor(' #00AAFF ')).toEqual([0, 170, 255]);
+    expect(parseColor('rgb(0, 170, 255)')).toEqual([0, 170, 255]);
+  });
+
+  it('rejects translucent, named and out-of-range colors', () => {
+    expect(parseColor('rgba(0, 0, 0, 0.5)')).toBeUndefined();
+    expect(parseColor('#00000080')).toBeUndefined();
+    expect(parseColor('navy')).toBeUndefined();
+    expect(parseColor('rgb(256, 0, 0)')).toBeUndefined();
+  });
+});
+
+describe('contrastRatio', () => {
+  it('matches the WCAG reference values', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21, 5);
+    expect(contrastRatio('#ffffff', '#000000')).toBeCloseTo(21, 5);
+    expect(contrastRatio('#777777', '#777777')).toBe(1);
+  });
+
+  it('throws on colors it cannot read', () => {
+    expect(() => contrastRatio('transparent', '#ffffff')).toThrow('Cannot compute contrast of transparent on #ffffff');
+  });
+});
+
+describe('checkContrast', () => {
+  it('rounds ratios down before comparing them with the level minimum', () => {
+    const results = checkContrast(tokens({
+      colors: { muted: '#767676', lighter: '#777777', background: '#ffffff' },
+      contrastPairs: [
+        { foreground: 'muted', background: 'background', usage: 'text' },
+        { foreground: 'lighter', background: 'background', usage: 'text' },
+        { foreground: 'lighter', background: 'background', usage: 'large-text' }
+      ]
+    }));
+
+    expect(results.map(({ ratio, required, passes }) => ({ ratio, required, passes }))).toEqual([
+      { ratio: 4.54, required: 4.5, passes: true },
+      { ratio: 4.47, required: 4.5, passes: false },
+      { ratio: 4.47, required: 3, passes: true }
+    ]);
+  });
+
+  it('applies the stricter AAA minimums', () => {
+    const [, muted] = checkContrast(tokens(), 'AAA');
+
+    expect(muted).toMatchObject({ required: 7, passes: false });
+  });
+});
+
+describe('checkDesignTokens', () => {
+  it('finds nothing wrong with a consistent token set', () => {
+    expect(checkDesignTokens(tokens())).toEqual([]);
+  });
+
+  it('reports invalid colors, unknown pair colors and failing contrast', () => {
+    const issues = checkDesignTokens(tokens({
+      colors: { text: '#bbbbbb', background: '#ffffff', overlay: 'rgba(0,0,0,.4)' },
+      contrastPairs: [
+        { foreground: 'text', background: 'background', usage: 'text' },
+        { foreground: 'link', background: 'background', usage: 'text' }
+      ]
+    }));
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Color overlay is "rgba(0,0,0,.4)"; use an opaque #rrggbb or rgb() value',
+      'Contrast pair uses unknown color link',
+      'text on background has contrast 1.91:1, below the 4.5:1 WCAG AA minimum for text'
+    ]);
+    expect(issues.every(issue => issue.artifact === 'tokens' && issue.severity === 'error')).toBe(true);
+  });
+
+  it('requires at least one contrast pair', () => {
+    expect(checkDesignTokens(tokens({ contrastPairs: [] }))).toEqual([
+      { artifact: 'tokens', severity: 'error', message: 'No contrast pairs declared, so text colors cannot be checked' }
+    ]);
+  });
+
+  it('warns about an unordered or very small type scale', () => {
+    const issues = checkDesignTokens(tokens({
+      typography: {
+        fontFamily: 'Inter',
+        scale: [
+          { name: 'body', size: 16, lineHeight: 24, weight: 400 },
+          { name: 'caption', size: 10, lineHeight: 14, weight: 400 }
+        ]
+      }
+    }));
+
+    expect(issues).toEqual([
+      { artifact: 'tokens', severity: 'warning', message: 'Type scale is not in ascending size order' },
+      { artifact: 'tokens', severity: 'warning', message: 'Type scale has sizes under 12px, which are hard to read' }
+    ]);
+  });
+});
+
+describe('checkComponents', () => {
+  it('reports duplicate components and unknown token references', () => {
+    const issues = checkComponents([
+      { name: 'Button', description: 'Primary action', variants: ['primary'], tokens: ['colors.primary', 'spacing.md', 'typography.body'] },
+      { name: 'Button', description: 'Again', variants: [], tokens: ['colors.accent'] }
+    ], tokens());
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Component Button is listed twice',
+      'Component Button uses unknown token colors.accent'
+    ]);
+  });
+});
+
+describe('checkWireframes', () => {
+  it('accepts a well-formed wireframe for every page', () => {
+    const wireframes = [
+      { page: 'Home', svg: `<?xml version="1.0"?>\n<!-- header -->\n${svg('<g><rect x="0" y="0" width="100" height="20"/><text x="5" y="15">Logo</text></g>')}` },
+      { page: 'Settings', svg: svg('<rect width="10" height="10"/>') }
+    ];
+
+    expect(checkWireframes(wireframes, ['home', 'Settings'])).toEqual([]);
+  });
+
+  it('reports pages without a wireframe', () => {
+    expect(checkWireframes([{ page: 'Home', svg: svg('') }], ['Home', 'Checkout'])).toEqual([
+      { artifact: 'wireframes', severity: 'error', message: 'No wireframe for page Checkout' }
+    ]);
+  });
+
+  it('reports structural problems per page', () => {
+    const check = (markup: string) => checkWireframes([{ page: 'Home', svg: markup }]).map(issue => issue.message);
+
+    expect(check('<div>not svg</div>')).toEqual(['Does not start with an <svg> element']);
+    expect(check(svg('', 'viewBox="0 0 10 10"'))).toEqual(['<svg> is missing xmlns="http://www.w3.org/2000/svg"']);
+    expect(check(svg('', 'xmlns="http://www.w3.org/2000/svg"'))).toEqual(['<svg> has no viewBox, so it will not scale']);
+    expect(check(svg('<g><rect/></text>'))).toEqual(['</text> closes <g>']);
+    expect(check(svg('<g>').slice(0, -'</svg>'.length))).toEqual(['<g> is never closed']);
+    expect(check(`${svg('')}<svg></svg>`)).toEqual(['Content after the closing </svg>']);
+    expect(check(svg('<rect width=10/>'))).toEqual(['Contains malformed tags']);
+  });
+
+  it('rejects scripts, event handlers and external references', () => {
+    for (const body of [
+      '<script>alert(1)</script>',
+      '<rect onclick="alert(1)"/>',
+      '<image href="https://example.com/x.png"/>',
+      '<a href="javascript:alert(1)"><rect/></a>',
+      '<foreignObject><div/></foreignObject>'
+    ]) {
+      const issues = checkWireframes([{ page: 'Home', svg: svg(body) }]);
+      expect(issues.map(issue => issue.message)).toContain('Contains scripts, event handlers or external references');
+    }
+  });
+});
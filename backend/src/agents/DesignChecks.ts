@@ -0,0 +1,246 @@
+// Design Checks - deterministic checks of design tokens, WCAG contrast and SVG wireframes
+
+export type WcagLevel = 'AA' | 'AAA';
+export type ContrastUsage = 'text' | 'large-text' | 'ui';
+
+export interface DesignTokens {
+  colors: Record<string, string>;
+  typography: {
+    fontFamily: string;
+    scale: Array<{ name: string; size: number; lineHeight: number; weight: number }>;
+  };
+  spacing: Record<string, number>;
+  contrastPairs: Array<{ foreground: string; background: string; usage: ContrastUsage }>;
+}
+
+export interface ComponentSpec {
+  name: string;
+  description: string;
+  variants: string[];
+  // Token references such as "colors.primary" or "spacing.md"
+  tokens: string[];
+}
+
+export interface Wireframe {
+  page: string;
+  svg: string;
+}
+
+export interface ContrastResult {
+  foreground: string;
+  background: string;
+  usage: ContrastUsage;
+  ratio: number;
+  required: number;
+  passes: boolean;
+}
+
+export interface DesignIssue {
+  artifact: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// WCAG 2.1 success criteria 1.4.3 and 1.4.6 for text, 1.4.11 for UI components
+const REQUIRED_CONTRAST: Record<WcagLevel, Record<ContrastUsage, number>> = {
+  AA: { text: 4.5, 'large-text': 3, ui: 3 },
+  AAA: { text: 7, 'large-text': 4.5, ui: 3 }
+};
+
+// Elements and attributes that run code or pull in outside content
+const UNSAFE_SVG = /<\s*(script|foreignObject|iframe)\b|\son\w+\s*=|(?:href|src)\s*=\s*["']\s*(?:javascript:|https?:)/i;
+
+// Parses #rgb, #rrggbb and rgb(r, g, b); translucent colors have no fixed contrast, so they are rejected
+export function parseColor(value: string): [number, number, number] | undefined {
+  const color = value.trim().toLowerCase();
+
+  const short = color.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+  if (short) return [short[1], short[2], short[3]].map(digit => parseInt(digit + digit, 16)) as [number, number, number];
+
+  const long = color.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/);
+  if (long) return [long[1], long[2], long[3]].map(pair => parseInt(pair, 16)) as [number, number, number];
+
+  const rgb = color.match(/^rgb\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)$/);
+  if (rgb) {
+    const channels = [rgb[1], rgb[2], rgb[3]].map(Number);
+    if (channels.every(channel => channel <= 255)) return channels as [number, number, number];
+  }
+  return undefined;
+}
+
+// Relative luminance as defined by WCAG 2.1
+export function relativeLuminance([red, green, blue]: [number, number, number]): number {
+  const linear = (channel: number) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * linear(red) + 0.7152 * linear(green) + 0.0722 * linear(blue);
+}
+
+export function contrastRatio(foreground: string, background: string): number {
+  const a = parseColor(foreground);
+  const b = parseColor(background);
+  if (!a || !b) {
+    throw new Error(`Cannot compute contrast of ${foreground} on ${background}`);
+  }
+
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Checks each declared pair; pairs naming unknown or invalid colors are left to checkDesignTokens
+export function checkContrast(tokens: DesignTokens, level: WcagLevel = 'AA'): ContrastResult[] {
+  const results: ContrastResult[] = [];
+  for (const pair of tokens.contrastPairs) {
+    const foreground = tokens.colors[pair.foreground];
+    const background = tokens.colors[pair.background];
+    if (!foreground || !background || !parseColor(foreground) || !parseColor(background)) continue;
+
+    // Rounded down, so 4.496 does not pass as 4.5
+    const ratio = Math.floor(contrastRatio(foreground, background) * 100) / 100;
+    const required = REQUIRED_CONTRAST[level][pair.usage];
+    results.push({ ...pair, ratio, required, passes: ratio >= required });
+  }
+  return results;
+}
+
+export function checkDesignTokens(tokens: DesignTokens, level: WcagLevel = 'AA'): DesignIssue[] {
+  const issues = new IssueList('tokens');
+
+  for (const [name, value] of Object.entries(tokens.colors)) {
+    if (!parseColor(value)) {
+      issues.error(`Color ${name} is "${value}"; use an opaque #rrggbb or rgb() value`);
+    }
+  }
+
+  for (const pair of tokens.contrastPairs) {
+    for (const name of [pair.foreground, pair.background]) {
+      if (!(name in tokens.colors)) issues.error(`Contrast pair uses unknown color ${name}`);
+    }
+  }
+  if (tokens.contrastPairs.length === 0) {
+    issues.error('No contrast pairs declared, so text colors cannot be checked');
+  }
+
+  for (const result of checkContrast(tokens, level)) {
+    if (!result.passes) {
+      issues.error(
+        `${result.foreground} on ${result.background} has contrast ${result.ratio.toFixed(2)}:1, ` +
+        `below the ${result.required}:1 WCAG ${level} minimum for ${result.usage}`
+      );
+    }
+  }
+
+  const sizes = tokens.typography.scale.map(step => step.size);
+  if (sizes.some((size, index) => index > 0 && size <= sizes[index - 1])) {
+    issues.warn('Type scale is not in ascending size order');
+  }
+  if (sizes.some(size => size < 12)) {
+    issues.warn('Type scale has sizes under 12px, which are hard to read');
+  }
+
+  return issues.items;
+}
+
+export function checkComponents(components: ComponentSpec[], tokens: DesignTokens): DesignIssue[] {
+  const issues = new IssueList('components');
+  const known = new Set([
+    ...Object.keys(tokens.colors).map(name => `colors.${name}`),
+    ...Object.keys(tokens.spacing).map(name => `spacing.${name}`),
+    ...tokens.typography.scale.map(step => `typography.${step.name}`)
+  ]);
+
+  const names = new Set<string>();
+  for (const component of components) {
+    if (names.has(component.name)) issues.error(`Component ${component.name} is listed twice`);
+    names.add(component.name);
+
+    for (const token of component.tokens) {
+      if (!known.has(token)) issues.error(`Component ${component.name} uses unknown token ${token}`);
+    }
+  }
+  return issues.items;
+}
+
+export function checkWireframes(wireframes: Wireframe[], pages: string[] = []): DesignIssue[] {
+  const issues: DesignIssue[] = [];
+
+  const covered = new Set(wireframes.map(wireframe => wireframe.page.toLowerCase()));
+  for (const page of pages) {
+    if (!covered.has(page.toLowerCase())) {
+      issues.push({ artifact: 'wireframes', severity: 'error', message: `No wireframe for page ${page}` });
+    }
+  }
+
+  for (const wireframe of wireframes) {
+    const list = new IssueList(`wireframe ${wireframe.page}`);
+    checkSvg(wireframe.svg, list);
+    issues.push(...list.items);
+  }
+  return issues;
+}
+
+class IssueList {
+  items: DesignIssue[] = [];
+
+  constructor(private artifact: string) {}
+
+  error(message: string): void {
+    this.items.push({ artifact: this.artifact, severity: 'error', message });
+  }
+
+  warn(message: string): void {
+    this.items.push({ artifact: this.artifact, severity: 'warning', message });
+  }
+}
+
+// Structural check only: one <svg> root, balanced tags, a viewBox, nothing executable
+function checkSvg(svg: string, issues: IssueList): void {
+  // Comments go first: a model often puts one between the prolog and the root
+  const source = svg.replace(/<!--[\s\S]*?-->/g, '').trim().replace(/^<\?xml[^>]*\?>\s*/, '');
+  if (!/^<svg[\s>]/.test(source)) {
+    issues.error('Does not start with an <svg> element');
+    return;
+  }
+
+  const root = source.match(/^<svg\b[^>]*>/)![0];
+  if (!/\sxmlns\s*=\s*["']http:\/\/www\.w3\.org\/2000\/svg["']/.test(root)) {
+    issues.error('<svg> is missing xmlns="http://www.w3.org/2000/svg"');
+  }
+  if (!/\sviewBox\s*=/.test(root)) {
+    issues.warn('<svg> has no viewBox, so it will not scale');
+  }
+  if (UNSAFE_SVG.test(source)) {
+    issues.error('Contains scripts, event handlers or external references');
+  }
+
+  const stack: string[] = [];
+  const tags = /<(\/?)([a-zA-Z][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>/g;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+  while ((match = tags.exec(source)) !== null) {
+    const [, closing, name, , selfClosing] = match;
+    if (closing) {
+      const open = stack.pop();
+      if (open !== name) {
+        issues.error(`</${name}> closes ${open ? `<${open}>` : 'nothing'}`);
+        return;
+      }
+    } else if (!selfClosing) {
+      if (stack.length === 0 && consumed > 0) {
+        issues.error('Content after the closing </svg>');
+        return;
+      }
+      stack.push(name);
+    }
+    consumed++;
+  }
+
+  if (stack.length > 0) {
+    issues.error(`<${stack[stack.length - 1]}> is never closed`);
+  }
+  const tagCount = (source.match(/<[a-zA-Z/]/g) || []).length;
+  if (tagCount !== consumed) {
+    issues.error('Contains malformed tags');
+  }
+}
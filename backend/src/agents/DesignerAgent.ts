@@ -0,0 +1,239 @@
+// Designer Agent - Specializes in design systems, component inventories and wireframes
+
+import { z } from 'zod';
+import { Agent, complexitySchema } from './Agent.js';
+import {
+  checkComponents,
+  checkContrast,
+  checkDesignTokens,
+  checkWireframes,
+  type DesignIssue,
+  type WcagLevel
+} from './DesignChecks.js';
+import type { ModelRouter } from '../models/ModelRouter.js';
+import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
+
+const designAnalysisSchema = z.object({
+  audience: z.string(),
+  brandAttributes: z.array(z.string()).default([]),
+  pages: z.array(z.string()).min(1),
+  components: z.array(z.string()).default([]),
+  approach: z.string(),
+  complexity: complexitySchema,
+  steps: z.array(z.string()).min(1)
+}).passthrough();
+
+const designBundleSchema = z.object({
+  tokens: z.object({
+    colors: z.record(z.string()),
+    typography: z.object({
+      fontFamily: z.string(),
+      scale: z.array(z.object({
+        name: z.string(),
+        size: z.number().positive(),
+        lineHeight: z.number().positive(),
+        weight: z.number().int().min(100).max(900)
+      })).min(1)
+    }),
+    spacing: z.record(z.number().nonnegative()),
+    contrastPairs: z.array(z.object({
+      foreground: z.string(),
+      background: z.string(),
+      usage: z.enum(['text', 'large-text', 'ui'])
+    })).default([])
+  }),
+  components: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+    variants: z.array(z.string()).default([]),
+    tokens: z.array(z.string()).default([])
+  })).min(1),
+  wireframes: z.array(z.object({
+    page: z.string(),
+    svg: z.string()
+  })).min(1),
+  notes: z.string().default('')
+});
+
+type DesignBundle = z.infer<typeof designBundleSchema>;
+
+export class DesignerAgent extends Agent {
+  private designSystems: string[];
+  private wcagLevel: WcagLevel;
+  private repairAttempts: number;
+
+  constructor(modelRouter: ModelRouter, config?: {
+    designSystems?: string[];
+    wcagLevel?: WcagLevel;
+    // Rounds of fixing the artifacts against the check results
+    repairAttempts?: number;
+  }) {
+    const capabilities: AgentCapabilities = {
+      skills: [
+        'design-tokens',
+        'wireframing',
+        'component-design',
+        'accessibility',
+        'visual-design',
+        'information-architecture',
+        ...(config?.designSystems || [])
+      ],
+      maxConcurrentTasks: 2,
+      specializations: ['ui-ux-design', 'design-systems', 'accessibility'],
+      supportedTaskTypes: ['DESIGN' as any]
+    };
+
+    super('Designer Agent', 'DESIGNER' as any, capabilities, modelRouter);
+
+    this.designSystems = config?.designSystems || [
+      'Material Design',
+      'Tailwind',
+      'Radix'
+    ];
+
+    this.wcagLevel = config?.wcagLevel ?? 'AA';
+    this.repairAttempts = config?.repairAttempts ?? 1;
+  }
+
+  protected async analyzeTask(task: Task): Promise<TaskAnalysis> {
+    const prompt = `
+Analyze this design task:
+Title: ${task.title}
+Description: ${task.description}
+Reference design systems: ${this.designSystems.join(', ')}
+
+Determine:
+1. Target audience
+2. Brand attributes the design should convey
+3. Key pages that need wireframes
+4. Components the pages are built from
+5. Design approach
+6. Estimated complexity (low/medium/high)
+
+Respond in JSON format with keys: audience, brandAttributes, pages, components, approach, complexity, steps.
+    `;
+
+    const parsed = await this.executeStructured(prompt, designAnalysisSchema, {
+      temperature: 0.5,
+      maxTokens: 1500
+    });
+
+    return {
+      estimatedComplexity: parsed.complexity,
+      requiredSteps: parsed.steps,
+      potentialChallenges: [],
+      recommendedApproach: parsed.approach,
+      additionalInfo: parsed
+    };
+  }
+
+  protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
+    const pages: string[] = analysis.additionalInfo.pages;
+    const prompt = `
+Based on this analysis:
+${JSON.stringify(analysis, null, 2)}
+
+Produce the design artifacts for this task:
+${task.description}
+
+Requirements:
+- tokens.colors: named colors as #rrggbb values
+- tokens.typography: a font family and an ascending type scale (name, size in px, lineHeight, weight)
+- tokens.spacing: named spacing steps in px
+- tokens.contrastPairs: every foreground/background color pair used together, with usage "text", "large-text" or "ui"
+- Meet WCAG 2.1 ${this.wcagLevel} contrast for every pair
+- components: name, description, variants and the tokens each uses, written as "colors.<name>", "spacing.<name>" or "typography.<name>"
+- wireframes: one low-fidelity SVG per page (${pages.join(', ')}) with xmlns and a viewBox, using boxes and labels only, no scripts or external images
+
+Respond in JSON format with keys: tokens, components, wireframes, notes.
+    `;
+
+    let bundle = await this.executeStructured(prompt, designBundleSchema, {
+      temperature: 0.4,
+      maxTokens: 8000
+    });
+    let issues = this.checkBundle(bundle, pages);
+
+    for (let attempt = 0; attempt < this.repairAttempts && issues.some(issue => issue.severity === 'error'); attempt++) {
+      bundle = await this.repairBundle(bundle, issues);
+      issues = this.checkBundle(bundle, pages);
+    }
+
+    return {
+      ...bundle,
+      contrast: checkContrast(bundle.tokens, this.wcagLevel),
+      wcagLevel: this.wcagLevel,
+      pages,
+      issues,
+      analysis
+    };
+  }
+
+  // Contrast is computed, not judged: the WCAG formula gives the same answer every time
+  protected async validate(result: any): Promise<ValidationResult> {
+    const parsed = designBundleSchema.safeParse(result);
+    if (!parsed.success) {
+      return {
+        isValid: false,
+        reason: 'Design artifacts are incomplete',
+        suggestions: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      };
+    }
+
+    const issues = this.checkBundle(parsed.data, result.pages);
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const describe = (issue: DesignIssue) => `${issue.artifact}: ${issue.message}`;
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        reason: errors.map(describe).join('; '),
+        suggestions: issues.map(describe)
+      };
+    }
+
+    return {
+      isValid: true,
+      suggestions: issues.length > 0 ? issues.map(describe) : undefined
+    };
+  }
+
+  private checkBundle(bundle: DesignBundle, pages?: string[]): DesignIssue[] {
+    return [
+      ...checkDesignTokens(bundle.tokens, this.wcagLevel),
+      ...checkComponents(bundle.components, bundle.tokens),
+      ...checkWireframes(bundle.wireframes, pages)
+    ];
+  }
+
+  private async repairBundle(bundle: DesignBundle, issues: DesignIssue[]): Promise<DesignBundle> {
+    const prompt = `
+These design artifacts failed automated checks.
+
+Artifacts:
+${JSON.stringify(bundle, null, 2)}
+
+Problems:
+${issues.map(issue => `- [${issue.severity}] ${issue.artifact}: ${issue.message}`).join('\n')}
+
+Fix every error and as many warnings as practical. For contrast failures, darken or lighten the colors rather than dropping the pair.
+Respond in JSON format with keys: tokens, components, wireframes, notes.
+    `;
+
+    return this.executeStructured(prompt, designBundleSchema, {
+      temperature: 0.2,
+      maxTokens: 8000
+    });
+  }
+
+  async createWireframe(page: string, description: string): Promise<string> {
+    const prompt = `
+Draw a low-fidelity wireframe of the ${page} page as a single SVG:
+${description}
+
+Use boxes and text labels only, include xmlns and a viewBox, and return just the SVG markup.
+    `;
+
+    return this.executeWithModel(prompt, { temperature: 0.3 });
+  }
+}
@@ -0,0 +1,207 @@
+// DevOps Agent - Specializes in containerization, CI/CD pipelines and Kubernetes deployments
+
+import { z } from 'zod';
+import { Agent, complexitySchema } from './Agent.js';
+import { checkDeploymentFiles, type DeploymentFile, type DeploymentIssue } from './DeploymentChecks.js';
+import type { ModelRouter } from '../models/ModelRouter.js';
+import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
+
+const devopsAnalysisSchema = z.object({
+  runtime: z.string(),
+  ciSystem: z.string(),
+  deploymentTarget: z.string(),
+  artifacts: z.array(z.string()).default([]),
+  approach: z.string(),
+  risks: z.array(z.string()).default([]),
+  complexity: complexitySchema,
+  steps: z.array(z.string()).min(1)
+}).passthrough();
+
+const deploymentBundleSchema = z.object({
+  files: z.array(z.object({
+    path: z.string().min(1),
+    content: z.string().min(1)
+  })).min(1),
+  notes: z.string().default('')
+});
+
+type DeploymentBundle = z.infer<typeof deploymentBundleSchema>;
+
+export class DevOpsAgent extends Agent {
+  private ciSystems: string[];
+  private platforms: string[];
+  private repairAttempts: number;
+
+  constructor(modelRouter: ModelRouter, config?: {
+    ciSystems?: string[];
+    platforms?: string[];
+    // Rounds of fixing the files against the offline check results
+    repairAttempts?: number;
+  }) {
+    const capabilities: AgentCapabilities = {
+      skills: [
+        'containerization',
+        'ci-cd',
+        'kubernetes',
+        'infrastructure-as-code',
+        'release-management',
+        'observability',
+        ...(config?.ciSystems || []),
+        ...(config?.platforms || [])
+      ],
+      maxConcurrentTasks: 2,
+      specializations: ['devops', 'deployment', 'cloud-infrastructure'],
+      supportedTaskTypes: ['DEPLOYMENT' as any]
+    };
+
+    super('DevOps Agent', 'DEVOPS' as any, capabilities, modelRouter);
+
+    this.ciSystems = config?.ciSystems || [
+      'GitHub Actions',
+      'Cloud Build'
+    ];
+
+    this.platforms = config?.platforms || [
+      'Kubernetes',
+      'Cloud Run',
+      'Docker'
+    ];
+
+    this.repairAttempts = config?.repairAttempts ?? 1;
+  }
+
+  protected async analyzeTask(task: Task): Promise<TaskAnalysis> {
+    const prompt = `
+Analyze this deployment task:
+Title: ${task.title}
+Description: ${task.description}
+Available CI systems: ${this.ciSystems.join(', ')}
+Deployment platforms: ${this.platforms.join(', ')}
+
+Determine:
+1. Application runtime and base image family
+2. CI system to use
+3. Deployment target
+4. Files to produce (Dockerfile, pipeline, manifests)
+5. Deployment approach (build, push, rollout, rollback)
+6. Risks
+7. Estimated complexity (low/medium/high)
+
+Respond in JSON format with keys: runtime, ciSystem, deploymentTarget, artifacts, approach, risks, complexity, steps.
+    `;
+
+    const parsed = await this.executeStructured(prompt, devopsAnalysisSchema, {
+      temperature: 0.3,
+      maxTokens: 1500
+    });
+
+    return {
+      estimatedComplexity: parsed.complexity,
+      requiredSteps: parsed.steps,
+      potentialChallenges: parsed.risks,
+      recommendedApproach: parsed.approach,
+      additionalInfo: parsed
+    };
+  }
+
+  protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
+    const prompt = `
+Based on this analysis:
+${JSON.stringify(analysis, null, 2)}
+
+Produce the deployment files for this task:
+${task.description}
+
+Requirements:
+- Name each file by its path: Dockerfile, .github/workflows/<name>.yml, cloudbuild.yaml, k8s/<name>.yaml
+- Pin every image to a version tag or digest, never "latest"; pin GitHub Actions to a release tag or commit
+- Use a multi-stage Dockerfile that runs as a non-root USER
+- Give every Kubernetes workload resource limits and a selector matching its pod labels
+- Keep secrets out of the files; reference them from the CI system or Kubernetes Secrets
+
+Respond in JSON format with keys: files (array of { path, content }), notes.
+    `;
+
+    let bundle = await this.executeStructured(prompt, deploymentBundleSchema, {
+      temperature: 0.2,
+      maxTokens: 6000
+    });
+    let issues = checkDeploymentFiles(bundle.files);
+
+    for (let attempt = 0; attempt < this.repairAttempts && issues.some(issue => issue.severity === 'error'); attempt++) {
+      bundle = await this.repairFiles(bundle, issues);
+      issues = checkDeploymentFiles(bundle.files);
+    }
+
+    return {
+      files: bundle.files,
+      notes: bundle.notes,
+      issues,
+      ciSystem: analysis.additionalInfo.ciSystem,
+      deploymentTarget: analysis.additionalInfo.deploymentTarget,
+      analysis
+    };
+  }
+
+  // Checked offline: asking the model to grade its own YAML misses the mistakes it just made
+  protected async validate(result: any): Promise<ValidationResult> {
+    if (!Array.isArray(result.files) || result.files.length === 0) {
+      return {
+        isValid: false,
+        reason: 'No deployment files generated'
+      };
+    }
+
+    const issues = checkDeploymentFiles(result.files);
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const describe = (issue: DeploymentIssue) => `${issue.path}: ${issue.message}`;
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        reason: errors.map(describe).join('; '),
+        suggestions: issues.map(describe)
+      };
+    }
+
+    return {
+      isValid: true,
+      suggestions: issues.length > 0 ? issues.map(describe) : undefined
+    };
+  }
+
+  private async repairFiles(bundle: DeploymentBundle, issues: DeploymentIssue[]): Promise<DeploymentBundle> {
+    const prompt = `
+These deployment files failed automated checks.
+
+Files:
+${bundle.files.map(file => `--- ${file.path}\n${file.content}`).join('\n\n')}
+
+Problems:
+${issues.map(issue => `- [${issue.severity}] ${issue.path}: ${issue.message}`).join('\n')}
+
+Fix every error and as many warnings as practical. Return all files, changed or not.
+Respond in JSON format with keys: files (array of { path, content }), notes.
+    `;
+
+    return this.executeStructured(prompt, deploymentBundleSchema, {
+      temperature: 0.1,
+      maxTokens: 6000
+    });
+  }
+
+  checkFiles(files: DeploymentFile[]): DeploymentIssue[] {
+    return checkDeploymentFiles(files);
+  }
+
+  async writeDockerfile(specification: string): Promise<string> {
+    const prompt = `
+Write a production Dockerfile for:
+${specification}
+
+Use a multi-stage build, pin the base images to version tags, and run as a non-root user.
+    `;
+
+    return this.executeWithModel(prompt, { temperature: 0.2 });
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { CassetteProvider } from '../models/CassetteProvider.js';
+import { ModelRouter } from '../models/ModelRouter.js';
+import { Orchestrator } from '../orchestration/Orchestrator.js';
+import { TaskPriority, TaskType } from '../shared/types.js';
+import { DeveloperAgent } from './DeveloperAgent.js';
+
+// The recording the offline example replays; strict replay fails on any prompt it does not contain
+const cassettePath = fileURLToPath(new URL('../../cassettes/example.json', import.meta.url));
+
+function orchestratorWithCassette(): Orchestrator {
+  const router = new ModelRouter();
+  const cassette = new CassetteProvider({ path: cassettePath, mode: 'replay', match: 'strict' });
+  router.registerProvider(cassette.name, cassette);
+  router.setDefaultProvider(cassette.name);
+
+  const orchestrator = new Orchestrator();
+  orchestrator.getRegistry().registerAgent(new DeveloperAgent(router));
+  return orchestrator;
+}
+
+describe('DeveloperAgent', () => {
+  it('generates and validates code from a recorded session', async () => {
+    const orchestrator = orchestratorWithCassette();
+
+    const taskId = await orchestrator.submitTask({
+      title: 'Create Hello World API',
+      description: 'Create a simple REST API endpoint that returns "Hello World"',
+      type: TaskType.CODE_GENERATION,
+      priority: TaskPriority.HIGH,
+      requiredCapabilities: ['Node.js', 'Express']
+    });
+    const result = await orchestrator.waitForTask(taskId, 10000);
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.result.language).toBe('TypeScript');
+    expect(result.result.files.map((file: { name: string }) => file.name)).toEqual(['src/app.ts', 'src/server.ts']);
+    expect(result.result.files[0].content).toContain("app.get('/hello'");
+  });
+});
@@ -1,9 +1,20 @@
 // Developer Agent - Specializes in code generation and review
 
-import { Agent } from './Agent.js';
+import { z } from 'zod';
+import { Agent, complexitySchema, reviewSchema } from './Agent.js';
 import type { ModelRouter } from '../models/ModelRouter.js';
 import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
 
+const developerAnalysisSchema = z.object({
+  language: z.string(),
+  dependencies: z.array(z.string()).default([]),
+  fileStructure: z.unknown().optional(),
+  approach: z.string(),
+  challenges: z.array(z.string()).default([]),
+  complexity: complexitySchema,
+  steps: z.array(z.string()).min(1)
+}).passthrough();
+
 export class DeveloperAgent extends Agent {
   private programmingLanguages: string[];
   private frameworks: string[];
@@ -66,30 +77,18 @@ Determine:
 Respond in JSON format with keys: language, dependencies, fileStructure, approach, challenges, complexity, steps.
     `;
 
-    const response = await this.executeWithModel(prompt, {
+    const parsed = await this.executeStructured(prompt, developerAnalysisSchema, {
       temperature: 0.3,
       maxTokens: 1500
     });
 
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        estimatedComplexity: parsed.complexity || 'medium',
-        requiredSteps: parsed.steps || [],
-        potentialChallenges: parsed.challenges || [],
-        recommendedApproach: parsed.approach || '',
-        additionalInfo: parsed
-      };
-    } catch (error) {
-      // Fallback if JSON parsing fails
-      return {
-        estimatedComplexity: 'medium',
-        requiredSteps: ['Implement solution'],
-        potentialChallenges: [],
-        recommendedApproach: response,
-        additionalInfo: {}
-      };
-    }
+    return {
+      estimatedComplexity: parsed.complexity,
+      requiredSteps: parsed.steps,
+      potentialChallenges: parsed.challenges,
+      recommendedApproach: parsed.approach,
+      additionalInfo: parsed
+    };
   }
 
   protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
@@ -142,26 +141,19 @@ Review this code for:
 Code:
 ${result.code}
 
-Respond with JSON: { isValid: boolean, issues: string[], suggestions: string[] }
+Respond with JSON: { "isValid": boolean, "issues": string[], "suggestions": string[] }
     `;
 
-    try {
-      const validationResponse = await this.executeWithModel(validationPrompt, {
-        temperature: 0.2,
-        maxTokens: 1000
-      });
+    const validation = await this.executeStructured(validationPrompt, reviewSchema, {
+      temperature: 0.2,
+      maxTokens: 1000
+    });
 
-      const validation = JSON.parse(validationResponse);
-      
-      return {
-        isValid: validation.isValid !== false,
-        reason: validation.issues?.join(', '),
-        suggestions: validation.suggestions
-      };
-    } catch (error) {
-      // If validation fails, assume code is valid
-      return { isValid: true };
-    }
+    return {
+      isValid: validation.isValid,
+      reason: validation.issues.join(', ') || undefined,
+      suggestions: validation.suggestions
+    };
   }
 
   private extractFiles(codeResponse: string): Array<{ name: string; content: string }> {
@@ -1,9 +1,20 @@
 // Lead Generation Agent - Specializes in lead generation strategies and campaigns
 
-import { Agent } from './Agent.js';
+import { z } from 'zod';
+import { Agent, complexitySchema } from './Agent.js';
 import type { ModelRouter } from '../models/ModelRouter.js';
 import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
 
+const leadAnalysisSchema = z.object({
+  targetAudience: z.unknown(),
+  channels: z.array(z.string()).min(1),
+  leadMagnets: z.array(z.string()).default([]),
+  funnelStages: z.unknown(),
+  metrics: z.array(z.string()).default([]),
+  complexity: complexitySchema,
+  steps: z.array(z.string()).min(1)
+}).passthrough();
+
 export class LeadGenerationAgent extends Agent {
   private channels: string[];
   private tactics: string[];
@@ -70,29 +81,18 @@ Determine:
 Respond in JSON format with keys: targetAudience, channels, leadMagnets, funnelStages, metrics, complexity, steps.
     `;
 
-    const response = await this.executeWithModel(prompt, {
+    const parsed = await this.executeStructured(prompt, leadAnalysisSchema, {
       temperature: 0.4,
       maxTokens: 1500
     });
 
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        estimatedComplexity: parsed.complexity || 'medium',
-        requiredSteps: parsed.steps || [],
-        potentialChallenges: [],
-        recommendedApproach: JSON.stringify(parsed.funnelStages || {}),
-        additionalInfo: parsed
-      };
-    } catch (error) {
-      return {
-        estimatedComplexity: 'medium',
-        requiredSteps: ['Define target audience', 'Create campaign strategy', 'Implement tracking'],
-        potentialChallenges: [],
-        recommendedApproach: response,
-        additionalInfo: {}
-      };
-    }
+    return {
+      estimatedComplexity: parsed.complexity,
+      requiredSteps: parsed.steps,
+      potentialChallenges: [],
+      recommendedApproach: JSON.stringify(parsed.funnelStages ?? {}),
+      additionalInfo: parsed
+    };
   }
 
   protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
@@ -0,0 +1,229 @@
+// Marketing Agent - Specializes in on-brand blog, social and email copy scheduled on a content calendar
+
+import { z } from 'zod';
+import { Agent, complexitySchema } from './Agent.js';
+import { CHANNEL_LIMITS, checkMarketingContent, type ContentDraft, type MarketingIssue } from './MarketingChecks.js';
+import { ContentCalendar } from '../orchestration/ContentCalendar.js';
+import type { ModelRouter } from '../models/ModelRouter.js';
+import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities, BrandVoice } from '../shared/types.js';
+
+const CHANNELS = ['blog', 'email', 'x', 'linkedin', 'facebook', 'instagram'] as const;
+
+const marketingAnalysisSchema = z.object({
+  audience: z.string(),
+  keyMessages: z.array(z.string()).default([]),
+  assets: z.array(z.object({
+    channel: z.enum(CHANNELS),
+    title: z.string(),
+    purpose: z.string(),
+    date: z.string()
+  })).min(1),
+  approach: z.string(),
+  complexity: complexitySchema,
+  steps: z.array(z.string()).min(1)
+}).passthrough();
+
+const marketingContentSchema = z.object({
+  assets: z.array(z.object({
+    channel: z.enum(CHANNELS),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    title: z.string().min(1),
+    subject: z.string().optional(),
+    body: z.string().min(1)
+  })).min(1)
+});
+
+const DEFAULT_BRAND_VOICE: BrandVoice = {
+  tone: 'clear, friendly and confident',
+  bannedTerms: [],
+  preferredTerms: {},
+  maxSentenceWords: 25,
+  maxExclamations: 1
+};
+
+export class MarketingAgent extends Agent {
+  private brandVoice: BrandVoice;
+  private calendar: ContentCalendar;
+  private repairAttempts: number;
+
+  constructor(modelRouter: ModelRouter, config?: {
+    // Usually the brandVoice of the agent template
+    brandVoice?: BrandVoice;
+    // Shared with the API so scheduled content can be queried and exported
+    calendar?: ContentCalendar;
+    // Rounds of rewriting the copy against the check results
+    repairAttempts?: number;
+  }) {
+    const capabilities: AgentCapabilities = {
+      skills: [
+        'copywriting',
+        'blog-writing',
+        'social-media',
+        'email-marketing',
+        'brand-voice',
+        'content-planning'
+      ],
+      maxConcurrentTasks: 3,
+      specializations: ['content-marketing', 'brand', 'campaigns'],
+      supportedTaskTypes: ['CONTENT_MARKETING' as any]
+    };
+
+    super('Marketing Agent', 'MARKETING' as any, capabilities, modelRouter);
+
+    this.brandVoice = config?.brandVoice ?? DEFAULT_BRAND_VOICE;
+    this.calendar = config?.calendar ?? new ContentCalendar();
+    this.repairAttempts = config?.repairAttempts ?? 1;
+  }
+
+  protected async analyzeTask(task: Task): Promise<TaskAnalysis> {
+    const prompt = `
+Analyze this content marketing task:
+Title: ${task.title}
+Description: ${task.description}
+Today: ${today()}
+Brand voice: ${this.brandVoice.tone}${this.brandVoice.audience ? `, written for ${this.brandVoice.audience}` : ''}
+
+Determine:
+1. Target audience
+2. Key messages
+3. Assets to produce: channel (${CHANNELS.join(', ')}), working title, purpose and publish date (YYYY-MM-DD, today or later)
+4. Content approach
+5. Estimated complexity (low/medium/high)
+
+Respond in JSON format with keys: audience, keyMessages, assets, approach, complexity, steps.
+    `;
+
+    const parsed = await this.executeStructured(prompt, marketingAnalysisSchema, {
+      temperature: 0.6,
+      maxTokens: 1500
+    });
+
+    return {
+      estimatedComplexity: parsed.complexity,
+      requiredSteps: parsed.steps,
+      potentialChallenges: [],
+      recommendedApproach: parsed.approach,
+      additionalInfo: parsed
+    };
+  }
+
+  protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
+    const prompt = `
+Write the marketing content for this task:
+${task.description}
+
+Audience: ${analysis.additionalInfo.audience}
+Key messages:
+${analysis.additionalInfo.keyMessages.map((message: string) => `- ${message}`).join('\n') || '- none'}
+
+Assets:
+${analysis.additionalInfo.assets.map((asset: { channel: string; title: string; purpose: string; date: string }) => `- ${asset.channel} on ${asset.date}: ${asset.title} (${asset.purpose})`).join('\n')}
+
+${this.voiceRules()}
+
+Requirements:
+- One entry per asset with channel, date (YYYY-MM-DD, ${today()} or later), title and body
+- blog: Markdown with headings, at least 300 words
+- email: a subject line and a plain-text body
+- Social posts must fit the channel's character limit: ${Object.entries(CHANNEL_LIMITS).map(([channel, limit]) => `${channel} ${limit}`).join(', ')}
+
+Respond in JSON format with keys: assets.
+    `;
+
+    let content = await this.executeStructured(prompt, marketingContentSchema, {
+      temperature: 0.7,
+      maxTokens: 6000
+    });
+    let issues = checkMarketingContent(content.assets, this.brandVoice);
+
+    for (let attempt = 0; attempt < this.repairAttempts && issues.some(issue => issue.severity === 'error'); attempt++) {
+      content = await this.repairContent(content.assets, issues);
+      issues = checkMarketingContent(content.assets, this.brandVoice);
+    }
+
+    // Copy that breaks the brand rules stays off the calendar
+    const scheduled = issues.some(issue => issue.severity === 'error')
+      ? []
+      : content.assets.map(asset => this.calendar.add({
+        channel: asset.channel,
+        date: asset.date,
+        status: 'draft',
+        asset: { title: asset.title, subject: asset.subject, body: asset.body },
+        campaign: task.context.workflowExecutionId ?? task.context.projectId,
+        taskId: task.id
+      }));
+
+    return {
+      assets: content.assets,
+      calendarEntries: scheduled.map(entry => entry.id),
+      brandVoice: this.brandVoice,
+      issues,
+      analysis
+    };
+  }
+
+  protected async validate(result: any): Promise<ValidationResult> {
+    if (!Array.isArray(result.assets) || result.assets.length === 0) {
+      return {
+        isValid: false,
+        reason: 'No marketing content generated'
+      };
+    }
+
+    const issues = checkMarketingContent(result.assets as ContentDraft[], this.brandVoice);
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const describe = (issue: MarketingIssue) => `${issue.asset}: ${issue.message}`;
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        reason: errors.map(describe).join('; '),
+        suggestions: issues.map(describe)
+      };
+    }
+
+    return {
+      isValid: true,
+      suggestions: issues.length > 0 ? issues.map(describe) : undefined
+    };
+  }
+
+  private voiceRules(): string {
+    const voice = this.brandVoice;
+    return [
+      'Brand voice:',
+      `- Tone: ${voice.tone}`,
+      voice.audience && `- Audience: ${voice.audience}`,
+      voice.bannedTerms.length > 0 && `- Never use: ${voice.bannedTerms.join(', ')}`,
+      ...Object.entries(voice.preferredTerms).map(([avoid, prefer]) => `- Say "${prefer}", not "${avoid}"`),
+      voice.maxSentenceWords !== undefined && `- Keep sentences under ${voice.maxSentenceWords} words`,
+      voice.maxExclamations !== undefined && `- At most ${voice.maxExclamations} exclamation mark(s) per asset`
+    ].filter(Boolean).join('\n');
+  }
+
+  private async repairContent(assets: ContentDraft[], issues: MarketingIssue[]): Promise<z.infer<typeof marketingContentSchema>> {
+    const prompt = `
+This marketing content failed automated brand and channel checks.
+
+Content:
+${JSON.stringify({ assets }, null, 2)}
+
+Problems:
+${issues.map(issue => `- [${issue.severity}] ${issue.asset}: ${issue.message}`).join('\n')}
+
+${this.voiceRules()}
+
+Rewrite the assets to fix every error, keeping their channels, dates and messages unless a date is in the past (today is ${today()}).
+Respond in JSON format with keys: assets.
+    `;
+
+    return this.executeStructured(prompt, marketingContentSchema, {
+      temperature: 0.4,
+      maxTokens: 6000
+    });
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { BrandVoice } from '../shared/types.js';
+import { CHANNEL_LIMITS, checkMarketingContent, type ContentDraft } from './MarketingChecks.js';
+
+const TODAY = '2026-03-10';
+
+function voice(overrides: Partial<BrandVoice> = {}): BrandVoice {
+  return { tone: 'plain-spoken', bannedTerms: [], preferredTerms: {}, ...overrides };
+}
+
+function draft(overrides: Partial<ContentDraft> = {}): ContentDraft {
+  return { channel: 'linkedin', date: TODAY, title: 'Launch', body: 'We shipped it.', ...overrides };
+}
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+const messages = (drafts: ContentDraft[], brand: BrandVoice = voice()) =>
+  checkMarketingContent(drafts, brand, TODAY).map(issue => `${issue.severity} ${issue.asset}: ${issue.message}`);
+
+describe('checkMarketingContent', () => {
+  it('accepts copy that follows the voice and the channel rules', () => {
+    expect(messages([draft(), draft({ channel: 'email', subject: 'New this week' })], voice({ bannedTerms: ['synergy'], maxExclamations: 1 }))).toEqual([]);
+  });
+
+  describe('banned and preferred terms', () => {
+    const brand = voice({ bannedTerms: ['cheap', 'best in class'], preferredTerms: { users: 'customers' } });
+
+    it('matches whole words in the title, subject and body, ignoring case', () => {
+      expect(messages([draft({ title: 'CHEAP seats', body: 'Our Users love it.' })], brand)).toEqual([
+        'error linkedin: CHEAP seats: Uses the banned term "cheap"',
+        'warning linkedin: CHEAP seats: Says "users"; the brand says "customers"'
+      ]);
+      expect(messages([draft({ channel: 'email', subject: 'Cheap!', body: 'Hi' })], brand)).toContain(
+        'error email: Launch: Uses the banned term "cheap"'
+      );
+    });
+
+    it('does not match inside longer words', () => {
+      expect(messages([draft({ body: 'Cheapest plans for superusers and usersnap fans.' })], brand)).toEqual([]);
+    });
+
+    it('matches multi-word terms across any whitespace', () => {
+      expect(messages([draft({ body: 'Truly Best\nin   class tooling.' })], brand)).toEqual([
+        'error linkedin: Launch: Uses the banned term "best in class"'
+      ]);
+      expect(messages([draft({ body: 'The best in classrooms.' })], brand)).toEqual([]);
+    });
+
+    it('treats terms literally rather than as patterns', () => {
+      expect(messages([draft({ body: 'Try C++ today.' })], voice({ bannedTerms: ['c++', ' '] }))).toEqual([
+        'error linkedin: Launch: Uses the banned term "c++"'
+      ]);
+    });
+  });
+
+  it('limits exclamation marks and long sentences, skipping headings, list markers and code', () => {
+    const body = ['# A very long heading that is not prose at all', '- Short item.', '```', 'one two three four five six seven', '```', 'This sentence has way too many words in it. Fine!'].join('\n');
+    expect(messages([draft({ title: 'Go!', body })], voice({ maxExclamations: 1, maxSentenceWords: 6 }))).toEqual([
+      'error linkedin: Go!: Has 2 exclamation marks; the brand voice allows 1',
+      'warning linkedin: Go!: 1 sentence is over 6 words, e.g. "This sentence has way too many words in it."'
+    ]);
+  });
+
+  it('enforces each channel\'s character limit, counting characters rather than UTF-16 units', () => {
+    expect(messages([draft({ channel: 'x', body: 'a'.repeat(CHANNEL_LIMITS.x!) })])).toEqual([]);
+    expect(messages([draft({ channel: 'x', body: '😀'.repeat(280) })])).toEqual([]);
+    expect(messages([draft({ channel: 'x', body: 'a'.repeat(281) })])).toEqual(['error x: Launch: Is 281 characters; x allows 280']);
+    expect(messages([draft({ channel: 'instagram', body: 'a'.repeat(2201) })])).toEqual(['error instagram: Launch: Is 2201 characters; instagram allows 2200']);
+  });
+
+  it('limits Instagram hashtags', () => {
+    const tags = (count: number) => Array.from({ length: count }, (_, index) => `#tag${index}`).join(' ');
+    expect(messages([draft({ channel: 'instagram', body: tags(30) })])).toEqual([]);
+    expect(messages([draft({ channel: 'instagram', body: tags(31) })])).toEqual(['error instagram: Launch: Has 31 hashtags; Instagram allows 30']);
+  });
+
+  it('needs an email subject and warns about long ones', () => {
+    expect(messages([draft({ channel: 'email' }), draft({ channel: 'email', title: 'Blank', subject: '   ' })])).toEqual([
+      'error email: Launch: Email has no subject line',
+      'error email: Blank: Email has no subject line'
+    ]);
+    expect(messages([draft({ channel: 'email', subject: 's'.repeat(78) })])).toEqual([]);
+    expect(messages([draft({ channel: 'email', subject: 's'.repeat(79) })])).toEqual(['warning email: Launch: Subject is 79 characters; keep it under 78']);
+  });
+
+  it('warns about blog posts under 300 words', () => {
+    expect(messages([draft({ channel: 'blog', body: words(300) })])).toEqual([]);
+    expect(messages([draft({ channel: 'blog', body: `${words(298)} don't` })])).toEqual(['warning blog: Launch: Blog post is 299 words; aim for at least 300']);
+  });
+
+  it('rejects dates before today', () => {
+    expect(messages([draft({ date: '2026-03-09' }), draft({ title: 'Later', date: '2026-03-11' })])).toEqual([
+      'error linkedin: Launch: Scheduled for 2026-03-09, which is in the past'
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+// Marketing Checks - deterministic brand-voice and channel checks of marketing copy
+
+import type { BrandVoice, ContentChannel } from '../shared/types.js';
+
+export interface ContentDraft {
+  channel: ContentChannel;
+  // YYYY-MM-DD
+  date: string;
+  title: string;
+  subject?: string;
+  body: string;
+}
+
+export interface MarketingIssue {
+  // "<channel>: <title>"
+  asset: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Characters per post
+export const CHANNEL_LIMITS: Partial<Record<ContentChannel, number>> = {
+  x: 280,
+  linkedin: 3000,
+  facebook: 63206,
+  instagram: 2200
+};
+
+const MAX_INSTAGRAM_HASHTAGS = 30;
+const MIN_BLOG_WORDS = 300;
+// Longer subjects are cut off by most mail clients
+const MAX_SUBJECT_CHARS = 78;
+
+/**
+ * Errors for banned terms, too many exclamation marks, posts over the
+ * channel's length limit, emails without a subject and dates before today.
+ * Warnings for avoided terms that have a preferred replacement, sentences
+ * over the voice's word limit and blog posts under 300 words.
+ */
+export function checkMarketingContent(drafts: ContentDraft[], voice: BrandVoice, today: string = new Date().toISOString().slice(0, 10)): MarketingIssue[] {
+  const issues: MarketingIssue[] = [];
+
+  for (const draft of drafts) {
+    const asset = `${draft.channel}: ${draft.title}`;
+    const error = (message: string) => issues.push({ asset, severity: 'error', message });
+    const warn = (message: string) => issues.push({ asset, severity: 'warning', message });
+    const text = [draft.title, draft.subject ?? '', draft.body].join('\n');
+
+    for (const term of voice.bannedTerms) {
+      if (containsTerm(text, term)) error(`Uses the banned term "${term}"`);
+    }
+    for (const [avoid, prefer] of Object.entries(voice.preferredTerms)) {
+      if (containsTerm(text, avoid)) warn(`Says "${avoid}"; the brand says "${prefer}"`);
+    }
+
+    const exclamations = (text.match(/!/g) ?? []).length;
+    if (voice.maxExclamations !== undefined && exclamations > voice.maxExclamations) {
+      error(`Has ${exclamations} exclamation marks; the brand voice allows ${voice.maxExclamations}`);
+    }
+
+    if (voice.maxSentenceWords !== undefined) {
+      const long = sentences(draft.body).filter(sentence => wordCount(sentence) > voice.maxSentenceWords!);
+      if (long.length > 0) {
+        warn(`${long.length} sentence${long.length === 1 ? ' is' : 's are'} over ${voice.maxSentenceWords} words, e.g. "${long[0].slice(0, 80)}"`);
+      }
+    }
+
+    const limit = CHANNEL_LIMITS[draft.channel];
+    const length = [...draft.body].length;
+    if (limit !== undefined && length > limit) {
+      error(`Is ${length} characters; ${draft.channel} allows ${limit}`);
+    }
+
+    if (draft.channel === 'instagram') {
+      const hashtags = (draft.body.match(/#[\p{L}\p{N}_]+/gu) ?? []).length;
+      if (hashtags > MAX_INSTAGRAM_HASHTAGS) error(`Has ${hashtags} hashtags; Instagram allows ${MAX_INSTAGRAM_HASHTAGS}`);
+    }
+    if (draft.channel === 'email') {
+      if (!draft.subject?.trim()) error('Email has no subject line');
+      else if (draft.subject.length > MAX_SUBJECT_CHARS) warn(`Subject is ${draft.subject.length} characters; keep it under ${MAX_SUBJECT_CHARS}`);
+    }
+    if (draft.channel === 'blog' && wordCount(draft.body) < MIN_BLOG_WORDS) {
+      warn(`Blog post is ${wordCount(draft.body)} words; aim for at least ${MIN_BLOG_WORDS}`);
+    }
+
+    if (draft.date < today) error(`Scheduled for ${draft.date}, which is in the past`);
+  }
+
+  return issues;
+}
+
+// Whole words or phrases, ignoring case
+function containsTerm(text: string, term: string): boolean {
+  const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return escaped.length > 0 && new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+// Headings, list markers and code blocks are not prose
+function sentences(body: string): string[] {
+  return body
+    .replace(/```[\s\S]*?```/g, '')
+    .split('\n')
+    .filter(line => !/^\s*#/.test(line))
+    .map(line => line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, ''))
+    .join('\n')
+    .split(/(?<=[.!?])\s+|\n{2,}/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function wordCount(text: string): number {
+  return (text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) ?? []).length;
+}
@@ -1,9 +1,18 @@
 // Mentor/Lead Agent - Provides coaching, retrospectives, and skill development guidance
 
-import { Agent } from './Agent.js';
+import { z } from 'zod';
+import { Agent, reviewSchema } from './Agent.js';
 import type { ModelRouter } from '../models/ModelRouter.js';
 import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
 
+const mentorAnalysisSchema = z.object({
+  goals: z.array(z.string()).min(1),
+  skillGaps: z.array(z.string()).default([]),
+  pairingRecommendations: z.array(z.string()).default([]),
+  feedbackCadence: z.string().optional(),
+  successMetrics: z.union([z.string(), z.array(z.string())])
+}).passthrough();
+
 export class MentorAgent extends Agent {
   constructor(modelRouter: ModelRouter) {
     const capabilities: AgentCapabilities = {
@@ -37,26 +46,17 @@ Return JSON with keys:
 - successMetrics
 `;
 
-    const response = await this.executeWithModel(prompt, { temperature: 0.35, maxTokens: 900 });
-
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        estimatedComplexity: 'medium',
-        requiredSteps: parsed.goals || [],
-        potentialChallenges: parsed.skillGaps || [],
-        recommendedApproach: parsed.successMetrics || 'Track improvements week over week.',
-        additionalInfo: parsed
-      };
-    } catch (error) {
-      return {
-        estimatedComplexity: 'low',
-        requiredSteps: ['Run retro', 'Identify gaps', 'Create pairing plan'],
-        potentialChallenges: [],
-        recommendedApproach: response,
-        additionalInfo: {}
-      };
-    }
+    const parsed = await this.executeStructured(prompt, mentorAnalysisSchema, { temperature: 0.35, maxTokens: 900 });
+
+    return {
+      estimatedComplexity: 'medium',
+      requiredSteps: parsed.goals,
+      potentialChallenges: parsed.skillGaps,
+      recommendedApproach: Array.isArray(parsed.successMetrics)
+        ? parsed.successMetrics.join('; ')
+        : parsed.successMetrics,
+      additionalInfo: parsed
+    };
   }
 
   protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
@@ -98,15 +98,10 @@ ${result.plan}
 Respond JSON: { "isValid": boolean, "issues": string[] }
 `;
 
-    try {
-      const validation = await this.executeWithModel(validationPrompt, { temperature: 0.25, maxTokens: 600 });
-      const parsed = JSON.parse(validation);
-      return {
-        isValid: parsed.isValid !== false,
-        reason: parsed.issues?.join(', ')
-      };
-    } catch (error) {
-      return { isValid: true };
-    }
+    const validation = await this.executeStructured(validationPrompt, reviewSchema, { temperature: 0.25, maxTokens: 600 });
+    return {
+      isValid: validation.isValid,
+      reason: validation.issues.join(', ') || undefined
+    };
   }
 }
@@ -0,0 +1,160 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { endpointKey, isOpenApiDocument, loadOpenApiDocument, OpenApiError, readOpenApi } from './OpenApiReader.js';
+
+const openApi3 = {
+  openapi: '3.0.3',
+  info: { title: 'Tasks', version: '1.2.0' },
+  paths: {
+    '/tasks/{id}': {
+      parameters: [
+        { $ref: '#/components/parameters/TaskId' },
+        { name: 'verbose', in: 'query', schema: { type: 'boolean' } }
+      ],
+      get: {
+        operationId: 'getTask',
+        summary: 'Fetch a task',
+        tags: ['tasks'],
+        parameters: [{ name: 'verbose', in: 'query', required: true, schema: { type: 'string', enum: ['yes', 'no'] } }],
+        responses: {
+          '200': { description: 'The task' },
+          '404': { $ref: '#/components/responses/NotFound' }
+        }
+      },
+      put: {
+        deprecated: true,
+        requestBody: { $ref: '#/components/requestBodies/Task' },
+        responses: { '204': { description: 'Updated' } }
+      }
+    }
+  },
+  components: {
+    parameters: { TaskId: { name: 'id', in: 'path', schema: { type: 'string', format: 'uuid' } } },
+    responses: { NotFound: { description: 'No such task' } },
+    requestBodies: { Task: { content: { 'application/json': {}, 'application/yaml': {} } } }
+  }
+};
+
+const swagger2 = {
+  swagger: '2.0',
+  info: { title: 'Legacy' },
+  consumes: ['application/xml'],
+  paths: {
+    '/items': {
+      post: {
+        parameters: [
+          { name: 'body', in: 'body', schema: { $ref: '#/definitions/Item' } },
+          { name: 'tags', in: 'query', type: 'array', items: { type: 'string' } }
+        ],
+        responses: { '201': { description: 'Created' } }
+      }
+    }
+  },
+  definitions: { Item: { type: 'object' } }
+};
+
+describe('readOpenApi', () => {
+  it('lists operations with resolved parameters and responses', () => {
+    const summary = readOpenApi(openApi3);
+
+    expect(summary.title).toBe('Tasks');
+    expect(summary.version).toBe('1.2.0');
+    expect(summary.endpoints.map(endpointKey)).toEqual(['GET /tasks/{id}', 'PUT /tasks/{id}']);
+
+    const [get] = summary.endpoints;
+    expect(get).toMatchObject({ operationId: 'getTask', summary: 'Fetch a task', tags: ['tasks'], deprecated: false });
+    expect(get.responses).toEqual([
+      { status: '200', description: 'The task' },
+      { status: '404', description: 'No such task' }
+    ]);
+  });
+
+  it('merges path-level parameters unless the operation overrides them, and always requires path parameters', () => {
+    const [get, put] = readOpenApi(openApi3).endpoints;
+
+    expect(get.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, type: 'string (uuid)', description: '' },
+      { name: 'verbose', in: 'query', required: true, type: '"yes" | "no"', description: '' }
+    ]);
+    expect(put.parameters.map(parameter => [parameter.name, parameter.type, parameter.required])).toEqual([
+      ['id', 'string (uuid)', true],
+      ['verbose', 'boolean', false]
+    ]);
+  });
+
+  it('reads OpenAPI 3 request bodies through $refs', () => {
+    const put = readOpenApi(openApi3).endpoints[1];
+    expect(put.requestBodyTypes).toEqual(['application/json', 'application/yaml']);
+    expect(put.deprecated).toBe(true);
+  });
+
+  it('takes Swagger 2 body parameters out of the parameter list and uses the document media types', () => {
+    const summary = readOpenApi(swagger2);
+    const [post] = summary.endpoints;
+
+    expect(summary.version).toBe('');
+    expect(post.parameters).toEqual([{ name: 'tags', in: 'query', required: false, type: 'string[]', description: '' }]);
+    expect(post.requestBodyTypes).toEqual(['application/xml']);
+  });
+
+  it('rejects documents without paths, remote $refs, unresolved $refs and circular $refs', () => {
+    const withPath = (item: object) => ({ openapi: '3.0.0', paths: { '/x': item }, components: { a: { $ref: '#/components/b' }, b: { $ref: '#/components/a' } } });
+
+    expect(() => readOpenApi({ openapi: '3.0.0' }, 'api.yaml')).toThrow(
+      expect.objectContaining({ name: 'OpenApiError', source: 'api.yaml', message: 'api.yaml has no "paths"' })
+    );
+    expect(() => readOpenApi(withPath({ $ref: 'other.yaml#/x' }))).toThrow('Only local $refs are supported, found other.yaml#/x');
+    expect(() => readOpenApi(withPath({ $ref: '#/components/missing' }))).toThrow('Unresolved $ref #/components/missing');
+    expect(() => readOpenApi(withPath({ $ref: '#/components/a' }))).toThrow('Circular $ref #/components/a');
+  });
+
+  it('decodes escaped $ref path segments', () => {
+    const document = {
+      openapi: '3.0.0',
+      paths: { '/a/b': { get: { responses: {} } }, '/c': { $ref: '#/paths/~1a~1b' } }
+    };
+    expect(readOpenApi(document).endpoints.map(endpointKey)).toEqual(['GET /a/b', 'GET /c']);
+  });
+});
+
+describe('isOpenApiDocument', () => {
+  it('needs an openapi or swagger field', () => {
+    expect(isOpenApiDocument(openApi3)).toBe(true);
+    expect(isOpenApiDocument(swagger2)).toBe(true);
+    expect(isOpenApiDocument({ paths: {} })).toBe(false);
+    expect(isOpenApiDocument(null)).toBe(false);
+  });
+});
+
+describe('loadOpenApiDocument', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'openapi-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('parses JSON by extension and YAML otherwise', async () => {
+    await fs.writeFile(join(dir, 'api.json'), JSON.stringify(swagger2));
+    await fs.writeFile(join(dir, 'api.yaml'), 'openapi: 3.0.0\npaths:\n  /health:\n    get:\n      summary: Health\n');
+
+    expect((await loadOpenApiDocument(join(dir, 'api.json'))).swagger).toBe('2.0');
+    expect(readOpenApi(await loadOpenApiDocument(join(dir, 'api.yaml'))).endpoints[0]).toMatchObject({ method: 'GET', path: '/health', summary: 'Health' });
+  });
+
+  it('throws OpenApiError for unparsable files and documents without a version field', async () => {
+    const broken = join(dir, 'broken.json');
+    const plain = join(dir, 'plain.json');
+    await fs.writeFile(broken, '{ not json');
+    await fs.writeFile(plain, '{"paths": {}}');
+
+    await expect(loadOpenApiDocument(broken)).rejects.toThrow(OpenApiError);
+    await expect(loadOpenApiDocument(broken)).rejects.toThrow(`Cannot parse ${broken}`);
+    await expect(loadOpenApiDocument(plain)).rejects.toThrow(`${plain} has no "openapi" or "swagger" version field`);
+  });
+});
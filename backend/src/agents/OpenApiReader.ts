@@ -0,0 +1,171 @@
+// OpenAPI Reader - endpoints of an OpenAPI 3 or Swagger 2 document, for reference docs
+
+import { promises as fs } from 'fs';
+import { parseYaml } from '../shared/yaml.js';
+
+export interface EndpointParameter {
+  name: string;
+  in: string;
+  required: boolean;
+  type: string;
+  description: string;
+}
+
+export interface EndpointResponse {
+  status: string;
+  description: string;
+}
+
+export interface Endpoint {
+  method: string;
+  path: string;
+  operationId?: string;
+  summary: string;
+  description: string;
+  tags: string[];
+  parameters: EndpointParameter[];
+  requestBodyTypes: string[];
+  responses: EndpointResponse[];
+  deprecated: boolean;
+}
+
+export interface OpenApiSummary {
+  title: string;
+  version: string;
+  endpoints: Endpoint[];
+}
+
+type Json = Record<string, any>;
+
+const METHODS = ['get', 'put', 'post', 'delete', 'patch', 'head', 'options', 'trace'];
+
+export class OpenApiError extends Error {
+  constructor(message: string, public readonly source: string) {
+    super(message);
+    this.name = 'OpenApiError';
+  }
+}
+
+// Whether a parsed JSON or YAML document is an API description
+export function isOpenApiDocument(document: unknown): document is Json {
+  return typeof document === 'object' && document !== null && ('openapi' in document || 'swagger' in document);
+}
+
+export async function loadOpenApiDocument(path: string): Promise<Json> {
+  const text = await fs.readFile(path, 'utf-8');
+  let document: unknown;
+  try {
+    document = /\.json$/i.test(path) ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new OpenApiError(`Cannot parse ${path}: ${error instanceof Error ? error.message : error}`, path);
+  }
+  if (!isOpenApiDocument(document)) {
+    throw new OpenApiError(`${path} has no "openapi" or "swagger" version field`, path);
+  }
+  return document;
+}
+
+/**
+ * Lists every operation with its parameters and responses. Local $refs
+ * (#/components/..., #/definitions/...) are followed; path-level parameters
+ * are merged into each operation unless the operation overrides them.
+ */
+export function readOpenApi(document: Json, source: string = 'document'): OpenApiSummary {
+  if (typeof document.paths !== 'object' || document.paths === null) {
+    throw new OpenApiError(`${source} has no "paths"`, source);
+  }
+
+  const resolve = (value: any): any => {
+    const seen = new Set<string>();
+    while (value && typeof value.$ref === 'string') {
+      if (seen.has(value.$ref)) throw new OpenApiError(`Circular $ref ${value.$ref}`, source);
+      seen.add(value.$ref);
+      value = lookupRef(document, value.$ref, source);
+    }
+    return value;
+  };
+
+  const endpoints: Endpoint[] = [];
+  for (const [path, rawItem] of Object.entries<any>(document.paths)) {
+    const item = resolve(rawItem) ?? {};
+    const shared: any[] = Array.isArray(item.parameters) ? item.parameters.map(resolve) : [];
+
+    for (const method of METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+
+      const own: any[] = Array.isArray(operation.parameters) ? operation.parameters.map(resolve) : [];
+      const overridden = new Set(own.map(parameter => `${parameter.in}:${parameter.name}`));
+      const parameters = [...shared.filter(parameter => !overridden.has(`${parameter.in}:${parameter.name}`)), ...own];
+
+      // Swagger 2 puts the request body among the parameters
+      const bodyParameter = parameters.find(parameter => parameter.in === 'body');
+      const requestBody = resolve(operation.requestBody);
+
+      endpoints.push({
+        method: method.toUpperCase(),
+        path,
+        operationId: operation.operationId,
+        summary: operation.summary ?? '',
+        description: operation.description ?? '',
+        tags: Array.isArray(operation.tags) ? operation.tags : [],
+        parameters: parameters
+          .filter(parameter => parameter.in !== 'body')
+          .map(parameter => ({
+            name: String(parameter.name),
+            in: String(parameter.in),
+            required: parameter.required === true || parameter.in === 'path',
+            type: schemaType(parameter.schema ?? parameter),
+            description: parameter.description ?? ''
+          })),
+        requestBodyTypes: requestBody?.content
+          ? Object.keys(requestBody.content)
+          : bodyParameter ? (operation.consumes ?? document.consumes ?? ['application/json']) : [],
+        responses: Object.entries<any>(operation.responses ?? {}).map(([status, response]) => ({
+          status,
+          description: resolve(response)?.description ?? ''
+        })),
+        deprecated: operation.deprecated === true
+      });
+    }
+  }
+
+  return {
+    title: document.info?.title ?? 'API',
+    version: document.info?.version ?? '',
+    endpoints
+  };
+}
+
+// "GET /tasks/{id}" - the name endpoint docs are checked against
+export function endpointKey(endpoint: { method: string; path: string }): string {
+  return `${endpoint.method.toUpperCase()} ${endpoint.path}`;
+}
+
+function lookupRef(document: Json, ref: string, source: string): any {
+  if (!ref.startsWith('#/')) {
+    throw new OpenApiError(`Only local $refs are supported, found ${ref}`, source);
+  }
+
+  let value: any = document;
+  for (const part of ref.slice(2).split('/')) {
+    value = value?.[part.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  if (value === undefined) {
+    throw new OpenApiError(`Unresolved $ref ${ref}`, source);
+  }
+  return value;
+}
+
+// Referenced schemas are shown by name rather than expanded
+function schemaType(schema: any): string {
+  if (!schema) return 'any';
+  if (typeof schema.$ref === 'string') return schema.$ref.split('/').pop();
+  if (schema.type === 'array') return `${schemaType(schema.items)}[]`;
+  if (schema.enum) return schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | ');
+  if (schema.type) return schema.format ? `${schema.type} (${schema.format})` : String(schema.type);
+  if (schema.oneOf || schema.anyOf) {
+    return (schema.oneOf ?? schema.anyOf).map((option: any) => schemaType(option)).join(' | ');
+  }
+  return 'object';
+}
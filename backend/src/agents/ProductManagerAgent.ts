@@ -1,9 +1,20 @@
 // Product Manager Agent - Specializes in requirements and planning
 
-import { Agent } from './Agent.js';
+import { z } from 'zod';
+import { Agent, complexitySchema } from './Agent.js';
 import type { ModelRouter } from '../models/ModelRouter.js';
 import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
 
+const requirementsAnalysisSchema = z.object({
+  requirements: z.array(z.string()).min(1),
+  successCriteria: z.array(z.string()).default([]),
+  stakeholderNeeds: z.array(z.string()).default([]),
+  priority: z.string().optional(),
+  dependencies: z.array(z.string()).default([]),
+  complexity: complexitySchema,
+  approach: z.string().default('')
+}).passthrough();
+
 export class ProductManagerAgent extends Agent {
   constructor(modelRouter: ModelRouter) {
     const capabilities: AgentCapabilities = {
@@ -33,34 +44,23 @@ Provide:
 3. Stakeholder needs
 4. Priority level
 5. Dependencies
-6. Complexity estimation
+6. Complexity estimation (low/medium/high)
 
-Respond in JSON format.
+Respond in JSON format with keys: requirements, successCriteria, stakeholderNeeds, priority, dependencies, complexity, approach.
     `;
 
-    const response = await this.executeWithModel(prompt, {
+    const parsed = await this.executeStructured(prompt, requirementsAnalysisSchema, {
       temperature: 0.5,
       maxTokens: 1500
     });
 
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        estimatedComplexity: parsed.complexity || 'medium',
-        requiredSteps: parsed.requirements || [],
-        potentialChallenges: parsed.dependencies || [],
-        recommendedApproach: parsed.approach || '',
-        additionalInfo: parsed
-      };
-    } catch (error) {
-      return {
-        estimatedComplexity: 'medium',
-        requiredSteps: [],
-        potentialChallenges: [],
-        recommendedApproach: response,
-        additionalInfo: {}
-      };
-    }
+    return {
+      estimatedComplexity: parsed.complexity,
+      requiredSteps: parsed.requirements,
+      potentialChallenges: parsed.dependencies,
+      recommendedApproach: parsed.approach,
+      additionalInfo: parsed
+    };
   }
 
   protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
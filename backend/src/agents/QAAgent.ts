@@ -1,9 +1,19 @@
 // QA Agent - Specializes in testing and quality assurance
 
-import { Agent } from './Agent.js';
+import { z } from 'zod';
+import { Agent, complexitySchema } from './Agent.js';
 import type { ModelRouter } from '../models/ModelRouter.js';
 import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
 
+const qaAnalysisSchema = z.object({
+  testTypes: z.array(z.string()).default([]),
+  framework: z.string(),
+  testCases: z.array(z.string()).min(1),
+  edgeCases: z.array(z.string()).default([]),
+  approach: z.string().default(''),
+  complexity: complexitySchema
+}).passthrough();
+
 export class QAAgent extends Agent {
   private testingFrameworks: string[];
 
@@ -47,34 +57,23 @@ Determine:
 2. Testing framework to use
 3. Test cases to create
 4. Edge cases to consider
-5. Estimated complexity
+5. Estimated complexity (low/medium/high)
 
-Respond in JSON format.
+Respond in JSON format with keys: testTypes, framework, testCases, edgeCases, approach, complexity.
     `;
 
-    const response = await this.executeWithModel(prompt, {
+    const parsed = await this.executeStructured(prompt, qaAnalysisSchema, {
       temperature: 0.3,
       maxTokens: 1500
     });
 
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        estimatedComplexity: parsed.complexity || 'medium',
-        requiredSteps: parsed.testCases || [],
-        potentialChallenges: parsed.edgeCases || [],
-        recommendedApproach: parsed.approach || '',
-        additionalInfo: parsed
-      };
-    } catch (error) {
-      return {
-        estimatedComplexity: 'medium',
-        requiredSteps: ['Create test cases'],
-        potentialChallenges: [],
-        recommendedApproach: response,
-        additionalInfo: {}
-      };
-    }
+    return {
+      estimatedComplexity: parsed.complexity,
+      requiredSteps: parsed.testCases,
+      potentialChallenges: parsed.edgeCases,
+      recommendedApproach: parsed.approach,
+      additionalInfo: parsed
+    };
   }
 
   protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import type { ExportedSymbol } from './SymbolExtractor.js';
+import type { Endpoint } from './OpenApiReader.js';
+import { checkDocumentation, renderEndpointReference, renderSymbolReference, type DocumentationSet } from './ReferenceDocs.js';
+
+function symbol(overrides: Partial<ExportedSymbol> = {}): ExportedSymbol {
+  return {
+    name: 'Counter',
+    kind: 'class',
+    file: 'src/counter.ts',
+    line: 3,
+    signature: 'class Counter',
+    docs: '',
+    members: [{ name: 'increment', signature: 'increment(): number', docs: 'Adds one.' }],
+    ...overrides
+  };
+}
+
+function endpoint(overrides: Partial<Endpoint> = {}): Endpoint {
+  return {
+    method: 'GET',
+    path: '/tasks/{id}',
+    summary: '',
+    description: '',
+    tags: [],
+    parameters: [],
+    requestBodyTypes: [],
+    responses: [],
+    deprecated: false,
+    ...overrides
+  };
+}
+
+function docs(overrides: Partial<DocumentationSet> = {}): DocumentationSet {
+  return {
+    symbols: [symbol({ docs: 'Counts.' })],
+    endpoints: [endpoint({ summary: 'Fetch a task' })],
+    symbolNotes: [],
+    endpointNotes: [],
+    guides: [],
+    ...overrides
+  };
+}
+
+const messages = (set: DocumentationSet) => checkDocumentation(set).map(issue => `${issue.severity} ${issue.document}: ${issue.message}`);
+
+describe('renderSymbolReference', () => {
+  it('groups symbols by file and prefers model notes over source docs', () => {
+    const markdown = renderSymbolReference(
+      [symbol({ docs: 'From the source.' }), symbol({ name: 'add', kind: 'function', file: 'src/math.ts', line: 1, signature: 'function add(): number', members: [] })],
+      [
+        { symbol: 'Counter', summary: 'From the model.', example: '  new Counter();  ' },
+        { symbol: 'Counter.increment', summary: '' }
+      ]
+    );
+
+    expect(markdown).toContain('## src/counter.ts');
+    expect(markdown).toContain('## src/math.ts');
+    expect(markdown).toContain('*class* · src/counter.ts:3');
+    expect(markdown).toContain('```typescript\nclass Counter\n```');
+    expect(markdown).toContain('From the model.');
+    expect(markdown).not.toContain('From the source.');
+    expect(markdown).toContain('```typescript\nnew Counter();\n```');
+    // An empty member note falls back to the member's own docs
+    expect(markdown).toContain('#### `Counter.increment`\n\n```typescript\nincrement(): number\n```\n\nAdds one.');
+    expect(markdown.indexOf('src/counter.ts')).toBeLessThan(markdown.indexOf('src/math.ts'));
+  });
+});
+
+describe('renderEndpointReference', () => {
+  it('renders parameters, bodies, responses and deprecation, matching notes case-insensitively', () => {
+    const markdown = renderEndpointReference(
+      {
+        title: 'Tasks',
+        version: '1.0',
+        endpoints: [
+          endpoint({
+            summary: 'From the document',
+            description: 'Longer text.',
+            deprecated: true,
+            parameters: [{ name: 'id', in: 'path', required: true, type: 'string', description: 'Task\nid' }],
+            requestBodyTypes: ['application/json'],
+            responses: [{ status: '200', description: 'The task' }, { status: '404', description: '' }]
+          })
+        ]
+      },
+      [{ endpoint: 'get  /tasks/{id}', summary: 'From the model', example: 'curl /tasks/1' }]
+    );
+
+    expect(markdown.startsWith('# Tasks 1.0\n')).toBe(true);
+    expect(markdown).toContain('### `GET /tasks/{id}`\n\n**Deprecated.**');
+    expect(markdown).toContain('From the model\n\nLonger text.');
+    expect(markdown).not.toContain('From the document');
+    expect(markdown).toContain('| `id` | path | string | yes | Task id |');
+    expect(markdown).toContain('Request body: `application/json`');
+    expect(markdown).toContain('- `200` The task\n- `404`\n');
+    expect(markdown).toContain('```bash\ncurl /tasks/1\n```');
+  });
+});
+
+describe('checkDocumentation', () => {
+  it('accepts notes and references that match the sources', () => {
+    expect(
+      messages(
+        docs({
+          symbolNotes: [{ symbol: 'Counter.increment()', summary: 'Adds one.' }],
+          endpointNotes: [{ endpoint: 'GET /tasks/{id}', summary: 'Fetch' }],
+          guides: [{ title: 'Start', markdown: '## `Counter`\n\nCall `Counter.increment()` then `GET /tasks/{id}`.' }]
+        })
+      )
+    ).toEqual([]);
+  });
+
+  it('flags notes for symbols, members and endpoints that do not exist', () => {
+    expect(
+      messages(
+        docs({
+          symbolNotes: [{ symbol: 'Missing', summary: 'x' }, { symbol: 'Counter.decrement', summary: 'x' }, { symbol: 'not a name', summary: 'x' }],
+          endpointNotes: [{ endpoint: 'DELETE /tasks/{id}', summary: 'x' }]
+        })
+      )
+    ).toEqual([
+      'error reference: Documents Missing, which the sources do not export',
+      'error reference: Documents Counter.decrement, which the sources do not export',
+      'error reference: Documents not a name, which the sources do not export',
+      'error api: Documents DELETE /tasks/{id}, which the API document does not define'
+    ]);
+  });
+
+  it('flags guide headings and inline references the sources do not define, ignoring code blocks', () => {
+    const markdown = [
+      '## `Widget`',
+      '### `POST /tasks`',
+      'Call `Counter.reset()` or `GET /nowhere`; `someLocal.value` is not checked.',
+      '```ts',
+      'Counter.reset();',
+      '```',
+      '## `Other.thing`'
+    ].join('\n');
+
+    expect(messages(docs({ guides: [{ title: 'Usage', markdown }] }))).toEqual([
+      'error guide "Usage": Heading documents Widget, which the sources do not export',
+      'error guide "Usage": Heading documents POST /tasks, which the API document does not define',
+      'error guide "Usage": Heading documents Other.thing, which the sources do not export',
+      'error guide "Usage": Refers to Counter.reset(), but Counter has no member reset',
+      'error guide "Usage": Refers to GET /nowhere, which the API document does not define'
+    ]);
+  });
+
+  it('only checks inline endpoint references when there is an API document', () => {
+    const guides = [{ title: 'Usage', markdown: 'See `GET /nowhere`.' }];
+    expect(messages(docs({ endpoints: [], guides }))).toEqual([]);
+  });
+
+  it('warns about symbols and endpoints with no description from the source or a note', () => {
+    const set = docs({
+      symbols: [symbol(), symbol({ name: 'add', members: [] })],
+      endpoints: [endpoint(), endpoint({ path: '/health', description: 'Liveness' })],
+      symbolNotes: [{ symbol: 'add', summary: 'Adds.' }, { symbol: 'Counter', summary: '  ' }],
+      endpointNotes: []
+    });
+
+    expect(messages(set)).toEqual(['warning reference: Counter has no description', 'warning api: GET /tasks/{id} has no description']);
+  });
+});
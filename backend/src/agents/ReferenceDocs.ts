@@ -0,0 +1,182 @@
+// Reference Docs - Markdown rendering of extracted symbols and endpoints, and checks that docs match them
+
+import type { ExportedSymbol } from './SymbolExtractor.js';
+import { endpointKey, type Endpoint, type OpenApiSummary } from './OpenApiReader.js';
+
+export interface SymbolNote {
+  // "Name" or "Name.member"
+  symbol: string;
+  summary: string;
+  example?: string;
+}
+
+export interface EndpointNote {
+  // "GET /tasks/{id}"
+  endpoint: string;
+  summary: string;
+  example?: string;
+}
+
+export interface Guide {
+  title: string;
+  markdown: string;
+}
+
+export interface DocsIssue {
+  document: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface DocumentationSet {
+  symbols: ExportedSymbol[];
+  endpoints: Endpoint[];
+  symbolNotes: SymbolNote[];
+  endpointNotes: EndpointNote[];
+  guides: Guide[];
+}
+
+const IDENTIFIER_REFERENCE = /^([A-Za-z_$][\w$]*)(?:\.([A-Za-z_$][\w$]*))?(?:\(\))?$/;
+const ENDPOINT_REFERENCE = /^(GET|PUT|POST|DELETE|PATCH|HEAD|OPTIONS|TRACE)\s+(\/\S*)$/;
+
+// Signatures come from the sources; only the prose is written by the model
+export function renderSymbolReference(symbols: ExportedSymbol[], notes: SymbolNote[]): string {
+  const byName = new Map(notes.map(note => [note.symbol, note]));
+  const lines: string[] = ['# API Reference', ''];
+
+  const files = [...new Set(symbols.map(symbol => symbol.file))];
+  for (const file of files) {
+    lines.push(`## ${file}`, '');
+    for (const symbol of symbols.filter(entry => entry.file === file)) {
+      const note = byName.get(symbol.name);
+      lines.push(`### \`${symbol.name}\``, '', `*${symbol.kind}* · ${file}:${symbol.line}`, '');
+      lines.push('```typescript', symbol.signature, '```', '');
+      const summary = note?.summary || symbol.docs;
+      if (summary) lines.push(summary, '');
+      if (note?.example) lines.push('```typescript', note.example.trim(), '```', '');
+
+      for (const member of symbol.members) {
+        const memberNote = byName.get(`${symbol.name}.${member.name}`);
+        lines.push(`#### \`${symbol.name}.${member.name}\``, '', '```typescript', member.signature, '```', '');
+        const memberSummary = memberNote?.summary || member.docs;
+        if (memberSummary) lines.push(memberSummary, '');
+        if (memberNote?.example) lines.push('```typescript', memberNote.example.trim(), '```', '');
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function renderEndpointReference(api: OpenApiSummary, notes: EndpointNote[]): string {
+  const byKey = new Map(notes.map(note => [normalizeEndpoint(note.endpoint), note]));
+  const lines: string[] = [`# ${api.title}${api.version ? ` ${api.version}` : ''}`, ''];
+
+  for (const endpoint of api.endpoints) {
+    const key = endpointKey(endpoint);
+    const note = byKey.get(key);
+    lines.push(`### \`${key}\``, '');
+    if (endpoint.deprecated) lines.push('**Deprecated.**', '');
+
+    const summary = [note?.summary || endpoint.summary, endpoint.description].filter(Boolean).join('\n\n');
+    if (summary) lines.push(summary, '');
+
+    if (endpoint.parameters.length > 0) {
+      lines.push('| Parameter | In | Type | Required | Description |', '| --- | --- | --- | --- | --- |');
+      for (const parameter of endpoint.parameters) {
+        lines.push(`| \`${parameter.name}\` | ${parameter.in} | ${parameter.type} | ${parameter.required ? 'yes' : 'no'} | ${parameter.description.replace(/\n/g, ' ')} |`);
+      }
+      lines.push('');
+    }
+    if (endpoint.requestBodyTypes.length > 0) {
+      lines.push(`Request body: ${endpoint.requestBodyTypes.map(type => `\`${type}\``).join(', ')}`, '');
+    }
+    if (endpoint.responses.length > 0) {
+      lines.push('Responses:', '');
+      for (const response of endpoint.responses) {
+        lines.push(`- \`${response.status}\` ${response.description}`.trimEnd());
+      }
+      lines.push('');
+    }
+    if (note?.example) lines.push('```bash', note.example.trim(), '```', '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Errors for anything documented that the sources or the API document do
+ * not define: notes naming unknown symbols or endpoints, guide headings
+ * naming them, and `Type.member` references to members that do not exist.
+ * Warnings for exported symbols and endpoints left without a description.
+ */
+export function checkDocumentation(docs: DocumentationSet): DocsIssue[] {
+  const issues: DocsIssue[] = [];
+  const error = (document: string, message: string) => issues.push({ document, severity: 'error', message });
+  const warn = (document: string, message: string) => issues.push({ document, severity: 'warning', message });
+
+  const symbols = new Map(docs.symbols.map(symbol => [symbol.name, symbol]));
+  const endpoints = new Set(docs.endpoints.map(endpointKey));
+
+  const symbolExists = (root: string, member?: string) => {
+    const symbol = symbols.get(root);
+    return !!symbol && (!member || symbol.members.some(entry => entry.name === member));
+  };
+
+  for (const note of docs.symbolNotes) {
+    const match = note.symbol.match(IDENTIFIER_REFERENCE);
+    if (!match || !symbolExists(match[1], match[2])) {
+      error('reference', `Documents ${note.symbol}, which the sources do not export`);
+    }
+  }
+  for (const note of docs.endpointNotes) {
+    if (!endpoints.has(normalizeEndpoint(note.endpoint))) {
+      error('api', `Documents ${note.endpoint}, which the API document does not define`);
+    }
+  }
+
+  for (const guide of docs.guides) {
+    const document = `guide "${guide.title}"`;
+    const prose = guide.markdown.replace(/```[\s\S]*?```/g, '');
+
+    for (const heading of prose.matchAll(/^#{1,6}\s+`([^`]+)`\s*$/gm)) {
+      const name = heading[1].trim();
+      const identifier = name.match(IDENTIFIER_REFERENCE);
+      if (ENDPOINT_REFERENCE.test(name)) {
+        if (!endpoints.has(normalizeEndpoint(name))) error(document, `Heading documents ${name}, which the API document does not define`);
+      } else if (identifier && !symbolExists(identifier[1], identifier[2])) {
+        error(document, `Heading documents ${name}, which the sources do not export`);
+      }
+    }
+
+    // Inline references can only be checked against names the sources define;
+    // headings were checked above and are skipped so they are not reported twice
+    for (const span of prose.replace(/^#{1,6}\s.*$/gm, '').matchAll(/`([^`\n]+)`/g)) {
+      const name = span[1].trim();
+      const identifier = name.match(IDENTIFIER_REFERENCE);
+      if (identifier?.[2] && symbols.has(identifier[1]) && !symbolExists(identifier[1], identifier[2])) {
+        error(document, `Refers to ${name}, but ${identifier[1]} has no member ${identifier[2]}`);
+      }
+      if (endpoints.size > 0 && ENDPOINT_REFERENCE.test(name) && !endpoints.has(normalizeEndpoint(name))) {
+        error(document, `Refers to ${name}, which the API document does not define`);
+      }
+    }
+  }
+
+  const described = new Set(docs.symbolNotes.filter(note => note.summary.trim()).map(note => note.symbol));
+  for (const symbol of docs.symbols) {
+    if (!symbol.docs && !described.has(symbol.name)) warn('reference', `${symbol.name} has no description`);
+  }
+  const describedEndpoints = new Set(docs.endpointNotes.filter(note => note.summary.trim()).map(note => normalizeEndpoint(note.endpoint)));
+  for (const endpoint of docs.endpoints) {
+    const key = endpointKey(endpoint);
+    if (!endpoint.summary && !endpoint.description && !describedEndpoints.has(key)) warn('api', `${key} has no description`);
+  }
+
+  return issues;
+}
+
+function normalizeEndpoint(endpoint: string): string {
+  const [method, ...path] = endpoint.trim().split(/\s+/);
+  return `${method.toUpperCase()} ${path.join(' ')}`;
+}
@@ -0,0 +1,254 @@
+// Research Agent - Specializes in answering questions from a local document corpus with cited sources
+
+import { z } from 'zod';
+import { Agent, complexitySchema } from './Agent.js';
+import { ResearchCorpus, type SearchHit } from './ResearchCorpus.js';
+import { checkCitations, citedNumbers, type CitationIssue } from './CitationChecks.js';
+import type { ModelRouter } from '../models/ModelRouter.js';
+import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
+
+const researchAnalysisSchema = z.object({
+  question: z.string().min(1),
+  queries: z.array(z.string().min(1)).min(1).max(5),
+  approach: z.string(),
+  complexity: complexitySchema,
+  steps: z.array(z.string()).min(1)
+}).passthrough();
+
+const researchAnswerSchema = z.object({
+  answer: z.string().min(1),
+  claims: z.array(z.object({
+    text: z.string().min(1),
+    citations: z.array(z.number().int()).default([])
+  })).default([])
+});
+
+type ResearchAnswer = z.infer<typeof researchAnswerSchema>;
+
+export interface ResearchSource {
+  // The number the answer cites as [id]
+  id: number;
+  passageId: string;
+  document: string;
+  title: string;
+  section: string;
+  passage: string;
+  score: number;
+}
+
+export class ResearchAgent extends Agent {
+  private corpus: ResearchCorpus;
+  private passagesPerQuery: number;
+  private maxPassages: number;
+  private repairAttempts: number;
+
+  constructor(modelRouter: ModelRouter, config?: {
+    // Directory of Markdown, text (including PDFs converted to text) and HTML files
+    corpusDir?: string;
+    passagesPerQuery?: number;
+    maxPassages?: number;
+    // Rounds of asking the model to drop or re-cite unsupported claims
+    repairAttempts?: number;
+  }) {
+    const capabilities: AgentCapabilities = {
+      skills: [
+        'literature-review',
+        'information-retrieval',
+        'source-evaluation',
+        'citation',
+        'fact-checking',
+        'synthesis'
+      ],
+      maxConcurrentTasks: 3,
+      specializations: ['research', 'knowledge-retrieval'],
+      supportedTaskTypes: ['RESEARCH' as any]
+    };
+
+    super('Research Agent', 'RESEARCH' as any, capabilities, modelRouter);
+
+    this.corpus = new ResearchCorpus(modelRouter, config?.corpusDir ?? 'corpus');
+    this.passagesPerQuery = config?.passagesPerQuery ?? 4;
+    this.maxPassages = config?.maxPassages ?? 8;
+    this.repairAttempts = config?.repairAttempts ?? 1;
+  }
+
+  protected async analyzeTask(task: Task): Promise<TaskAnalysis> {
+    const corpus = await this.corpus.refresh();
+
+    const prompt = `
+Analyze this research task:
+Title: ${task.title}
+Description: ${task.description}
+
+The answer must come from a corpus of ${corpus.documents} local documents, searched by similarity.
+
+Determine:
+1. The question to answer, stated on its own
+2. Up to five short search queries that would find passages answering it
+3. Research approach
+4. Estimated complexity (low/medium/high)
+
+Respond in JSON format with keys: question, queries, approach, complexity, steps.
+    `;
+
+    const parsed = await this.executeStructured(prompt, researchAnalysisSchema, {
+      temperature: 0.2,
+      maxTokens: 1000
+    });
+
+    return {
+      estimatedComplexity: parsed.complexity,
+      requiredSteps: parsed.steps,
+      potentialChallenges: corpus.documents === 0 ? ['The research corpus is empty'] : [],
+      recommendedApproach: parsed.approach,
+      additionalInfo: { ...parsed, corpus, passages: await this.retrieve([parsed.question, ...parsed.queries]) }
+    };
+  }
+
+  protected async execute(analysis: TaskAnalysis, _task: Task): Promise<any> {
+    const question: string = analysis.additionalInfo.question;
+    const passages: SearchHit[] = analysis.additionalInfo.passages;
+
+    // Nothing to cite means nothing to claim
+    if (passages.length === 0) {
+      return {
+        question,
+        answer: 'The research corpus has no passages on this question, so it cannot be answered from the available sources.',
+        claims: [],
+        sources: [],
+        retrieved: 0,
+        unsupportedClaims: [],
+        refused: true,
+        issues: [],
+        analysis
+      };
+    }
+
+    const prompt = `
+Answer this question using only the numbered passages below:
+${question}
+
+Passages:
+${passages.map((hit, index) => `[${index + 1}] ${hit.passage.title}${hit.passage.section ? ` / ${hit.passage.section}` : ''} (${hit.passage.document})\n${hit.passage.text}`).join('\n\n')}
+
+Requirements:
+- answer: Markdown; put the passage number in brackets, e.g. [2] or [1, 3], after every sentence that states a fact
+- claims: every factual statement in the answer, with the passage numbers it cites
+- Use only what the passages say; if they do not answer part of the question, say so instead of filling the gap
+- Do not cite a passage for something it does not state
+
+Respond in JSON format with keys: answer, claims.
+    `;
+
+    let response = await this.executeStructured(prompt, researchAnswerSchema, {
+      temperature: 0.1,
+      maxTokens: 3000
+    });
+    const texts = passages.map(hit => hit.passage.text);
+    let check = checkCitations(response.answer, response.claims, texts);
+
+    for (let attempt = 0; attempt < this.repairAttempts && check.issues.length > 0; attempt++) {
+      response = await this.repairAnswer(response, check.issues, passages);
+      check = checkCitations(response.answer, response.claims, texts);
+    }
+
+    return {
+      question,
+      answer: response.answer,
+      claims: response.claims,
+      sources: this.citedSources(response, passages),
+      retrieved: passages.length,
+      unsupportedClaims: check.unsupportedClaims,
+      refused: false,
+      issues: check.issues,
+      analysis
+    };
+  }
+
+  // Unsupported claims are flagged rather than failing the task; broken citations fail it
+  protected async validate(result: any): Promise<ValidationResult> {
+    if (typeof result.answer !== 'string' || !result.answer.trim()) {
+      return {
+        isValid: false,
+        reason: 'No answer generated'
+      };
+    }
+
+    if (result.refused) {
+      return {
+        isValid: true,
+        suggestions: ['Add documents covering this question to the research corpus']
+      };
+    }
+
+    const passages: string[] = new Array(result.retrieved).fill('');
+    for (const source of result.sources as ResearchSource[]) passages[source.id - 1] = source.passage;
+
+    const { issues, unsupportedClaims } = checkCitations(result.answer, result.claims, passages);
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const describe = (issue: CitationIssue) => `${issue.claim}: ${issue.message}`;
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        reason: errors.map(describe).join('; '),
+        suggestions: issues.map(describe)
+      };
+    }
+
+    return {
+      isValid: true,
+      suggestions: unsupportedClaims.length > 0 ? issues.map(describe) : undefined
+    };
+  }
+
+  // Best score per passage across all queries
+  private async retrieve(queries: string[]): Promise<SearchHit[]> {
+    const best = new Map<string, SearchHit>();
+    for (const query of queries) {
+      for (const hit of await this.corpus.search(query, this.passagesPerQuery)) {
+        const seen = best.get(hit.passage.id);
+        if (!seen || hit.score > seen.score) best.set(hit.passage.id, hit);
+      }
+    }
+    return Array.from(best.values()).sort((a, b) => b.score - a.score).slice(0, this.maxPassages);
+  }
+
+  private citedSources(response: ResearchAnswer, passages: SearchHit[]): ResearchSource[] {
+    const cited = new Set([...citedNumbers(response.answer), ...response.claims.flatMap(claim => claim.citations)]);
+    return passages
+      .map((hit, index) => ({
+        id: index + 1,
+        passageId: hit.passage.id,
+        document: hit.passage.document,
+        title: hit.passage.title,
+        section: hit.passage.section,
+        passage: hit.passage.text,
+        score: hit.score
+      }))
+      .filter(source => cited.has(source.id));
+  }
+
+  private async repairAnswer(response: ResearchAnswer, issues: CitationIssue[], passages: SearchHit[]): Promise<ResearchAnswer> {
+    const prompt = `
+This answer failed an automated check of its citations.
+
+Passages:
+${passages.map((hit, index) => `[${index + 1}] ${hit.passage.text}`).join('\n\n')}
+
+Answer:
+${JSON.stringify(response, null, 2)}
+
+Problems:
+${issues.map(issue => `- [${issue.severity}] ${issue.claim}: ${issue.message}`).join('\n')}
+
+Cite the passage that states each flagged claim, or remove the claim from both the answer and the claims list if no passage states it. Cite only passages 1 to ${passages.length}.
+Respond in JSON format with keys: answer, claims.
+    `;
+
+    return this.executeStructured(prompt, researchAnswerSchema, {
+      temperature: 0.1,
+      maxTokens: 3000
+    });
+  }
+}
@@ -0,0 +1,205 @@
+// Research Corpus - local documents split into passages and searched by embedding similarity
+
+import { promises as fs } from 'fs';
+import { extname, join, relative, resolve } from 'path';
+import { cosineSimilarity } from '../models/EmbeddingProvider.js';
+import type { ModelRouter } from '../models/ModelRouter.js';
+
+export interface CorpusPassage {
+  // "<document>#<index>"
+  id: string;
+  document: string;
+  title: string;
+  // Nearest heading above the passage
+  section: string;
+  text: string;
+}
+
+export interface SearchHit {
+  passage: CorpusPassage;
+  score: number;
+}
+
+export interface ResearchCorpusConfig {
+  // Passages are cut at paragraph boundaries once they pass this length
+  maxPassageChars?: number;
+  // Hits scoring below this are not returned
+  minScore?: number;
+}
+
+interface IndexedDocument {
+  mtimeMs: number;
+  size: number;
+  passages: CorpusPassage[];
+  vectors: number[][];
+}
+
+// PDFs are expected as extracted text (.txt); HTML is read as a saved page snapshot
+const TEXT_EXTENSIONS = new Set(['.md', '.markdown', '.txt']);
+const HTML_EXTENSIONS = new Set(['.html', '.htm']);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Indexes every Markdown, text and HTML file under a directory. refresh()
+ * re-reads only files whose size or modification time changed, and
+ * re-embeds everything if the embedding provider or model changed, since
+ * vectors from different models cannot be compared.
+ */
+export class ResearchCorpus {
+  private rootDir: string;
+  private documents: Map<string, IndexedDocument> = new Map();
+  private embeddingModel?: string;
+  private maxPassageChars: number;
+  private minScore: number;
+
+  constructor(private modelRouter: ModelRouter, rootDir: string, config: ResearchCorpusConfig = {}) {
+    this.rootDir = resolve(rootDir);
+    this.maxPassageChars = config.maxPassageChars ?? 1200;
+    this.minScore = config.minScore ?? 0.1;
+  }
+
+  async refresh(): Promise<{ documents: number; passages: number }> {
+    const embeddings = this.modelRouter.getEmbeddings();
+    const model = `${embeddings.getDefault()}:${embeddings.getProvider().model ?? ''}`;
+    if (model !== this.embeddingModel) {
+      this.documents.clear();
+      this.embeddingModel = model;
+    }
+
+    // A corpus directory that does not exist yet is an empty corpus
+    const files = await this.listFiles(this.rootDir).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return [] as string[];
+      throw error;
+    });
+    const seen = new Set<string>();
+    for (const path of files) {
+      const document = relative(this.rootDir, path).replace(/\\/g, '/');
+      seen.add(document);
+
+      const stats = await fs.stat(path);
+      const indexed = this.documents.get(document);
+      if (indexed && indexed.mtimeMs === stats.mtimeMs && indexed.size === stats.size) continue;
+
+      const passages = splitPassages(document, await this.readText(path), this.maxPassageChars);
+      const vectors = passages.length > 0 ? await this.modelRouter.embedMany(passages.map(passage => passage.text)) : [];
+      this.documents.set(document, { mtimeMs: stats.mtimeMs, size: stats.size, passages, vectors });
+    }
+
+    for (const document of this.documents.keys()) {
+      if (!seen.has(document)) this.documents.delete(document);
+    }
+
+    return this.getStats();
+  }
+
+  async search(query: string, limit: number = 5): Promise<SearchHit[]> {
+    if (this.documents.size === 0) return [];
+
+    const vector = await this.modelRouter.embed(query);
+    const hits: SearchHit[] = [];
+    for (const indexed of this.documents.values()) {
+      indexed.passages.forEach((passage, index) => {
+        const score = cosineSimilarity(vector, indexed.vectors[index]);
+        if (score >= this.minScore) hits.push({ passage, score });
+      });
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  getStats(): { documents: number; passages: number } {
+    let passages = 0;
+    for (const indexed of this.documents.values()) passages += indexed.passages.length;
+    return { documents: this.documents.size, passages };
+  }
+
+  private async listFiles(directory: string): Promise<string[]> {
+    const found: string[] = [];
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory() && !entry.name.startsWith('.')) {
+        found.push(...await this.listFiles(path));
+      } else if (entry.isFile()) {
+        const extension = extname(entry.name).toLowerCase();
+        if (TEXT_EXTENSIONS.has(extension) || HTML_EXTENSIONS.has(extension)) found.push(path);
+      }
+    }
+    return found.sort();
+  }
+
+  private async readText(path: string): Promise<string> {
+    const text = await fs.readFile(path, 'utf-8');
+    return HTML_EXTENSIONS.has(extname(path).toLowerCase()) ? htmlToText(text) : text;
+  }
+}
+
+// Paragraphs are kept whole; a heading always starts a new passage
+export function splitPassages(document: string, text: string, maxChars: number): CorpusPassage[] {
+  const passages: CorpusPassage[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const title = lines.find(line => /^#\s/.test(line))?.replace(/^#\s+/, '').trim() || document;
+
+  let section = '';
+  let current: string[] = [];
+  const flush = () => {
+    const body = current.join('\n\n').trim();
+    if (body) {
+      passages.push({ id: `${document}#${passages.length + 1}`, document, title, section, text: body });
+    }
+    current = [];
+  };
+
+  const paragraphs: string[] = [];
+  let paragraph: string[] = [];
+  for (const line of lines) {
+    if (/^#{1,6}\s/.test(line)) {
+      if (paragraph.length > 0) paragraphs.push(paragraph.join('\n'));
+      paragraphs.push(line);
+      paragraph = [];
+    } else if (line.trim() === '') {
+      if (paragraph.length > 0) paragraphs.push(paragraph.join('\n'));
+      paragraph = [];
+    } else {
+      paragraph.push(line);
+    }
+  }
+  if (paragraph.length > 0) paragraphs.push(paragraph.join('\n'));
+
+  for (const block of paragraphs) {
+    if (/^#{1,6}\s/.test(block)) {
+      flush();
+      section = block.replace(/^#{1,6}\s+/, '').trim();
+      continue;
+    }
+    const length = current.reduce((sum, part) => sum + part.length + 2, 0);
+    if (current.length > 0 && length + block.length > maxChars) flush();
+    current.push(block);
+  }
+  flush();
+
+  return passages;
+}
+
+// Keeps headings as Markdown so passages get sections; drops scripts, styles and markup
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_match, level: string, inner: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').trim()}\n\n`)
+    .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|li|ul|ol|tr|table|blockquote|pre|header|footer|main)\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+      }
+      return ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
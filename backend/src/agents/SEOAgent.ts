@@ -1,9 +1,20 @@
 // SEO Agent - Specializes in search engine optimization and content optimization
 
-import { Agent } from './Agent.js';
+import { z } from 'zod';
+import { Agent, complexitySchema } from './Agent.js';
 import type { ModelRouter } from '../models/ModelRouter.js';
 import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
 
+const seoAnalysisSchema = z.object({
+  focusArea: z.string(),
+  targetKeywords: z.array(z.string()).default([]),
+  tools: z.array(z.string()).default([]),
+  strategy: z.string(),
+  improvements: z.unknown().optional(),
+  complexity: complexitySchema,
+  steps: z.array(z.string()).min(1)
+}).passthrough();
+
 export class SEOAgent extends Agent {
   private seoTools: string[];
   private focusAreas: string[];
@@ -66,29 +77,18 @@ Determine:
 Respond in JSON format with keys: focusArea, targetKeywords, tools, strategy, improvements, complexity, steps.
     `;
 
-    const response = await this.executeWithModel(prompt, {
+    const parsed = await this.executeStructured(prompt, seoAnalysisSchema, {
       temperature: 0.4,
       maxTokens: 1500
     });
 
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        estimatedComplexity: parsed.complexity || 'medium',
-        requiredSteps: parsed.steps || [],
-        potentialChallenges: [],
-        recommendedApproach: parsed.strategy || '',
-        additionalInfo: parsed
-      };
-    } catch (error) {
-      return {
-        estimatedComplexity: 'medium',
-        requiredSteps: ['Analyze SEO requirements', 'Implement optimizations'],
-        potentialChallenges: [],
-        recommendedApproach: response,
-        additionalInfo: {}
-      };
-    }
+    return {
+      estimatedComplexity: parsed.complexity,
+      requiredSteps: parsed.steps,
+      potentialChallenges: [],
+      recommendedApproach: parsed.strategy,
+      additionalInfo: parsed
+    };
   }
 
   protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
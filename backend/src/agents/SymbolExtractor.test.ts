@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { extractExportedSymbols, type ExportedSymbol } from './SymbolExtractor.js';
+
+const SOURCES: Record<string, string> = {
+  'src/math.ts': [
+    '/** Adds two numbers. */',
+    'export function add(a: number, b: number) {',
+    '  return a + b;',
+    '}',
+    '',
+    'export const ZERO = 0;',
+    '',
+    'export type Pair<T> = [T, T];',
+    '',
+    'export enum Sign {',
+    '  /** Below zero */',
+    '  Negative = -1,',
+    '  Positive = 1',
+    '}',
+    ''
+  ].join('\n'),
+  'src/counter.ts': [
+    'export interface Countable {',
+    '  readonly count: number;',
+    '  label?: string;',
+    '}',
+    '',
+    '/** Counts upwards. */',
+    'export class Counter implements Countable {',
+    '  static readonly start = 0;',
+    '  count = Counter.start;',
+    '  #secret = 1;',
+    '  private hidden = 2;',
+    '  protected guarded = 3;',
+    '  constructor(public readonly step: number) {}',
+    '  /** Moves the count on by one step. */',
+    '  increment(): number {',
+    '    return (this.count += this.step);',
+    '  }',
+    '}',
+    ''
+  ].join('\n'),
+  'src/index.ts': "export { add } from './math.js';\nexport { Counter as DefaultCounter } from './counter.js';\n"
+};
+
+let root: string;
+let symbols: ExportedSymbol[];
+
+const find = (name: string) => symbols.find(symbol => symbol.name === name);
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(join(tmpdir(), 'symbols-'));
+  await fs.mkdir(join(root, 'src'));
+  for (const [file, text] of Object.entries(SOURCES)) {
+    await fs.writeFile(join(root, file), text);
+  }
+  symbols = extractExportedSymbols(Object.keys(SOURCES).map(file => join(root, file)), root);
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('extractExportedSymbols', () => {
+  it('lists each kind of export with its location and docs, sorted by file and line', () => {
+    expect(symbols.map(symbol => [symbol.file, symbol.name, symbol.kind, symbol.line])).toEqual([
+      ['src/counter.ts', 'Countable', 'interface', 1],
+      ['src/counter.ts', 'Counter', 'class', 7],
+      ['src/counter.ts', 'DefaultCounter', 'class', 7],
+      ['src/math.ts', 'add', 'function', 2],
+      ['src/math.ts', 'ZERO', 'variable', 6],
+      ['src/math.ts', 'Pair', 'type', 8],
+      ['src/math.ts', 'Sign', 'enum', 10]
+    ]);
+    expect(find('add')?.docs).toBe('Adds two numbers.');
+    expect(find('Counter')?.docs).toBe('Counts upwards.');
+  });
+
+  it('takes signatures from the type checker, including inferred return types', () => {
+    expect(find('add')?.signature).toBe('function add(a: number, b: number): number');
+    expect(find('ZERO')?.signature).toBe('const ZERO: 0');
+    expect(find('Pair')?.signature).toBe('type Pair<T> = [T, T]');
+    expect(find('Counter')?.signature).toBe('class Counter implements Countable');
+  });
+
+  it('lists enum members with their docs', () => {
+    expect(find('Sign')?.members).toEqual([
+      { name: 'Negative', signature: 'Negative = -1', docs: 'Below zero' },
+      { name: 'Positive', signature: 'Positive = 1', docs: '' }
+    ]);
+  });
+
+  it('lists public and static class members and leaves out private, #private and protected ones', () => {
+    const members = find('Counter')?.members ?? [];
+    expect(members.map(member => member.name).sort()).toEqual(['constructor', 'count', 'increment', 'start', 'step']);
+    expect(members.find(member => member.name === 'increment')).toEqual({
+      name: 'increment',
+      signature: 'increment(): number',
+      docs: 'Moves the count on by one step.'
+    });
+    expect(members.find(member => member.name === 'start')?.signature).toBe('static readonly start: 0');
+    expect(members.find(member => member.name === 'constructor')?.signature).toBe('constructor(step: number)');
+  });
+
+  it('marks readonly and optional interface members', () => {
+    expect(find('Countable')?.members.map(member => member.signature)).toEqual(['readonly count: number', 'label?: string | undefined']);
+  });
+
+  it('follows re-exports to the original declaration and lists it once', () => {
+    expect(symbols.filter(symbol => symbol.name === 'add')).toHaveLength(1);
+    expect(symbols.some(symbol => symbol.file === 'src/index.ts')).toBe(false);
+  });
+
+  it('lists a renamed re-export under its exported name at the original declaration', () => {
+    expect(find('DefaultCounter')).toMatchObject({
+      file: 'src/counter.ts',
+      line: 7,
+      signature: 'class DefaultCounter implements Countable',
+      docs: 'Counts upwards.'
+    });
+  });
+});
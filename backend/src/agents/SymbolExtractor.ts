@@ -0,0 +1,204 @@
+// Symbol Extractor - exported TypeScript declarations read with the compiler API
+
+import ts from 'typescript';
+import { relative } from 'path';
+
+export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable' | 'namespace';
+
+export interface SymbolMember {
+  name: string;
+  signature: string;
+  docs: string;
+}
+
+export interface ExportedSymbol {
+  name: string;
+  kind: SymbolKind;
+  // Relative to the extraction root
+  file: string;
+  line: number;
+  signature: string;
+  docs: string;
+  members: SymbolMember[];
+}
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.NodeNext,
+  moduleResolution: ts.ModuleResolutionKind.NodeNext,
+  strict: true,
+  allowJs: false,
+  noEmit: true,
+  skipLibCheck: true,
+  // Ambient @types packages are not needed to read the files' own exports
+  types: []
+};
+
+/**
+ * Lists what each file exports, following re-exports to the original
+ * declaration. Signatures come from the type checker, so inferred return
+ * types appear as the compiler sees them. Private and #private class members
+ * are left out; a symbol exported from several files is listed once.
+ */
+export function extractExportedSymbols(paths: string[], root: string): ExportedSymbol[] {
+  const program = ts.createProgram(paths, COMPILER_OPTIONS);
+  const checker = program.getTypeChecker();
+  const symbols = new Map<string, ExportedSymbol>();
+
+  for (const path of paths) {
+    const sourceFile = program.getSourceFile(path);
+    if (!sourceFile) continue;
+
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) continue;
+
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const symbol = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+      const declaration = symbol.declarations?.[0];
+      if (!declaration) continue;
+
+      const name = exported.name === 'default' ? symbol.name : exported.name;
+      const entry = describeSymbol(checker, symbol, declaration, name, root);
+      if (entry && !symbols.has(`${entry.file}:${entry.name}`)) {
+        symbols.set(`${entry.file}:${entry.name}`, entry);
+      }
+    }
+  }
+
+  return Array.from(symbols.values()).sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+function describeSymbol(
+  checker: ts.TypeChecker,
+  symbol: ts.Symbol,
+  declaration: ts.Declaration,
+  name: string,
+  root: string
+): ExportedSymbol | undefined {
+  const kind = kindOf(declaration);
+  if (!kind) return undefined;
+
+  const sourceFile = declaration.getSourceFile();
+  const { line } = sourceFile.getLineAndCharacterOfPosition(declaration.getStart());
+  const base = {
+    name,
+    kind,
+    file: relative(root, sourceFile.fileName).replace(/\\/g, '/'),
+    line: line + 1,
+    docs: docsOf(checker, symbol),
+    members: [] as SymbolMember[]
+  };
+
+  switch (kind) {
+    case 'function': {
+      const signatures = checker.getTypeOfSymbolAtLocation(symbol, declaration).getCallSignatures();
+      return {
+        ...base,
+        signature: signatures.map(signature => `function ${name}${checker.signatureToString(signature)}`).join('\n')
+      };
+    }
+    case 'variable': {
+      const type = checker.typeToString(checker.getTypeOfSymbolAtLocation(symbol, declaration));
+      const keyword = ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const ? 'const' : 'let';
+      return { ...base, signature: `${keyword} ${name}: ${type}` };
+    }
+    case 'type':
+      return { ...base, signature: declarationText(declaration as ts.TypeAliasDeclaration, name) };
+    case 'enum':
+      return {
+        ...base,
+        signature: `enum ${name}`,
+        members: (declaration as ts.EnumDeclaration).members.map(member => ({
+          name: member.name.getText(),
+          signature: member.getText(),
+          docs: docsOf(checker, checker.getSymbolAtLocation(member.name))
+        }))
+      };
+    case 'class':
+    case 'interface':
+      return { ...base, signature: heritageText(declaration as ts.ClassDeclaration | ts.InterfaceDeclaration, kind, name), members: membersOf(checker, symbol, declaration) };
+    case 'namespace':
+      return { ...base, signature: `namespace ${name}` };
+  }
+}
+
+function kindOf(declaration: ts.Declaration): SymbolKind | undefined {
+  if (ts.isFunctionDeclaration(declaration)) return 'function';
+  if (ts.isClassDeclaration(declaration)) return 'class';
+  if (ts.isInterfaceDeclaration(declaration)) return 'interface';
+  if (ts.isTypeAliasDeclaration(declaration)) return 'type';
+  if (ts.isEnumDeclaration(declaration)) return 'enum';
+  if (ts.isVariableDeclaration(declaration)) return 'variable';
+  if (ts.isModuleDeclaration(declaration)) return 'namespace';
+  return undefined;
+}
+
+function membersOf(checker: ts.TypeChecker, symbol: ts.Symbol, declaration: ts.Declaration): SymbolMember[] {
+  const members: SymbolMember[] = [];
+  const add = (member: ts.Symbol, prefix: string) => {
+    const memberDeclaration = member.declarations?.[0];
+    if (!memberDeclaration || isHidden(memberDeclaration)) return;
+
+    const memberName = member.name === '__constructor' ? 'constructor' : member.name;
+    members.push({
+      name: memberName,
+      signature: prefix + memberSignature(checker, member, memberDeclaration, memberName, declaration),
+      docs: docsOf(checker, member)
+    });
+  };
+
+  symbol.members?.forEach(member => add(member, ''));
+  // Static members of a class live in its exports
+  if (ts.isClassDeclaration(declaration)) {
+    symbol.exports?.forEach(member => {
+      if (member.name !== 'prototype') add(member, 'static ');
+    });
+  }
+  return members;
+}
+
+function memberSignature(
+  checker: ts.TypeChecker,
+  member: ts.Symbol,
+  declaration: ts.Declaration,
+  name: string,
+  owner: ts.Declaration
+): string {
+  if (ts.isConstructorDeclaration(declaration)) {
+    const signature = checker.getSignatureFromDeclaration(declaration);
+    return signature ? `constructor${checker.signatureToString(signature).replace(/:\s*[^:)]*$/, '')}` : 'constructor()';
+  }
+
+  const type = checker.getTypeOfSymbolAtLocation(member, owner);
+  if (ts.isMethodDeclaration(declaration) || ts.isMethodSignature(declaration)) {
+    return type.getCallSignatures().map(signature => `${name}${checker.signatureToString(signature)}`).join('\n');
+  }
+
+  const optional = member.flags & ts.SymbolFlags.Optional ? '?' : '';
+  const readonly = ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Readonly ? 'readonly ' : '';
+  return `${readonly}${name}${optional}: ${checker.typeToString(type)}`;
+}
+
+// Private, #private and protected members are not part of the public reference
+function isHidden(declaration: ts.Declaration): boolean {
+  const flags = ts.getCombinedModifierFlags(declaration);
+  if (flags & (ts.ModifierFlags.Private | ts.ModifierFlags.Protected)) return true;
+  const name = (declaration as ts.NamedDeclaration).name;
+  return name !== undefined && ts.isPrivateIdentifier(name);
+}
+
+function heritageText(declaration: ts.ClassDeclaration | ts.InterfaceDeclaration, kind: 'class' | 'interface', name: string): string {
+  const typeParameters = declaration.typeParameters ? `<${declaration.typeParameters.map(parameter => parameter.getText()).join(', ')}>` : '';
+  const heritage = (declaration.heritageClauses ?? []).map(clause => clause.getText()).join(' ');
+  const abstract = ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Abstract ? 'abstract ' : '';
+  return `${abstract}${kind} ${name}${typeParameters}${heritage ? ` ${heritage}` : ''}`;
+}
+
+function declarationText(declaration: ts.TypeAliasDeclaration, name: string): string {
+  const typeParameters = declaration.typeParameters ? `<${declaration.typeParameters.map(parameter => parameter.getText()).join(', ')}>` : '';
+  return `type ${name}${typeParameters} = ${declaration.type.getText()}`;
+}
+
+function docsOf(checker: ts.TypeChecker, symbol: ts.Symbol | undefined): string {
+  return symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim() : '';
+}
@@ -0,0 +1,330 @@
+// Tech Writer Agent - Specializes in reference docs and guides generated from sources and API descriptions
+
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import { extname, isAbsolute, join, relative, resolve } from 'path';
+import { Agent, complexitySchema } from './Agent.js';
+import { extractExportedSymbols, type ExportedSymbol } from './SymbolExtractor.js';
+import { endpointKey, isOpenApiDocument, loadOpenApiDocument, readOpenApi, type OpenApiSummary } from './OpenApiReader.js';
+import {
+  checkDocumentation,
+  renderEndpointReference,
+  renderSymbolReference,
+  type DocsIssue,
+  type DocumentationSet
+} from './ReferenceDocs.js';
+import { parseYaml } from '../shared/yaml.js';
+import type { ModelRouter } from '../models/ModelRouter.js';
+import type { Task, TaskAnalysis, ValidationResult, AgentCapabilities } from '../shared/types.js';
+
+const docsAnalysisSchema = z.object({
+  audience: z.string(),
+  guides: z.array(z.object({
+    title: z.string(),
+    purpose: z.string()
+  })).default([]),
+  approach: z.string(),
+  complexity: complexitySchema,
+  steps: z.array(z.string()).min(1)
+}).passthrough();
+
+const docsBundleSchema = z.object({
+  symbols: z.array(z.object({
+    symbol: z.string(),
+    summary: z.string(),
+    example: z.string().optional()
+  })).default([]),
+  endpoints: z.array(z.object({
+    endpoint: z.string(),
+    summary: z.string(),
+    example: z.string().optional()
+  })).default([]),
+  guides: z.array(z.object({
+    title: z.string(),
+    markdown: z.string().min(1)
+  })).default([])
+});
+
+type DocsBundle = z.infer<typeof docsBundleSchema>;
+
+const SOURCE_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts']);
+const SPEC_EXTENSIONS = new Set(['.json', '.yaml', '.yml']);
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'coverage', '.git']);
+
+interface DocsSources {
+  sourceFiles: string[];
+  symbols: ExportedSymbol[];
+  api?: OpenApiSummary;
+}
+
+export class TechWriterAgent extends Agent {
+  private rootDir: string;
+  private maxSourceFiles: number;
+  private repairAttempts: number;
+
+  constructor(modelRouter: ModelRouter, config?: {
+    // Task paths must resolve inside this directory
+    rootDir?: string;
+    maxSourceFiles?: number;
+    // Rounds of fixing the docs against the check results
+    repairAttempts?: number;
+  }) {
+    const capabilities: AgentCapabilities = {
+      skills: [
+        'api-reference',
+        'technical-writing',
+        'openapi',
+        'typescript',
+        'tutorials',
+        'information-architecture'
+      ],
+      maxConcurrentTasks: 2,
+      specializations: ['documentation', 'developer-experience'],
+      supportedTaskTypes: ['DOCUMENTATION' as any]
+    };
+
+    super('Tech Writer Agent', 'TECH_WRITER' as any, capabilities, modelRouter);
+
+    this.rootDir = resolve(config?.rootDir ?? process.cwd());
+    this.maxSourceFiles = config?.maxSourceFiles ?? 300;
+    this.repairAttempts = config?.repairAttempts ?? 1;
+  }
+
+  protected async analyzeTask(task: Task): Promise<TaskAnalysis> {
+    const sources = await this.collectSources(task);
+
+    const prompt = `
+Analyze this documentation task:
+Title: ${task.title}
+Description: ${task.description}
+
+Exported symbols (${sources.symbols.length}):
+${sources.symbols.map(symbol => `- ${symbol.kind} ${symbol.name} (${symbol.file})`).join('\n') || '- none'}
+
+Endpoints (${sources.api?.endpoints.length ?? 0}):
+${sources.api?.endpoints.map(endpoint => `- ${endpointKey(endpoint)}`).join('\n') || '- none'}
+
+Determine:
+1. Who the docs are for
+2. Narrative guides to write (title and purpose), e.g. getting started or common tasks
+3. Documentation approach
+4. Estimated complexity (low/medium/high)
+
+Respond in JSON format with keys: audience, guides, approach, complexity, steps.
+    `;
+
+    const parsed = await this.executeStructured(prompt, docsAnalysisSchema, {
+      temperature: 0.3,
+      maxTokens: 1500
+    });
+
+    return {
+      estimatedComplexity: parsed.complexity,
+      requiredSteps: parsed.steps,
+      potentialChallenges: [],
+      recommendedApproach: parsed.approach,
+      additionalInfo: { ...parsed, ...sources }
+    };
+  }
+
+  protected async execute(analysis: TaskAnalysis, task: Task): Promise<any> {
+    const sources = analysis.additionalInfo as DocsSources;
+    const endpoints = sources.api?.endpoints ?? [];
+
+    const prompt = `
+Write documentation for this task:
+${task.description}
+
+Audience: ${analysis.additionalInfo.audience}
+Approach: ${analysis.recommendedApproach}
+
+Exported symbols, with their signatures and existing doc comments:
+${sources.symbols.map(symbol => [
+  `${symbol.kind} ${symbol.name}: ${symbol.signature}`,
+  symbol.docs && `  docs: ${symbol.docs}`,
+  ...symbol.members.map(member => `  member ${symbol.name}.${member.name}: ${member.signature}`)
+].filter(Boolean).join('\n')).join('\n') || 'none'}
+
+Endpoints:
+${endpoints.map(endpoint => `${endpointKey(endpoint)}: ${endpoint.summary || endpoint.description || 'no description'}`).join('\n') || 'none'}
+
+Guides to write:
+${analysis.additionalInfo.guides.map((guide: { title: string; purpose: string }) => `- ${guide.title}: ${guide.purpose}`).join('\n') || '- none'}
+
+Requirements:
+- symbols: a summary (and optionally a short usage example) for exported symbols and members, named exactly as listed ("Name" or "Name.member")
+- endpoints: a summary and optionally a curl example per endpoint, named exactly as listed ("METHOD /path")
+- guides: Markdown; put a symbol or endpoint in a code-formatted heading only if it is listed above
+- Never describe symbols, members or endpoints that are not listed
+
+Respond in JSON format with keys: symbols, endpoints, guides.
+    `;
+
+    let bundle = await this.executeStructured(prompt, docsBundleSchema, {
+      temperature: 0.3,
+      maxTokens: 8000
+    });
+    let issues = checkDocumentation(this.documentationSet(sources, bundle));
+
+    for (let attempt = 0; attempt < this.repairAttempts && issues.some(issue => issue.severity === 'error'); attempt++) {
+      bundle = await this.repairDocs(bundle, issues);
+      issues = checkDocumentation(this.documentationSet(sources, bundle));
+    }
+
+    return {
+      files: this.renderFiles(sources, bundle),
+      ...this.documentationSet(sources, bundle),
+      sourceFiles: sources.sourceFiles.map(path => relative(this.rootDir, path)),
+      issues,
+      analysis
+    };
+  }
+
+  // Checked against the compiler's view of the sources, not the model's memory of them
+  protected async validate(result: any): Promise<ValidationResult> {
+    if (!Array.isArray(result.files) || result.files.length === 0) {
+      return {
+        isValid: false,
+        reason: 'No documentation generated'
+      };
+    }
+
+    const issues = checkDocumentation(result as DocumentationSet);
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const describe = (issue: DocsIssue) => `${issue.document}: ${issue.message}`;
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        reason: errors.map(describe).join('; '),
+        suggestions: issues.map(describe)
+      };
+    }
+
+    return {
+      isValid: true,
+      suggestions: issues.length > 0 ? issues.map(describe) : undefined
+    };
+  }
+
+  private documentationSet(sources: DocsSources, bundle: DocsBundle): DocumentationSet {
+    return {
+      symbols: sources.symbols,
+      endpoints: sources.api?.endpoints ?? [],
+      symbolNotes: bundle.symbols,
+      endpointNotes: bundle.endpoints,
+      guides: bundle.guides
+    };
+  }
+
+  private renderFiles(sources: DocsSources, bundle: DocsBundle): Array<{ path: string; content: string }> {
+    const files: Array<{ path: string; content: string }> = [];
+    if (sources.symbols.length > 0) {
+      files.push({ path: 'docs/reference.md', content: renderSymbolReference(sources.symbols, bundle.symbols) });
+    }
+    if (sources.api) {
+      files.push({ path: 'docs/api.md', content: renderEndpointReference(sources.api, bundle.endpoints) });
+    }
+    for (const guide of bundle.guides) {
+      const slug = guide.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'guide';
+      files.push({ path: `docs/guides/${slug}.md`, content: guide.markdown });
+    }
+    return files;
+  }
+
+  private async repairDocs(bundle: DocsBundle, issues: DocsIssue[]): Promise<DocsBundle> {
+    const prompt = `
+This documentation failed automated checks against the sources.
+
+Documentation:
+${JSON.stringify(bundle, null, 2)}
+
+Problems:
+${issues.map(issue => `- [${issue.severity}] ${issue.document}: ${issue.message}`).join('\n')}
+
+Remove or correct every reference to something that does not exist, and describe the symbols that lack a description.
+Respond in JSON format with keys: symbols, endpoints, guides.
+    `;
+
+    return this.executeStructured(prompt, docsBundleSchema, {
+      temperature: 0.1,
+      maxTokens: 8000
+    });
+  }
+
+  /**
+   * Sources are the task's files plus everything under
+   * additionalData.repositoryPath. Any JSON or YAML file with an "openapi" or
+   * "swagger" field is read as the API description, as is
+   * additionalData.openApiPath.
+   */
+  private async collectSources(task: Task): Promise<DocsSources> {
+    const paths = (task.context.files || []).map(path => this.resolvePath(path));
+    const repositoryPath = task.context.additionalData?.repositoryPath;
+    if (typeof repositoryPath === 'string') {
+      paths.push(...await this.walk(this.resolvePath(repositoryPath)));
+    }
+
+    const sourceFiles = paths
+      .filter(path => SOURCE_EXTENSIONS.has(extname(path)) && !path.endsWith('.d.ts'))
+      .slice(0, this.maxSourceFiles);
+
+    const openApiPath = task.context.additionalData?.openApiPath;
+    let api: OpenApiSummary | undefined;
+    if (typeof openApiPath === 'string') {
+      const path = this.resolvePath(openApiPath);
+      api = readOpenApi(await loadOpenApiDocument(path), path);
+    } else {
+      for (const path of paths.filter(candidate => SPEC_EXTENSIONS.has(extname(candidate)))) {
+        const document = await this.readSpecCandidate(path);
+        if (document) {
+          api = readOpenApi(document, path);
+          break;
+        }
+      }
+    }
+
+    if (sourceFiles.length === 0 && !api) {
+      throw new Error('No TypeScript sources or OpenAPI document found in the task files or repository path');
+    }
+
+    return {
+      sourceFiles,
+      symbols: sourceFiles.length > 0 ? extractExportedSymbols(sourceFiles, this.rootDir) : [],
+      api
+    };
+  }
+
+  private resolvePath(path: string): string {
+    const resolved = isAbsolute(path) ? resolve(path) : resolve(this.rootDir, path);
+    const fromRoot = relative(this.rootDir, resolved);
+    if (fromRoot.startsWith('..') || isAbsolute(fromRoot)) {
+      throw new Error(`Path ${path} is outside the documentation root ${this.rootDir}`);
+    }
+    return resolved;
+  }
+
+  private async walk(directory: string): Promise<string[]> {
+    const found: string[] = [];
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) found.push(...await this.walk(path));
+      } else if (entry.isFile() && (SOURCE_EXTENSIONS.has(extname(entry.name)) || SPEC_EXTENSIONS.has(extname(entry.name)))) {
+        found.push(path);
+      }
+    }
+    return found.sort();
+  }
+
+  // Unreadable or unrelated JSON and YAML files are not API descriptions
+  private async readSpecCandidate(path: string): Promise<Record<string, any> | undefined> {
+    try {
+      const text = await fs.readFile(path, 'utf-8');
+      const document = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+      return isOpenApiDocument(document) ? document : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
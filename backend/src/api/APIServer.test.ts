@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { MAX_ATTACHMENT_BYTES } from '../models/Attachments.js';
+import { Orchestrator } from '../orchestration/Orchestrator.js';
+import { APIServer } from './APIServer.js';
+
+describe('APIServer task attachments', () => {
+  let server: APIServer;
+  let baseUrl: string;
+  let submitTask: MockInstance<Orchestrator['submitTask']>;
+
+  const form = (files: File[], fields: Record<string, string> = {}) => {
+    const body = new FormData();
+    body.set('title', 'Review the chart');
+    body.set('description', 'Say what changed');
+    for (const [name, value] of Object.entries(fields)) body.set(name, value);
+    for (const file of files) body.append('files', file);
+    return body;
+  };
+
+  const post = (body: FormData | object) => fetch(`${baseUrl}/api/tasks`, body instanceof FormData
+    ? { method: 'POST', body }
+    : { method: 'POST', body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } });
+
+  beforeEach(async () => {
+    vi.stubEnv('API_KEY', '');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const orchestrator = new Orchestrator();
+    // The request is only parsed and validated here; no agent picks it up
+    submitTask = vi.spyOn(orchestrator, 'submitTask').mockResolvedValue('task-1');
+
+    server = new APIServer(orchestrator, 0);
+    server.start();
+    await once(server['httpServer'], 'listening');
+    baseUrl = `http://127.0.0.1:${(server['httpServer'].address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    server.stop();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('turns multipart files into base64 attachments next to the JSON context', async () => {
+    const response = await post(form(
+      [new File(['PNGDATA'], 'chart.png', { type: 'image/png' }), new File(['a,b'], 'data.csv', { type: 'text/csv' })],
+      { priority: 'HIGH', requiredCapabilities: '["analysis"]', context: '{"projectId":"p1"}' }
+    ));
+
+    expect(response.status).toBe(200);
+    expect(submitTask).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Review the chart',
+      priority: 'HIGH',
+      requiredCapabilities: ['analysis'],
+      context: {
+        additionalData: {},
+        projectId: 'p1',
+        attachments: [
+          { name: 'chart.png', mimeType: 'image/png', data: Buffer.from('PNGDATA').toString('base64') },
+          { name: 'data.csv', mimeType: 'text/csv', data: Buffer.from('a,b').toString('base64') }
+        ]
+      }
+    }));
+  });
+
+  it('rejects file types no provider reads, including untyped files', async () => {
+    for (const file of [new File(['x'], 'clip.mp4', { type: 'video/mp4' }), new File(['x'], 'blob')]) {
+      const response = await post(form([file]));
+
+      expect(response.status).toBe(400);
+      await expect(response.json()).resolves.toMatchObject({
+        error: 'Invalid request payload',
+        details: { fieldErrors: { context: ['Unsupported attachment type'] } }
+      });
+    }
+    expect(submitTask).not.toHaveBeenCalled();
+  });
+
+  it('rejects files over the size limit', async () => {
+    const response = await post(form([new File([new Uint8Array(MAX_ATTACHMENT_BYTES + 1)], 'huge.pdf', { type: 'application/pdf' })]));
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      details: { fieldErrors: { context: ['Attachments are limited to 10MB'] } }
+    });
+    expect(submitTask).not.toHaveBeenCalled();
+  });
+
+  it('rejects more than ten attachments and malformed JSON fields', async () => {
+    const files = Array.from({ length: 11 }, (_, i) => new File(['x'], `${i}.txt`, { type: 'text/plain' }));
+    expect((await post(form(files))).status).toBe(400);
+
+    const response = await post(form([], { context: '{not json' }));
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({ error: expect.stringMatching(/^Invalid multipart body: /) });
+    expect(submitTask).not.toHaveBeenCalled();
+  });
+
+  it('applies the same limits to JSON attachments', async () => {
+    const response = await post({
+      title: 'Review',
+      description: 'Check it',
+      context: { attachments: [{ name: 'a.exe', mimeType: 'application/x-msdownload', data: 'AAAA' }] }
+    });
+
+    expect(response.status).toBe(400);
+    expect(submitTask).not.toHaveBeenCalled();
+  });
+});
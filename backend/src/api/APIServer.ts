@@ -5,10 +5,24 @@ import { Server as SocketIOServer } from 'socket.io';
 import { createServer } from 'http';
 import cors from 'cors';
 import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
 import { Orchestrator } from '../orchestration/Orchestrator.js';
 import { AgentManagementSystem } from '../orchestration/AgentManagementSystem.js';
 import { WorkflowManagementSystem } from '../orchestration/WorkflowManagementSystem.js';
-import { AgentType, TaskPriority, TaskType } from '../shared/types.js';
+import { ConnectorRegistry } from '../orchestration/ConnectorRegistry.js';
+import type { ContentCalendar } from '../orchestration/ContentCalendar.js';
+import type { ModelRouter } from '../models/ModelRouter.js';
+import { MAX_ATTACHMENT_BYTES, isSupportedAttachment } from '../models/Attachments.js';
+import { AgentType, TaskPriority, TaskStatus, TaskType } from '../shared/types.js';
+
+const attachmentSchema = z.object({
+  name: z.string().min(1),
+  mimeType: z.string().refine(isSupportedAttachment, 'Unsupported attachment type'),
+  data: z.string().min(1).refine(
+    data => Buffer.byteLength(data, 'base64') <= MAX_ATTACHMENT_BYTES,
+    `Attachments are limited to ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB`
+  )
+});
 
 const taskRequestSchema = z.object({
   title: z.string().min(1),
@@ -16,7 +30,9 @@ const taskRequestSchema = z.object({
   type: z.nativeEnum(TaskType).default(TaskType.GENERAL),
   priority: z.nativeEnum(TaskPriority).default(TaskPriority.MEDIUM),
   requiredCapabilities: z.array(z.string()).optional(),
-  context: z.record(z.any()).optional()
+  context: z.object({
+    attachments: z.array(attachmentSchema).max(10).optional()
+  }).catchall(z.any()).optional()
 });
 
 const agentCreateSchema = z.object({
@@ -59,7 +75,15 @@ const agentTemplateSchema = z.object({
   defaultCapabilities: z.array(z.string()),
   defaultSpecializations: z.array(z.string()),
   promptTemplate: z.string().min(1),
-  trainingStrategy: z.enum(['supervised', 'reinforced', 'continuous']).optional()
+  trainingStrategy: z.enum(['supervised', 'reinforced', 'continuous']).optional(),
+  brandVoice: z.object({
+    tone: z.string().min(1),
+    audience: z.string().optional(),
+    bannedTerms: z.array(z.string()),
+    preferredTerms: z.record(z.string()),
+    maxSentenceWords: z.number().int().positive().optional(),
+    maxExclamations: z.number().int().nonnegative().optional()
+  }).optional()
 });
 
 const workflowTemplateSchema = z.object({
@@ -80,6 +104,51 @@ const workflowTemplateSchema = z.object({
   category: z.enum(['development', 'marketing', 'operations', 'custom'])
 });
 
+const agentChatSchema = z.object({
+  message: z.string().min(1),
+  conversationId: z.string().min(1).optional()
+});
+
+const breakerConfigSchema = z.object({
+  failureThreshold: z.number().int().positive().optional(),
+  cooldownMs: z.number().int().nonnegative().optional(),
+  halfOpenMaxProbes: z.number().int().positive().optional(),
+  successThreshold: z.number().int().positive().optional()
+});
+
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}(T.+)?$/, 'Use YYYY-MM-DD or an ISO timestamp');
+const contentChannelSchema = z.enum(['blog', 'email', 'x', 'linkedin', 'facebook', 'instagram']);
+const contentStatusSchema = z.enum(['idea', 'draft', 'scheduled', 'published', 'cancelled']);
+const contentAssetSchema = z.object({
+  title: z.string().min(1),
+  subject: z.string().optional(),
+  body: z.string()
+});
+
+const calendarQuerySchema = z.object({
+  channel: contentChannelSchema.optional(),
+  status: contentStatusSchema.optional(),
+  campaign: z.string().min(1).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+});
+
+const calendarEntrySchema = z.object({
+  channel: contentChannelSchema,
+  date: calendarDateSchema,
+  status: contentStatusSchema.optional(),
+  asset: contentAssetSchema,
+  campaign: z.string().min(1).optional()
+});
+
+const calendarUpdateSchema = z.object({
+  channel: contentChannelSchema.optional(),
+  date: calendarDateSchema.optional(),
+  status: contentStatusSchema.optional(),
+  asset: contentAssetSchema.optional(),
+  campaign: z.string().min(1).optional()
+});
+
 const workflowExecuteSchema = z.object({
   templateId: z.string().min(1),
   inputs: z.record(z.any()).default({})
@@ -93,6 +162,8 @@ export class APIServer {
   private agentManagement?: AgentManagementSystem;
   private workflowManagement?: WorkflowManagementSystem;
   private connectorRegistry?: ConnectorRegistry;
+  private modelRouter?: ModelRouter;
+  private contentCalendar?: ContentCalendar;
   private port: number;
   private apiKey?: string;
 
@@ -101,7 +172,9 @@ export class APIServer {
     port: number = 3000,
     agentManagement?: AgentManagementSystem,
     workflowManagement?: WorkflowManagementSystem,
-    connectorRegistry?: ConnectorRegistry
+    connectorRegistry?: ConnectorRegistry,
+    modelRouter?: ModelRouter,
+    contentCalendar?: ContentCalendar
   ) {
     this.app = express();
     this.httpServer = createServer(this.app);
@@ -115,6 +188,8 @@ export class APIServer {
     this.agentManagement = agentManagement;
     this.workflowManagement = workflowManagement;
     this.connectorRegistry = connectorRegistry;
+    this.modelRouter = modelRouter;
+    this.contentCalendar = contentCalendar;
     this.port = port;
     this.apiKey = process.env.API_KEY;
 
@@ -125,7 +200,8 @@ export class APIServer {
 
   private setupMiddleware(): void {
     this.app.use(cors());
-    this.app.use(express.json());
+    // Base64 attachments inflate by a third, so the default 100kb would refuse most of them
+    this.app.use(express.json({ limit: '25mb' }));
     this.app.use(express.urlencoded({ extended: true }));
 
     // Logging middleware
@@ -145,7 +221,12 @@ export class APIServer {
     });
 
     // Task endpoints
-    this.app.post('/api/tasks', this.createTask.bind(this));
+    // JSON, or multipart/form-data when files are attached
+    this.app.post(
+      '/api/tasks',
+      express.raw({ type: 'multipart/form-data', limit: '25mb' }),
+      this.createTask.bind(this)
+    );
     this.app.get('/api/tasks', this.listTasks.bind(this));
     this.app.get('/api/tasks/:id', this.getTask.bind(this));
     this.app.delete('/api/tasks/:id', this.cancelTask.bind(this));
@@ -154,6 +235,7 @@ export class APIServer {
     this.app.get('/api/agents', this.listAgents.bind(this));
     this.app.get('/api/agents/:id', this.getAgent.bind(this));
     this.app.get('/api/agents/:id/metrics', this.getAgentMetrics.bind(this));
+    this.app.post('/api/agents/:id/chat', this.chatWithAgent.bind(this));
 
     // Agent Management endpoints
     if (this.agentManagement) {
@@ -181,11 +263,40 @@ export class APIServer {
       this.app.get('/api/connectors/:id', this.getConnector.bind(this));
     }
 
+    // Content calendar endpoints
+    if (this.contentCalendar) {
+      this.app.get('/api/marketing/calendar', this.listCalendar.bind(this));
+      this.app.get('/api/marketing/calendar.ics', this.exportCalendar.bind(this, 'ics'));
+      this.app.get('/api/marketing/calendar.csv', this.exportCalendar.bind(this, 'csv'));
+      this.app.post('/api/marketing/calendar', this.addCalendarEntry.bind(this));
+      this.app.get('/api/marketing/calendar/:id', this.getCalendarEntry.bind(this));
+      this.app.patch('/api/marketing/calendar/:id', this.updateCalendarEntry.bind(this));
+    }
+
     // System endpoints
     this.app.get('/api/system/stats', this.getSystemStats.bind(this));
+    if (this.modelRouter) {
+      this.app.get('/api/system/usage', this.getUsage.bind(this));
+      this.app.get('/api/system/redactions', this.getRedactions.bind(this));
+      this.app.get('/api/system/providers', this.getProviderHealth.bind(this));
+      this.app.put('/api/system/providers/:name/breaker', this.configureBreaker.bind(this));
+      this.app.post('/api/system/providers/:name/breaker/reset', this.resetBreaker.bind(this));
+    }
   }
 
   private setupWebSocket(): void {
+    this.modelRouter?.onBreakerStateChange(change => {
+      this.io.to('providers').emit('provider:breaker', change);
+    });
+
+    const taskOutput = this.orchestrator.getOutputStream();
+    taskOutput.onChunk(chunk => {
+      this.io.to(`task:${chunk.taskId}`).emit(`task:${chunk.taskId}:chunk`, chunk);
+    });
+    taskOutput.onEnd((taskId, status) => {
+      this.io.to(`task:${taskId}`).emit(`task:${taskId}:end`, { taskId, status });
+    });
+
     this.io.on('connection', (socket) => {
       console.log('Client connected:', socket.id);
 
@@ -197,6 +308,27 @@ export class APIServer {
         socket.join('agents');
       });
 
+      socket.on('subscribe:providers', () => {
+        socket.join('providers');
+      });
+
+      // Late joiners get the output streamed so far, then live chunks
+      socket.on('subscribe:task', (taskId: string) => {
+        socket.join(`task:${taskId}`);
+        for (const chunk of taskOutput.replay(taskId)) {
+          socket.emit(`task:${taskId}:chunk`, chunk);
+        }
+
+        const status = this.orchestrator.getTaskStatus(taskId)?.status;
+        if (status === TaskStatus.COMPLETED || status === TaskStatus.FAILED || status === TaskStatus.CANCELLED) {
+          socket.emit(`task:${taskId}:end`, { taskId, status });
+        }
+      });
+
+      socket.on('unsubscribe:task', (taskId: string) => {
+        socket.leave(`task:${taskId}`);
+      });
+
       socket.on('disconnect', () => {
         console.log('Client disconnected:', socket.id);
       });
@@ -237,7 +369,20 @@ export class APIServer {
   // Task handlers
   private async createTask(req: Request, res: Response): Promise<void> {
     try {
-      const taskRequest = this.validateRequest(taskRequestSchema, req.body, res);
+      let payload: unknown = req.body;
+      if (req.is('multipart/form-data')) {
+        try {
+          payload = await this.parseTaskForm(req);
+        } catch (error) {
+          res.status(400).json({
+            success: false,
+            error: `Invalid multipart body: ${error instanceof Error ? error.message : 'Unknown error'}`
+          });
+          return;
+        }
+      }
+
+      const taskRequest = this.validateRequest(taskRequestSchema, payload, res);
       if (!taskRequest) return;
       const taskId = await this.orchestrator.submitTask(taskRequest);
 
@@ -260,6 +405,52 @@ export class APIServer {
     }
   }
 
+  /**
+   * Multipart task: title, description, type and priority as plain fields,
+   * requiredCapabilities and context as JSON, and every file part as an attachment.
+   */
+  private async parseTaskForm(req: Request): Promise<Record<string, unknown>> {
+    const form = await new globalThis.Request('http://localhost/api/tasks', {
+      method: 'POST',
+      headers: { 'content-type': req.headers['content-type']! },
+      body: req.body as Buffer
+    }).formData();
+
+    const field = (name: string) => {
+      const value = form.get(name);
+      return typeof value === 'string' && value !== '' ? value : undefined;
+    };
+    const json = (name: string) => {
+      const value = field(name);
+      return value === undefined ? undefined : JSON.parse(value);
+    };
+
+    const files = [];
+    for (const [, value] of form.entries()) {
+      if (typeof value !== 'string') {
+        files.push({
+          name: value.name,
+          mimeType: value.type || 'application/octet-stream',
+          data: Buffer.from(await value.arrayBuffer()).toString('base64')
+        });
+      }
+    }
+
+    const context = json('context') ?? {};
+    return {
+      title: field('title'),
+      description: field('description'),
+      type: field('type'),
+      priority: field('priority'),
+      requiredCapabilities: json('requiredCapabilities'),
+      context: {
+        additionalData: {},
+        ...context,
+        attachments: [...(context.attachments || []), ...files]
+      }
+    };
+  }
+
   private listTasks(_req: Request, res: Response): void {
     try {
       const queue = this.orchestrator.getQueue();
@@ -426,6 +617,38 @@ export class APIServer {
     }
   }
 
+  private async chatWithAgent(req: Request, res: Response): Promise<void> {
+    try {
+      const agent = this.orchestrator.getRegistry().getAgent(req.params.id);
+
+      if (!agent) {
+        res.status(404).json({
+          success: false,
+          error: 'Agent not found'
+        });
+        return;
+      }
+
+      const body = this.validateRequest(agentChatSchema, req.body, res);
+      if (!body) return;
+
+      const conversationId = body.conversationId || uuidv4();
+      const reply = await agent.converse(conversationId, body.message);
+
+      res.json({
+        success: true,
+        conversationId,
+        reply,
+        history: agent.getConversation(conversationId)
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   private getSystemStats(_req: Request, res: Response): void {
     try {
       const stats = this.orchestrator.getSystemStats();
@@ -442,6 +665,126 @@ export class APIServer {
     }
   }
 
+  private getUsage(_req: Request, res: Response): void {
+    try {
+      if (!this.modelRouter) {
+        res.status(503).json({
+          success: false,
+          error: 'Model router not available'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        usage: this.modelRouter.getUsageLedger().getSummary()
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private getRedactions(req: Request, res: Response): void {
+    try {
+      if (!this.modelRouter) {
+        res.status(503).json({
+          success: false,
+          error: 'Model router not available'
+        });
+        return;
+      }
+
+      const redactor = this.modelRouter.getRedactor();
+      res.json({
+        success: true,
+        detectors: redactor.getDetectors(),
+        entries: redactor.getAuditLog({
+          taskId: req.query.taskId as string | undefined,
+          agentId: req.query.agentId as string | undefined
+        })
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private getProviderHealth(_req: Request, res: Response): void {
+    try {
+      if (!this.modelRouter) {
+        res.status(503).json({
+          success: false,
+          error: 'Model router not available'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        providers: Object.fromEntries(this.modelRouter.healthCheck())
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private configureBreaker(req: Request, res: Response): void {
+    try {
+      if (!this.modelRouter) {
+        res.status(503).json({
+          success: false,
+          error: 'Model router not available'
+        });
+        return;
+      }
+
+      const config = this.validateRequest(breakerConfigSchema, req.body, res);
+      if (!config) return;
+
+      this.modelRouter.configureBreaker(req.params.name, config);
+      res.json({
+        success: true,
+        breaker: this.modelRouter.getBreakerStates()[req.params.name]
+      });
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private resetBreaker(req: Request, res: Response): void {
+    try {
+      if (!this.modelRouter) {
+        res.status(503).json({
+          success: false,
+          error: 'Model router not available'
+        });
+        return;
+      }
+
+      this.modelRouter.resetBreaker(req.params.name);
+      res.json({
+        success: true,
+        breaker: this.modelRouter.getBreakerStates()[req.params.name]
+      });
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   // Agent Management handlers
   private async createAgent(req: Request, res: Response): Promise<void> {
     try {
@@ -859,6 +1202,152 @@ export class APIServer {
     }
   }
 
+  // Content calendar handlers
+  private listCalendar(req: Request, res: Response): void {
+    try {
+      if (!this.contentCalendar) {
+        res.status(503).json({
+          success: false,
+          error: 'Content calendar not available'
+        });
+        return;
+      }
+
+      const query = this.validateRequest(calendarQuerySchema, req.query, res);
+      if (!query) return;
+
+      const entries = this.contentCalendar.list(query);
+      res.json({
+        success: true,
+        entries,
+        count: entries.length
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Same filters as the JSON listing, as a subscribable .ics feed or a spreadsheet
+  private exportCalendar(format: 'ics' | 'csv', req: Request, res: Response): void {
+    try {
+      if (!this.contentCalendar) {
+        res.status(503).json({
+          success: false,
+          error: 'Content calendar not available'
+        });
+        return;
+      }
+
+      const query = this.validateRequest(calendarQuerySchema, req.query, res);
+      if (!query) return;
+
+      const entries = this.contentCalendar.list(query);
+      res.setHeader('Content-Disposition', `attachment; filename="content-calendar.${format}"`);
+      if (format === 'ics') {
+        res.type('text/calendar; charset=utf-8').send(this.contentCalendar.toICalendar(entries));
+      } else {
+        res.type('text/csv; charset=utf-8').send(this.contentCalendar.toCsv(entries));
+      }
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private addCalendarEntry(req: Request, res: Response): void {
+    try {
+      if (!this.contentCalendar) {
+        res.status(503).json({
+          success: false,
+          error: 'Content calendar not available'
+        });
+        return;
+      }
+
+      const entry = this.validateRequest(calendarEntrySchema, req.body, res);
+      if (!entry) return;
+
+      res.status(201).json({
+        success: true,
+        entry: this.contentCalendar.add(entry)
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private getCalendarEntry(req: Request, res: Response): void {
+    try {
+      if (!this.contentCalendar) {
+        res.status(503).json({
+          success: false,
+          error: 'Content calendar not available'
+        });
+        return;
+      }
+
+      const entry = this.contentCalendar.get(req.params.id);
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          error: 'Calendar entry not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        entry
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private updateCalendarEntry(req: Request, res: Response): void {
+    try {
+      if (!this.contentCalendar) {
+        res.status(503).json({
+          success: false,
+          error: 'Content calendar not available'
+        });
+        return;
+      }
+
+      const changes = this.validateRequest(calendarUpdateSchema, req.body, res);
+      if (!changes) return;
+
+      if (!this.contentCalendar.get(req.params.id)) {
+        res.status(404).json({
+          success: false,
+          error: 'Calendar entry not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        entry: this.contentCalendar.update(req.params.id, changes)
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   // WebSocket emitters
   emitTaskUpdate(taskId: string, task: any): void {
     this.io.to('tasks').emit('task:updated', { taskId, task });
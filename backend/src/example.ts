@@ -1,7 +1,10 @@
 // Example: Using the Agent Swamps System
 
+import { fileURLToPath } from 'url';
 import { Orchestrator } from './orchestration/Orchestrator.js';
 import { ModelRouter } from './models/ModelRouter.js';
+import { GeminiProvider } from './models/GeminiProvider.js';
+import { CassetteProvider } from './models/CassetteProvider.js';
 import { DeveloperAgent } from './agents/DeveloperAgent.js';
 import { QAAgent } from './agents/QAAgent.js';
 import { ProductManagerAgent } from './agents/ProductManagerAgent.js';
@@ -14,15 +17,40 @@ import { ProductManagerAgent } from './agents/ProductManagerAgent.js';
 async function runExample() {
   console.log('🌊 Agent Swamps Example\n');
 
-  // Step 1: Initialize Model Router (mock provider for demo)
+  // Step 1: Initialize Model Router (cassette provider for demo)
   const modelRouter = new ModelRouter();
-  
-  // For demo purposes, you would add a real provider here:
-  // const geminiProvider = new GeminiProvider({ apiKey: 'your-key' });
-  // modelRouter.registerProvider('gemini', geminiProvider);
-  
-  console.log('Note: This example requires a valid GEMINI_API_KEY in your .env file');
-  console.log('      The system will use mock responses if no provider is configured.\n');
+  // Ships with answers for the three tasks below, so the example runs offline
+  const cassettePath = process.env.CASSETTE_PATH || fileURLToPath(new URL('../cassettes/example.json', import.meta.url));
+  // Recording overwrites the file, so it only happens into a path named explicitly
+  const recordPath = process.env.CASSETTE_RECORD_PATH;
+
+  // With a key, real Gemini responses are used, and recorded when a record
+  // path is set; without one, recorded responses are replayed offline. The
+  // canned fallback only serves free-text prompts: structured ones need a
+  // schema-valid recording.
+  const geminiApiKey = process.env.GEMINI_API_KEY;
+  const provider = !geminiApiKey
+    ? new CassetteProvider({
+        path: cassettePath,
+        mode: 'replay',
+        match: 'lenient',
+        fallbackResponse: 'Mock response: no recording matched this prompt.'
+      })
+    : recordPath
+      ? new CassetteProvider({
+          path: recordPath,
+          mode: 'record',
+          provider: new GeminiProvider({ apiKey: geminiApiKey })
+        })
+      : new GeminiProvider({ apiKey: geminiApiKey });
+  modelRouter.registerProvider(provider.name, provider);
+  modelRouter.setDefaultProvider(provider.name);
+
+  console.log(!geminiApiKey
+    ? `Note: No GEMINI_API_KEY found, replaying mock responses from ${cassettePath}\n`
+    : recordPath
+      ? `Note: Recording Gemini responses to ${recordPath}\n`
+      : 'Note: Using live Gemini responses; set CASSETTE_RECORD_PATH to record them\n');
 
   // Step 2: Create Orchestrator
   const orchestrator = new Orchestrator();
@@ -3,7 +3,17 @@
 import dotenv from 'dotenv';
 import { Orchestrator } from './orchestration/Orchestrator.js';
 import { ModelRouter } from './models/ModelRouter.js';
+import { UsageLedger } from './models/UsageLedger.js';
+import { ResponseCache } from './models/ResponseCache.js';
+import { Redactor } from './models/Redactor.js';
+import { EmbeddingRegistry } from './models/EmbeddingRegistry.js';
+import { HashingEmbeddingProvider } from './models/HashingEmbeddingProvider.js';
+import { ProviderConfigManager } from './models/ProviderConfig.js';
+import { WeightedStrategy } from './models/RoutingStrategy.js';
+import type { RateLimits } from './models/RateLimiter.js';
 import { GeminiProvider } from './models/GeminiProvider.js';
+import { OllamaProvider } from './models/OllamaProvider.js';
+import { OpenAICompatibleProvider } from './models/OpenAICompatibleProvider.js';
 import { DeveloperAgent } from './agents/DeveloperAgent.js';
 import { QAAgent } from './agents/QAAgent.js';
 import { ProductManagerAgent } from './agents/ProductManagerAgent.js';
@@ -11,9 +21,15 @@ import { SEOAgent } from './agents/SEOAgent.js';
 import { LeadGenerationAgent } from './agents/LeadGenerationAgent.js';
 import { AIMLAgent } from './agents/AIMLAgent.js';
 import { MentorAgent } from './agents/MentorAgent.js';
+import { DevOpsAgent } from './agents/DevOpsAgent.js';
+import { DesignerAgent } from './agents/DesignerAgent.js';
+import { TechWriterAgent } from './agents/TechWriterAgent.js';
+import { ResearchAgent } from './agents/ResearchAgent.js';
+import { MarketingAgent } from './agents/MarketingAgent.js';
 import { AgentManagementSystem } from './orchestration/AgentManagementSystem.js';
 import { WorkflowManagementSystem } from './orchestration/WorkflowManagementSystem.js';
 import { ConnectorRegistry } from './orchestration/ConnectorRegistry.js';
+import { ContentCalendar } from './orchestration/ContentCalendar.js';
 import { APIServer } from './api/APIServer.js';
 
 // Load environment variables
@@ -22,31 +38,67 @@ dotenv.config();
 async function main() {
   console.log('🌊 Starting Agent Swamps Management System...\n');
 
-  // Initialize Model Router
-  const modelRouter = new ModelRouter();
+  // Initialize Model Router with the usage ledger (prices in USD per million tokens)
+  const usageLedger = new UsageLedger({
+    prices: process.env.MODEL_PRICES ? JSON.parse(process.env.MODEL_PRICES) : undefined,
+    defaultTaskBudget: process.env.TASK_TOKEN_BUDGET ? parseInt(process.env.TASK_TOKEN_BUDGET, 10) : undefined,
+    defaultProjectBudget: process.env.PROJECT_TOKEN_BUDGET ? parseInt(process.env.PROJECT_TOKEN_BUDGET, 10) : undefined
+  });
+  const responseCache = new ResponseCache({
+    enabled: process.env.RESPONSE_CACHE !== 'off',
+    directory: process.env.RESPONSE_CACHE_DIR,
+    ttlMs: process.env.RESPONSE_CACHE_TTL_MS ? parseInt(process.env.RESPONSE_CACHE_TTL_MS, 10) : undefined,
+    maxDiskEntries: process.env.RESPONSE_CACHE_MAX_FILES ? parseInt(process.env.RESPONSE_CACHE_MAX_FILES, 10) : undefined
+  });
+  // Custom detectors come as {"EMPLOYEE_ID": "EMP-\\d{6}"}
+  const redactor = new Redactor({
+    enabled: process.env.REDACTION !== 'off',
+    auditLogPath: process.env.REDACTION_AUDIT_LOG
+  });
+  if (process.env.REDACTION_PATTERNS) {
+    const patterns = JSON.parse(process.env.REDACTION_PATTERNS) as Record<string, string>;
+    for (const [name, pattern] of Object.entries(patterns)) {
+      redactor.addDetector({ name, pattern: new RegExp(pattern, 'g') });
+    }
+  }
+  const embeddings = new EmbeddingRegistry({ cache: process.env.EMBEDDING_CACHE !== 'off' });
+  if (process.env.HASHING_EMBEDDING_DIMENSIONS) {
+    embeddings.register('hashing', new HashingEmbeddingProvider({
+      dimensions: parseInt(process.env.HASHING_EMBEDDING_DIMENSIONS, 10)
+    }));
+  }
+  const modelRouter = new ModelRouter(usageLedger, responseCache, redactor, embeddings);
+  modelRouter.setDefaultBreakerConfig({
+    failureThreshold: process.env.BREAKER_FAILURE_THRESHOLD ? parseInt(process.env.BREAKER_FAILURE_THRESHOLD, 10) : undefined,
+    cooldownMs: process.env.BREAKER_COOLDOWN_MS ? parseInt(process.env.BREAKER_COOLDOWN_MS, 10) : undefined
+  });
+  modelRouter.onBreakerStateChange(change => {
+    console.warn(`⚠ Provider ${change.provider} circuit ${change.from} → ${change.to} (${change.reason})`);
+  });
 
-  // Register model providers
-  const geminiApiKey = process.env.GEMINI_API_KEY;
-  if (geminiApiKey) {
-    const geminiProvider = new GeminiProvider({ 
-      apiKey: geminiApiKey,
-      model: process.env.GEMINI_MODEL || 'gemini-1.5-pro'
-    });
-    modelRouter.registerProvider('gemini', geminiProvider);
-    modelRouter.setDefaultProvider('gemini');
-    console.log('✓ Gemini provider registered');
+  // Register model providers from the providers file, reloaded when it changes, or from env variables
+  let providerConfig: ProviderConfigManager | undefined;
+  if (process.env.PROVIDERS_CONFIG) {
+    providerConfig = new ProviderConfigManager(modelRouter, process.env.PROVIDERS_CONFIG);
+    const change = await providerConfig.load();
+    providerConfig.watch();
+    console.log(`✓ Providers loaded from ${process.env.PROVIDERS_CONFIG}: ${change.added.join(', ')}`);
+    console.log(`✓ Embedding provider: ${embeddings.getDefault()}`);
   } else {
-    console.warn('⚠ GEMINI_API_KEY not found in environment variables');
-    console.warn('  Add it to .env file to enable AI capabilities');
+    await registerProvidersFromEnv(modelRouter, embeddings);
   }
 
   // Initialize Orchestrator
-  const orchestrator = new Orchestrator();
+  const orchestrator = new Orchestrator({
+    defaultTaskTimeoutMs: process.env.TASK_TIMEOUT_MS ? parseInt(process.env.TASK_TIMEOUT_MS, 10) : undefined
+  });
   const registry = orchestrator.getRegistry();
 
   // Initialize Agent Management System
   console.log('\n🎓 Initializing Agent Management System...');
-  const agentManagement = new AgentManagementSystem(modelRouter);
+  // Marketing content is scheduled here and read back through the API
+  const contentCalendar = new ContentCalendar();
+  const agentManagement = new AgentManagementSystem(modelRouter, contentCalendar);
   console.log('  ✓ Agent Management System ready');
 
   // Initialize Workflow Management System
@@ -103,10 +155,38 @@ async function main() {
   agentManagement.initializeLearningProfile(mentorAgent.id, 'continuous');
   console.log('  ✓ Mentor Lead Agent registered');
 
+  const devOpsAgent = new DevOpsAgent(modelRouter);
+  registry.registerAgent(devOpsAgent);
+  agentManagement.initializeLearningProfile(devOpsAgent.id, 'continuous');
+  console.log('  ✓ DevOps Agent registered');
+
+  const designerAgent = new DesignerAgent(modelRouter);
+  registry.registerAgent(designerAgent);
+  agentManagement.initializeLearningProfile(designerAgent.id, 'continuous');
+  console.log('  ✓ Designer Agent registered');
+
+  const techWriterAgent = new TechWriterAgent(modelRouter, { rootDir: process.env.DOCS_ROOT });
+  registry.registerAgent(techWriterAgent);
+  agentManagement.initializeLearningProfile(techWriterAgent.id, 'continuous');
+  console.log('  ✓ Tech Writer Agent registered');
+
+  const researchAgent = new ResearchAgent(modelRouter, { corpusDir: process.env.RESEARCH_CORPUS_DIR });
+  registry.registerAgent(researchAgent);
+  agentManagement.initializeLearningProfile(researchAgent.id, 'continuous');
+  console.log('  ✓ Research Agent registered');
+
+  const marketingAgent = new MarketingAgent(modelRouter, {
+    brandVoice: agentManagement.getAgentTemplate('marketing-template')?.brandVoice,
+    calendar: contentCalendar
+  });
+  registry.registerAgent(marketingAgent);
+  agentManagement.initializeLearningProfile(marketingAgent.id, 'continuous');
+  console.log('  ✓ Marketing Agent registered');
+
   // Start API Server with management systems
   console.log('\n🌐 Starting API Server...');
   const port = parseInt(process.env.PORT || '3000', 10);
-  const apiServer = new APIServer(orchestrator, port, agentManagement, workflowManagement, connectorRegistry);
+  const apiServer = new APIServer(orchestrator, port, agentManagement, workflowManagement, connectorRegistry, modelRouter, contentCalendar);
   apiServer.start();
 
   // Display system status
@@ -155,11 +235,97 @@ async function main() {
   // Graceful shutdown
   process.on('SIGINT', () => {
     console.log('\n\n🛑 Shutting down gracefully...');
+    providerConfig?.close();
     apiServer.stop();
     process.exit(0);
   });
 }
 
+// One provider of each kind from the GEMINI_*, OLLAMA_* and OPENAI_COMPATIBLE_* variables
+async function registerProvidersFromEnv(modelRouter: ModelRouter, embeddings: EmbeddingRegistry): Promise<void> {
+  const geminiApiKey = process.env.GEMINI_API_KEY;
+  if (geminiApiKey) {
+    const geminiProvider = new GeminiProvider({ 
+      apiKey: geminiApiKey,
+      model: process.env.GEMINI_MODEL || 'gemini-1.5-pro',
+      embeddingModel: process.env.GEMINI_EMBEDDING_MODEL
+    });
+    modelRouter.registerProvider('gemini', geminiProvider);
+    modelRouter.setDefaultProvider('gemini');
+    console.log('✓ Gemini provider registered');
+  }
+
+  const ollamaBaseUrl = process.env.OLLAMA_BASE_URL;
+  if (ollamaBaseUrl) {
+    const ollamaProvider = new OllamaProvider({
+      apiKey: '',
+      baseUrl: ollamaBaseUrl,
+      model: process.env.OLLAMA_MODEL || 'llama3',
+      embeddingModel: process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text'
+    });
+    try {
+      const capabilities = await ollamaProvider.initialize();
+      console.log(`✓ Ollama model metadata loaded (context: ${capabilities.maxTokens} tokens)`);
+    } catch (error) {
+      console.warn('⚠ Could not read Ollama model metadata, using default capabilities');
+      console.warn(`  ${error instanceof Error ? error.message : error}`);
+    }
+    modelRouter.registerProvider('ollama', ollamaProvider);
+    console.log('✓ Ollama provider registered');
+  }
+
+  const openAICompatibleBaseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (openAICompatibleBaseUrl) {
+    const openAICompatibleProvider = new OpenAICompatibleProvider({
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+      baseUrl: openAICompatibleBaseUrl,
+      model: process.env.OPENAI_COMPATIBLE_MODEL,
+      embeddingModel: process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL,
+      modalities: process.env.OPENAI_COMPATIBLE_MODALITIES?.split(',').map(modality => modality.trim())
+    });
+    try {
+      const capabilities = await openAICompatibleProvider.initialize();
+      console.log(`✓ OpenAI-compatible model metadata loaded (context: ${capabilities.maxTokens} tokens)`);
+    } catch (error) {
+      console.warn('⚠ Could not read OpenAI-compatible model list, using default capabilities');
+      console.warn(`  ${error instanceof Error ? error.message : error}`);
+    }
+    modelRouter.registerProvider(openAICompatibleProvider.name, openAICompatibleProvider);
+    console.log('✓ OpenAI-compatible provider registered');
+  }
+
+  const registeredProviders = Array.from(modelRouter.getStats().keys());
+  if (registeredProviders.length === 0) {
+    console.warn('⚠ No model provider configured');
+    console.warn('  Add GEMINI_API_KEY, OLLAMA_BASE_URL or OPENAI_COMPATIBLE_BASE_URL to .env file to enable AI capabilities');
+  } else if (!geminiApiKey) {
+    modelRouter.setDefaultProvider(registeredProviders[0]);
+  }
+
+  // The first registered provider that embeds unless one is named; offline hashing when there is none
+  if (process.env.EMBEDDING_PROVIDER) {
+    embeddings.setDefault(process.env.EMBEDDING_PROVIDER);
+  }
+  console.log(`✓ Embedding provider: ${embeddings.getDefault()}`);
+
+  if (process.env.RATE_LIMITS) {
+    const rateLimits = JSON.parse(process.env.RATE_LIMITS) as Record<string, RateLimits>;
+    for (const [name, limits] of Object.entries(rateLimits)) {
+      if (registeredProviders.includes(name)) {
+        modelRouter.setRateLimits(name, limits);
+      }
+    }
+  }
+
+  if (process.env.PROVIDER_WEIGHTS) {
+    modelRouter.registerStrategy(new WeightedStrategy(JSON.parse(process.env.PROVIDER_WEIGHTS)));
+  }
+  if (process.env.ROUTING_STRATEGY) {
+    modelRouter.setDefaultStrategy(process.env.ROUTING_STRATEGY);
+    console.log(`✓ Routing strategy: ${process.env.ROUTING_STRATEGY}`);
+  }
+}
+
 // Run the application
 main().catch(error => {
   console.error('❌ Fatal error:', error);
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { Attachment, ChatMessage } from '../shared/types.js';
+import { attachmentModality, inlineTextAttachments, isSupportedAttachment, requiredModalities, toDataUrl } from './Attachments.js';
+
+const file = (name: string, mimeType: string, content = 'x'): Attachment => ({
+  name,
+  mimeType,
+  data: Buffer.from(content).toString('base64')
+});
+
+describe('attachmentModality', () => {
+  it('maps known types and ignores case and parameters', () => {
+    expect(attachmentModality('image/png')).toBe('image');
+    expect(attachmentModality('application/pdf')).toBe('document');
+    expect(attachmentModality('Text/Markdown; charset=utf-8')).toBe('text');
+    expect(attachmentModality('application/json')).toBe('text');
+  });
+
+  it('leaves other types unsupported', () => {
+    expect(attachmentModality('application/octet-stream')).toBeUndefined();
+    expect(isSupportedAttachment('video/mp4')).toBe(false);
+    expect(isSupportedAttachment('image/webp')).toBe(true);
+  });
+});
+
+describe('requiredModalities', () => {
+  it('lists each non-text modality once across all messages', () => {
+    const messages: ChatMessage[] = [
+      { role: 'user', content: 'a', attachments: [file('a.png', 'image/png'), file('notes.txt', 'text/plain')] },
+      { role: 'user', content: 'b', attachments: [file('b.jpg', 'image/jpeg'), file('spec.pdf', 'application/pdf')] },
+      { role: 'user', content: 'c' }
+    ];
+
+    expect(requiredModalities(messages)).toEqual(['image', 'document']);
+  });
+});
+
+describe('inlineTextAttachments', () => {
+  it('moves text files into the message and keeps the rest attached', () => {
+    const image = file('chart.png', 'image/png');
+    const [message] = inlineTextAttachments([
+      { role: 'user', content: 'Summarize these', attachments: [file('data.csv', 'text/csv', 'a,b\n1,2'), image] }
+    ]);
+
+    expect(message.content).toBe('Summarize these\n\n--- data.csv ---\na,b\n1,2');
+    expect(message.attachments).toEqual([image]);
+  });
+
+  it('drops the attachment list once every file is inlined and leaves other messages alone', () => {
+    const untouched: ChatMessage = { role: 'system', content: 'Be brief' };
+    const [system, user] = inlineTextAttachments([untouched, { role: 'user', content: 'Read', attachments: [file('a.md', 'text/markdown', '# A')] }]);
+
+    expect(system).toBe(untouched);
+    expect(user.attachments).toBeUndefined();
+    expect(user.content).toContain('--- a.md ---\n# A');
+  });
+});
+
+describe('toDataUrl', () => {
+  it('embeds the base64 data with its type', () => {
+    expect(toDataUrl(file('a.png', 'image/png', 'hi'))).toBe('data:image/png;base64,aGk=');
+  });
+});
@@ -0,0 +1,71 @@
+// Attachments - modality mapping and message preparation for files sent to models
+
+import type { Attachment, ChatMessage } from '../shared/types.js';
+
+export type AttachmentModality = 'image' | 'document' | 'text';
+
+// Gemini accepts up to 20MB of inline data per request
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const MODALITIES: Record<string, AttachmentModality> = {
+  'image/png': 'image',
+  'image/jpeg': 'image',
+  'image/webp': 'image',
+  'image/gif': 'image',
+  'application/pdf': 'document',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+  'text/csv': 'text',
+  'text/html': 'text',
+  'application/json': 'text'
+};
+
+export function attachmentModality(mimeType: string): AttachmentModality | undefined {
+  return MODALITIES[mimeType.split(';')[0].trim().toLowerCase()];
+}
+
+export function isSupportedAttachment(mimeType: string): boolean {
+  return attachmentModality(mimeType) !== undefined;
+}
+
+// Modalities beyond text that a provider must accept to read these messages
+export function requiredModalities(messages: ChatMessage[]): string[] {
+  const modalities = new Set<string>();
+  for (const message of messages) {
+    for (const attachment of message.attachments || []) {
+      const modality = attachmentModality(attachment.mimeType);
+      if (modality && modality !== 'text') {
+        modalities.add(modality);
+      }
+    }
+  }
+  return Array.from(modalities);
+}
+
+/**
+ * Moves text files into the message body so every provider can read them;
+ * only images and documents stay behind as attachments.
+ */
+export function inlineTextAttachments(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(message => {
+    const textFiles = (message.attachments || []).filter(
+      attachment => attachmentModality(attachment.mimeType) === 'text'
+    );
+    if (textFiles.length === 0) return message;
+
+    const inlined = textFiles.map(file =>
+      `--- ${file.name} ---\n${Buffer.from(file.data, 'base64').toString('utf-8')}`
+    );
+    const remaining = message.attachments!.filter(attachment => !textFiles.includes(attachment));
+
+    return {
+      ...message,
+      content: [message.content, ...inlined].join('\n\n'),
+      attachments: remaining.length > 0 ? remaining : undefined
+    };
+  });
+}
+
+export function toDataUrl(attachment: Attachment): string {
+  return `data:${attachment.mimeType};base64,${attachment.data}`;
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CassetteProvider } from './CassetteProvider.js';
+import type { ModelProvider } from './ModelProvider.js';
+import type { ChatMessage, GenerateOptions, ModelCapabilities } from '../shared/types.js';
+
+let directory: string;
+let cassettePath: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(join(tmpdir(), 'cassette-'));
+  cassettePath = join(directory, 'session.json');
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+// Answers with the prompt and system instruction it saw, after a delay that varies per call
+function echoProvider(): ModelProvider {
+  let calls = 0;
+  const answer = (messages: ChatMessage[], options?: GenerateOptions) =>
+    `${options?.systemInstruction ?? 'plain'}: ${messages[messages.length - 1].content}`;
+
+  const capabilities: ModelCapabilities = { maxTokens: 1000, supportsStreaming: true, supportsEmbedding: false, supportedModalities: ['text'] };
+
+  return {
+    name: 'echo',
+    capabilities,
+    getCapabilities: () => capabilities,
+    async chat(messages, options) {
+      await new Promise(resolve => setTimeout(resolve, 5 * (++calls % 3)));
+      return { text: answer(messages, options) };
+    },
+    async *chatStream(messages, options) {
+      yield answer(messages, options);
+    },
+    async generate() {
+      throw new Error('unused');
+    },
+    generateStream() {
+      throw new Error('unused');
+    },
+    async embed() {
+      throw new Error('unused');
+    }
+  };
+}
+
+describe('CassetteProvider', () => {
+  it('keeps every recording when several are made at once', async () => {
+    const recorder = new CassetteProvider({ path: cassettePath, mode: 'record', provider: echoProvider() });
+    const prompts = Array.from({ length: 8 }, (_, index) => `prompt ${index}`);
+
+    await Promise.all(prompts.map(prompt => recorder.generate(prompt)));
+
+    const saved = JSON.parse(await fs.readFile(cassettePath, 'utf-8'));
+    expect(saved.interactions).toHaveLength(8);
+
+    const player = new CassetteProvider({ path: cassettePath, mode: 'replay' });
+    for (const prompt of prompts) {
+      expect(await player.generate(prompt)).toBe(`plain: ${prompt}`);
+    }
+  });
+
+  it('keys recordings on the system instruction as well as the prompt', async () => {
+    const recorder = new CassetteProvider({ path: cassettePath, mode: 'record', provider: echoProvider() });
+    await recorder.generate('Summarize', { systemInstruction: 'Be brief' });
+    await recorder.generate('Summarize', { systemInstruction: 'Be thorough' });
+
+    const player = new CassetteProvider({ path: cassettePath, mode: 'replay' });
+
+    expect(await player.generate('Summarize', { systemInstruction: 'Be brief' })).toBe('Be brief: Summarize');
+    expect(await player.generate('Summarize', { systemInstruction: 'Be thorough' })).toBe('Be thorough: Summarize');
+    await expect(player.generate('Summarize')).rejects.toThrow('has no recording for prompt');
+  });
+
+  it('replays a stream recording in its original chunks', async () => {
+    await fs.writeFile(cassettePath, JSON.stringify({
+      version: 1,
+      interactions: [{
+        kind: 'stream',
+        hash: CassetteProvider.hashPrompt('Hello'),
+        prompt: 'Hello',
+        chunks: ['Hel', 'lo'],
+        response: 'Hello',
+        recordedAt: '2026-01-01T00:00:00.000Z'
+      }]
+    }));
+    const player = new CassetteProvider({ path: cassettePath, mode: 'replay' });
+    const chunks: string[] = [];
+    const stream = player.generateStream('Hello');
+
+    for (let next = await stream.next(); !next.done; next = await stream.next()) {
+      chunks.push(next.value);
+    }
+
+    expect(chunks).toEqual(['Hel', 'lo']);
+    expect(await player.generate('Hello')).toBe('Hello');
+  });
+});
@@ -0,0 +1,293 @@
+// Cassette Provider - records real provider traffic to disk and replays it without network
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import type { ModelProvider } from './ModelProvider.js';
+import type { ChatMessage, ChatResult, GenerateOptions, ModelCapabilities, TokenUsage, ToolCall } from '../shared/types.js';
+
+type InteractionKind = 'generate' | 'stream' | 'embed';
+
+interface CassetteInteraction {
+  kind: InteractionKind;
+  hash: string;
+  // Hash of the options that change the answer; absent when the request set none
+  options?: string;
+  prompt: string;
+  response?: string;
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
+  chunks?: string[];
+  embedding?: number[];
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  provider?: string;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteConfig {
+  path: string;
+  mode: 'record' | 'replay';
+  // Real provider to forward to while recording
+  provider?: ModelProvider;
+  // strict: unknown prompts throw; lenient: fuzzy match, then fallbackResponse
+  match?: 'strict' | 'lenient';
+  similarityThreshold?: number;
+  fallbackResponse?: string;
+}
+
+export class CassetteProvider implements ModelProvider {
+  name = 'cassette';
+  capabilities: ModelCapabilities;
+
+  private config: CassetteConfig;
+  private cassette: CassetteFile = { version: 1, interactions: [] };
+  private loading?: Promise<void>;
+  // Concurrent recordings (e.g. ensemble samples) write the file one after another
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(config: CassetteConfig) {
+    if (config.mode === 'record' && !config.provider) {
+      throw new Error('CassetteProvider needs a provider to record from');
+    }
+
+    this.config = config;
+    // Replay can answer anything that was recorded, attachments included
+    this.capabilities = config.provider?.getCapabilities() ?? {
+      maxTokens: 1000000,
+      supportsStreaming: true,
+      supportsEmbedding: true,
+      supportedModalities: ['text', 'image', 'document']
+    };
+  }
+
+  static hashPrompt(prompt: string): string {
+    return createHash('sha256').update(prompt).digest('hex');
+  }
+
+  /**
+   * Hashes the options besides the transcript that change the answer, so two
+   * requests differing only in tools, system instruction or response format
+   * never replay each other's recording.
+   */
+  static hashOptions(options?: GenerateOptions): string | undefined {
+    const { tools, systemInstruction, responseFormat } = options || {};
+    if (!tools?.length && systemInstruction === undefined && responseFormat === undefined) {
+      return undefined;
+    }
+    return CassetteProvider.hashPrompt(JSON.stringify({ tools, systemInstruction, responseFormat }));
+  }
+
+  /**
+   * Flattens a conversation into the text that is hashed and fuzzy-matched.
+   * A lone user message is kept verbatim so single-prompt recordings replay.
+   */
+  static transcript(messages: ChatMessage[]): string {
+    if (messages.length === 1 && messages[0].role === 'user' && !messages[0].attachments?.length) {
+      return messages[0].content;
+    }
+    return messages
+      .map(message => {
+        const calls = message.toolCalls?.length
+          ? ` [calls: ${message.toolCalls.map(call => `${call.name}(${JSON.stringify(call.arguments)})`).join(', ')}]`
+          : '';
+        const files = message.attachments?.length
+          ? ` [attachments: ${message.attachments.map(attachment => attachment.name).join(', ')}]`
+          : '';
+        return `${message.role}${message.name ? `(${message.name})` : ''}: ${message.content}${calls}${files}`;
+      })
+      .join('\n\n');
+  }
+
+  async chat(messages: ChatMessage[], options?: GenerateOptions): Promise<ChatResult> {
+    await this.ensureLoaded();
+    const prompt = CassetteProvider.transcript(messages);
+    const optionsHash = CassetteProvider.hashOptions(options);
+
+    if (this.config.mode === 'record') {
+      const result = await this.config.provider!.chat(messages, options);
+      await this.record({
+        kind: 'generate',
+        options: optionsHash,
+        prompt,
+        response: result.text,
+        toolCalls: result.toolCalls?.length ? result.toolCalls : undefined,
+        usage: result.usage
+      });
+      return result;
+    }
+
+    const interaction = this.find('generate', prompt, optionsHash) ?? this.find('stream', prompt, optionsHash);
+    if (interaction) {
+      return {
+        text: interaction.response ?? (interaction.chunks || []).join(''),
+        toolCalls: interaction.toolCalls,
+        usage: interaction.usage
+      };
+    }
+
+    return { text: this.fallback(prompt) };
+  }
+
+  async *chatStream(messages: ChatMessage[], options?: GenerateOptions): AsyncIterator<string> {
+    await this.ensureLoaded();
+    const prompt = CassetteProvider.transcript(messages);
+    const optionsHash = CassetteProvider.hashOptions(options);
+
+    if (this.config.mode === 'record') {
+      const chunks: string[] = [];
+      const stream = this.config.provider!.chatStream(messages, options);
+      for (;;) {
+        const { value, done } = await stream.next();
+        if (done) break;
+        chunks.push(value);
+        yield value;
+      }
+      await this.record({ kind: 'stream', options: optionsHash, prompt, chunks, response: chunks.join('') });
+      return;
+    }
+
+    const interaction = this.find('stream', prompt, optionsHash) ?? this.find('generate', prompt, optionsHash);
+    if (interaction) {
+      for (const chunk of interaction.chunks ?? [interaction.response ?? '']) {
+        yield chunk;
+      }
+      return;
+    }
+
+    yield this.fallback(prompt);
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    const result = await this.chat([{ role: 'user', content: prompt }], options);
+    return result.text;
+  }
+
+  generateStream(prompt: string, options?: GenerateOptions): AsyncIterator<string> {
+    return this.chatStream([{ role: 'user', content: prompt }], options);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    await this.ensureLoaded();
+
+    if (this.config.mode === 'record') {
+      const embedding = await this.config.provider!.embed(text);
+      await this.record({ kind: 'embed', prompt: text, embedding });
+      return embedding;
+    }
+
+    const interaction = this.find('embed', text);
+    if (!interaction?.embedding) {
+      throw new Error(`Cassette ${this.config.path} has no embedding for ${CassetteProvider.hashPrompt(text).slice(0, 12)}`);
+    }
+    return interaction.embedding;
+  }
+
+  getCapabilities(): ModelCapabilities {
+    return this.capabilities;
+  }
+
+  get model(): string | undefined {
+    return this.config.provider?.model;
+  }
+
+  get embeddingModel(): string | undefined {
+    return this.config.provider?.embeddingModel;
+  }
+
+  getInteractionCount(): number {
+    return this.cassette.interactions.length;
+  }
+
+  private find(kind: InteractionKind, prompt: string, optionsHash?: string): CassetteInteraction | undefined {
+    const hash = CassetteProvider.hashPrompt(prompt);
+    const exact = this.cassette.interactions.find(i => i.kind === kind && i.hash === hash && i.options === optionsHash);
+    if (exact || this.config.match !== 'lenient') {
+      return exact;
+    }
+
+    // Lenient replay: closest recorded prompt by token overlap, among recordings with the same options
+    const threshold = this.config.similarityThreshold ?? 0.8;
+    let best: CassetteInteraction | undefined;
+    let bestScore = 0;
+
+    for (const interaction of this.cassette.interactions) {
+      if (interaction.kind !== kind || interaction.options !== optionsHash) continue;
+      const score = this.similarity(prompt, interaction.prompt);
+      if (score > bestScore) {
+        best = interaction;
+        bestScore = score;
+      }
+    }
+
+    return bestScore >= threshold ? best : undefined;
+  }
+
+  private fallback(prompt: string): string {
+    if (this.config.match === 'lenient' && this.config.fallbackResponse !== undefined) {
+      return this.config.fallbackResponse;
+    }
+
+    throw new Error(
+      `Cassette ${this.config.path} has no recording for prompt ${CassetteProvider.hashPrompt(prompt).slice(0, 12)}`
+    );
+  }
+
+  private similarity(a: string, b: string): number {
+    const tokensA = new Set(a.toLowerCase().split(/\W+/).filter(Boolean));
+    const tokensB = new Set(b.toLowerCase().split(/\W+/).filter(Boolean));
+    if (tokensA.size === 0 && tokensB.size === 0) return 1;
+
+    let shared = 0;
+    for (const token of tokensA) {
+      if (tokensB.has(token)) shared++;
+    }
+    return shared / (tokensA.size + tokensB.size - shared);
+  }
+
+  private async record(entry: Omit<CassetteInteraction, 'hash' | 'recordedAt'>): Promise<void> {
+    const interaction: CassetteInteraction = {
+      ...entry,
+      hash: CassetteProvider.hashPrompt(entry.prompt),
+      recordedAt: new Date().toISOString()
+    };
+
+    // Re-recording a prompt replaces the previous take
+    this.cassette.interactions = this.cassette.interactions.filter(
+      i => !(i.kind === interaction.kind && i.hash === interaction.hash && i.options === interaction.options)
+    );
+    this.cassette.interactions.push(interaction);
+    this.cassette.provider = this.config.provider?.name;
+
+    // Each write saves everything recorded so far, so queued writes never drop an entry
+    const write = this.writing.catch(() => undefined).then(async () => {
+      await fs.mkdir(dirname(this.config.path), { recursive: true });
+      await fs.writeFile(this.config.path, JSON.stringify(this.cassette, null, 2));
+    });
+    this.writing = write;
+    await write;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.config.path, 'utf-8');
+      this.cassette = JSON.parse(raw) as CassetteFile;
+    } catch (error) {
+      const missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+      // Lenient replay tolerates a missing cassette and serves the fallback
+      if (!missing || (this.config.mode === 'replay' && this.config.match !== 'lenient')) {
+        throw new Error(`Unable to load cassette ${this.config.path}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+}
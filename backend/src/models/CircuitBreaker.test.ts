@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, mergeBreakerConfig, type CircuitBreakerConfig, type CircuitStateChange } from './CircuitBreaker.js';
+
+const config: CircuitBreakerConfig = { failureThreshold: 3, cooldownMs: 1000, halfOpenMaxProbes: 1, successThreshold: 2 };
+
+let changes: CircuitStateChange[];
+
+function breaker(overrides: Partial<CircuitBreakerConfig> = {}): CircuitBreaker {
+  return new CircuitBreaker('gemini', mergeBreakerConfig(config, overrides), change => changes.push(change));
+}
+
+function openBreaker(overrides: Partial<CircuitBreakerConfig> = {}): CircuitBreaker {
+  const circuit = breaker(overrides);
+  for (let i = 0; i < config.failureThreshold; i++) circuit.recordFailure('timeout');
+  return circuit;
+}
+
+beforeEach(() => {
+  changes = [];
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after the configured number of consecutive failures', () => {
+    const circuit = breaker();
+
+    circuit.recordFailure();
+    circuit.recordFailure();
+    expect(circuit.snapshot().state).toBe('closed');
+
+    circuit.recordFailure('HTTP 503');
+
+    expect(circuit.snapshot().state).toBe('open');
+    expect(circuit.tryAcquire()).toBe(false);
+    expect(changes).toEqual([
+      expect.objectContaining({ provider: 'gemini', from: 'closed', to: 'open', reason: '3 consecutive failures: HTTP 503' })
+    ]);
+  });
+
+  it('forgets earlier failures after a success', () => {
+    const circuit = breaker();
+
+    circuit.recordFailure();
+    circuit.recordFailure();
+    circuit.recordSuccess();
+    circuit.recordFailure();
+
+    expect(circuit.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('admits a limited number of probes once the cooldown passes', () => {
+    const circuit = openBreaker();
+    expect(circuit.isAvailable()).toBe(false);
+    expect(circuit.snapshot().openUntil).toEqual(new Date(Date.now() + 1000));
+
+    vi.advanceTimersByTime(1000);
+
+    expect(circuit.isAvailable()).toBe(true);
+    expect(circuit.tryAcquire()).toBe(true);
+    expect(circuit.snapshot()).toMatchObject({ state: 'half-open', probesInFlight: 1 });
+    expect(circuit.isAvailable()).toBe(false);
+    expect(circuit.tryAcquire()).toBe(false);
+  });
+
+  it('closes after enough probes succeed', () => {
+    const circuit = openBreaker();
+    vi.advanceTimersByTime(1000);
+
+    circuit.tryAcquire();
+    circuit.recordSuccess();
+    expect(circuit.snapshot().state).toBe('half-open');
+
+    circuit.tryAcquire();
+    circuit.recordSuccess();
+
+    expect(circuit.snapshot().state).toBe('closed');
+    expect(changes.at(-1)).toMatchObject({ from: 'half-open', to: 'closed', reason: '2 probe(s) succeeded' });
+  });
+
+  it('reopens for a full cooldown when a probe fails', () => {
+    const circuit = openBreaker();
+    vi.advanceTimersByTime(1000);
+
+    circuit.tryAcquire();
+    circuit.recordFailure('timeout');
+
+    expect(circuit.snapshot().state).toBe('open');
+    expect(changes.at(-1)).toMatchObject({ from: 'half-open', to: 'open', reason: 'probe failed: timeout' });
+    vi.advanceTimersByTime(999);
+    expect(circuit.tryAcquire()).toBe(false);
+  });
+
+  it('frees a probe slot on release without changing state', () => {
+    const circuit = openBreaker();
+    vi.advanceTimersByTime(1000);
+    circuit.tryAcquire();
+
+    circuit.release();
+
+    expect(circuit.snapshot()).toMatchObject({ state: 'half-open', probesInFlight: 0 });
+    expect(circuit.tryAcquire()).toBe(true);
+  });
+
+  it('closes on a manual reset', () => {
+    const circuit = openBreaker();
+
+    circuit.reset();
+
+    expect(circuit.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(changes.at(-1)).toMatchObject({ from: 'open', to: 'closed', reason: 'manual reset' });
+  });
+
+  it('applies new limits without losing its state', () => {
+    const circuit = breaker();
+    circuit.recordFailure();
+
+    circuit.configure({ failureThreshold: 2, cooldownMs: undefined });
+    circuit.recordFailure();
+
+    expect(circuit.snapshot().state).toBe('open');
+    expect(circuit.snapshot().config).toEqual({ ...config, failureThreshold: 2 });
+  });
+});
@@ -0,0 +1,160 @@
+// Circuit Breaker - closed/open/half-open state machine guarding one provider
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before probing
+  cooldownMs: number;
+  // Concurrent trial requests allowed while half-open
+  halfOpenMaxProbes: number;
+  // Successful probes needed to close the circuit again
+  successThreshold: number;
+}
+
+export interface CircuitStateChange {
+  provider: string;
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+  at: Date;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailure?: Date;
+  openUntil?: Date;
+  probesInFlight: number;
+  config: CircuitBreakerConfig;
+}
+
+export const DEFAULT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  cooldownMs: 30000,
+  halfOpenMaxProbes: 1,
+  successThreshold: 1
+};
+
+// Overrides left undefined keep the base value
+export function mergeBreakerConfig(
+  base: CircuitBreakerConfig,
+  overrides: Partial<CircuitBreakerConfig> = {}
+): CircuitBreakerConfig {
+  const defined = Object.entries(overrides).filter(([, value]) => value !== undefined);
+  return { ...base, ...Object.fromEntries(defined) };
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly provider: string) {
+    super(`Circuit for provider ${provider} is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private lastFailure?: Date;
+  private openedAt = 0;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+
+  constructor(
+    public readonly provider: string,
+    private config: CircuitBreakerConfig,
+    private onStateChange: (change: CircuitStateChange) => void
+  ) {}
+
+  configure(config: Partial<CircuitBreakerConfig>): void {
+    this.config = mergeBreakerConfig(this.config, config);
+  }
+
+  // Side-effect free: whether a request could be admitted right now
+  isAvailable(): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open') return Date.now() - this.openedAt >= this.config.cooldownMs;
+    return this.probesInFlight < this.config.halfOpenMaxProbes;
+  }
+
+  /**
+   * Admits a request. Once the cooldown has passed an open circuit turns
+   * half-open, and from then on only halfOpenMaxProbes requests run at a time.
+   * Every admitted request must end in recordSuccess, recordFailure or release.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.config.cooldownMs) return false;
+      this.transition('half-open', 'cooldown elapsed');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probesInFlight >= this.config.halfOpenMaxProbes) return false;
+      this.probesInFlight++;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.probeSuccesses++;
+      if (this.probeSuccesses >= this.config.successThreshold) {
+        this.transition('closed', `${this.probeSuccesses} probe(s) succeeded`);
+      }
+    }
+  }
+
+  recordFailure(reason: string = 'request failed'): void {
+    this.consecutiveFailures++;
+    this.lastFailure = new Date();
+
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.transition('open', `probe failed: ${reason}`);
+    } else if (this.state === 'closed' && this.consecutiveFailures >= this.config.failureThreshold) {
+      this.transition('open', `${this.consecutiveFailures} consecutive failures: ${reason}`);
+    }
+  }
+
+  // Gives back a probe slot without an outcome, e.g. when a stream is abandoned
+  release(): void {
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    }
+  }
+
+  reset(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed', 'manual reset');
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailure: this.lastFailure,
+      openUntil: this.state === 'open' ? new Date(this.openedAt + this.config.cooldownMs) : undefined,
+      probesInFlight: this.probesInFlight,
+      config: { ...this.config }
+    };
+  }
+
+  private transition(to: CircuitState, reason: string): void {
+    const from = this.state;
+    this.state = to;
+    this.probesInFlight = 0;
+    this.probeSuccesses = 0;
+    if (to === 'open') {
+      this.openedAt = Date.now();
+    }
+
+    this.onStateChange({ provider: this.provider, from, to, reason, at: new Date() });
+  }
+}
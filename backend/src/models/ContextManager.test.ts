@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ContextManager, ContextOverflowError, estimateTokens, truncateMiddle, type PromptSection } from './ContextManager.js';
+
+// `tokens` tokens of text at the estimator's 4 characters per token
+const text = (tokens: number, fill = 'x') => fill.repeat(tokens * 4);
+
+const section = (name: string, content: string, priority: number, required?: boolean): PromptSection => ({ name, content, priority, required });
+
+// The persona an agent sends as its system turn
+const persona = section('persona', text(100, 'p'), 100, true);
+
+describe('truncateMiddle', () => {
+  it('keeps the start and end and says how much was left out', () => {
+    const cut = truncateMiddle(`${text(100, 'h')}${text(100, 't')}`, 100);
+
+    expect(estimateTokens(cut)).toBe(100);
+    expect(cut.startsWith('h'.repeat(248))).toBe(true);
+    expect(cut.endsWith('t'.repeat(124))).toBe(true);
+    expect(cut).toContain('\n...[107 tokens omitted]...\n');
+  });
+
+  it('leaves text that already fits alone', () => {
+    expect(truncateMiddle('short', 10)).toBe('short');
+  });
+});
+
+describe('ContextManager.fit', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the sections untouched when they fit', async () => {
+    const sections = [persona, section('prompt', text(50), 50)];
+    expect(await new ContextManager().fit(sections, 150)).toEqual({ sections, drops: [], totalTokens: 150 });
+  });
+
+  it('keeps required sections such as the system persona whole and in place', async () => {
+    const fitted = await new ContextManager().fit(
+      [section('context:notes', text(100), 1), persona, section('prompt', text(100), 50)],
+      200
+    );
+
+    expect(fitted.sections.map(entry => entry.name)).toEqual(['persona', 'prompt']);
+    expect(fitted.sections[0]).toBe(persona);
+    expect(fitted.drops).toEqual([{ section: 'context:notes', action: 'dropped', originalTokens: 100, keptTokens: 0 }]);
+    expect(fitted.totalTokens).toBe(200);
+  });
+
+  it('fails when the required sections alone do not fit', async () => {
+    const fitting = new ContextManager().fit([persona, section('prompt', text(10), 50)], 50);
+
+    await expect(fitting).rejects.toBeInstanceOf(ContextOverflowError);
+    await expect(new ContextManager().fit([persona], 50)).rejects.toThrow(
+      expect.objectContaining({ message: 'Prompt needs 100 tokens but only 50 are available', requiredTokens: 100, availableTokens: 50 })
+    );
+  });
+
+  it('cuts the lowest priority first, the largest among equals, and only as far as needed', async () => {
+    const fitted = await new ContextManager().fit(
+      [persona, section('small', text(100), 1), section('large', text(200), 1), section('workflow', text(100), 2)],
+      400
+    );
+
+    expect(fitted.drops).toEqual([{ section: 'large', action: 'truncated', originalTokens: 200, keptTokens: 100 }]);
+    expect(fitted.sections.map(entry => [entry.name, estimateTokens(entry.content)])).toEqual([
+      ['persona', 100],
+      ['small', 100],
+      ['large', 100],
+      ['workflow', 100]
+    ]);
+  });
+
+  it('drops a section that would be cut below minSectionTokens and moves on to the next', async () => {
+    const fitted = await new ContextManager({ minSectionTokens: 40 }).fit(
+      [persona, section('context', text(50), 1), section('inputs', text(100), 2)],
+      180
+    );
+
+    expect(fitted.drops).toEqual([
+      { section: 'context', action: 'dropped', originalTokens: 50, keptTokens: 0 },
+      { section: 'inputs', action: 'truncated', originalTokens: 100, keptTokens: 80 }
+    ]);
+  });
+
+  it('summarizes large sections and truncates a summary that overshoots', async () => {
+    const summarize = vi.fn(async () => text(250, 's'));
+    const fitted = await new ContextManager({ summarize, summaryChunkTokens: 1000 }).fit([persona, section('history', text(600), 1)], 200);
+
+    expect(summarize).toHaveBeenCalledWith(text(600), 100);
+    expect(fitted.drops).toEqual([{ section: 'history', action: 'summarized', originalTokens: 600, keptTokens: 100 }]);
+    expect(fitted.sections[1].content).toMatch(/^s+\n\.\.\.\[\d+ tokens omitted\]\.\.\.\ns+$/);
+  });
+
+  it('truncates sections too small to be worth summarizing', async () => {
+    const summarize = vi.fn(async () => 'summary');
+    const fitted = await new ContextManager({ summarize }).fit([persona, section('notes', text(200), 1)], 200);
+
+    expect(summarize).not.toHaveBeenCalled();
+    expect(fitted.drops[0]).toMatchObject({ section: 'notes', action: 'truncated', keptTokens: 100 });
+  });
+
+  it('falls back to truncating when the summarizer fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const summarize = vi.fn(async () => {
+      throw new Error('model unavailable');
+    });
+    const fitted = await new ContextManager({ summarize, summarizeAboveTokens: 100 }).fit([persona, section('notes', text(200), 1)], 200);
+
+    expect(fitted.drops[0]).toMatchObject({ section: 'notes', action: 'truncated', keptTokens: 100 });
+    expect(warn).toHaveBeenCalledWith('Summarizing prompt section failed, truncating instead: model unavailable');
+  });
+
+  describe('a single section larger than the whole budget', () => {
+    // 40 lines of 40 characters: 400 tokens against a budget of 100
+    const oversized = Array.from({ length: 40 }, (_, index) => `${String(index).padStart(2, '0')} ${'w'.repeat(36)}\n`).join('');
+
+    it('is summarized in line-aligned chunks that each fit half the budget', async () => {
+      const pieces: string[] = [];
+      const summarize = vi.fn(async (piece: string, target: number) => {
+        pieces.push(piece);
+        return `summary of ${piece.slice(0, 2)} in ${target}`;
+      });
+
+      const fitted = await new ContextManager({ summarize, summarizeAboveTokens: 100 }).fit([section('document', oversized, 1)], 100);
+
+      expect(pieces).toHaveLength(8);
+      expect(pieces.every(piece => estimateTokens(piece) <= 50 && piece.endsWith('\n'))).toBe(true);
+      expect(pieces.join('')).toBe(oversized);
+      expect(summarize).toHaveBeenCalledWith(pieces[0], 6);
+      expect(fitted.drops).toEqual([{ section: 'document', action: 'summarized', originalTokens: 400, keptTokens: expect.any(Number) }]);
+      expect(fitted.sections[0].content.startsWith('summary of 00 in 6\n\nsummary of 05 in 6')).toBe(true);
+      expect(fitted.totalTokens).toBeLessThanOrEqual(100);
+    });
+
+    it('stops summarizing summaries after maxSummaryDepth and truncates the rest', async () => {
+      // A summarizer that never shortens anything
+      const summarize = vi.fn(async (piece: string) => piece);
+
+      const fitted = await new ContextManager({ summarize, summarizeAboveTokens: 100, maxSummaryDepth: 2 }).fit([section('document', oversized, 1)], 100);
+
+      // Two rounds of chunking, the second over the joined first-round output
+      expect(summarize.mock.calls.length).toBeGreaterThan(8);
+      expect(fitted.drops[0]).toMatchObject({ action: 'summarized', keptTokens: 100 });
+      expect(fitted.sections[0].content).toContain('tokens omitted');
+    });
+
+    it('is truncated to the budget without a summarizer', async () => {
+      const fitted = await new ContextManager().fit([section('document', oversized, 1)], 100);
+
+      expect(fitted.drops).toEqual([{ section: 'document', action: 'truncated', originalTokens: 400, keptTokens: 100 }]);
+      expect(fitted.sections[0].content.startsWith('00 ')).toBe(true);
+      expect(fitted.sections[0].content.endsWith(`39 ${'w'.repeat(36)}\n`)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+// Context Manager - fits prompt sections into a model's context window
+
+export interface PromptSection {
+  name: string;
+  content: string;
+  // Lower priorities are cut first
+  priority: number;
+  // Never cut; the prompt fails instead if these alone do not fit
+  required?: boolean;
+}
+
+export type ContextAction = 'truncated' | 'summarized' | 'dropped';
+
+// What happened to a section that did not fit, reported in the task result metadata
+export interface ContextDrop {
+  section: string;
+  action: ContextAction;
+  originalTokens: number;
+  keptTokens: number;
+}
+
+export interface FittedPrompt {
+  sections: PromptSection[];
+  drops: ContextDrop[];
+  totalTokens: number;
+}
+
+// Condenses text to roughly targetTokens, usually with a model call
+export type Summarizer = (text: string, targetTokens: number) => Promise<string>;
+
+export interface ContextManagerConfig {
+  summarize?: Summarizer;
+  // Smaller sections are truncated; a summary would not save enough to be worth a call
+  summarizeAboveTokens?: number;
+  // Largest piece sent to the summarizer at once; defaults to half the budget
+  summaryChunkTokens?: number;
+  // Rounds of summarizing summaries before the rest is truncated
+  maxSummaryDepth?: number;
+  // A section cut below this is dropped outright
+  minSectionTokens?: number;
+}
+
+export class ContextOverflowError extends Error {
+  constructor(
+    message: string,
+    public readonly requiredTokens: number,
+    public readonly availableTokens: number
+  ) {
+    super(message);
+    this.name = 'ContextOverflowError';
+  }
+}
+
+// Same ~4 characters per token the router uses for usage and rate limit estimates
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Keeps the start and the end, where prompts put their framing and output instructions
+export function truncateMiddle(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  const marker = (omitted: number) => `\n...[${omitted} tokens omitted]...\n`;
+  const keepChars = Math.max(0, maxTokens * 4 - marker(estimateTokens(text)).length);
+  const head = Math.ceil(keepChars * 2 / 3);
+  const tail = keepChars - head;
+  const omitted = estimateTokens(text.slice(head, text.length - tail));
+
+  return `${text.slice(0, head)}${marker(omitted)}${tail > 0 ? text.slice(-tail) : ''}`;
+}
+
+// Splits at line breaks where possible so summaries do not start mid-sentence
+function splitByTokens(text: string, maxTokens: number): string[] {
+  const maxChars = Math.max(1, maxTokens * 4);
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    const newline = rest.lastIndexOf('\n', maxChars);
+    const cut = newline > maxChars / 2 ? newline + 1 : maxChars;
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  if (rest.length > 0) pieces.push(rest);
+  return pieces;
+}
+
+export class ContextManager {
+  private summarizer?: Summarizer;
+  private summarizeAboveTokens: number;
+  private summaryChunkTokens?: number;
+  private maxSummaryDepth: number;
+  private minSectionTokens: number;
+
+  constructor(config: ContextManagerConfig = {}) {
+    this.summarizer = config.summarize;
+    this.summarizeAboveTokens = config.summarizeAboveTokens ?? 500;
+    this.summaryChunkTokens = config.summaryChunkTokens;
+    this.maxSummaryDepth = config.maxSummaryDepth ?? 3;
+    this.minSectionTokens = config.minSectionTokens ?? 50;
+  }
+
+  /**
+   * Shrinks sections until their total fits the budget. The lowest priority
+   * goes first, and among equals the largest section. Each is cut only as far
+   * as needed: summarized when large enough and a summarizer is set,
+   * otherwise truncated, and dropped when little of it would be left.
+   */
+  async fit(sections: PromptSection[], budgetTokens: number): Promise<FittedPrompt> {
+    const sizes = sections.map(section => estimateTokens(section.content));
+    const total = sizes.reduce((sum, size) => sum + size, 0);
+    if (total <= budgetTokens) {
+      return { sections, drops: [], totalTokens: total };
+    }
+
+    const result = [...sections];
+    const drops: ContextDrop[] = [];
+    let overflow = total - budgetTokens;
+
+    const order = sections
+      .map((section, index) => ({ section, index }))
+      .filter(({ section }) => !section.required)
+      .sort((a, b) => a.section.priority - b.section.priority || sizes[b.index] - sizes[a.index]);
+
+    for (const { section, index } of order) {
+      if (overflow <= 0) break;
+
+      const originalTokens = sizes[index];
+      const target = originalTokens - overflow;
+      if (target < this.minSectionTokens) {
+        result[index] = { ...section, content: '' };
+        drops.push({ section: section.name, action: 'dropped', originalTokens, keptTokens: 0 });
+        overflow -= originalTokens;
+        continue;
+      }
+
+      const { content, action } = await this.shrink(section.content, target, budgetTokens);
+      const keptTokens = estimateTokens(content);
+      result[index] = { ...section, content };
+      drops.push({ section: section.name, action, originalTokens, keptTokens });
+      overflow -= originalTokens - keptTokens;
+    }
+
+    if (overflow > 0) {
+      throw new ContextOverflowError(
+        `Prompt needs ${budgetTokens + overflow} tokens but only ${budgetTokens} are available`,
+        budgetTokens + overflow,
+        budgetTokens
+      );
+    }
+
+    return {
+      sections: result.filter(section => section.content.length > 0 || section.required),
+      drops,
+      totalTokens: budgetTokens + overflow
+    };
+  }
+
+  private async shrink(
+    text: string,
+    targetTokens: number,
+    budgetTokens: number
+  ): Promise<{ content: string; action: ContextAction }> {
+    if (this.summarizer && estimateTokens(text) >= this.summarizeAboveTokens) {
+      try {
+        const summary = await this.summarize(text, targetTokens, this.summaryChunkTokens ?? Math.floor(budgetTokens / 2), 0);
+        // Models overshoot length targets; trim what is left over
+        return { content: truncateMiddle(summary.trim(), targetTokens), action: 'summarized' };
+      } catch (error) {
+        console.warn(`Summarizing prompt section failed, truncating instead: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return { content: truncateMiddle(text, targetTokens), action: 'truncated' };
+  }
+
+  // Text too large for one call is summarized in pieces, then the joined summaries again
+  private async summarize(text: string, targetTokens: number, chunkTokens: number, depth: number): Promise<string> {
+    if (estimateTokens(text) <= chunkTokens) {
+      return this.summarizer!(text, targetTokens);
+    }
+
+    const pieces = splitByTokens(text, chunkTokens);
+    const perPiece = Math.max(1, Math.floor(Math.min(chunkTokens, targetTokens * 2) / pieces.length));
+    const summaries: string[] = [];
+    for (const piece of pieces) {
+      summaries.push(await this.summarizer!(piece, perPiece));
+    }
+
+    const joined = summaries.join('\n\n');
+    if (estimateTokens(joined) <= targetTokens || depth + 1 >= this.maxSummaryDepth) {
+      return joined;
+    }
+    return this.summarize(joined, targetTokens, chunkTokens, depth + 1);
+  }
+}
@@ -0,0 +1,83 @@
+// Embedding Provider Interface - text embeddings, separate from chat providers
+
+import type { ModelProvider } from './ModelProvider.js';
+
+export interface EmbeddingProvider {
+  name: string;
+  // Model identifier, part of the embedding cache key
+  readonly model?: string;
+  // Vector length; undefined until the provider has returned its first vector
+  readonly dimensions?: number;
+  // Most texts sent in one embedBatch() call
+  readonly maxBatchSize: number;
+  // False when the backing model cannot embed; such a provider is never picked as the default
+  readonly supportsEmbedding?: boolean;
+
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+export class EmbeddingDimensionError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly expected: number,
+    public readonly actual: number
+  ) {
+    super(message);
+    this.name = 'EmbeddingDimensionError';
+  }
+}
+
+// Embeddings of a chat provider, e.g. Gemini's text-embedding-004
+export class ModelEmbeddingProvider implements EmbeddingProvider {
+  name: string;
+  readonly maxBatchSize: number;
+
+  private provider: ModelProvider;
+  private learnedDimensions?: number;
+
+  constructor(provider: ModelProvider, maxBatchSize?: number) {
+    this.name = provider.name;
+    this.provider = provider;
+    // Gemini's batch endpoint takes up to 100 texts; one-at-a-time providers are called concurrently
+    this.maxBatchSize = maxBatchSize ?? (provider.embedBatch ? 100 : 8);
+  }
+
+  get model(): string | undefined {
+    return this.provider.embeddingModel ?? this.provider.model;
+  }
+
+  get dimensions(): number | undefined {
+    return this.learnedDimensions;
+  }
+
+  // Read on every call: Ollama, for one, learns its capabilities after registration
+  get supportsEmbedding(): boolean {
+    return this.provider.getCapabilities().supportsEmbedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const vectors = this.provider.embedBatch
+      ? await this.provider.embedBatch(texts)
+      : await Promise.all(texts.map(text => this.provider.embed(text)));
+
+    this.learnedDimensions ??= vectors[0]?.length;
+    return vectors;
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare vectors of length ${a.length} and ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EmbeddingDimensionError, type EmbeddingProvider } from './EmbeddingProvider.js';
+import { EmbeddingRegistry } from './EmbeddingRegistry.js';
+
+// Embeds each text as [length, batch number]; counts batches and records what was sent
+function countingProvider(name: string, options: { dimensions?: number; maxBatchSize?: number; supportsEmbedding?: boolean; fail?: boolean } = {}) {
+  const batches: string[][] = [];
+  const provider: EmbeddingProvider & { batches: string[][] } = {
+    name,
+    model: `${name}-model`,
+    dimensions: options.dimensions,
+    maxBatchSize: options.maxBatchSize ?? 100,
+    supportsEmbedding: options.supportsEmbedding,
+    batches,
+    async embedBatch(texts) {
+      if (options.fail) throw new Error(`${name} is down`);
+      batches.push(texts);
+      return texts.map(text => [text.length, batches.length]);
+    }
+  };
+  return provider;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('EmbeddingRegistry', () => {
+  it('defaults to hashing until a model provider registers', () => {
+    const registry = new EmbeddingRegistry();
+    expect(registry.getDefault()).toBe('hashing');
+
+    registry.register('ollama', countingProvider('ollama'));
+    registry.register('gemini', countingProvider('gemini'));
+
+    expect(registry.getDefault()).toBe('ollama');
+  });
+
+  it('skips providers that cannot embed when picking the default', () => {
+    const registry = new EmbeddingRegistry();
+    registry.register('vllm', countingProvider('vllm', { supportsEmbedding: false }));
+    expect(registry.getDefault()).toBe('hashing');
+
+    registry.register('ollama', countingProvider('ollama', { supportsEmbedding: true }));
+    expect(registry.getDefault()).toBe('ollama');
+  });
+
+  it('keeps a chosen default until it is unregistered', () => {
+    const registry = new EmbeddingRegistry();
+    registry.register('ollama', countingProvider('ollama'));
+    registry.register('gemini', countingProvider('gemini'));
+
+    registry.setDefault('gemini');
+    expect(registry.getDefault()).toBe('gemini');
+
+    registry.unregister('gemini');
+    expect(registry.getDefault()).toBe('ollama');
+    expect(() => registry.setDefault('gemini')).toThrow('Embedding provider gemini not registered');
+  });
+
+  it('never unregisters the hashing provider', () => {
+    const registry = new EmbeddingRegistry();
+
+    registry.unregister('hashing');
+
+    expect(registry.getProvider('hashing').name).toBe('hashing');
+  });
+
+  it('moves on from a default that fails before embedding anything', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const registry = new EmbeddingRegistry();
+    registry.register('down', countingProvider('down', { fail: true }));
+    registry.register('ollama', countingProvider('ollama'));
+
+    expect(await registry.embed('hello')).toEqual([5, 1]);
+    expect(registry.getDefault()).toBe('ollama');
+  });
+
+  it('does not switch providers once the default has returned vectors', async () => {
+    const registry = new EmbeddingRegistry();
+    const flaky = countingProvider('flaky');
+    registry.register('flaky', flaky);
+    registry.register('ollama', countingProvider('ollama'));
+    await registry.embed('first');
+
+    flaky.embedBatch = async () => {
+      throw new Error('flaky is down');
+    };
+
+    await expect(registry.embed('second')).rejects.toThrow('flaky is down');
+    expect(registry.getDefault()).toBe('flaky');
+  });
+
+  it('does not fall back from a provider named by the caller or chosen as default', async () => {
+    const registry = new EmbeddingRegistry();
+    registry.register('down', countingProvider('down', { fail: true }));
+    registry.register('ollama', countingProvider('ollama'));
+
+    await expect(registry.embed('hello', 'down')).rejects.toThrow('down is down');
+    registry.setDefault('down');
+    await expect(registry.embed('hello')).rejects.toThrow('down is down');
+  });
+
+  it('batches texts, sends repeats once and returns vectors in input order', async () => {
+    const registry = new EmbeddingRegistry();
+    const provider = countingProvider('ollama', { maxBatchSize: 2 });
+    registry.register('ollama', provider);
+
+    const vectors = await registry.embedMany(['a', 'bb', 'a', 'ccc']);
+
+    expect(provider.batches).toEqual([['a', 'bb'], ['ccc']]);
+    expect(vectors).toEqual([[1, 1], [2, 1], [1, 1], [3, 2]]);
+  });
+
+  it('serves cached vectors without calling the provider again', async () => {
+    const registry = new EmbeddingRegistry();
+    const provider = countingProvider('ollama');
+    registry.register('ollama', provider);
+
+    await registry.embedMany(['a', 'b']);
+    const vectors = await registry.embedMany(['b', 'c']);
+
+    expect(provider.batches).toEqual([['a', 'b'], ['c']]);
+    expect(vectors).toEqual([[1, 1], [1, 2]]);
+    expect(registry.getStats().get('ollama')).toMatchObject({ requests: 2, textsEmbedded: 3, cacheHits: 1, cacheMisses: 3, model: 'ollama-model' });
+  });
+
+  it('embeds every time with the cache turned off', async () => {
+    const registry = new EmbeddingRegistry({ cache: false });
+    const provider = countingProvider('ollama');
+    registry.register('ollama', provider);
+
+    await registry.embed('a');
+    await registry.embed('a');
+
+    expect(provider.batches).toHaveLength(2);
+  });
+
+  it('rejects vectors of the wrong length', async () => {
+    const registry = new EmbeddingRegistry();
+    registry.register('ollama', countingProvider('ollama', { dimensions: 768 }));
+
+    await expect(registry.embed('a')).rejects.toBeInstanceOf(EmbeddingDimensionError);
+  });
+});
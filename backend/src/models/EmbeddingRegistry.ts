@@ -0,0 +1,203 @@
+// Embedding Registry - named embedding providers with batching and a content-hash cache
+
+import { createHash } from 'crypto';
+import { EmbeddingDimensionError, type EmbeddingProvider } from './EmbeddingProvider.js';
+import { HashingEmbeddingProvider } from './HashingEmbeddingProvider.js';
+
+export interface EmbeddingRegistryConfig {
+  cache?: boolean;
+  maxCacheEntries?: number;
+}
+
+export interface EmbeddingProviderStats {
+  model?: string;
+  dimensions?: number;
+  requests: number;
+  textsEmbedded: number;
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+/**
+ * There is no fallback between providers once one has returned vectors:
+ * vectors from different models live in different spaces, and mixing them
+ * would quietly break similarity search. Until setDefault() picks one, the
+ * default is the first registered model provider that can embed; one that
+ * fails before returning any vector is passed over for the next. The offline
+ * 'hashing' provider is always registered and is the default only when there
+ * is no other.
+ */
+export class EmbeddingRegistry {
+  private providers: Map<string, EmbeddingProvider> = new Map();
+  private stats: Map<string, EmbeddingProviderStats> = new Map();
+  private cache: Map<string, number[]> = new Map();
+  // Chosen with setDefault; otherwise see getDefault
+  private chosenDefault?: string;
+  // Picked by getDefault but failed before embedding anything
+  private failedDefaults: Set<string> = new Set();
+  private cacheEnabled: boolean;
+  private maxCacheEntries: number;
+
+  constructor(config: EmbeddingRegistryConfig = {}) {
+    this.cacheEnabled = config.cache ?? true;
+    this.maxCacheEntries = config.maxCacheEntries ?? 10000;
+    this.register('hashing', new HashingEmbeddingProvider());
+  }
+
+  register(name: string, provider: EmbeddingProvider): void {
+    this.providers.set(name, provider);
+    this.stats.set(name, { requests: 0, textsEmbedded: 0, cacheHits: 0, cacheMisses: 0 });
+    this.failedDefaults.delete(name);
+  }
+
+  // The built-in 'hashing' provider stays; removing the chosen default goes back to the first registered
+  unregister(name: string): void {
+    if (name === 'hashing') return;
+    this.providers.delete(name);
+    this.stats.delete(name);
+    this.failedDefaults.delete(name);
+    if (this.chosenDefault === name) {
+      this.chosenDefault = undefined;
+    }
+  }
+
+  setDefault(name: string): void {
+    if (!this.providers.has(name)) {
+      throw new Error(`Embedding provider ${name} not registered`);
+    }
+    this.chosenDefault = name;
+  }
+
+  getDefault(): string {
+    if (this.chosenDefault) return this.chosenDefault;
+
+    for (const [name, provider] of this.providers) {
+      if (name !== 'hashing' && provider.supportsEmbedding !== false && !this.failedDefaults.has(name)) return name;
+    }
+    return 'hashing';
+  }
+
+  getProvider(name?: string): EmbeddingProvider {
+    const resolved = name ?? this.getDefault();
+    const provider = this.providers.get(resolved);
+    if (!provider) {
+      throw new Error(`Embedding provider ${resolved} not registered`);
+    }
+    return provider;
+  }
+
+  async embed(text: string, providerName?: string): Promise<number[]> {
+    const [vector] = await this.embedMany([text], providerName);
+    return vector;
+  }
+
+  /**
+   * Embeds texts in input order. Cached texts are skipped, repeats are sent
+   * once, and the rest go out in batches of the provider's maxBatchSize.
+   */
+  async embedMany(texts: string[], providerName?: string): Promise<number[][]> {
+    if (providerName || this.chosenDefault) {
+      return this.embedWith(providerName ?? this.chosenDefault!, texts);
+    }
+
+    for (;;) {
+      const name = this.getDefault();
+      try {
+        return await this.embedWith(name, texts);
+      } catch (error) {
+        // Only a provider that never produced a vector can be swapped without mixing vector spaces
+        if (name === 'hashing' || this.stats.get(name)!.textsEmbedded > 0) throw error;
+        this.failedDefaults.add(name);
+        console.warn(`Embedding provider ${name} failed, using ${this.getDefault()} instead: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  getStats(): Map<string, EmbeddingProviderStats> {
+    const snapshot = new Map<string, EmbeddingProviderStats>();
+    for (const [name, stats] of this.stats) {
+      const provider = this.providers.get(name)!;
+      snapshot.set(name, { ...stats, model: provider.model, dimensions: provider.dimensions });
+    }
+    return snapshot;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async embedWith(name: string, texts: string[]): Promise<number[][]> {
+    const provider = this.getProvider(name);
+    const stats = this.stats.get(name)!;
+
+    const keys = texts.map(text => this.keyFor(name, provider, text));
+    const results: Array<number[] | undefined> = keys.map(key => this.readCache(key));
+    stats.cacheHits += results.filter(Boolean).length;
+
+    const pending = new Map<string, string>();
+    texts.forEach((text, index) => {
+      if (!results[index]) pending.set(keys[index], text);
+    });
+    stats.cacheMisses += pending.size;
+
+    const entries = Array.from(pending);
+    const fresh = new Map<string, number[]>();
+    for (let start = 0; start < entries.length; start += provider.maxBatchSize) {
+      const batch = entries.slice(start, start + provider.maxBatchSize);
+      const vectors = await provider.embedBatch(batch.map(([, text]) => text));
+      stats.requests++;
+      stats.textsEmbedded += batch.length;
+
+      batch.forEach(([key], index) => {
+        const vector = vectors[index];
+        this.checkDimensions(name, provider, vector);
+        this.writeCache(key, [...vector]);
+        fresh.set(key, vector);
+      });
+    }
+
+    return keys.map((key, index) => results[index] ?? fresh.get(key)!);
+  }
+
+  // The model is part of the key, so switching models never serves stale vectors
+  private keyFor(name: string, provider: EmbeddingProvider, text: string): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ provider: name, model: provider.model, text }))
+      .digest('hex');
+  }
+
+  // Map order doubles as recency: a hit moves the entry to the back. Callers get a copy they may modify
+  private readCache(key: string): number[] | undefined {
+    if (!this.cacheEnabled) return undefined;
+
+    const vector = this.cache.get(key);
+    if (!vector) return undefined;
+
+    this.cache.delete(key);
+    this.cache.set(key, vector);
+    return [...vector];
+  }
+
+  private writeCache(key: string, vector: number[]): void {
+    if (!this.cacheEnabled) return;
+
+    this.cache.set(key, vector);
+    while (this.cache.size > this.maxCacheEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  private checkDimensions(name: string, provider: EmbeddingProvider, vector: number[] | undefined): void {
+    if (!vector) {
+      throw new Error(`Embedding provider ${name} returned too few vectors`);
+    }
+    if (provider.dimensions !== undefined && vector.length !== provider.dimensions) {
+      throw new EmbeddingDimensionError(
+        `Embedding provider ${name} returned ${vector.length} dimensions, expected ${provider.dimensions}`,
+        name,
+        provider.dimensions,
+        vector.length
+      );
+    }
+  }
+}
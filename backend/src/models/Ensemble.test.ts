@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatMessage } from '../shared/types.js';
+import { buildJudgeMessages, buildMergeMessages, canonicalJson, judgeVerdictSchema, majorityVote, normalizeText } from './Ensemble.js';
+
+const conversation: ChatMessage[] = [
+  { role: 'system', content: 'You are terse.' },
+  { role: 'user', content: 'First question' },
+  { role: 'assistant', content: 'First answer' },
+  { role: 'user', content: 'Capital of France?', attachments: [{ name: 'map.png', mimeType: 'image/png', data: 'AAAA' }] }
+];
+
+describe('canonicalJson', () => {
+  it('sorts object keys at every depth and keeps array order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, 1], c: null } })).toBe('{"a":{"c":null,"d":[2,1]},"b":1}');
+    expect(canonicalJson({ a: 1, b: 2 })).toBe(canonicalJson({ b: 2, a: 1 }));
+    expect(canonicalJson([1, 2])).not.toBe(canonicalJson([2, 1]));
+  });
+
+  it('serializes values JSON cannot as null', () => {
+    expect(canonicalJson(undefined)).toBe('null');
+    expect(canonicalJson('x')).toBe('"x"');
+  });
+});
+
+describe('normalizeText', () => {
+  it('ignores case and whitespace differences', () => {
+    expect(normalizeText('  Paris\n is the   CAPITAL ')).toBe('paris is the capital');
+  });
+});
+
+describe('majorityVote', () => {
+  it('picks the most frequent answer by key and counts its votes', () => {
+    expect(majorityVote(['Paris', 'Lyon', ' paris'], normalizeText)).toEqual({ winner: 'Paris', votes: 2 });
+  });
+
+  it('gives ties to the earliest sample', () => {
+    expect(majorityVote(['b', 'a', 'a', 'b'], value => value)).toEqual({ winner: 'b', votes: 2 });
+    expect(majorityVote(['x', 'y', 'z'], value => value)).toEqual({ winner: 'x', votes: 1 });
+  });
+});
+
+describe('judgeVerdictSchema', () => {
+  it('needs a candidate number from 1', () => {
+    expect(judgeVerdictSchema.safeParse({ best: 2, reason: 'complete' }).success).toBe(true);
+    expect(judgeVerdictSchema.safeParse({ best: 0 }).success).toBe(false);
+    expect(judgeVerdictSchema.safeParse({ best: 1.5 }).success).toBe(false);
+  });
+});
+
+describe('review messages', () => {
+  it('keep system turns and put the last request and numbered candidates in one user turn', () => {
+    const messages = buildJudgeMessages(conversation, ['Paris', 'Lyon']);
+
+    expect(messages.map(message => message.role)).toEqual(['system', 'user']);
+    expect(messages[0]).toEqual(conversation[0]);
+    expect(messages[1].content).toContain('Several answers were generated for this request:\nCapital of France?');
+    expect(messages[1].content).toContain('Candidate 1:\nParis\n\nCandidate 2:\nLyon');
+    expect(messages[1].content).not.toContain('First question');
+    expect(messages[1].content.endsWith('Respond in JSON format with keys: best (the candidate number), reason.')).toBe(true);
+    // The judge sees what the samples saw
+    expect(messages[1].attachments).toEqual(conversation[3].attachments);
+  });
+
+  it('ask a merge to keep what the candidates agree on', () => {
+    const [, request] = buildMergeMessages(conversation, ['Paris', 'Paris, France']);
+
+    expect(request.content).toContain('Candidate 2:\nParis, France');
+    expect(request.content).toContain('keeps what the candidates agree on');
+  });
+});
@@ -0,0 +1,90 @@
+// Ensemble - reductions that turn several sampled answers into one
+
+import { z } from 'zod';
+import type { ChatMessage } from '../shared/types.js';
+
+export interface VoteResult<T> {
+  winner: T;
+  votes: number;
+}
+
+export const judgeVerdictSchema = z.object({
+  best: z.number().int().min(1),
+  reason: z.string().optional()
+});
+
+// Stable serialization: key order must not split otherwise identical answers
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Most frequent answer by key; ties go to the earliest sample
+export function majorityVote<T>(values: T[], keyOf: (value: T) => string): VoteResult<T> {
+  const counts = new Map<string, { value: T; votes: number }>();
+  for (const value of values) {
+    const key = keyOf(value);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.votes++;
+    } else {
+      counts.set(key, { value, votes: 1 });
+    }
+  }
+
+  let best: { value: T; votes: number } | undefined;
+  for (const entry of counts.values()) {
+    if (!best || entry.votes > best.votes) {
+      best = entry;
+    }
+  }
+  return { winner: best!.value, votes: best!.votes };
+}
+
+export function buildJudgeMessages(messages: ChatMessage[], candidates: string[]): ChatMessage[] {
+  return buildReviewMessages(messages, candidates, `
+Pick the candidate that answers the request most correctly and completely.
+Respond in JSON format with keys: best (the candidate number), reason.
+  `);
+}
+
+export function buildMergeMessages(messages: ChatMessage[], candidates: string[]): ChatMessage[] {
+  return buildReviewMessages(messages, candidates, `
+Write one answer to the request that keeps what the candidates agree on and the best points unique to each.
+Drop anything that is wrong or contradicted by the others. Answer in the format the request asks for.
+  `);
+}
+
+// System turns stay as they are; the request and the candidates become one user turn
+function buildReviewMessages(messages: ChatMessage[], candidates: string[], instruction: string): ChatMessage[] {
+  const request = [...messages].reverse().find(message => message.role === 'user');
+  const numbered = candidates.map((candidate, index) => `Candidate ${index + 1}:\n${candidate}`).join('\n\n');
+
+  return [
+    ...messages.filter(message => message.role === 'system'),
+    {
+      role: 'user',
+      content: `
+Several answers were generated for this request:
+${request?.content ?? ''}
+
+${numbered}
+
+${instruction.trim()}
+      `.trim(),
+      attachments: request?.attachments
+    }
+  ];
+}
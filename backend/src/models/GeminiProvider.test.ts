@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeminiProvider } from './GeminiProvider.js';
+import {
+  ContentBlockedError,
+  EmptyResponseError,
+  ProviderAuthError,
+  ProviderHttpError,
+  ProviderUnavailableError
+} from './ProviderErrors.js';
+import { RateLimitError } from './RateLimiter.js';
+
+let requests: Array<{ url: string; body: any }>;
+
+// Every SDK call answers with this status and JSON body
+function respond(status: number, body: unknown): void {
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+    requests.push({ url: String(url), body: init.body ? JSON.parse(String(init.body)) : undefined });
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  }));
+}
+
+const apiError = (code: number, message: string, details?: unknown[]) => ({ error: { code, message, details } });
+
+const usageMetadata = { promptTokenCount: 7, candidatesTokenCount: 3, totalTokenCount: 10 };
+
+function provider(): GeminiProvider {
+  return new GeminiProvider({ apiKey: 'test-key', model: 'gemini-test' });
+}
+
+async function drain(stream: AsyncIterator<string, unknown>): Promise<string[]> {
+  const chunks: string[] = [];
+  for (;;) {
+    const { value, done } = await stream.next();
+    if (done) return chunks;
+    chunks.push(value);
+  }
+}
+
+beforeEach(() => {
+  requests = [];
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('GeminiProvider', () => {
+  it('returns the text, usage and finish reason of the first candidate', async () => {
+    respond(200, {
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Hello' }] }, finishReason: 'STOP' }],
+      usageMetadata
+    });
+
+    const result = await provider().chat([{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }], { responseFormat: 'json' });
+
+    expect(result).toMatchObject({ text: 'Hello', finishReason: 'STOP', usage: { promptTokens: 7, completionTokens: 3, totalTokens: 10 } });
+    expect(requests[0].url).toContain('models/gemini-test:generateContent');
+    expect(requests[0].body.systemInstruction).toMatchObject({ parts: [{ text: 'Be brief' }] });
+    expect(requests[0].body.generationConfig.responseMimeType).toBe('application/json');
+  });
+
+  describe('HTTP errors', () => {
+    it('maps 429 to RateLimitError with the delay from RetryInfo', async () => {
+      respond(429, apiError(429, 'Resource has been exhausted', [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '37s' }]));
+
+      const error = await provider().chat([{ role: 'user', content: 'Hi' }]).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfterMs).toBe(37_000);
+      expect(error.message).toContain('Gemini rate limited the request');
+    });
+
+    it('maps 429 without RetryInfo to RateLimitError with no delay, so the router picks one', async () => {
+      respond(429, apiError(429, 'Quota exceeded'));
+
+      await expect(provider().chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        expect.objectContaining({ name: 'RateLimitError', retryAfterMs: undefined })
+      );
+    });
+
+    it('maps 5xx to ProviderUnavailableError, for streams too', async () => {
+      respond(503, apiError(503, 'The model is overloaded'));
+
+      await expect(provider().chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        expect.objectContaining({ name: 'ProviderUnavailableError', provider: 'gemini', status: 503 })
+      );
+      await expect(drain(provider().chatStream([{ role: 'user', content: 'Hi' }]))).rejects.toBeInstanceOf(ProviderUnavailableError);
+    });
+
+    it('maps 401, 403 and an invalid key to ProviderAuthError', async () => {
+      respond(403, apiError(403, 'Permission denied'));
+      await expect(provider().chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        expect.objectContaining({ name: 'ProviderAuthError', status: 403 })
+      );
+
+      respond(401, apiError(401, 'Unauthenticated'));
+      await expect(provider().embed('text')).rejects.toBeInstanceOf(ProviderAuthError);
+
+      respond(400, apiError(400, 'API key not valid', [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' }]));
+      await expect(provider().chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        expect.objectContaining({ name: 'ProviderAuthError', status: 400 })
+      );
+    });
+
+    it('maps other client errors to ProviderHttpError', async () => {
+      respond(400, apiError(400, 'Invalid argument'));
+
+      const error = await provider().chat([{ role: 'user', content: 'Hi' }]).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ProviderHttpError);
+      expect(error).not.toBeInstanceOf(ProviderAuthError);
+      expect(error).not.toBeInstanceOf(ProviderUnavailableError);
+      expect(error.message).toContain('Invalid argument');
+    });
+
+    it('passes network failures through unchanged', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => {
+        throw new TypeError('fetch failed');
+      }));
+
+      const error = await provider().chat([{ role: 'user', content: 'Hi' }]).catch(caught => caught);
+
+      expect(error).not.toBeInstanceOf(ProviderHttpError);
+      expect(error.message).toContain('fetch failed');
+    });
+  });
+
+  describe('blocked and empty replies', () => {
+    it('throws ContentBlockedError for a blocked prompt', async () => {
+      respond(200, {
+        promptFeedback: { blockReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH' }] },
+        usageMetadata
+      });
+
+      await expect(provider().chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        expect.objectContaining({
+          name: 'ContentBlockedError',
+          stage: 'prompt',
+          reason: 'SAFETY',
+          safetyRatings: [{ category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH' }],
+          usage: expect.objectContaining({ promptTokens: 7 })
+        })
+      );
+    });
+
+    it('throws ContentBlockedError when a filter stops the answer', async () => {
+      respond(200, { candidates: [{ content: { role: 'model', parts: [{ text: 'Partial' }] }, finishReason: 'RECITATION' }] });
+
+      const error = await provider().chat([{ role: 'user', content: 'Hi' }]).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ContentBlockedError);
+      expect(error).toMatchObject({ stage: 'response', reason: 'RECITATION', finishReason: 'RECITATION' });
+    });
+
+    it('throws EmptyResponseError instead of returning an empty string', async () => {
+      respond(200, { candidates: [{ content: { role: 'model', parts: [] }, finishReason: 'MAX_TOKENS' }] });
+      await expect(provider().chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        expect.objectContaining({ name: 'EmptyResponseError', finishReason: 'MAX_TOKENS' })
+      );
+
+      respond(200, { candidates: [] });
+      await expect(provider().chat([{ role: 'user', content: 'Hi' }])).rejects.toBeInstanceOf(EmptyResponseError);
+    });
+  });
+});
@@ -1,81 +1,339 @@
 // Google Gemini Provider Implementation
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIFetchError,
+  type Content,
+  type EnhancedGenerateContentResponse,
+  type ErrorDetails,
+  type FunctionDeclarationSchema,
+  type GenerateContentCandidate,
+  type GenerateContentRequest,
+  type HarmBlockThreshold,
+  type HarmCategory,
+  type Part,
+  type Tool,
+  type UsageMetadata
+} from '@google/generative-ai';
+import { v4 as uuidv4 } from 'uuid';
 import type { ModelProvider, ModelConfig } from './ModelProvider.js';
-import type { GenerateOptions, ModelCapabilities } from '../shared/types.js';
+import { ContentBlockedError, EmptyResponseError, ProviderAuthError, providerHttpError } from './ProviderErrors.js';
+import { RateLimitError } from './RateLimiter.js';
+import type {
+  ChatMessage,
+  ChatResult,
+  GenerateOptions,
+  ModelCapabilities,
+  SafetyRating,
+  TokenUsage
+} from '../shared/types.js';
+
+// Finish reasons that mean a filter stopped the answer, not the model
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII']);
 
 export class GeminiProvider implements ModelProvider {
   name = 'gemini';
   capabilities: ModelCapabilities;
-  
+  // Empty when embeddings are turned off in the config
+  readonly embeddingModel: string;
+
   private client: GoogleGenerativeAI;
   private modelName: string;
 
   constructor(config: ModelConfig) {
     this.client = new GoogleGenerativeAI(config.apiKey);
     this.modelName = config.model || 'gemini-1.5-pro';
-    
+    this.embeddingModel = config.embeddingModel ?? 'text-embedding-004';
+
     this.capabilities = {
       maxTokens: 1000000,
       supportsStreaming: true,
-      supportsEmbedding: true,
-      supportedModalities: ['text', 'image']
+      supportsEmbedding: this.embeddingModel !== '',
+      supportedModalities: ['text', 'image', 'document']
     };
   }
 
-  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
-    const model = this.client.getGenerativeModel({ 
-      model: this.modelName 
+  async chat(messages: ChatMessage[], options?: GenerateOptions): Promise<ChatResult> {
+    const model = this.client.getGenerativeModel({
+      model: this.modelName
     });
 
-    const generationConfig = {
-      temperature: options?.temperature ?? 0.7,
-      topP: options?.topP ?? 0.95,
-      topK: options?.topK ?? 40,
-      maxOutputTokens: options?.maxTokens ?? 2048,
-    };
-
     const result = await model.generateContent({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      generationConfig
-    });
+      ...this.buildRequest(messages, options),
+      tools: this.toTools(options)
+    }, { signal: options?.signal }).catch(error => this.rethrow(error));
 
     const response = result.response;
-    return response.text();
-  }
+    const usage = this.toUsage(response.usageMetadata);
+    const [candidate, ...others] = this.checkResponse(response, usage);
+    const parts = candidate.content?.parts || [];
+    const functionCalls = parts.flatMap(part => part.functionCall ? [part.functionCall] : []);
+    const text = this.textOf(candidate);
 
-  async *generateStream(prompt: string, options?: GenerateOptions): AsyncIterator<string> {
-    const model = this.client.getGenerativeModel({ 
-      model: this.modelName 
-    });
+    if (!text && functionCalls.length === 0) {
+      throw new EmptyResponseError(
+        `Gemini returned an empty response (finish reason ${candidate.finishReason ?? 'unknown'})`,
+        this.name,
+        candidate.finishReason,
+        usage
+      );
+    }
 
-    const generationConfig = {
-      temperature: options?.temperature ?? 0.7,
-      topP: options?.topP ?? 0.95,
-      topK: options?.topK ?? 40,
-      maxOutputTokens: options?.maxTokens ?? 2048,
+    return {
+      text,
+      usage,
+      finishReason: candidate.finishReason,
+      candidates: others.length > 0 ? others.map(other => this.textOf(other)) : undefined,
+      safetyRatings: candidate.safetyRatings && this.toRatings(candidate.safetyRatings),
+      // Gemini does not id its calls; ids only need to be unique within the turn
+      toolCalls: functionCalls.map(call => ({
+        id: uuidv4(),
+        name: call.name,
+        arguments: call.args as Record<string, any>
+      }))
     };
+  }
 
-    const result = await model.generateContentStream({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      generationConfig
+  // Returns the token usage once the stream is done
+  async *chatStream(messages: ChatMessage[], options?: GenerateOptions): AsyncGenerator<string, TokenUsage | undefined> {
+    const model = this.client.getGenerativeModel({
+      model: this.modelName
     });
 
+    const result = await model.generateContentStream(
+      this.buildRequest(messages, options),
+      { signal: options?.signal }
+    ).catch(error => this.rethrow(error));
+
+    let streamed = false;
     for await (const chunk of result.stream) {
-      yield chunk.text();
+      // Some chunks only carry usage metadata
+      if (!chunk.candidates?.length && !chunk.promptFeedback?.blockReason) continue;
+      const [candidate] = this.checkResponse(chunk);
+      const text = this.textOf(candidate);
+      if (text) {
+        streamed = true;
+        yield text;
+      }
     }
+
+    const response = await result.response;
+    const usage = this.toUsage(response.usageMetadata);
+    const [candidate] = this.checkResponse(response, usage);
+    if (!streamed) {
+      throw new EmptyResponseError(
+        `Gemini returned an empty response (finish reason ${candidate.finishReason ?? 'unknown'})`,
+        this.name,
+        candidate.finishReason,
+        usage
+      );
+    }
+    return usage;
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    const result = await this.chat([{ role: 'user', content: prompt }], options);
+    return result.text;
+  }
+
+  generateStream(prompt: string, options?: GenerateOptions): AsyncIterator<string> {
+    return this.chatStream([{ role: 'user', content: prompt }], options);
   }
 
   async embed(text: string): Promise<number[]> {
-    const model = this.client.getGenerativeModel({ 
-      model: 'text-embedding-004'
+    this.requireEmbeddings();
+    const model = this.client.getGenerativeModel({
+      model: this.embeddingModel
     });
 
-    const result = await model.embedContent(text);
+    const result = await model.embedContent(text).catch(error => this.rethrow(error));
     return result.embedding.values;
   }
 
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    this.requireEmbeddings();
+    const model = this.client.getGenerativeModel({
+      model: this.embeddingModel
+    });
+
+    const result = await model.batchEmbedContents({
+      requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+    }).catch(error => this.rethrow(error));
+    return result.embeddings.map(embedding => embedding.values);
+  }
+
   getCapabilities(): ModelCapabilities {
     return this.capabilities;
   }
+
+  get model(): string {
+    return this.modelName;
+  }
+
+  private buildRequest(messages: ChatMessage[], options?: GenerateOptions): GenerateContentRequest {
+    const { contents, systemInstruction } = this.toRequest(messages);
+    const system = [options?.systemInstruction, systemInstruction].filter(Boolean).join('\n\n');
+
+    return {
+      contents,
+      systemInstruction: system || undefined,
+      generationConfig: {
+        temperature: options?.temperature ?? 0.7,
+        topP: options?.topP ?? 0.95,
+        topK: options?.topK ?? 40,
+        maxOutputTokens: options?.maxTokens ?? 2048,
+        stopSequences: options?.stopSequences,
+        candidateCount: options?.candidateCount,
+        responseMimeType: options?.responseFormat === 'json' ? 'application/json' : undefined
+      },
+      // Our category names drop the HARM_CATEGORY_ prefix Gemini uses
+      safetySettings: options?.safetySettings?.map(setting => ({
+        category: `HARM_CATEGORY_${setting.category}` as HarmCategory,
+        threshold: setting.threshold as HarmBlockThreshold
+      }))
+    };
+  }
+
+  /**
+   * Returns the candidates, or throws when the prompt or the first answer was
+   * blocked. The SDK would otherwise hand back an empty string or throw an
+   * untyped error from text().
+   */
+  private checkResponse(response: EnhancedGenerateContentResponse, usage?: TokenUsage): GenerateContentCandidate[] {
+    const feedback = response.promptFeedback;
+    const candidates = response.candidates || [];
+
+    if (candidates.length === 0) {
+      if (feedback?.blockReason) {
+        throw new ContentBlockedError(
+          `Gemini blocked the prompt: ${feedback.blockReasonMessage || feedback.blockReason}`,
+          this.name,
+          'prompt',
+          feedback.blockReason,
+          this.toRatings(feedback.safetyRatings),
+          usage
+        );
+      }
+      throw new EmptyResponseError('Gemini returned no candidates', this.name, undefined, usage);
+    }
+
+    const [first] = candidates;
+    if (first.finishReason && BLOCKED_FINISH_REASONS.has(first.finishReason)) {
+      throw new ContentBlockedError(
+        `Gemini blocked the response: ${first.finishMessage || first.finishReason}`,
+        this.name,
+        'response',
+        first.finishReason,
+        this.toRatings(first.safetyRatings),
+        usage
+      );
+    }
+    return candidates;
+  }
+
+  /**
+   * Rethrows the SDK's HTTP errors as the typed ones the router handles:
+   * RateLimitError for 429, ProviderAuthError for a rejected key and
+   * ProviderUnavailableError for 5xx. Anything else passes through.
+   */
+  private rethrow(error: unknown): never {
+    if (!(error instanceof GoogleGenerativeAIFetchError) || error.status === undefined) throw error;
+
+    const details = error.errorDetails ?? [];
+    if (error.status === 429) {
+      throw new RateLimitError(`Gemini rate limited the request: ${error.message}`, retryDelayOf(details));
+    }
+    // An invalid key comes back as 400 with an API_KEY_INVALID reason
+    if (details.some(detail => detail.reason === 'API_KEY_INVALID')) {
+      throw new ProviderAuthError(error.message, this.name, error.status);
+    }
+    throw providerHttpError(error.message, this.name, error.status);
+  }
+
+  private textOf(candidate: GenerateContentCandidate): string {
+    return (candidate.content?.parts || []).map(part => part.text ?? '').join('');
+  }
+
+  private toUsage(metadata?: UsageMetadata): TokenUsage | undefined {
+    return metadata && {
+      promptTokens: metadata.promptTokenCount,
+      completionTokens: metadata.candidatesTokenCount,
+      totalTokens: metadata.totalTokenCount,
+      cachedTokens: metadata.cachedContentTokenCount
+    };
+  }
+
+  private toRatings(ratings?: Array<{ category: string; probability: string }>): SafetyRating[] {
+    return (ratings || []).map(({ category, probability }) => ({ category, probability }));
+  }
+
+  private requireEmbeddings(): void {
+    if (!this.embeddingModel) {
+      throw new Error('Gemini embeddings are turned off: no embedding model configured');
+    }
+  }
+
+  private toTools(options?: GenerateOptions): Tool[] | undefined {
+    if (!options?.tools?.length) return undefined;
+
+    return [{
+      functionDeclarations: options.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        // JSON Schema type names match Gemini's SchemaType values
+        parameters: tool.parameters as unknown as FunctionDeclarationSchema
+      }))
+    }];
+  }
+
+  // System messages become the systemInstruction; the rest map onto Gemini roles
+  private toRequest(messages: ChatMessage[]): { contents: Content[]; systemInstruction?: string } {
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const contents: Content[] = messages
+      .filter(message => message.role !== 'system')
+      .map(message => {
+        if (message.role === 'tool') {
+          return {
+            role: 'function',
+            parts: [{
+              functionResponse: {
+                name: message.name || 'tool',
+                response: { content: message.content }
+              }
+            }]
+          };
+        }
+
+        if (message.role === 'assistant' && message.toolCalls?.length) {
+          const parts: Part[] = message.content ? [{ text: message.content }] : [];
+          for (const call of message.toolCalls) {
+            parts.push({ functionCall: { name: call.name, args: call.arguments } });
+          }
+          return { role: 'model', parts };
+        }
+
+        // Images and PDFs travel as inline data next to the text
+        const parts: Part[] = [{ text: message.content }];
+        for (const attachment of message.attachments || []) {
+          parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
+        }
+        return {
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts
+        };
+      });
+
+    return system ? { contents, systemInstruction: system } : { contents };
+  }
+}
+
+// RetryInfo gives the delay as a duration string such as "37s"
+function retryDelayOf(details: ErrorDetails[]): number | undefined {
+  const delay = details.find(detail => detail['@type']?.endsWith('RetryInfo'))?.retryDelay;
+  const seconds = typeof delay === 'string' ? Number.parseFloat(delay) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
 }
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { cosineSimilarity } from './EmbeddingProvider.js';
+import { HashingEmbeddingProvider } from './HashingEmbeddingProvider.js';
+
+const embed = async (provider: HashingEmbeddingProvider, text: string) => (await provider.embedBatch([text]))[0];
+
+describe('HashingEmbeddingProvider', () => {
+  it('returns the same unit vector for the same text every time', async () => {
+    const first = await embed(new HashingEmbeddingProvider(), 'Deploy the API to staging');
+    const second = await embed(new HashingEmbeddingProvider(), 'Deploy the API to staging');
+
+    expect(first).toHaveLength(512);
+    expect(second).toEqual(first);
+    expect(Math.hypot(...first)).toBeCloseTo(1, 10);
+  });
+
+  it('ranks texts that share words above unrelated ones', async () => {
+    const provider = new HashingEmbeddingProvider();
+    const query = await embed(provider, 'rotate the database password');
+
+    const related = cosineSimilarity(query, await embed(provider, 'How to rotate a database password safely'));
+    const unrelated = cosineSimilarity(query, await embed(provider, 'Marketing plan for the spring launch'));
+
+    expect(related).toBeGreaterThan(unrelated);
+  });
+
+  it('ignores case and punctuation', async () => {
+    const provider = new HashingEmbeddingProvider();
+
+    expect(await embed(provider, 'Hello, World!')).toEqual(await embed(provider, 'hello world'));
+  });
+
+  it('tells word order apart only with bigrams', async () => {
+    const withBigrams = new HashingEmbeddingProvider();
+    const withoutBigrams = new HashingEmbeddingProvider({ bigrams: false });
+
+    expect(await embed(withBigrams, 'not good')).not.toEqual(await embed(withBigrams, 'good not'));
+    expect(await embed(withoutBigrams, 'not good')).toEqual(await embed(withoutBigrams, 'good not'));
+  });
+
+  it('returns a zero vector for text without words', async () => {
+    const vector = await embed(new HashingEmbeddingProvider({ dimensions: 16 }), '!!! ...');
+
+    expect(vector).toEqual(new Array(16).fill(0));
+  });
+
+  it('weights rare corpus terms higher after fit and changes its model id', async () => {
+    const provider = new HashingEmbeddingProvider();
+    expect(provider.model).toBe('hashing-512');
+    const query = 'kubernetes deployment';
+    const corpus = ['kubernetes deployment guide', 'deployment checklist', 'deployment notes', 'deployment faq'];
+
+    const before = cosineSimilarity(await embed(provider, query), await embed(provider, 'kubernetes'));
+    provider.fit(corpus);
+    const after = cosineSimilarity(await embed(provider, query), await embed(provider, 'kubernetes'));
+
+    expect(provider.model).toMatch(/^hashing-tfidf-512-[0-9a-f]{12}$/);
+    expect(after).toBeGreaterThan(before);
+  });
+});
@@ -0,0 +1,96 @@
+// Hashing Embedding Provider - deterministic offline embeddings from hashed word features
+
+import { createHash } from 'crypto';
+import type { EmbeddingProvider } from './EmbeddingProvider.js';
+
+export interface HashingEmbeddingConfig {
+  dimensions?: number;
+  // Adds adjacent word pairs as features, so "not good" differs from "good"
+  bigrams?: boolean;
+}
+
+// 32-bit FNV-1a: fast, stable across platforms and Node versions
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Feature-hashing embedder: each word (and word pair) is hashed to a signed
+ * slot and weighted by log term frequency. After fit() on a corpus, weights
+ * are also scaled by inverse document frequency, so common words count less.
+ * Needs no network and gives the same vector for the same text every time,
+ * but only captures word overlap, not meaning.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  name = 'hashing';
+  readonly dimensions: number;
+  readonly maxBatchSize = 1000;
+
+  private bigrams: boolean;
+  private idf?: Map<string, number>;
+  private unseenIdf = 1;
+  private corpusId?: string;
+
+  constructor(config: HashingEmbeddingConfig = {}) {
+    this.dimensions = config.dimensions ?? 512;
+    this.bigrams = config.bigrams ?? true;
+  }
+
+  // Fitting changes the vectors, so the corpus is part of the model id and the cache key
+  get model(): string {
+    return this.corpusId
+      ? `hashing-tfidf-${this.dimensions}-${this.corpusId}`
+      : `hashing-${this.dimensions}`;
+  }
+
+  // Learns document frequencies; vectors made before and after are not comparable
+  fit(documents: string[]): void {
+    const frequencies = new Map<string, number>();
+    for (const document of documents) {
+      for (const term of new Set(this.terms(document))) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+    }
+
+    // Smoothed so terms in every document keep a little weight
+    const smoothed = (count: number) => Math.log((1 + documents.length) / (1 + count)) + 1;
+    this.idf = new Map(Array.from(frequencies, ([term, count]) => [term, smoothed(count)]));
+    this.unseenIdf = smoothed(0);
+    this.corpusId = createHash('sha256').update(JSON.stringify(documents)).digest('hex').slice(0, 12);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const term of this.terms(text)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+
+    const vector: number[] = new Array(this.dimensions).fill(0);
+    for (const [term, count] of counts) {
+      const hash = fnv1a(term);
+      const weight = (1 + Math.log(count)) * (this.idf ? this.idf.get(term) ?? this.unseenIdf : 1);
+      // The top bit picks the sign, so colliding terms tend to cancel rather than pile up
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  private terms(text: string): string[] {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    if (!this.bigrams) return words;
+
+    const pairs = words.slice(1).map((word, index) => `${words[index]} ${word}`);
+    return [...words, ...pairs];
+  }
+}
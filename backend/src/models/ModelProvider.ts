@@ -1,14 +1,25 @@
 // Model Provider Interface - supports multiple AI providers
 
-import type { GenerateOptions, ModelCapabilities } from '../shared/types.js';
+import type { ChatMessage, ChatResult, GenerateOptions, ModelCapabilities, TokenUsage } from '../shared/types.js';
 
 export interface ModelProvider {
   name: string;
+  // Model identifier, part of the response cache key
+  readonly model?: string;
   capabilities: ModelCapabilities;
   
+  // Honors options.tools: the result may carry tool calls instead of (or besides) text
+  chat(messages: ChatMessage[], options?: GenerateOptions): Promise<ChatResult>;
+  // Text only; tool declarations are not sent on streaming requests. May finish with the call's TokenUsage
+  chatStream(messages: ChatMessage[], options?: GenerateOptions): AsyncIterator<string, TokenUsage | void>;
+  // Single-prompt shims, equivalent to one user message
   generate(prompt: string, options?: GenerateOptions): Promise<string>;
   generateStream(prompt: string, options?: GenerateOptions): AsyncIterator<string>;
   embed(text: string): Promise<number[]>;
+  // Several texts in one request; without it callers embed one text at a time
+  embedBatch?(texts: string[]): Promise<number[][]>;
+  // Model behind embed(), part of the embedding cache key
+  readonly embeddingModel?: string;
   getCapabilities(): ModelCapabilities;
 }
 
@@ -16,4 +27,7 @@ export interface ModelConfig {
   apiKey: string;
   model?: string;
   baseUrl?: string;
+  embeddingModel?: string;
+  // Input modalities the served model accepts, for servers that do not report them
+  modalities?: string[];
 }
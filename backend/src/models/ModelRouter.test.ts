@@ -0,0 +1,427 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import type { ChatMessage, ChatResult, GenerateOptions, ModelCapabilities, ToolDeclaration } from '../shared/types.js';
+import type { ModelProvider } from './ModelProvider.js';
+import { ModelRouter } from './ModelRouter.js';
+import { BudgetExceededError } from './UsageLedger.js';
+
+interface FakeCall {
+  messages: ChatMessage[];
+  options?: GenerateOptions;
+}
+
+type FakeReply = (messages: ChatMessage[], options?: GenerateOptions) => ChatResult | Promise<ChatResult>;
+
+// A provider that answers through `reply` and remembers every call it got
+function fakeProvider(
+  name: string,
+  reply: FakeReply = () => ({ text: 'ok' }),
+  supportedModalities: string[] = ['text']
+): ModelProvider & { calls: FakeCall[] } {
+  const capabilities: ModelCapabilities = {
+    maxTokens: 32000,
+    supportsStreaming: true,
+    supportsEmbedding: false,
+    supportedModalities
+  };
+  const calls: FakeCall[] = [];
+
+  return {
+    name,
+    capabilities,
+    calls,
+    getCapabilities: () => capabilities,
+    async chat(messages, options) {
+      calls.push({ messages, options });
+      return reply(messages, options);
+    },
+    async *chatStream(messages, options) {
+      calls.push({ messages, options });
+      const result = await reply(messages, options);
+      yield result.text;
+      return result.usage;
+    },
+    async generate(prompt, options) {
+      return (await this.chat([{ role: 'user', content: prompt }], options)).text;
+    },
+    generateStream(prompt, options) {
+      return this.chatStream([{ role: 'user', content: prompt }], options);
+    },
+    async embed() {
+      throw new Error(`${name} cannot embed`);
+    }
+  };
+}
+
+function routerWith(...providers: ModelProvider[]): ModelRouter {
+  const router = new ModelRouter();
+  for (const provider of providers) {
+    router.registerProvider(provider.name, provider);
+  }
+  router.setDefaultProvider(providers[0].name);
+  return router;
+}
+
+// Answers with each text in turn, throwing the Error entries
+const inTurn = (...replies: (string | Error)[]): FakeReply => {
+  let next = 0;
+  return () => {
+    const reply = replies[Math.min(next++, replies.length - 1)];
+    if (reply instanceof Error) throw reply;
+    return { text: reply };
+  };
+};
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens
+});
+
+describe('ModelRouter budgets', () => {
+  // 400 characters, estimated at 100 prompt tokens
+  const prompt = 'x'.repeat(400);
+
+  it('leaves maxTokens alone when no budget applies', async () => {
+    const provider = fakeProvider('a');
+    const router = routerWith(provider);
+
+    await router.generate(prompt, { usageContext: { taskId: 't1' }, noCache: true });
+
+    expect(provider.calls[0].options?.maxTokens).toBeUndefined();
+  });
+
+  it('sends the provider default, not the whole budget, when maxTokens is unset', async () => {
+    const provider = fakeProvider('a');
+    const router = routerWith(provider);
+    router.getUsageLedger().setTaskBudget('t1', 100_000);
+
+    await router.generate(prompt, { usageContext: { taskId: 't1' }, noCache: true });
+    await router.generate(prompt, { usageContext: { taskId: 't1' }, noCache: true, maxTokens: 500 });
+
+    expect(provider.calls.map(call => call.options?.maxTokens)).toEqual([2048, 500]);
+  });
+
+  it('caps maxTokens to what the budget leaves after the prompt', async () => {
+    const provider = fakeProvider('a');
+    const router = routerWith(provider);
+    router.getUsageLedger().setTaskBudget('t1', 1000);
+
+    await router.generate(prompt, { usageContext: { taskId: 't1' }, noCache: true, maxTokens: 4000 });
+
+    expect(provider.calls[0].options?.maxTokens).toBe(900);
+  });
+
+  it('refuses a prompt that would leave no room for a reply', async () => {
+    const provider = fakeProvider('a');
+    const router = routerWith(provider);
+    router.getUsageLedger().setTaskBudget('t1', 100);
+
+    await expect(router.generate(prompt, { usageContext: { taskId: 't1' }, noCache: true }))
+      .rejects.toBeInstanceOf(BudgetExceededError);
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('charges the budget what the provider reports, not the estimate', async () => {
+    const provider = fakeProvider('a', () => ({ text: 'short', usage: usage(120, 30) }));
+    const router = routerWith(provider);
+    router.getUsageLedger().setTaskBudget('t1', 5000);
+
+    await router.generate(prompt, { usageContext: { taskId: 't1' }, noCache: true, maxTokens: 2000 });
+
+    expect(router.getUsageLedger().remainingTokens({ taskId: 't1' })).toBe(4850);
+  });
+
+  it('corrects the rate limit window with the reported usage once a call returns', async () => {
+    const provider = fakeProvider('a', () => ({ text: 'short', usage: usage(100, 10) }));
+    const router = routerWith(provider);
+    // Two estimates of 100 + 2000 tokens would not fit; the reported 110 leaves room for the second call
+    router.setRateLimits('a', { tokensPerMinute: 3000 });
+
+    await router.generate(prompt, { noCache: true, maxTokens: 2000 });
+    await router.generate(`${prompt}!`, { noCache: true, maxTokens: 2000 });
+
+    expect(provider.calls).toHaveLength(2);
+    expect(router.getStats().get('a')?.queue).toMatchObject({ maxWaitMs: 0, queueDepth: 0 });
+  });
+});
+
+describe('ModelRouter response cache', () => {
+  it('answers a repeated call from the cache', async () => {
+    const provider = fakeProvider('a');
+    const router = routerWith(provider);
+
+    expect(await router.generate('hello')).toBe('ok');
+    expect(await router.generate('  hello ')).toBe('ok');
+
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('calls the provider every time with noCache, and neither reads nor fills the cache', async () => {
+    const provider = fakeProvider('a');
+    const router = routerWith(provider);
+
+    await router.generate('hello', { noCache: true });
+    await router.generate('hello', { noCache: true });
+    expect(router.getResponseCache().size()).toBe(0);
+
+    await router.generate('hello');
+    await router.generate('hello', { noCache: true });
+
+    expect(provider.calls).toHaveLength(4);
+  });
+});
+
+describe('ModelRouter ensembles', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const lastUserTurn = (call: FakeCall) => call.messages[call.messages.length - 1].content;
+
+  it('samples in parallel without the cache, spreading samples over the member providers', async () => {
+    const a = fakeProvider('a', () => ({ text: 'Paris' }));
+    const b = fakeProvider('b', () => ({ text: 'paris' }));
+    const router = routerWith(a, b);
+
+    const answer = await router.generate('Capital of France?', { temperature: 0.9, ensemble: { samples: 3, providers: ['a', 'b'], reduction: 'vote' } });
+
+    expect(answer).toBe('Paris');
+    expect(a.calls).toHaveLength(2);
+    expect(b.calls).toHaveLength(1);
+    expect(a.calls[0].options).toMatchObject({ noCache: true, temperature: 0.9 });
+    expect(router.getResponseCache().size()).toBe(0);
+  });
+
+  it('returns the majority answer of a vote without asking a judge', async () => {
+    const provider = fakeProvider('a', inTurn('Lyon', 'Paris', 'Paris'));
+    const judge = fakeProvider('judge');
+    const router = routerWith(provider, judge);
+
+    const answer = await router.generate('Capital of France?', { ensemble: { samples: 3, reduction: 'vote', judgeProvider: 'judge' } });
+
+    expect(answer).toBe('Paris');
+    expect(judge.calls).toHaveLength(0);
+  });
+
+  it('asks the judge when a vote has no majority', async () => {
+    const router = routerWith(
+      fakeProvider('a', () => ({ text: 'A' })),
+      fakeProvider('b', () => ({ text: 'B' })),
+      fakeProvider('c', () => ({ text: 'C' }))
+    );
+    const judge = fakeProvider('judge', () => ({ text: '{"best": 3, "reason": "most complete"}' }));
+    router.registerProvider('judge', judge);
+
+    const answer = await router.generate('Pick one', { ensemble: { samples: 3, providers: ['a', 'b', 'c'], reduction: 'vote', judgeProvider: 'judge' } });
+
+    expect(answer).toBe('C');
+    expect(judge.calls).toHaveLength(1);
+    expect(lastUserTurn(judge.calls[0])).toContain('Candidate 1:\nA\n\nCandidate 2:\nB\n\nCandidate 3:\nC');
+  });
+
+  it('lets the judge pick by default, cold and without tools, clamping an out-of-range verdict', async () => {
+    const router = routerWith(fakeProvider('a', () => ({ text: 'short' })), fakeProvider('b', () => ({ text: 'thorough' })));
+    const judge = fakeProvider('judge', inTurn('{"best": 2}', '{"best": 9}'));
+    router.registerProvider('judge', judge);
+    const ensemble = { samples: 2, providers: ['a', 'b'], judgeProvider: 'judge' };
+    const tools: ToolDeclaration[] = [{ name: 'lookup', description: 'Looks things up', parameters: { type: 'object', properties: {} } }];
+
+    expect(await router.generate('Explain', { ensemble, tools })).toBe('thorough');
+    expect(await router.generate('Explain', { ensemble })).toBe('thorough');
+    expect(judge.calls[0].options).toMatchObject({ temperature: 0 });
+    expect(judge.calls[0].options?.tools).toBeUndefined();
+  });
+
+  it('merges the samples with one more call, or returns a lone survivor as is', async () => {
+    const router = routerWith(fakeProvider('a', inTurn('one', 'two', 'three', new Error('down'))));
+    const judge = fakeProvider('judge', () => ({ text: 'merged' }));
+    router.registerProvider('judge', judge);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const chunks: string[] = [];
+
+    const merged = await router.generate('Summarize', { ensemble: { samples: 2, reduction: 'merge', judgeProvider: 'judge' }, onChunk: chunk => chunks.push(chunk) });
+    const lone = await router.generate('Summarize', { ensemble: { samples: 2, reduction: 'merge', judgeProvider: 'judge' } });
+
+    expect(merged).toBe('merged');
+    expect(chunks).toEqual(['merged']);
+    expect(lastUserTurn(judge.calls[0])).toContain('keeps what the candidates agree on');
+    expect(lone).toBe('three');
+    expect(judge.calls).toHaveLength(1);
+  });
+
+  it('keeps the samples that succeed when some members fail', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const router = routerWith(fakeProvider('a', inTurn('yes', new Error('overloaded'), 'yes')));
+
+    expect(await router.generate('Ready?', { ensemble: { samples: 3, reduction: 'vote' } })).toBe('yes');
+    expect(warn).toHaveBeenCalledWith('Ensemble kept 2 of 3 samples; the rest failed');
+  });
+
+  it('fails with the first error when every member fails', async () => {
+    const router = routerWith(fakeProvider('a', inTurn(new Error('overloaded'))));
+
+    await expect(router.generate('Ready?', { ensemble: { samples: 3 } })).rejects.toThrow('overloaded');
+  });
+
+  it('votes on structured answers by content, whatever the key order', async () => {
+    const schema = z.object({ city: z.string(), country: z.string() });
+    const router = routerWith(
+      fakeProvider('a', inTurn('{"city": "Lyon", "country": "FR"}', '{"country": "FR", "city": "Paris"}', '{"city": "Paris", "country": "FR"}'))
+    );
+
+    const answer = await router.generateStructured('Capital of France?', { responseSchema: schema, ensemble: { samples: 3 } });
+
+    expect(answer).toEqual({ city: 'Paris', country: 'FR' });
+  });
+
+  it('merges structured answers into one that still matches the schema', async () => {
+    const schema = z.object({ tags: z.array(z.string()) });
+    const router = routerWith(fakeProvider('a', inTurn('{"tags": ["a"]}', '{"tags": ["b"]}')));
+    const judge = fakeProvider('judge', () => ({ text: '{"tags": ["a", "b"]}' }));
+    router.registerProvider('judge', judge);
+
+    const answer = await router.generateStructured('Tag this', { responseSchema: schema, ensemble: { samples: 2, reduction: 'merge', judgeProvider: 'judge' } });
+
+    expect(answer).toEqual({ tags: ['a', 'b'] });
+    expect(lastUserTurn(judge.calls[0])).toContain('"tags": [\n    "a"\n  ]');
+  });
+});
+
+describe('ModelRouter cancellation', () => {
+  // Fails with its own error once the call is aborted, as an HTTP client would
+  const hangUntilAborted: FakeReply = (_messages, options) => new Promise((_resolve, reject) => {
+    options?.signal?.addEventListener('abort', () => reject(new Error('socket hang up')));
+  });
+
+  // A preferred provider normally falls back to the others, and one failure opens its breaker
+  function routerWithFallback() {
+    const slow = fakeProvider('slow', hangUntilAborted);
+    const spare = fakeProvider('spare');
+    const router = routerWith(slow, spare);
+    router.configureBreaker('slow', { failureThreshold: 1 });
+    return { router, slow, spare };
+  }
+
+  function expectUntouched(router: ModelRouter, spare: ReturnType<typeof fakeProvider>) {
+    expect(spare.calls).toHaveLength(0);
+    expect(router.getBreakerStates().slow).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(router.getStats().get('slow')?.errorCount).toBe(0);
+  }
+
+  it('rejects with the abort reason, not the provider error, and neither falls back nor trips the breaker', async () => {
+    const { router, slow, spare } = routerWithFallback();
+    const controller = new AbortController();
+    const reason = new Error('Task cancelled');
+
+    const call = router.generate('hi', { signal: controller.signal, preferredProvider: 'slow', noCache: true });
+    await vi.waitFor(() => expect(slow.calls).toHaveLength(1));
+    controller.abort(reason);
+
+    await expect(call).rejects.toBe(reason);
+    expectUntouched(router, spare);
+  });
+
+  it('treats a timeout signal the same way', async () => {
+    const { router, spare } = routerWithFallback();
+
+    await expect(router.generate('hi', { signal: AbortSignal.timeout(20), preferredProvider: 'slow', noCache: true }))
+      .rejects.toMatchObject({ name: 'TimeoutError' });
+    expectUntouched(router, spare);
+  });
+
+  it('does not call a provider once the signal has already fired', async () => {
+    const { router, slow, spare } = routerWithFallback();
+    const reason = new Error('Task cancelled');
+
+    await expect(router.generate('hi', { signal: AbortSignal.abort(reason), preferredProvider: 'slow' })).rejects.toBe(reason);
+    expect(slow.calls).toHaveLength(0);
+    expectUntouched(router, spare);
+  });
+
+  it('stops a stream with the abort reason without falling back', async () => {
+    const { router, slow, spare } = routerWithFallback();
+    const controller = new AbortController();
+    const reason = new Error('Task cancelled');
+
+    const next = router.chatStream([{ role: 'user', content: 'hi' }], { signal: controller.signal, preferredProvider: 'slow' }).next();
+    await vi.waitFor(() => expect(slow.calls).toHaveLength(1));
+    controller.abort(reason);
+
+    await expect(next).rejects.toBe(reason);
+    expectUntouched(router, spare);
+  });
+});
+
+describe('ModelRouter routing strategies', () => {
+  it('rejects an unknown default strategy and keeps the current one', async () => {
+    const cheap = fakeProvider('cheap');
+    const router = routerWith(fakeProvider('premium'), cheap);
+    router.getUsageLedger().setPrice('premium', { inputPerMillion: 3, outputPerMillion: 15 });
+    router.getUsageLedger().setPrice('cheap', { inputPerMillion: 0.1, outputPerMillion: 0.4 });
+    router.setDefaultStrategy('cost');
+
+    expect(() => router.setDefaultStrategy('fastest')).toThrow('Routing strategy fastest not registered');
+
+    await router.generate('hi', { noCache: true });
+    expect(cheap.calls).toHaveLength(1);
+  });
+
+  it('rejects an unknown per-call strategy', async () => {
+    const router = routerWith(fakeProvider('a'));
+
+    await expect(router.generate('hi', { routingStrategy: 'fastest' })).rejects.toThrow('Routing strategy fastest not registered');
+  });
+
+  it('routes to the fastest provider once latencies are measured', async () => {
+    const slow = fakeProvider('slow', async () => {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      return { text: 'slow' };
+    });
+    const fast = fakeProvider('fast', () => ({ text: 'fast' }));
+    const router = routerWith(slow, fast);
+
+    await router.generate('one', { noCache: true, preferredProvider: 'slow' });
+    await router.generate('two', { noCache: true, preferredProvider: 'fast' });
+
+    expect(await router.generate('three', { noCache: true, routingStrategy: 'latency' })).toBe('fast');
+  });
+});
+
+describe('ModelRouter attachments', () => {
+  const image = { name: 'chart.png', mimeType: 'image/png', data: 'AAAA' };
+  const notes = { name: 'notes.txt', mimeType: 'text/plain', data: Buffer.from('Revenue doubled').toString('base64') };
+
+  it('routes images past the default provider when it cannot read them', async () => {
+    const text = fakeProvider('text');
+    const vision = fakeProvider('vision', () => ({ text: 'seen' }), ['text', 'image']);
+    const router = routerWith(text, vision);
+
+    expect(await router.chat([{ role: 'user', content: 'Describe', attachments: [image] }], { noCache: true })).toBe('seen');
+    expect(text.calls).toHaveLength(0);
+    expect(vision.calls[0].options?.requirements?.modalities).toEqual(['image']);
+  });
+
+  it('inlines text files so a text-only provider can answer', async () => {
+    const text = fakeProvider('text');
+    const router = routerWith(text, fakeProvider('vision', undefined, ['text', 'image']));
+
+    await router.chat([{ role: 'user', content: 'Summarize', attachments: [notes] }], { noCache: true });
+
+    expect(text.calls[0].messages[0]).toEqual({ role: 'user', content: 'Summarize\n\n--- notes.txt ---\nRevenue doubled', attachments: undefined });
+  });
+
+  it('rejects attachments no provider can read and keeps declared requirements', async () => {
+    const router = routerWith(fakeProvider('text'), fakeProvider('vision', undefined, ['text', 'image']));
+    const pdf = { name: 'spec.pdf', mimeType: 'application/pdf', data: 'AAAA' };
+
+    await expect(router.chat([{ role: 'user', content: 'Read', attachments: [pdf] }], { noCache: true })).rejects.toThrow(
+      'No available provider meets the requirements {"modalities":["document"]}'
+    );
+    expect(router.getContextWindow([{ role: 'user', content: 'Read', attachments: [pdf] }])).toBeUndefined();
+    await expect(router.chat(
+      [{ role: 'user', content: 'Describe', attachments: [image] }],
+      { noCache: true, requirements: { modalities: ['audio'] } }
+    )).rejects.toThrow('{"modalities":["audio","image"]}');
+  });
+});
@@ -1,36 +1,237 @@
 // Model Router - Manages multiple model providers with load balancing
 
+import { EventEmitter } from 'events';
 import type { ModelProvider } from './ModelProvider.js';
-import type { GenerateOptions } from '../shared/types.js';
+import type {
+  ChatMessage,
+  ChatResult,
+  EnsembleOptions,
+  GenerateOptions,
+  TokenUsage,
+  ToolCall,
+  ToolDeclaration
+} from '../shared/types.js';
+import { StructuredOutputError, buildRepairMessage, parseStructuredResponse } from './StructuredOutput.js';
+import { UsageLedger } from './UsageLedger.js';
+import { ResponseCache } from './ResponseCache.js';
+import {
+  CapabilityStrategy,
+  CostStrategy,
+  LatencyStrategy,
+  OrderedStrategy,
+  RoundRobinStrategy,
+  WeightedStrategy,
+  meetsRequirements,
+  type RoutingCandidate,
+  type RoutingStrategy
+} from './RoutingStrategy.js';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  DEFAULT_BREAKER_CONFIG,
+  mergeBreakerConfig,
+  type CircuitBreakerConfig,
+  type CircuitSnapshot,
+  type CircuitStateChange
+} from './CircuitBreaker.js';
+import { RateLimitError, RateLimiter, type RateLease, type RateLimits, type RateLimiterStats } from './RateLimiter.js';
+import { inlineTextAttachments, requiredModalities } from './Attachments.js';
+import { Redactor, type Redaction } from './Redactor.js';
+import { estimateTokens } from './ContextManager.js';
+import { EmbeddingRegistry } from './EmbeddingRegistry.js';
+import { ModelEmbeddingProvider } from './EmbeddingProvider.js';
+import { ModelResponseError } from './ProviderErrors.js';
+import {
+  buildJudgeMessages,
+  buildMergeMessages,
+  canonicalJson,
+  judgeVerdictSchema,
+  majorityVote,
+  normalizeText
+} from './Ensemble.js';
+
+// Completion length the providers use when a call sets no maxTokens
+const DEFAULT_MAX_OUTPUT_TOKENS = 2048;
+
+export type ToolHandler = (args: Record<string, any>) => unknown | Promise<unknown>;
+
+interface RegisteredTool {
+  declaration: ToolDeclaration;
+  handler: ToolHandler;
+}
 
 interface ProviderStats {
   requestCount: number;
   errorCount: number;
   lastUsed: Date;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  cacheHits: number;
+  cacheMisses: number;
+  // Exponentially weighted moving average of chat latency, our p50 estimate
+  latencyMs?: number;
+  queue?: RateLimiterStats;
 }
 
-interface CircuitState {
-  consecutiveFailures: number;
-  lastFailure?: Date;
-  openUntil?: number;
+export interface ProviderHealth {
+  healthy: boolean;
+  errorRate: number;
+  breaker: CircuitSnapshot;
 }
 
 export class ModelRouter {
   private providers: Map<string, ModelProvider> = new Map();
   private providerStats: Map<string, ProviderStats> = new Map();
-  private circuitBreakers: Map<string, CircuitState> = new Map();
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private breakerDefaults: CircuitBreakerConfig = { ...DEFAULT_BREAKER_CONFIG };
+  private breakerEvents: EventEmitter = new EventEmitter();
   private defaultProvider: string = 'gemini';
-  private failureThreshold = 3;
-  private cooldownMs = 30000;
+  private maxRepairAttempts = 2;
+  private maxToolRounds = 5;
+  private tools: Map<string, RegisteredTool> = new Map();
+  private ledger: UsageLedger;
+  private cache: ResponseCache;
+  private redactor: Redactor;
+  private embeddings: EmbeddingRegistry;
+  private strategies: Map<string, RoutingStrategy> = new Map();
+  private defaultStrategy = 'ordered';
+  private latencyAlpha = 0.3;
+  private rateLimiters: Map<string, RateLimiter> = new Map();
+  private providerPriorities: Map<string, number> = new Map();
+  private maxRateLimitRetries = 3;
+
+  constructor(
+    ledger: UsageLedger = new UsageLedger(),
+    cache: ResponseCache = new ResponseCache(),
+    redactor: Redactor = new Redactor(),
+    embeddings: EmbeddingRegistry = new EmbeddingRegistry()
+  ) {
+    this.ledger = ledger;
+    this.cache = cache;
+    this.redactor = redactor;
+    this.embeddings = embeddings;
+
+    for (const strategy of [
+      new OrderedStrategy(),
+      new RoundRobinStrategy(),
+      new WeightedStrategy(),
+      new LatencyStrategy(),
+      new CostStrategy(),
+      new CapabilityStrategy()
+    ]) {
+      this.registerStrategy(strategy);
+    }
+  }
 
-  registerProvider(name: string, provider: ModelProvider): void {
+  // Replaces any strategy of the same name, e.g. a WeightedStrategy with real weights
+  registerStrategy(strategy: RoutingStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  setDefaultStrategy(name: string): void {
+    if (!this.strategies.has(name)) {
+      throw new Error(`Routing strategy ${name} not registered`);
+    }
+    this.defaultStrategy = name;
+  }
+
+  /**
+   * Re-registering a name swaps the provider but keeps its stats, breaker and
+   * rate limiter, so calls already in flight settle against the same state.
+   */
+  registerProvider(name: string, provider: ModelProvider, breakerConfig?: Partial<CircuitBreakerConfig>): void {
+    const existing = this.providers.has(name);
     this.providers.set(name, provider);
+    if (provider.getCapabilities().supportsEmbedding) {
+      this.embeddings.register(name, new ModelEmbeddingProvider(provider));
+    } else {
+      this.embeddings.unregister(name);
+    }
+
+    if (existing) {
+      if (breakerConfig) {
+        this.configureBreaker(name, breakerConfig);
+      }
+      return;
+    }
+
     this.providerStats.set(name, {
       requestCount: 0,
       errorCount: 0,
-      lastUsed: new Date()
+      lastUsed: new Date(),
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      cacheHits: 0,
+      cacheMisses: 0
     });
-    this.circuitBreakers.set(name, { consecutiveFailures: 0 });
+    this.circuitBreakers.set(name, new CircuitBreaker(
+      name,
+      mergeBreakerConfig(this.breakerDefaults, breakerConfig),
+      change => this.breakerEvents.emit('state', change)
+    ));
+    this.rateLimiters.set(name, new RateLimiter());
+  }
+
+  /**
+   * New requests stop going to the provider. Calls already running hold their
+   * own references and finish normally; their usage still reaches the ledger.
+   */
+  unregisterProvider(name: string): void {
+    if (!this.providers.delete(name)) {
+      throw new Error(`Provider ${name} not registered`);
+    }
+    this.providerStats.delete(name);
+    this.circuitBreakers.delete(name);
+    this.rateLimiters.delete(name);
+    this.providerPriorities.delete(name);
+    this.embeddings.unregister(name);
+  }
+
+  // Higher goes first in ordered routing and fallbacks, after the default provider
+  setProviderPriority(name: string, priority: number): void {
+    if (!this.providers.has(name)) {
+      throw new Error(`Provider ${name} not registered`);
+    }
+    this.providerPriorities.set(name, priority);
+  }
+
+  setRateLimits(name: string, limits: RateLimits): void {
+    const limiter = this.rateLimiters.get(name);
+    if (!limiter) {
+      throw new Error(`Provider ${name} not registered`);
+    }
+    limiter.setLimits(limits);
+  }
+
+  // Applies to providers registered afterwards; use configureBreaker for existing ones
+  setDefaultBreakerConfig(config: Partial<CircuitBreakerConfig>): void {
+    this.breakerDefaults = mergeBreakerConfig(this.breakerDefaults, config);
+  }
+
+  getDefaultBreakerConfig(): CircuitBreakerConfig {
+    return { ...this.breakerDefaults };
+  }
+
+  configureBreaker(name: string, config: Partial<CircuitBreakerConfig>): void {
+    this.getBreaker(name).configure(config);
+  }
+
+  resetBreaker(name: string): void {
+    this.getBreaker(name).reset();
+  }
+
+  getBreakerStates(): Record<string, CircuitSnapshot> {
+    return Object.fromEntries(
+      Array.from(this.circuitBreakers.entries()).map(([name, breaker]) => [name, breaker.snapshot()])
+    );
+  }
+
+  // Returns an unsubscribe function
+  onBreakerStateChange(listener: (change: CircuitStateChange) => void): () => void {
+    this.breakerEvents.on('state', listener);
+    return () => this.breakerEvents.off('state', listener);
   }
 
   setDefaultProvider(name: string): void {
@@ -40,41 +241,333 @@ export class ModelRouter {
     this.defaultProvider = name;
   }
 
+  /**
+   * Makes a TypeScript function callable by models. Its declaration is what the
+   * model sees; pass it in options.tools (see getToolDeclarations) to offer it.
+   */
+  registerTool(declaration: ToolDeclaration, handler: ToolHandler): void {
+    this.tools.set(declaration.name, { declaration, handler });
+  }
+
+  unregisterTool(name: string): void {
+    this.tools.delete(name);
+  }
+
+  getToolDeclarations(names?: string[]): ToolDeclaration[] {
+    if (!names) {
+      return Array.from(this.tools.values()).map(tool => tool.declaration);
+    }
+
+    return names.map(name => {
+      const tool = this.tools.get(name);
+      if (!tool) {
+        throw new Error(`Tool ${name} not registered`);
+      }
+      return tool.declaration;
+    });
+  }
+
   async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.chat([{ role: 'user', content: prompt }], options);
+  }
+
+  async chat(messages: ChatMessage[], options?: GenerateOptions): Promise<string> {
+    if (options?.responseSchema) {
+      const data = await this.chatStructured(messages, options);
+      return JSON.stringify(data);
+    }
+
+    if (options?.ensemble) {
+      return this.chatEnsemble(messages, options);
+    }
+
+    if (options?.tools?.length) {
+      return this.chatWithTools(messages, options);
+    }
+
+    if (options?.onChunk) {
+      return this.chatWithChunks(messages, options);
+    }
+
+    const result = await this.complete(messages, options);
+    return result.text;
+  }
+
+  // Streams the reply to options.onChunk and resolves with the whole text
+  private async chatWithChunks(messages: ChatMessage[], options: GenerateOptions): Promise<string> {
+    const stream = this.chatStream(messages, options);
+    let text = '';
+    for (;;) {
+      const { value, done } = await stream.next();
+      if (done) break;
+      text += value;
+      options.onChunk!(value);
+    }
+    return text;
+  }
+
+  /**
+   * Tool loop: while the model answers with tool calls, run the registered
+   * handlers and send their results back, up to maxToolRounds round trips.
+   */
+  private async chatWithTools(messages: ChatMessage[], options: GenerateOptions): Promise<string> {
+    const { maxToolRounds, ...generateOptions } = options;
+    const rounds = maxToolRounds ?? this.maxToolRounds;
+    const conversation = [...messages];
+
+    for (let round = 0; round <= rounds; round++) {
+      const result = await this.complete(conversation, generateOptions);
+      if (!result.toolCalls?.length) {
+        return result.text;
+      }
+      if (round === rounds) break;
+
+      conversation.push({ role: 'assistant', content: result.text, toolCalls: result.toolCalls });
+      for (const call of result.toolCalls) {
+        generateOptions.signal?.throwIfAborted();
+        conversation.push({
+          role: 'tool',
+          name: call.name,
+          toolCallId: call.id,
+          content: await this.runTool(call)
+        });
+      }
+    }
+
+    throw new Error(`Model still requested tools after ${rounds} tool rounds`);
+  }
+
+  // Handler failures go back to the model as the tool result so it can recover
+  private async runTool(call: ToolCall): Promise<string> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return JSON.stringify({ error: `Unknown tool ${call.name}` });
+    }
+
+    try {
+      const output = await tool.handler(call.arguments);
+      return typeof output === 'string' ? output : JSON.stringify(output ?? null);
+    } catch (error) {
+      return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private async complete(requestMessages: ChatMessage[], requestOptions?: GenerateOptions): Promise<ChatResult> {
+    const { messages, options: attachmentOptions } = this.prepareAttachments(requestMessages, requestOptions);
+    const options = this.applyBudget(messages, attachmentOptions);
     const provider = this.selectProvider(options);
     const stats = this.providerStats.get(provider.name)!;
 
     if (!this.isProviderAvailable(provider.name)) {
-      return this.generateWithFallback(prompt, options || {}, provider.name);
+      return this.chatWithFallback(messages, options, provider.name);
     }
 
     try {
       stats.requestCount++;
       stats.lastUsed = new Date();
-      this.recordSuccess(provider.name);
       
-      const result = await provider.generate(prompt, options);
-      return result;
+      return await this.callProvider(provider.name, provider, messages, options);
     } catch (error) {
-      stats.errorCount++;
-      this.recordFailure(provider.name);
+      if (this.isAborted(options)) throw options.signal!.reason;
+
+      // Losing the race for a half-open probe slot is not a provider error
+      const rejected = error instanceof CircuitOpenError;
+      if (!rejected) {
+        stats.errorCount++;
+      }
       
       // Try fallback if primary fails
-      if (options?.preferredProvider && this.providers.size > 1) {
+      if (rejected || (options.preferredProvider && this.providers.size > 1)) {
         console.warn(`Provider ${provider.name} failed, trying fallback`);
-        return this.generateWithFallback(prompt, options, provider.name);
+        return this.chatWithFallback(messages, options, provider.name);
       }
       
       throw error;
     }
   }
 
-  async *generateStream(prompt: string, options?: GenerateOptions): AsyncIterator<string> {
+  /**
+   * Generates a response that must match options.responseSchema. Invalid output
+   * is sent back to the model with the validation errors until it conforms or
+   * the repair attempts run out, in which case StructuredOutputError is thrown.
+   */
+  async generateStructured<T = unknown>(prompt: string, options: GenerateOptions): Promise<T> {
+    return this.chatStructured<T>([{ role: 'user', content: prompt }], options);
+  }
+
+  async chatStructured<T = unknown>(messages: ChatMessage[], options: GenerateOptions): Promise<T> {
+    const { responseSchema, maxRepairAttempts, ...generateOptions } = options;
+    if (!responseSchema) {
+      throw new Error('chatStructured requires options.responseSchema');
+    }
+
+    if (options.ensemble) {
+      return this.chatStructuredEnsemble<T>(messages, options);
+    }
+
+    const totalAttempts = (maxRepairAttempts ?? this.maxRepairAttempts) + 1;
+    const conversation = [...messages];
+    let response = '';
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= totalAttempts; attempt++) {
+      response = await this.chat(conversation, generateOptions);
+      const parsed = parseStructuredResponse(responseSchema, response);
+      if (parsed.success) {
+        return parsed.data as T;
+      }
+
+      // Show the model its own answer and what was wrong with it
+      issues = parsed.issues;
+      conversation.push(
+        { role: 'assistant', content: response },
+        { role: 'user', content: buildRepairMessage(issues) }
+      );
+    }
+
+    throw new StructuredOutputError(
+      `Model response failed schema validation after ${totalAttempts} attempts: ${issues.join('; ')}`,
+      issues,
+      totalAttempts,
+      response
+    );
+  }
+
+  /**
+   * Self-consistency for free text: samples the answer ensemble.samples times
+   * and keeps the one a judge prefers (the default), the majority answer, or a
+   * merge of all of them.
+   */
+  private async chatEnsemble(messages: ChatMessage[], options: GenerateOptions): Promise<string> {
+    const { ensemble, onChunk, ...sampleOptions } = options;
+    const samples = await this.sampleEnsemble(ensemble!, sampleOptions, sample => this.chat(messages, sample));
+    const reviewOptions = this.reviewOptions(sampleOptions, ensemble!);
+
+    let answer: string;
+    switch (ensemble!.reduction ?? 'judge') {
+      case 'merge':
+        answer = samples.length === 1
+          ? samples[0]
+          : await this.chat(buildMergeMessages(messages, samples), reviewOptions);
+        break;
+      case 'vote':
+        answer = await this.voteOrJudge(messages, samples, samples, normalizeText, reviewOptions);
+        break;
+      default:
+        answer = samples[await this.judge(messages, samples, reviewOptions)];
+    }
+
+    onChunk?.(answer);
+    return answer;
+  }
+
+  // Structured counterpart of chatEnsemble; identical objects vote together by default
+  private async chatStructuredEnsemble<T>(messages: ChatMessage[], options: GenerateOptions): Promise<T> {
+    const { ensemble, onChunk, ...sampleOptions } = options;
+    const samples = await this.sampleEnsemble(ensemble!, sampleOptions, sample => this.chatStructured<T>(messages, sample));
+    const rendered = samples.map(sample => JSON.stringify(sample, null, 2));
+    const { responseSchema, maxRepairAttempts, ...textOptions } = sampleOptions;
+    const reviewOptions = this.reviewOptions(textOptions, ensemble!);
+
+    let answer: T;
+    switch (ensemble!.reduction ?? 'vote') {
+      case 'merge':
+        answer = samples.length === 1
+          ? samples[0]
+          : await this.chatStructured<T>(buildMergeMessages(messages, rendered), {
+            ...reviewOptions,
+            responseSchema,
+            maxRepairAttempts
+          });
+        break;
+      case 'judge':
+        answer = samples[await this.judge(messages, rendered, reviewOptions)];
+        break;
+      default:
+        answer = await this.voteOrJudge(messages, samples, rendered, canonicalJson, reviewOptions);
+    }
+
+    onChunk?.(JSON.stringify(answer));
+    return answer;
+  }
+
+  // Samples run in parallel and skip the response cache, which would return one answer N times
+  private async sampleEnsemble<T>(
+    ensemble: EnsembleOptions,
+    options: GenerateOptions,
+    sample: (options: GenerateOptions) => Promise<T>
+  ): Promise<T[]> {
+    const count = Math.max(1, ensemble.samples);
+    const providers = ensemble.providers || [];
+    const settled = await Promise.allSettled(Array.from({ length: count }, (_, index) => sample({
+      ...options,
+      noCache: true,
+      preferredProvider: providers.length > 0 ? providers[index % providers.length] : options.preferredProvider
+    })));
+
+    if (options.signal?.aborted) throw options.signal.reason;
+
+    const answers = settled
+      .filter((result): result is PromiseFulfilledResult<Awaited<T>> => result.status === 'fulfilled')
+      .map(result => result.value as T);
+    if (answers.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+    if (answers.length < count) {
+      console.warn(`Ensemble kept ${answers.length} of ${count} samples; the rest failed`);
+    }
+    return answers;
+  }
+
+  // Majority answer, unless every sample differs - then there is no majority and a judge decides
+  private async voteOrJudge<T>(
+    messages: ChatMessage[],
+    samples: T[],
+    rendered: string[],
+    keyOf: (value: T) => string,
+    options: GenerateOptions
+  ): Promise<T> {
+    const vote = majorityVote(samples, keyOf);
+    if (vote.votes > 1 || samples.length === 1) {
+      return vote.winner;
+    }
+    return samples[await this.judge(messages, rendered, options)];
+  }
+
+  private async judge(messages: ChatMessage[], candidates: string[], options: GenerateOptions): Promise<number> {
+    if (candidates.length === 1) return 0;
+
+    const verdict = await this.chatStructured<{ best: number }>(buildJudgeMessages(messages, candidates), {
+      ...options,
+      responseSchema: judgeVerdictSchema
+    });
+    return Math.min(verdict.best, candidates.length) - 1;
+  }
+
+  // Judge and merge calls run cold, without tools, on the judge provider when one is set
+  private reviewOptions(options: GenerateOptions, ensemble: EnsembleOptions): GenerateOptions {
+    const { tools: _tools, maxToolRounds: _maxToolRounds, ...reviewOptions } = options;
+    return {
+      ...reviewOptions,
+      temperature: 0,
+      preferredProvider: ensemble.judgeProvider ?? options.preferredProvider
+    };
+  }
+
+  generateStream(prompt: string, options?: GenerateOptions): AsyncIterator<string> {
+    return this.chatStream([{ role: 'user', content: prompt }], options);
+  }
+
+  // Streaming is text only; tool declarations are dropped rather than half-run
+  async *chatStream(requestMessages: ChatMessage[], requestOptions?: GenerateOptions): AsyncIterator<string> {
+    const { tools: _tools, ...streamOptions } = requestOptions || {};
+    const { messages, options: attachmentOptions } = this.prepareAttachments(requestMessages, streamOptions);
+    const options = this.applyBudget(messages, attachmentOptions);
     const provider = this.selectProvider(options);
     const stats = this.providerStats.get(provider.name)!;
 
     if (!this.isProviderAvailable(provider.name)) {
-      const fallbackStream = this.generateStreamWithFallback(prompt, options || {}, provider.name);
+      const fallbackStream = this.chatStreamWithFallback(messages, options, provider.name);
       for await (const chunk of fallbackStream) {
         yield chunk;
       }
@@ -85,64 +578,190 @@ export class ModelRouter {
     stats.lastUsed = new Date();
 
     try {
-      const stream = provider.generateStream(prompt, options);
+      yield* this.streamFromProvider(provider.name, provider, messages, options);
+    } catch (error) {
+      if (this.isAborted(options)) throw options.signal!.reason;
+
+      // Rejected before anything was streamed, so another provider can take over
+      if (error instanceof CircuitOpenError) {
+        yield* this.chatStreamWithFallback(messages, options, provider.name);
+        return;
+      }
+      stats.errorCount++;
+      throw error;
+    }
+  }
+
+  // Stream counterpart of callProvider: rate limit, breaker and usage around one provider stream
+  private async *streamFromProvider(
+    name: string,
+    provider: ModelProvider,
+    messages: ChatMessage[],
+    options: GenerateOptions
+  ): AsyncGenerator<string> {
+    const redaction = this.redact(messages, name, options);
+    const sendOptions = this.withRedactedInstruction(options, redaction);
+    const key = this.cacheKey(name, provider, redaction.messages, sendOptions);
+    const cached = key ? await this.readCache(name, key) : undefined;
+    if (cached) {
+      yield this.redactor.restore(cached.text, redaction.vault);
+      return;
+    }
+
+    const limiter = this.limiterFor(name);
+    const estimate = this.estimateRequestTokens(messages, options);
+    const lease = await limiter.acquire(estimate, options.priority, options.signal);
+
+    if (!this.acquire(name)) {
+      limiter.release(lease, 0);
+      throw new CircuitOpenError(name);
+    }
+
+    let settled = false;
+    try {
+      const restorer = this.redactor.createStreamRestorer(redaction.vault);
+      const startedAt = Date.now();
+      const stream = provider.chatStream(redaction.messages, sendOptions);
+      // The redacted text is what gets cached
+      let sent = '';
+      let text = '';
+      let usage: TokenUsage | undefined;
       for (;;) {
         const { value, done } = await stream.next();
-        if (done) break;
-        yield value;
+        if (!done) sent += value;
+        const restored = done ? restorer.flush() : restorer.push(value);
+        if (restored) {
+          text += restored;
+          yield restored;
+        }
+        if (done) {
+          usage = value || undefined;
+          break;
+        }
+      }
+      settled = true;
+      this.recordSuccess(name);
+      // Whole-stream time, comparable with the latency of non-streaming calls
+      this.recordLatency(name, Date.now() - startedAt);
+      limiter.release(lease, this.recordUsage(name, messages, text, options, usage));
+      if (key) {
+        await this.writeCache(key, { text: sent });
       }
-      this.recordSuccess(provider.name);
     } catch (error) {
-      stats.errorCount++;
-      this.recordFailure(provider.name);
+      settled = true;
+      if (this.isAborted(options)) {
+        this.circuitBreakers.get(name)?.release();
+        limiter.release(lease);
+        throw options.signal!.reason;
+      }
+      if (error instanceof ModelResponseError) {
+        this.recordSuccess(name);
+        limiter.release(lease, this.recordUsage(name, messages, '', options, error.usage));
+      } else if (this.isRateLimited(error)) {
+        this.circuitBreakers.get(name)?.release();
+        this.handleRateLimit(name, limiter, lease, error, 0);
+      } else {
+        limiter.release(lease);
+        this.recordFailure(name, error);
+      }
       throw error;
+    } finally {
+      // Consumer stopped reading early: free the slots without a verdict
+      if (!settled) {
+        this.circuitBreakers.get(name)?.release();
+        limiter.release(lease);
+      }
     }
   }
 
+  // Uses the embedding registry's default: the first provider that embeds, else the offline 'hashing' embedder
   async embed(text: string, providerName?: string): Promise<number[]> {
-    const provider = providerName 
-      ? this.providers.get(providerName)
-      : this.providers.get(this.defaultProvider);
+    return this.embeddings.embed(text, providerName);
+  }
 
-    if (!provider) {
-      throw new Error(`Provider ${providerName || this.defaultProvider} not found`);
-    }
+  async embedMany(texts: string[], providerName?: string): Promise<number[][]> {
+    return this.embeddings.embedMany(texts, providerName);
+  }
 
-    return provider.embed(text);
+  /**
+   * Largest context window among providers that could serve these messages, so
+   * callers know how big a prompt can get. Pair it with
+   * requirements.minContextTokens to keep the call off smaller providers.
+   */
+  getContextWindow(messages: ChatMessage[], options: GenerateOptions = {}): number | undefined {
+    const { options: prepared } = this.prepareAttachments(messages, options);
+    const windows = Array.from(this.providers.entries())
+      .filter(([name, provider]) =>
+        this.isProviderAvailable(name) &&
+        meetsRequirements(provider, { ...prepared.requirements, minContextTokens: undefined })
+      )
+      .map(([, provider]) => provider.getCapabilities().maxTokens);
+
+    return windows.length > 0 ? Math.max(...windows) : undefined;
   }
 
-  private selectProvider(options?: GenerateOptions): ModelProvider {
+  private selectProvider(options: GenerateOptions = {}): ModelProvider {
     // Use preferred provider if specified
-    if (options?.preferredProvider) {
+    if (options.preferredProvider) {
       const provider = this.providers.get(options.preferredProvider);
-      if (provider && this.isProviderAvailable(options.preferredProvider)) return provider;
+      if (
+        provider &&
+        this.isProviderAvailable(options.preferredProvider) &&
+        meetsRequirements(provider, options.requirements)
+      ) {
+        return provider;
+      }
     }
 
-    const available = Array.from(this.providers.entries()).find(([name]) => 
-      this.isProviderAvailable(name)
-    );
+    const strategyName = options.routingStrategy ?? this.defaultStrategy;
+    const strategy = this.strategies.get(strategyName);
+    if (!strategy) {
+      throw new Error(`Routing strategy ${strategyName} not registered`);
+    }
+
+    const available = this.prioritizedProviders().filter(([name]) => this.isProviderAvailable(name));
+    if (available.length === 0) {
+      throw new Error('No providers available');
+    }
 
-    if (available) {
-      return available[1];
+    const candidates: RoutingCandidate[] = available
+      .filter(([, provider]) => meetsRequirements(provider, options.requirements))
+      .sort(([a], [b]) => Number(b === this.defaultProvider) - Number(a === this.defaultProvider))
+      .map(([name, provider]) => ({
+        name,
+        provider,
+        latencyMs: this.providerStats.get(name)?.latencyMs,
+        price: this.ledger.getPrice(name)
+      }));
+
+    if (candidates.length === 0) {
+      throw new Error(`No available provider meets the requirements ${JSON.stringify(options.requirements)}`);
     }
 
-    throw new Error('No providers available');
+    return strategy.select(candidates, options).provider;
+  }
+
+  private recordLatency(name: string, elapsedMs: number): void {
+    const stats = this.providerStats.get(name);
+    if (!stats) return;
+
+    stats.latencyMs = stats.latencyMs === undefined
+      ? elapsedMs
+      : this.latencyAlpha * elapsedMs + (1 - this.latencyAlpha) * stats.latencyMs;
   }
 
-  private async generateWithFallback(
-    prompt: string,
+  private async chatWithFallback(
+    messages: ChatMessage[],
     options: GenerateOptions,
     excludeProvider: string
-  ): Promise<string> {
-    for (const [name, provider] of this.providers) {
-      if (name !== excludeProvider && this.isProviderAvailable(name)) {
+  ): Promise<ChatResult> {
+    for (const [name, provider] of this.prioritizedProviders()) {
+      if (this.canFallBackTo(name, provider, options, excludeProvider)) {
         try {
-          const result = await provider.generate(prompt, options);
-          this.recordSuccess(name);
-          return result;
+          return await this.callProvider(name, provider, messages, options);
         } catch (error) {
+          if (this.isAborted(options)) throw options.signal!.reason;
           console.warn(`Fallback provider ${name} also failed`);
-          this.recordFailure(name);
         }
       }
     }
@@ -150,77 +769,321 @@ export class ModelRouter {
     throw new Error('All providers failed');
   }
 
-  private async *generateStreamWithFallback(
-    prompt: string,
+  private async *chatStreamWithFallback(
+    messages: ChatMessage[],
     options: GenerateOptions,
     excludeProvider: string
   ): AsyncGenerator<string> {
-    for (const [name, provider] of this.providers) {
-      if (name !== excludeProvider && this.isProviderAvailable(name)) {
+    for (const [name, provider] of this.prioritizedProviders()) {
+      if (this.canFallBackTo(name, provider, options, excludeProvider)) {
         try {
-          const stream = provider.generateStream(prompt, options);
-          for (;;) {
-            const { value, done } = await stream.next();
-            if (done) break;
-            yield value;
-          }
-          this.recordSuccess(name);
+          yield* this.streamFromProvider(name, provider, messages, options);
           return;
         } catch (error) {
+          if (this.isAborted(options)) throw options.signal!.reason;
           console.warn(`Fallback provider ${name} also failed`);
-          this.recordFailure(name);
         }
       }
     }
     throw new Error('All providers failed');
   }
 
+  private canFallBackTo(name: string, provider: ModelProvider, options: GenerateOptions, excludeProvider: string): boolean {
+    return name !== excludeProvider &&
+      this.isProviderAvailable(name) &&
+      meetsRequirements(provider, options.requirements);
+  }
+
+  /**
+   * Inlines text files and adds the modalities of the remaining attachments to
+   * the requirements, so routing skips providers that cannot read them.
+   */
+  private prepareAttachments(
+    messages: ChatMessage[],
+    options: GenerateOptions = {}
+  ): { messages: ChatMessage[]; options: GenerateOptions } {
+    const prepared = inlineTextAttachments(messages);
+    const modalities = requiredModalities(prepared);
+    if (modalities.length === 0) {
+      return { messages: prepared, options };
+    }
+
+    const declared = options.requirements?.modalities || [];
+    return {
+      messages: prepared,
+      options: {
+        ...options,
+        requirements: {
+          ...options.requirements,
+          modalities: Array.from(new Set([...declared, ...modalities]))
+        }
+      }
+    };
+  }
+
+  // Throws for a provider unregistered between selection and the call, so the caller falls back
+  private limiterFor(name: string): RateLimiter {
+    const limiter = this.rateLimiters.get(name);
+    if (!limiter) {
+      throw new Error(`Provider ${name} not registered`);
+    }
+    return limiter;
+  }
+
+  // Registration order, reordered by priority; the sort is stable so equal priorities keep it
+  private prioritizedProviders(): Array<[string, ModelProvider]> {
+    return Array.from(this.providers.entries()).sort(([a], [b]) =>
+      (this.providerPriorities.get(b) ?? 0) - (this.providerPriorities.get(a) ?? 0)
+    );
+  }
+
   private isProviderAvailable(name: string): boolean {
-    const state = this.circuitBreakers.get(name);
-    if (!state) return true;
+    return this.circuitBreakers.get(name)?.isAvailable() ?? true;
+  }
 
-    if (state.openUntil && Date.now() < state.openUntil) {
-      return false;
+  private acquire(name: string): boolean {
+    return this.circuitBreakers.get(name)?.tryAcquire() ?? true;
+  }
+
+  private recordFailure(name: string, error?: unknown): void {
+    this.circuitBreakers.get(name)?.recordFailure(error instanceof Error ? error.message : undefined);
+  }
+
+  private recordSuccess(name: string): void {
+    this.circuitBreakers.get(name)?.recordSuccess();
+  }
+
+  private getBreaker(name: string): CircuitBreaker {
+    const breaker = this.circuitBreakers.get(name);
+    if (!breaker) {
+      throw new Error(`Provider ${name} not registered`);
+    }
+    return breaker;
+  }
+
+  /**
+   * Secrets and personal data leave the process as placeholders and are
+   * restored in the reply. The cache sees only the redacted side, so neither
+   * its keys nor the entries it may write to disk hold the original values.
+   * Cache hits are free: they are counted in stats but not billed to the ledger.
+   */
+  private async callProvider(
+    name: string,
+    provider: ModelProvider,
+    messages: ChatMessage[],
+    options: GenerateOptions
+  ): Promise<ChatResult> {
+    options.signal?.throwIfAborted();
+
+    const redaction = this.redact(messages, name, options);
+    const sendOptions = this.withRedactedInstruction(options, redaction);
+    const key = this.cacheKey(name, provider, redaction.messages, sendOptions);
+    const cached = key ? await this.readCache(name, key) : undefined;
+    if (cached) {
+      return this.redactor.restoreResult(cached, redaction.vault);
     }
 
-    return true;
+    const limiter = this.limiterFor(name);
+    const estimate = this.estimateRequestTokens(messages, options);
+    let result: ChatResult;
+
+    for (let attempt = 0; ; attempt++) {
+      const lease = await limiter.acquire(estimate, options.priority, options.signal);
+
+      // The breaker only hears about a call once it has actually settled
+      if (!this.acquire(name)) {
+        limiter.release(lease, 0);
+        throw new CircuitOpenError(name);
+      }
+
+      const startedAt = Date.now();
+      try {
+        result = await provider.chat(redaction.messages, sendOptions);
+      } catch (error) {
+        // Cancelled by the caller: no verdict on the provider, no retry
+        if (this.isAborted(options)) {
+          this.circuitBreakers.get(name)?.release();
+          limiter.release(lease);
+          throw options.signal!.reason;
+        }
+
+        // Blocked or empty: the provider is healthy and the tokens were spent
+        if (error instanceof ModelResponseError) {
+          this.recordSuccess(name);
+          limiter.release(lease, this.recordUsage(name, messages, '', options, error.usage));
+          throw error;
+        }
+
+        if (!this.isRateLimited(error)) {
+          limiter.release(lease);
+          this.recordFailure(name, error);
+          throw error;
+        }
+
+        // 429: the provider is healthy but busy, so back off instead of failing the breaker
+        this.circuitBreakers.get(name)?.release();
+        this.handleRateLimit(name, limiter, lease, error, attempt);
+        if (attempt >= this.maxRateLimitRetries) {
+          throw error;
+        }
+        continue;
+      }
+
+      this.recordSuccess(name);
+      this.recordLatency(name, Date.now() - startedAt);
+      limiter.release(lease, this.recordUsage(name, messages, result.text, options, result.usage));
+      break;
+    }
+
+    if (key) {
+      await this.writeCache(key, result);
+    }
+    return this.redactor.restoreResult(result, redaction.vault);
   }
 
-  private recordFailure(name: string): void {
-    const state = this.circuitBreakers.get(name);
-    if (!state) return;
+  private redact(messages: ChatMessage[], name: string, options: GenerateOptions): Redaction {
+    return this.redactor.redact(messages, name, options.usageContext, options.systemInstruction);
+  }
 
-    state.consecutiveFailures += 1;
-    state.lastFailure = new Date();
+  private withRedactedInstruction(options: GenerateOptions, redaction: Redaction): GenerateOptions {
+    return redaction.systemInstruction === options.systemInstruction
+      ? options
+      : { ...options, systemInstruction: redaction.systemInstruction };
+  }
 
-    if (state.consecutiveFailures >= this.failureThreshold) {
-      state.openUntil = Date.now() + this.cooldownMs;
+  private cacheKey(name: string, provider: ModelProvider, messages: ChatMessage[], options: GenerateOptions): string | undefined {
+    return this.cache.isCacheable(options)
+      ? this.cache.keyFor(name, provider.model, messages, options)
+      : undefined;
+  }
+
+  private async readCache(name: string, key: string): Promise<ChatResult | undefined> {
+    const cached = await this.cache.get(key);
+    // Stats are gone if the provider was unregistered while this call was starting
+    const stats = this.providerStats.get(name);
+    if (stats && cached) {
+      stats.cacheHits++;
+    } else if (stats) {
+      stats.cacheMisses++;
     }
+    return cached;
   }
 
-  private recordSuccess(name: string): void {
-    const state = this.circuitBreakers.get(name);
-    if (!state) return;
+  // A failed cache write must not fail a call that already succeeded
+  private async writeCache(key: string, result: ChatResult): Promise<void> {
+    await this.cache.set(key, result).catch(error => {
+      console.warn(`Response cache write failed: ${error instanceof Error ? error.message : error}`);
+    });
+  }
+
+  getResponseCache(): ResponseCache {
+    return this.cache;
+  }
+
+  getRedactor(): Redactor {
+    return this.redactor;
+  }
+
+  getEmbeddings(): EmbeddingRegistry {
+    return this.embeddings;
+  }
+
+  /**
+   * Refuses the call once the task or project budget cannot cover its prompt
+   * plus at least one completion token, and otherwise caps maxTokens to what
+   * is left after the prompt so a single call cannot overshoot. An unset
+   * maxTokens stays at the providers' default rather than growing to the
+   * whole budget, which would exceed model output limits.
+   */
+  private applyBudget(messages: ChatMessage[], options: GenerateOptions = {}): GenerateOptions {
+    const promptTokens = this.estimatePromptTokens(messages);
+    // Throws once used + prompt reaches any budget, i.e. whenever the allowance below would be 0 or less
+    this.ledger.assertWithinBudget(options.usageContext, promptTokens);
+
+    const remaining = this.ledger.remainingTokens(options.usageContext);
+    if (remaining === undefined) {
+      return options;
+    }
+    const allowance = remaining - promptTokens;
+    const maxTokens = Math.min(options.maxTokens ?? DEFAULT_MAX_OUTPUT_TOKENS, allowance);
+    return maxTokens === options.maxTokens ? options : { ...options, maxTokens };
+  }
+
+  // Providers report aborts in their own error types; the signal says what really happened
+  private isAborted(options: GenerateOptions): boolean {
+    return options.signal?.aborted ?? false;
+  }
+
+  private isRateLimited(error: unknown): boolean {
+    // Custom providers may only put the HTTP status on their errors
+    return error instanceof RateLimitError || (error as { status?: number } | undefined)?.status === 429;
+  }
+
+  private handleRateLimit(name: string, limiter: RateLimiter, lease: RateLease, error: unknown, attempt: number): void {
+    limiter.release(lease, 0);
+
+    const retryAfter = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+    const delay = retryAfter ?? Math.min(1000 * 2 ** attempt, 30000);
+    limiter.backoff(delay);
+    console.warn(`Provider ${name} rate limited, backing off ${delay}ms`);
+  }
+
+  // Prompt size plus the completion allowance, corrected by release() once the call reports usage
+  private estimateRequestTokens(messages: ChatMessage[], options: GenerateOptions): number {
+    return this.estimatePromptTokens(messages) + (options.maxTokens ?? 0);
+  }
+
+  private estimatePromptTokens(messages: ChatMessage[]): number {
+    return messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  }
+
+  // Providers and streams that report no counts are estimated at ~4 characters per token
+  private recordUsage(
+    name: string,
+    messages: ChatMessage[],
+    responseText: string,
+    options: GenerateOptions,
+    usage?: TokenUsage
+  ): number {
+    const promptTokens = this.estimatePromptTokens(messages);
+    const completionTokens = estimateTokens(responseText);
+    const counted = usage ?? { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+
+    const entry = this.ledger.record(name, counted, options.usageContext, !usage);
+    const stats = this.providerStats.get(name);
+    if (stats) {
+      stats.promptTokens += entry.promptTokens;
+      stats.completionTokens += entry.completionTokens;
+      stats.cost += entry.cost;
+    }
+    return entry.totalTokens;
+  }
 
-    state.consecutiveFailures = 0;
-    state.openUntil = undefined;
+  getUsageLedger(): UsageLedger {
+    return this.ledger;
   }
 
   getStats(): Map<string, ProviderStats> {
-    return new Map(this.providerStats);
+    return new Map(Array.from(this.providerStats.entries()).map(([name, stats]) => [
+      name,
+      { ...stats, queue: this.rateLimiters.get(name)?.getStats() }
+    ]));
   }
 
-  healthCheck(): Map<string, boolean> {
-    const health = new Map<string, boolean>();
+  healthCheck(): Map<string, ProviderHealth> {
+    const health = new Map<string, ProviderHealth>();
     
     for (const [name, stats] of this.providerStats) {
       // Consider healthy if error rate < 50%
       const errorRate = stats.requestCount > 0 
         ? stats.errorCount / stats.requestCount 
         : 0;
-      const breaker = this.circuitBreakers.get(name);
-      const isOpen = breaker?.openUntil ? Date.now() < breaker.openUntil : false;
-      health.set(name, errorRate < 0.5 && !isOpen);
+      const breaker = this.getBreaker(name).snapshot();
+      health.set(name, {
+        healthy: errorRate < 0.5 && breaker.state !== 'open',
+        errorRate,
+        breaker
+      });
     }
 
     return health;
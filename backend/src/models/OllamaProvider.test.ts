@@ -0,0 +1,160 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OllamaProvider } from './OllamaProvider.js';
+import { RateLimitError } from './RateLimiter.js';
+
+type Handler = (req: IncomingMessage, body: any, res: ServerResponse) => unknown;
+
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: Array<{ path: string; body: any }>;
+
+const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ path: req.url ?? '', body });
+      void handler(req, body, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  handler = (_req, _body, res) => res.writeHead(500).end('no handler');
+});
+
+function provider(): OllamaProvider {
+  return new OllamaProvider({ apiKey: '', baseUrl, model: 'llama3' });
+}
+
+async function drain(stream: AsyncIterator<string, unknown>): Promise<{ chunks: string[]; result: unknown }> {
+  const chunks: string[] = [];
+  for (;;) {
+    const { value, done } = await stream.next();
+    if (done) return { chunks, result: value };
+    chunks.push(value);
+  }
+}
+
+describe('OllamaProvider', () => {
+  it('sends the conversation and reports usage from the final chunk', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        message: { role: 'assistant', content: 'Hi there' },
+        done: true,
+        prompt_eval_count: 12,
+        eval_count: 3
+      }));
+    };
+
+    const result = await provider().chat([{ role: 'user', content: 'Hello' }], { systemInstruction: 'Be brief' });
+
+    expect(result.text).toBe('Hi there');
+    expect(result.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+    expect(requests[0].path).toBe('/api/chat');
+    expect(requests[0].body.stream).toBe(false);
+    expect(requests[0].body.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Hello' }
+    ]);
+  });
+
+  it('throws with the status and body on a non-2xx response', async () => {
+    handler = (_req, _body, res) => res.writeHead(404).end('model "llama3" not found');
+
+    await expect(provider().chat([{ role: 'user', content: 'Hello' }]))
+      .rejects.toThrow('Ollama request to /api/chat failed (404): model "llama3" not found');
+  });
+
+  it('throws RateLimitError with the Retry-After delay on 429', async () => {
+    handler = (_req, _body, res) => res.writeHead(429, { 'Retry-After': '7' }).end('slow down');
+
+    const error = await provider().chat([{ role: 'user', content: 'Hello' }]).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(7000);
+  });
+
+  it('reassembles NDJSON lines split across reads and returns the usage', async () => {
+    handler = async (_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write('{"message":{"content":"Hel');
+      await pause(10);
+      res.write('lo"},"done":false}\n{"message":{"content":", wor');
+      await pause(10);
+      res.write('ld"},"done":false}\n');
+      await pause(10);
+      res.end('{"message":{"content":""},"done":true,"prompt_eval_count":5,"eval_count":2}');
+    };
+
+    const { chunks, result } = await drain(provider().chatStream([{ role: 'user', content: 'Hello' }]));
+
+    expect(chunks.join('')).toBe('Hello, world');
+    expect(chunks).toEqual(['Hello', ', world']);
+    expect(result).toEqual({ promptTokens: 5, completionTokens: 2, totalTokens: 7 });
+    expect(requests[0].body.stream).toBe(true);
+  });
+
+  it('throws when the stream reports an error', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200).end('{"message":{"content":"par"}}\n{"error":"model crashed"}\n');
+    };
+
+    await expect(drain(provider().chatStream([{ role: 'user', content: 'Hello' }])))
+      .rejects.toThrow('Ollama stream error: model crashed');
+  });
+
+  it('stops a stream when the signal aborts', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200);
+      res.write('{"message":{"content":"first"},"done":false}\n');
+      // Never ends: only the abort can finish this request
+    };
+    const controller = new AbortController();
+    const stream = provider().chatStream([{ role: 'user', content: 'Hello' }], { signal: controller.signal });
+
+    expect((await stream.next()).value).toBe('first');
+    controller.abort();
+
+    await expect(stream.next()).rejects.toThrow(/abort/i);
+  });
+
+  it('rejects a pending chat when the signal aborts', async () => {
+    handler = () => undefined;
+    const controller = new AbortController();
+    const pending = provider().chat([{ role: 'user', content: 'Hello' }], { signal: controller.signal });
+
+    await pause(10);
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(/abort/i);
+  });
+
+  it('reads the context length and vision support from /api/show', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200).end(JSON.stringify({
+        model_info: { 'llama.context_length': 8192 },
+        capabilities: ['completion', 'vision']
+      }));
+    };
+
+    const capabilities = await provider().initialize();
+
+    expect(capabilities.maxTokens).toBe(8192);
+    expect(capabilities.supportedModalities).toEqual(['text', 'image']);
+  });
+});
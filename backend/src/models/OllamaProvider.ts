@@ -0,0 +1,276 @@
+// Ollama Provider Implementation - local models served over the Ollama HTTP API
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ModelProvider, ModelConfig } from './ModelProvider.js';
+import { RateLimitError, parseRetryAfter } from './RateLimiter.js';
+import { providerHttpError } from './ProviderErrors.js';
+import type { ChatMessage, ChatResult, GenerateOptions, ModelCapabilities, TokenUsage } from '../shared/types.js';
+
+interface OllamaShowResponse {
+  model_info?: Record<string, unknown>;
+  projector_info?: Record<string, unknown>;
+  capabilities?: string[];
+}
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, any> };
+}
+
+interface OllamaMessage {
+  role: string;
+  content: string;
+  tool_name?: string;
+  tool_calls?: OllamaToolCall[];
+  // Base64 images for vision models
+  images?: string[];
+}
+
+interface OllamaChatChunk {
+  message?: OllamaMessage;
+  done?: boolean;
+  error?: string;
+  // Token counts, reported on the final chunk
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+export class OllamaProvider implements ModelProvider {
+  name = 'ollama';
+  capabilities: ModelCapabilities;
+
+  private baseUrl: string;
+  private modelName: string;
+  readonly embeddingModel: string;
+
+  constructor(config: ModelConfig) {
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+    this.modelName = config.model || 'llama3';
+    this.embeddingModel = config.embeddingModel || 'nomic-embed-text';
+
+    // Conservative defaults until initialize() reads the real model metadata
+    this.capabilities = {
+      maxTokens: 2048,
+      supportsStreaming: true,
+      supportsEmbedding: true,
+      supportedModalities: ['text']
+    };
+  }
+
+  /**
+   * Loads context length and modalities from /api/show so the router sees the
+   * limits of the model that is actually pulled on the server.
+   */
+  async initialize(): Promise<ModelCapabilities> {
+    const info = await this.post<OllamaShowResponse>('/api/show', { model: this.modelName });
+    const modelInfo = info.model_info || {};
+
+    const contextKey = Object.keys(modelInfo).find(key => key.endsWith('.context_length'));
+    const contextLength = contextKey ? Number(modelInfo[contextKey]) : NaN;
+
+    const declared = info.capabilities || [];
+    const supportsVision = declared.includes('vision') || info.projector_info !== undefined;
+
+    this.capabilities = {
+      maxTokens: Number.isFinite(contextLength) && contextLength > 0
+        ? contextLength
+        : this.capabilities.maxTokens,
+      supportsStreaming: true,
+      // Embeddings are served by the dedicated embedding model, not the chat model
+      supportsEmbedding: true,
+      supportedModalities: supportsVision ? ['text', 'image'] : ['text']
+    };
+
+    return this.capabilities;
+  }
+
+  async chat(messages: ChatMessage[], options?: GenerateOptions): Promise<ChatResult> {
+    const result = await this.post<OllamaChatChunk>('/api/chat', {
+      model: this.modelName,
+      messages: this.toOllamaMessages(this.withSystemInstruction(messages, options)),
+      format: options?.responseFormat === 'json' ? 'json' : undefined,
+      tools: options?.tools?.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      })),
+      stream: false,
+      options: this.buildOptions(options)
+    }, options?.signal);
+
+    return {
+      text: result.message?.content ?? '',
+      usage: this.usageOf(result),
+      toolCalls: (result.message?.tool_calls || []).map(call => ({
+        id: uuidv4(),
+        name: call.function.name,
+        arguments: call.function.arguments || {}
+      }))
+    };
+  }
+
+  // Resolves with the token counts from the final chunk
+  async *chatStream(messages: ChatMessage[], options?: GenerateOptions): AsyncGenerator<string, TokenUsage | undefined> {
+    const response = await this.request('/api/chat', {
+      model: this.modelName,
+      messages: this.toOllamaMessages(this.withSystemInstruction(messages, options)),
+      format: options?.responseFormat === 'json' ? 'json' : undefined,
+      stream: true,
+      options: this.buildOptions(options)
+    }, options?.signal);
+
+    if (!response.body) {
+      throw new Error('Ollama returned an empty stream');
+    }
+
+    // Ollama streams newline-delimited JSON objects
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const bytes of response.body) {
+      buffer += decoder.decode(bytes, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+
+        if (!line) continue;
+        const chunk = this.parseStreamChunk(line);
+        if (chunk.message?.content) {
+          yield chunk.message.content;
+        }
+        if (chunk.done) return this.usageOf(chunk);
+      }
+    }
+
+    const tail = buffer.trim();
+    if (!tail) return undefined;
+
+    const chunk = this.parseStreamChunk(tail);
+    if (chunk.message?.content) {
+      yield chunk.message.content;
+    }
+    return this.usageOf(chunk);
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    const result = await this.chat([{ role: 'user', content: prompt }], options);
+    return result.text;
+  }
+
+  generateStream(prompt: string, options?: GenerateOptions): AsyncIterator<string> {
+    return this.chatStream([{ role: 'user', content: prompt }], options);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const result = await this.post<{ embeddings?: number[][] }>('/api/embed', {
+      model: this.embeddingModel,
+      input: text
+    });
+
+    const embedding = result.embeddings?.[0];
+    if (!embedding) {
+      throw new Error(`Ollama model ${this.embeddingModel} returned no embedding`);
+    }
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const result = await this.post<{ embeddings?: number[][] }>('/api/embed', {
+      model: this.embeddingModel,
+      input: texts
+    });
+
+    if (result.embeddings?.length !== texts.length) {
+      throw new Error(`Ollama model ${this.embeddingModel} returned ${result.embeddings?.length ?? 0} embeddings for ${texts.length} texts`);
+    }
+    return result.embeddings;
+  }
+
+  getCapabilities(): ModelCapabilities {
+    return this.capabilities;
+  }
+
+  get model(): string {
+    return this.modelName;
+  }
+
+  private parseStreamChunk(line: string): OllamaChatChunk {
+    const chunk = JSON.parse(line) as OllamaChatChunk;
+    if (chunk.error) {
+      throw new Error(`Ollama stream error: ${chunk.error}`);
+    }
+    return chunk;
+  }
+
+  // Only the final (done) chunk carries counts
+  private usageOf(chunk: OllamaChatChunk): TokenUsage | undefined {
+    if (!chunk.done) return undefined;
+
+    const promptTokens = chunk.prompt_eval_count ?? 0;
+    const completionTokens = chunk.eval_count ?? 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private withSystemInstruction(messages: ChatMessage[], options?: GenerateOptions): ChatMessage[] {
+    return options?.systemInstruction
+      ? [{ role: 'system', content: options.systemInstruction }, ...messages]
+      : messages;
+  }
+
+  private toOllamaMessages(messages: ChatMessage[]): OllamaMessage[] {
+    return messages.map(({ role, content, name, toolCalls, attachments }) => {
+      if (role === 'tool' && name) {
+        return { role, content, tool_name: name };
+      }
+      if (toolCalls?.length) {
+        return {
+          role,
+          content,
+          tool_calls: toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } }))
+        };
+      }
+      if (attachments?.length) {
+        return { role, content, images: attachments.map(attachment => attachment.data) };
+      }
+      return { role, content };
+    });
+  }
+
+  private buildOptions(options?: GenerateOptions): Record<string, unknown> {
+    return {
+      temperature: options?.temperature ?? 0.7,
+      top_p: options?.topP ?? 0.95,
+      top_k: options?.topK ?? 40,
+      num_predict: options?.maxTokens ?? 2048,
+      stop: options?.stopSequences
+    };
+  }
+
+  private async post<T>(path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    const response = await this.request(path, body, signal);
+    return response.json() as Promise<T>;
+  }
+
+  private async request(path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      if (response.status === 429) {
+        throw new RateLimitError(
+          `Ollama request to ${path} was rate limited: ${detail || response.statusText}`,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+      throw providerHttpError(`Ollama request to ${path} failed (${response.status}): ${detail || response.statusText}`, this.name, response.status);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,210 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider.js';
+import { RateLimitError } from './RateLimiter.js';
+
+type Handler = (req: IncomingMessage, body: any, res: ServerResponse) => unknown;
+
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: Array<{ path: string; headers: IncomingMessage['headers']; body: any }>;
+
+const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ path: req.url ?? '', headers: req.headers, body });
+      void handler(req, body, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  handler = (_req, _body, res) => res.writeHead(500).end('no handler');
+});
+
+function provider(modalities?: string[], embeddingModel?: string): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({ apiKey: 'test-key', baseUrl, model: 'served-model', modalities, embeddingModel }, 'vllm');
+}
+
+async function drain(stream: AsyncIterator<string, unknown>): Promise<{ chunks: string[]; result: unknown }> {
+  const chunks: string[] = [];
+  for (;;) {
+    const { value, done } = await stream.next();
+    if (done) return { chunks, result: value };
+    chunks.push(value);
+  }
+}
+
+const sse = (data: unknown) => `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+
+describe('OpenAICompatibleProvider', () => {
+  it('posts a chat completion with the key and parses text, tool calls and usage', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        choices: [{
+          message: {
+            content: 'Checking the weather',
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Oslo"}' } }]
+          }
+        }],
+        usage: { prompt_tokens: 20, completion_tokens: 4, total_tokens: 24 }
+      }));
+    };
+
+    const result = await provider().chat([{ role: 'user', content: 'Weather in Oslo?' }]);
+
+    expect(result.text).toBe('Checking the weather');
+    expect(result.toolCalls).toEqual([{ id: 'call_1', name: 'weather', arguments: { city: 'Oslo' } }]);
+    expect(result.usage).toEqual({ promptTokens: 20, completionTokens: 4, totalTokens: 24 });
+    expect(requests[0].path).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer test-key');
+    expect(requests[0].body).toMatchObject({ model: 'served-model', stream: false });
+    expect(requests[0].body.stream_options).toBeUndefined();
+  });
+
+  it('throws with the status and body on a non-2xx response', async () => {
+    handler = (_req, _body, res) => res.writeHead(503).end('server overloaded');
+
+    await expect(provider().chat([{ role: 'user', content: 'Hello' }]))
+      .rejects.toThrow('vllm request to /chat/completions failed (503): server overloaded');
+  });
+
+  it('throws RateLimitError with the Retry-After delay on 429', async () => {
+    const retryAt = new Date(Date.now() + 30000).toUTCString();
+    handler = (_req, _body, res) => res.writeHead(429, { 'Retry-After': retryAt }).end('rate limited');
+
+    const error = await provider().chat([{ role: 'user', content: 'Hello' }]).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBeGreaterThan(25000);
+    expect(error.retryAfterMs).toBeLessThanOrEqual(30000);
+  });
+
+  it('reassembles SSE events split across reads and returns the final usage chunk', async () => {
+    handler = async (_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const events = [
+        sse({ choices: [{ delta: { content: 'Hel' } }] }),
+        sse({ choices: [{ delta: { content: 'lo' } }] }),
+        sse({ choices: [{ delta: {}, finish_reason: 'stop' }] }),
+        sse({ choices: [], usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 } }),
+        sse('[DONE]')
+      ].join('');
+      // Cut mid-event so no read lines up with an event boundary
+      for (const piece of [events.slice(0, 17), events.slice(17, 60), events.slice(60)]) {
+        res.write(piece);
+        await pause(10);
+      }
+      res.end();
+    };
+
+    const { chunks, result } = await drain(provider().chatStream([{ role: 'user', content: 'Hello' }]));
+
+    expect(chunks.join('')).toBe('Hello');
+    expect(result).toEqual({ promptTokens: 9, completionTokens: 2, totalTokens: 11 });
+    expect(requests[0].body.stream).toBe(true);
+    expect(requests[0].body.stream_options).toEqual({ include_usage: true });
+  });
+
+  it('ends without usage when the server does not send any', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200).end(sse({ choices: [{ delta: { content: 'Hi' } }] }) + sse('[DONE]'));
+    };
+
+    const { chunks, result } = await drain(provider().chatStream([{ role: 'user', content: 'Hello' }]));
+
+    expect(chunks).toEqual(['Hi']);
+    expect(result).toBeUndefined();
+  });
+
+  it('throws when the stream reports an error', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200).end(sse({ error: { message: 'context length exceeded' } }));
+    };
+
+    await expect(drain(provider().chatStream([{ role: 'user', content: 'Hello' }])))
+      .rejects.toThrow('vllm stream error: context length exceeded');
+  });
+
+  it('stops a stream when the signal aborts', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200);
+      res.write(sse({ choices: [{ delta: { content: 'first' } }] }));
+      // Never ends: only the abort can finish this request
+    };
+    const controller = new AbortController();
+    const stream = provider().chatStream([{ role: 'user', content: 'Hello' }], { signal: controller.signal });
+
+    expect((await stream.next()).value).toBe('first');
+    controller.abort();
+
+    await expect(stream.next()).rejects.toThrow(/abort/i);
+  });
+
+  it('rejects a pending chat when the signal aborts', async () => {
+    handler = () => undefined;
+    const controller = new AbortController();
+    const pending = provider().chat([{ role: 'user', content: 'Hello' }], { signal: controller.signal });
+
+    await pause(10);
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(/abort/i);
+  });
+
+  it('sends images as image_url parts and refuses documents', async () => {
+    handler = (_req, _body, res) => res.writeHead(200).end(JSON.stringify({ choices: [{ message: { content: 'A cat' } }] }));
+    const vision = provider(['text', 'image', 'document']);
+    const image = { name: 'cat.png', mimeType: 'image/png', data: 'iVBORw0KGgo=' };
+
+    await vision.chat([{ role: 'user', content: 'What is this?', attachments: [image] }]);
+
+    expect(vision.getCapabilities().supportedModalities).toEqual(['text', 'image']);
+    expect(requests[0].body.messages[0].content[1]).toEqual({
+      type: 'image_url',
+      image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' }
+    });
+
+    const pdf = { name: 'spec.pdf', mimeType: 'application/pdf', data: 'JVBERi0=' };
+    await expect(vision.chat([{ role: 'user', content: 'Summarize', attachments: [pdf] }]))
+      .rejects.toThrow('vllm cannot send application/pdf attachment spec.pdf');
+  });
+
+  it('does not embed unless an embedding model is configured', async () => {
+    const chatOnly = provider();
+
+    expect(chatOnly.getCapabilities().supportsEmbedding).toBe(false);
+    expect(chatOnly.embeddingModel).toBeUndefined();
+    await expect(chatOnly.embed('hello')).rejects.toThrow('vllm embeddings are turned off: no embedding model configured');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('embeds with the configured embedding model, in input order', async () => {
+    handler = (_req, body, res) => {
+      const inputs: string[] = Array.isArray(body.input) ? body.input : [body.input];
+      const data = inputs.map((_, index) => ({ index, embedding: [index, 1] })).reverse();
+      res.writeHead(200).end(JSON.stringify({ data }));
+    };
+    const embedder = provider(undefined, 'bge-small');
+
+    expect(embedder.getCapabilities().supportsEmbedding).toBe(true);
+    expect(await embedder.embed('hello')).toEqual([0, 1]);
+    expect(await embedder.embedBatch(['a', 'b'])).toEqual([[0, 1], [1, 1]]);
+    expect(requests[0]).toMatchObject({ path: '/v1/embeddings', body: { model: 'bge-small', input: 'hello' } });
+  });
+});
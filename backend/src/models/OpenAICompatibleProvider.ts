@@ -0,0 +1,303 @@
+// OpenAI-compatible Provider Implementation - vLLM, llama.cpp server, LM Studio and similar
+
+import type { ModelProvider, ModelConfig } from './ModelProvider.js';
+import { RateLimitError, parseRetryAfter } from './RateLimiter.js';
+import { providerHttpError } from './ProviderErrors.js';
+import { attachmentModality, toDataUrl } from './Attachments.js';
+import type { ChatMessage, ChatResult, GenerateOptions, ModelCapabilities, TokenUsage } from '../shared/types.js';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+  error?: { message?: string } | string;
+}
+
+// The chat completions API only carries images; PDFs and other documents have no content part
+const SENDABLE_MODALITIES = ['text', 'image'];
+
+interface ModelListResponse {
+  data?: Array<{ id: string; max_model_len?: number; context_length?: number }>;
+}
+
+export class OpenAICompatibleProvider implements ModelProvider {
+  name: string;
+  capabilities: ModelCapabilities;
+
+  private baseUrl: string;
+  private apiKey: string;
+  private modelName: string;
+  // Unset unless configured: the served chat model usually cannot embed
+  readonly embeddingModel?: string;
+
+  constructor(config: ModelConfig, name: string = 'openai-compatible') {
+    this.name = name;
+    this.baseUrl = (config.baseUrl || 'http://localhost:8000/v1').replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.modelName = config.model || 'default';
+    this.embeddingModel = config.embeddingModel || undefined;
+
+    this.capabilities = {
+      maxTokens: 4096,
+      supportsStreaming: true,
+      supportsEmbedding: this.embeddingModel !== undefined,
+      supportedModalities: (config.modalities ?? ['text']).filter(modality => SENDABLE_MODALITIES.includes(modality))
+    };
+  }
+
+  /**
+   * Reads the context length from /models where the server reports it
+   * (vLLM: max_model_len, LM Studio / llama.cpp: context_length).
+   */
+  async initialize(): Promise<ModelCapabilities> {
+    const response = await this.request('GET', '/models');
+    const models = (await response.json()) as ModelListResponse;
+    const model = models.data?.find(entry => entry.id === this.modelName);
+    const contextLength = model?.max_model_len ?? model?.context_length;
+
+    if (contextLength && contextLength > 0) {
+      this.capabilities = { ...this.capabilities, maxTokens: contextLength };
+    }
+
+    return this.capabilities;
+  }
+
+  async chat(messages: ChatMessage[], options?: GenerateOptions): Promise<ChatResult> {
+    const body = this.buildBody(messages, options, false);
+    const response = await this.request('POST', '/chat/completions', body, options?.signal);
+    const completion = (await response.json()) as ChatCompletionResponse;
+
+    if (completion.error) {
+      throw new Error(`${this.name} completion failed: ${this.errorMessage(completion.error)}`);
+    }
+
+    const message = completion.choices?.[0]?.message;
+
+    return {
+      text: message?.content ?? '',
+      usage: this.toUsage(completion.usage),
+      toolCalls: (message?.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: this.parseArguments(call.function.arguments)
+      }))
+    };
+  }
+
+  // Resolves with the usage the server sends in its last chunk, if it supports stream_options
+  async *chatStream(messages: ChatMessage[], options?: GenerateOptions): AsyncGenerator<string, TokenUsage | undefined> {
+    const { tools: _tools, ...streamOptions } = options || {};
+    const body = this.buildBody(messages, streamOptions, true);
+    const response = await this.request('POST', '/chat/completions', body, options?.signal);
+
+    if (!response.body) {
+      throw new Error(`${this.name} returned an empty stream`);
+    }
+
+    // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let usage: TokenUsage | undefined;
+
+    for await (const bytes of response.body) {
+      buffer += decoder.decode(bytes, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return usage;
+
+        const chunk = JSON.parse(data) as ChatCompletionResponse;
+        if (chunk.error) {
+          throw new Error(`${this.name} stream error: ${this.errorMessage(chunk.error)}`);
+        }
+
+        // With include_usage the last chunk has no choices, only usage
+        usage = this.toUsage(chunk.usage) ?? usage;
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+      }
+    }
+    return usage;
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    const result = await this.chat([{ role: 'user', content: prompt }], options);
+    return result.text;
+  }
+
+  generateStream(prompt: string, options?: GenerateOptions): AsyncIterator<string> {
+    return this.chatStream([{ role: 'user', content: prompt }], options);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.request('POST', '/embeddings', {
+      model: this.requireEmbeddingModel(),
+      input: text
+    });
+    const result = (await response.json()) as { data?: Array<{ embedding: number[] }> };
+
+    const embedding = result.data?.[0]?.embedding;
+    if (!embedding) {
+      throw new Error(`${this.name} model ${this.embeddingModel} returned no embedding`);
+    }
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await this.request('POST', '/embeddings', {
+      model: this.requireEmbeddingModel(),
+      input: texts
+    });
+    const result = (await response.json()) as { data?: Array<{ embedding: number[]; index?: number }> };
+
+    if (result.data?.length !== texts.length) {
+      throw new Error(`${this.name} model ${this.embeddingModel} returned ${result.data?.length ?? 0} embeddings for ${texts.length} texts`);
+    }
+    // The spec allows any order; index says which input each vector belongs to
+    return [...result.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding);
+  }
+
+  getCapabilities(): ModelCapabilities {
+    return this.capabilities;
+  }
+
+  get model(): string {
+    return this.modelName;
+  }
+
+  private requireEmbeddingModel(): string {
+    if (!this.embeddingModel) {
+      throw new Error(`${this.name} embeddings are turned off: no embedding model configured`);
+    }
+    return this.embeddingModel;
+  }
+
+  private buildBody(messages: ChatMessage[], options: GenerateOptions | undefined, stream: boolean): Record<string, unknown> {
+    return {
+      model: this.modelName,
+      messages: [
+        ...(options?.systemInstruction ? [{ role: 'system', content: options.systemInstruction }] : []),
+        ...messages.map(message => this.toOpenAIMessage(message))
+      ],
+      tools: options?.tools?.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      })),
+      temperature: options?.temperature ?? 0.7,
+      top_p: options?.topP ?? 0.95,
+      max_tokens: options?.maxTokens ?? 2048,
+      stop: options?.stopSequences,
+      response_format: options?.responseFormat === 'json' ? { type: 'json_object' } : undefined,
+      stream,
+      stream_options: stream ? { include_usage: true } : undefined
+    };
+  }
+
+  private toOpenAIMessage(message: ChatMessage): Record<string, unknown> {
+    if (message.role === 'tool') {
+      return { role: 'tool', content: message.content, tool_call_id: message.toolCallId, name: message.name };
+    }
+    if (message.toolCalls?.length) {
+      return {
+        role: message.role,
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      };
+    }
+    if (message.attachments?.length) {
+      return {
+        role: message.role,
+        content: [
+          { type: 'text', text: message.content },
+          ...message.attachments.map(attachment => {
+            const modality = attachmentModality(attachment.mimeType);
+            if (modality !== 'image' || !this.capabilities.supportedModalities.includes(modality)) {
+              throw new Error(`${this.name} cannot send ${attachment.mimeType} attachment ${attachment.name}`);
+            }
+            return { type: 'image_url', image_url: { url: toDataUrl(attachment) } };
+          })
+        ]
+      };
+    }
+    return { role: message.role, content: message.content };
+  }
+
+  private toUsage(usage: ChatCompletionResponse['usage']): TokenUsage | undefined {
+    if (!usage) return undefined;
+
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0)
+    };
+  }
+
+  // Arguments arrive as a JSON string; small models sometimes send invalid JSON
+  private parseArguments(raw: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(raw || '{}');
+      return typeof parsed === 'object' && parsed !== null ? parsed : { value: parsed };
+    } catch {
+      return { _raw: raw };
+    }
+  }
+
+  private errorMessage(error: ChatCompletionResponse['error']): string {
+    return typeof error === 'string' ? error : error?.message || 'Unknown error';
+  }
+
+  private async request(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+      signal
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      if (response.status === 429) {
+        throw new RateLimitError(
+          `${this.name} request to ${path} was rate limited: ${detail || response.statusText}`,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+      throw providerHttpError(`${this.name} request to ${path} failed (${response.status}): ${detail || response.statusText}`, this.name, response.status);
+    }
+
+    return response;
+  }
+}
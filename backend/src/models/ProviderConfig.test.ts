@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ModelCapabilities } from '../shared/types.js';
+import { DEFAULT_BREAKER_CONFIG } from './CircuitBreaker.js';
+import type { ModelProvider } from './ModelProvider.js';
+import { ModelRouter } from './ModelRouter.js';
+import { ProviderConfigError, ProviderConfigManager, type ProviderEntry } from './ProviderConfig.js';
+
+// Stands in for a configured provider; only its name and identity matter here
+function stubProvider(entry: ProviderEntry): ModelProvider {
+  const capabilities: ModelCapabilities = { maxTokens: 8000, supportsStreaming: false, supportsEmbedding: false, supportedModalities: ['text'] };
+  return {
+    name: entry.name,
+    model: entry.model,
+    capabilities,
+    getCapabilities: () => capabilities,
+    chat: async () => ({ text: entry.model ?? '' }),
+    chatStream: async function* () {},
+    generate: async () => entry.model ?? '',
+    generateStream: async function* () {},
+    embed: async () => []
+  };
+}
+
+const entry = (name: string, overrides: Record<string, unknown> = {}) => ({ name, type: 'ollama', model: `${name}-model`, ...overrides });
+
+describe('ProviderConfigManager', () => {
+  let dir: string;
+  let path: string;
+  let router: ModelRouter;
+  let createProvider: ReturnType<typeof vi.fn<(entry: ProviderEntry) => Promise<ModelProvider>>>;
+  let manager: ProviderConfigManager;
+
+  const write = (config: unknown) => fs.writeFile(path, typeof config === 'string' ? config : JSON.stringify(config));
+  const registered = () => Array.from(router.getStats().keys()).sort();
+  const built = () => createProvider.mock.calls.map(([built]) => built.name);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'provider-config-'));
+    path = join(dir, 'providers.json');
+    router = new ModelRouter();
+    createProvider = vi.fn(async (configured: ProviderEntry) => stubProvider(configured));
+    manager = new ProviderConfigManager(router, path, createProvider);
+  });
+
+  afterEach(async () => {
+    manager.close();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('registers the enabled entries and defaults to the highest priority', async () => {
+    await write({ providers: [entry('local'), entry('fast', { priority: 5 }), entry('spare', { enabled: false })] });
+
+    expect(await manager.load()).toEqual({ added: ['local', 'fast'], updated: [], removed: [] });
+    expect(registered()).toEqual(['fast', 'local']);
+    expect(await router.generate('hi', { noCache: true })).toBe('fast-model');
+  });
+
+  it('keeps the running providers when the file is invalid', async () => {
+    await write({ providers: [entry('local')] });
+    await manager.load();
+    createProvider.mockClear();
+
+    await write('{ "providers": [');
+    await expect(manager.load()).rejects.toBeInstanceOf(ProviderConfigError);
+
+    await write({ providers: [entry('local'), entry('local')], defaultProvider: 'missing' });
+    await expect(manager.load()).rejects.toThrow(
+      expect.objectContaining({
+        issues: ['providers.1.name: Duplicate provider local', 'defaultProvider: missing is not an enabled provider']
+      })
+    );
+
+    await write({ providers: [entry('other')], routingStrategy: 'nonexistent' });
+    await expect(manager.load()).rejects.toThrow('Routing strategy nonexistent not registered');
+
+    createProvider.mockRejectedValueOnce(new Error('Provider broken needs BROKEN_KEY to be set'));
+    await write({ providers: [entry('broken')] });
+    await expect(manager.load()).rejects.toThrow('Provider broken needs BROKEN_KEY to be set');
+
+    expect(registered()).toEqual(['local']);
+    expect(await router.generate('hi', { noCache: true })).toBe('local-model');
+  });
+
+  it('rebuilds only the entries whose identity changed', async () => {
+    await write({ providers: [entry('a'), entry('b')] });
+    await manager.load();
+    createProvider.mockClear();
+
+    await write({
+      providers: [
+        entry('a', { priority: 3, weight: 2, limits: { requestsPerMinute: 10 }, breaker: { failureThreshold: 1 }, price: { inputPerMillion: 1, outputPerMillion: 2 } }),
+        entry('b', { model: 'b-model-v2' })
+      ]
+    });
+
+    expect(await manager.load()).toEqual({ added: [], updated: ['b'], removed: [] });
+    expect(built()).toEqual(['b']);
+    expect(await router.generate('hi', { noCache: true, preferredProvider: 'b' })).toBe('b-model-v2');
+  });
+
+  it('rebuilds a provider when the key in its environment variable changes', async () => {
+    vi.stubEnv('LOCAL_KEY', 'first');
+    await write({ providers: [entry('local', { apiKeyEnv: 'LOCAL_KEY' })] });
+    await manager.load();
+    await manager.load();
+    expect(built()).toEqual(['local']);
+
+    vi.stubEnv('LOCAL_KEY', 'second');
+    expect(await manager.load()).toEqual({ added: [], updated: ['local'], removed: [] });
+  });
+
+  it('unregisters entries that are removed or disabled', async () => {
+    await write({ providers: [entry('a'), entry('b'), entry('c')] });
+    await manager.load();
+
+    await write({ providers: [entry('a'), entry('c', { enabled: false })] });
+
+    expect(await manager.load()).toEqual({ added: [], updated: [], removed: ['b', 'c'] });
+    expect(registered()).toEqual(['a']);
+  });
+
+  it('resets priority, limits, breaker and price to the defaults when they are taken out of an entry', async () => {
+    await write({
+      providers: [
+        entry('local', {
+          priority: 7,
+          limits: { tokensPerMinute: 1000 },
+          breaker: { failureThreshold: 1, cooldownMs: 5 },
+          price: { inputPerMillion: 4, outputPerMillion: 8 }
+        })
+      ]
+    });
+    await manager.load();
+    expect(router.getUsageLedger().getPrice('local')).toEqual({ inputPerMillion: 4, outputPerMillion: 8 });
+    expect(router.getBreakerStates().local.config).toMatchObject({ failureThreshold: 1, cooldownMs: 5 });
+
+    const setPriority = vi.spyOn(router, 'setProviderPriority');
+    const setLimits = vi.spyOn(router, 'setRateLimits');
+    await write({ providers: [entry('local')] });
+    await manager.load();
+
+    expect(createProvider).toHaveBeenCalledTimes(1);
+    expect(setPriority).toHaveBeenCalledWith('local', 0);
+    expect(setLimits).toHaveBeenCalledWith('local', {});
+    expect(router.getBreakerStates().local.config).toEqual(DEFAULT_BREAKER_CONFIG);
+    expect(router.getUsageLedger().getPrice('local')).toBeUndefined();
+  });
+});
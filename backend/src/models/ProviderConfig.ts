@@ -0,0 +1,279 @@
+// Provider Config - declarative provider setup from a JSON file, applied to the router and reloaded on change
+
+import { promises as fs, watch, type FSWatcher } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { z } from 'zod';
+import type { ModelProvider } from './ModelProvider.js';
+import type { ModelRouter } from './ModelRouter.js';
+import { GeminiProvider } from './GeminiProvider.js';
+import { OllamaProvider } from './OllamaProvider.js';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider.js';
+import { WeightedStrategy } from './RoutingStrategy.js';
+import { mergeBreakerConfig } from './CircuitBreaker.js';
+
+const positiveInt = z.number().int().positive();
+
+const providerEntrySchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Use letters, digits, - and _'),
+  type: z.enum(['gemini', 'ollama', 'openai-compatible']),
+  model: z.string().min(1).optional(),
+  baseUrl: z.string().url().optional(),
+  // Name of the environment variable holding the key; keys never go in the file
+  apiKeyEnv: z.string().regex(/^[A-Z_][A-Z0-9_]*$/, 'Use an environment variable name').optional(),
+  embeddingModel: z.string().optional(),
+  modalities: z.array(z.string()).optional(),
+  // Higher goes first in ordered routing and fallbacks
+  priority: z.number().int().default(0),
+  // Share of traffic under the weighted strategy
+  weight: z.number().nonnegative().optional(),
+  enabled: z.boolean().default(true),
+  limits: z.object({
+    requestsPerMinute: positiveInt.optional(),
+    tokensPerMinute: positiveInt.optional(),
+    maxInFlight: positiveInt.optional()
+  }).strict().optional(),
+  breaker: z.object({
+    failureThreshold: positiveInt.optional(),
+    cooldownMs: positiveInt.optional(),
+    halfOpenMaxProbes: positiveInt.optional(),
+    successThreshold: positiveInt.optional()
+  }).strict().optional(),
+  // USD per million tokens
+  price: z.object({
+    inputPerMillion: z.number().nonnegative(),
+    outputPerMillion: z.number().nonnegative()
+  }).strict().optional()
+}).strict();
+
+export const providersConfigSchema = z.object({
+  defaultProvider: z.string().optional(),
+  routingStrategy: z.string().optional(),
+  embeddingProvider: z.string().optional(),
+  providers: z.array(providerEntrySchema).min(1)
+}).strict().superRefine((config, ctx) => {
+  const names = new Set<string>();
+  config.providers.forEach((entry, index) => {
+    if (names.has(entry.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['providers', index, 'name'], message: `Duplicate provider ${entry.name}` });
+    }
+    names.add(entry.name);
+    if (entry.type === 'gemini' && !entry.apiKeyEnv) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['providers', index, 'apiKeyEnv'], message: 'Gemini needs an API key' });
+    }
+  });
+
+  const enabled = new Set(config.providers.filter(entry => entry.enabled).map(entry => entry.name));
+  if (enabled.size === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['providers'], message: 'At least one provider must be enabled' });
+  }
+  if (config.defaultProvider && !enabled.has(config.defaultProvider)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['defaultProvider'], message: `${config.defaultProvider} is not an enabled provider` });
+  }
+  if (config.embeddingProvider && config.embeddingProvider !== 'hashing' && !enabled.has(config.embeddingProvider)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['embeddingProvider'], message: `${config.embeddingProvider} is not an enabled provider` });
+  }
+});
+
+export type ProviderEntry = z.infer<typeof providerEntrySchema>;
+export type ProvidersConfig = z.infer<typeof providersConfigSchema>;
+
+export class ProviderConfigError extends Error {
+  constructor(message: string, public readonly path: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n  ${issues.join('\n  ')}` : message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+export interface ProviderConfigChange {
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+export async function loadProvidersConfig(path: string): Promise<ProvidersConfig> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new ProviderConfigError(
+      `Cannot read provider config ${path}: ${error instanceof Error ? error.message : error}`,
+      path
+    );
+  }
+
+  const parsed = providersConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ProviderConfigError(
+      `Invalid provider config ${path}`,
+      path,
+      parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Keeps the router's providers in line with a config file. Only entries that
+ * changed are rebuilt; the rest keep their stats, breaker and queue. A file
+ * that fails to load or validate is reported and the running setup is kept.
+ */
+export class ProviderConfigManager {
+  private path: string;
+  private applied: Map<string, string> = new Map();
+  private watcher?: FSWatcher;
+  private debounce?: NodeJS.Timeout;
+  // Reloads run one at a time, in the order the changes arrived
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private router: ModelRouter,
+    path: string,
+    private createProvider: (entry: ProviderEntry) => Promise<ModelProvider> = createConfiguredProvider
+  ) {
+    this.path = resolve(path);
+  }
+
+  load(): Promise<ProviderConfigChange> {
+    const run = this.queue.then(async () => this.apply(await loadProvidersConfig(this.path)));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Watches the directory: editors often save by replacing the file, which ends a watch on the file itself
+  watch(debounceMs: number = 250): void {
+    if (this.watcher) return;
+
+    const file = basename(this.path);
+    this.watcher = watch(dirname(this.path), (_event, changed) => {
+      if (changed && changed.toString() !== file) return;
+
+      clearTimeout(this.debounce);
+      this.debounce = setTimeout(() => {
+        this.load()
+          .then(change => {
+            console.log(`✓ Provider config reloaded (added: ${change.added.join(', ') || 'none'}; updated: ${change.updated.join(', ') || 'none'}; removed: ${change.removed.join(', ') || 'none'})`);
+          })
+          .catch(error => {
+            console.warn(`⚠ Provider config not reloaded, keeping the current providers`);
+            console.warn(`  ${error instanceof Error ? error.message : error}`);
+          });
+      }, debounceMs);
+    });
+  }
+
+  close(): void {
+    clearTimeout(this.debounce);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  // Providers are built before anything is swapped, so a bad entry leaves the router untouched
+  private async apply(config: ProvidersConfig): Promise<ProviderConfigChange> {
+    const entries = config.providers.filter(entry => entry.enabled);
+    const fingerprints = new Map(entries.map(entry => [entry.name, this.fingerprint(entry)]));
+
+    const rebuilt = new Map<string, ModelProvider>();
+    for (const entry of entries) {
+      if (this.applied.get(entry.name) !== fingerprints.get(entry.name)) {
+        rebuilt.set(entry.name, await this.createProvider(entry));
+      }
+    }
+
+    // Throws for an unknown strategy before any provider changes
+    if (config.routingStrategy) {
+      this.router.setDefaultStrategy(config.routingStrategy);
+    }
+
+    const change: ProviderConfigChange = { added: [], updated: [], removed: [] };
+    for (const name of this.applied.keys()) {
+      if (!fingerprints.has(name)) {
+        this.router.unregisterProvider(name);
+        change.removed.push(name);
+      }
+    }
+
+    const ledger = this.router.getUsageLedger();
+    for (const entry of entries) {
+      const provider = rebuilt.get(entry.name);
+      if (provider) {
+        (this.applied.has(entry.name) ? change.updated : change.added).push(entry.name);
+        this.router.registerProvider(entry.name, provider, entry.breaker);
+      }
+      // Settings outside the fingerprint apply on every load, and removing one restores the default
+      this.router.setProviderPriority(entry.name, entry.priority);
+      this.router.setRateLimits(entry.name, entry.limits ?? {});
+      this.router.configureBreaker(entry.name, mergeBreakerConfig(this.router.getDefaultBreakerConfig(), entry.breaker));
+      if (entry.price) {
+        ledger.setPrice(entry.name, entry.price);
+      } else {
+        ledger.clearPrice(entry.name);
+      }
+    }
+
+    const weights = Object.fromEntries(
+      entries.filter(entry => entry.weight !== undefined).map(entry => [entry.name, entry.weight!])
+    );
+    this.router.registerStrategy(new WeightedStrategy(weights));
+
+    const byPriority = [...entries].sort((a, b) => b.priority - a.priority);
+    this.router.setDefaultProvider(config.defaultProvider ?? byPriority[0].name);
+    if (config.embeddingProvider) {
+      this.router.getEmbeddings().setDefault(config.embeddingProvider);
+    }
+
+    this.applied = fingerprints;
+    return change;
+  }
+
+  // The key itself is part of the fingerprint, so rotating it in the environment rebuilds the provider on reload
+  private fingerprint(entry: ProviderEntry): string {
+    const { priority: _priority, weight: _weight, limits: _limits, price: _price, breaker: _breaker, ...identity } = entry;
+    return JSON.stringify({ ...identity, apiKey: entry.apiKeyEnv ? process.env[entry.apiKeyEnv] : undefined });
+  }
+}
+
+// Builds and initializes a provider; metadata failures fall back to default capabilities
+export async function createConfiguredProvider(entry: ProviderEntry): Promise<ModelProvider> {
+  const apiKey = entry.apiKeyEnv ? process.env[entry.apiKeyEnv] : undefined;
+  if (entry.apiKeyEnv && !apiKey) {
+    throw new Error(`Provider ${entry.name} needs ${entry.apiKeyEnv} to be set`);
+  }
+
+  const config = {
+    apiKey: apiKey ?? '',
+    model: entry.model,
+    baseUrl: entry.baseUrl,
+    embeddingModel: entry.embeddingModel,
+    modalities: entry.modalities
+  };
+
+  switch (entry.type) {
+    case 'gemini': {
+      const provider = new GeminiProvider(config);
+      // Routing looks stats up by provider name, so it must match the configured one
+      provider.name = entry.name;
+      return provider;
+    }
+    case 'ollama': {
+      const provider = new OllamaProvider(config);
+      provider.name = entry.name;
+      await initialize(entry.name, () => provider.initialize());
+      return provider;
+    }
+    case 'openai-compatible': {
+      const provider = new OpenAICompatibleProvider(config, entry.name);
+      await initialize(entry.name, () => provider.initialize());
+      return provider;
+    }
+  }
+}
+
+async function initialize(name: string, load: () => Promise<{ maxTokens: number }>): Promise<void> {
+  try {
+    const capabilities = await load();
+    console.log(`✓ ${name} model metadata loaded (context: ${capabilities.maxTokens} tokens)`);
+  } catch (error) {
+    console.warn(`⚠ Could not read ${name} model metadata, using default capabilities`);
+    console.warn(`  ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ContentBlockedError,
+  EmptyResponseError,
+  ModelResponseError,
+  ProviderAuthError,
+  ProviderHttpError,
+  ProviderUnavailableError,
+  providerHttpError
+} from './ProviderErrors.js';
+
+describe('providerHttpError', () => {
+  it('types auth failures and server errors and keeps the status', () => {
+    expect(providerHttpError('denied', 'vllm', 401)).toBeInstanceOf(ProviderAuthError);
+    expect(providerHttpError('denied', 'vllm', 403)).toBeInstanceOf(ProviderAuthError);
+    expect(providerHttpError('down', 'vllm', 500)).toBeInstanceOf(ProviderUnavailableError);
+    expect(providerHttpError('down', 'vllm', 503)).toMatchObject({ name: 'ProviderUnavailableError', provider: 'vllm', status: 503, message: 'down' });
+  });
+
+  it('leaves other statuses as a plain ProviderHttpError', () => {
+    const error = providerHttpError('not found', 'ollama', 404);
+
+    expect(error).toBeInstanceOf(ProviderHttpError);
+    expect(error).not.toBeInstanceOf(ProviderAuthError);
+    expect(error).not.toBeInstanceOf(ProviderUnavailableError);
+    expect(error.name).toBe('ProviderHttpError');
+  });
+});
+
+describe('response errors', () => {
+  it('carry the finish reason of a blocked answer but not of a blocked prompt', () => {
+    const response = new ContentBlockedError('blocked', 'gemini', 'response', 'SAFETY');
+    const prompt = new ContentBlockedError('blocked', 'gemini', 'prompt', 'OTHER');
+
+    expect(response).toBeInstanceOf(ModelResponseError);
+    expect(response.finishReason).toBe('SAFETY');
+    expect(prompt.finishReason).toBeUndefined();
+    expect(prompt.safetyRatings).toEqual([]);
+  });
+
+  it('are told apart by name', () => {
+    expect(new EmptyResponseError('empty', 'gemini', 'MAX_TOKENS').name).toBe('EmptyResponseError');
+    expect(new ModelResponseError('bad', 'gemini').name).toBe('ModelResponseError');
+  });
+});
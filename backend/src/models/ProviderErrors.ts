@@ -0,0 +1,74 @@
+// Provider Errors - HTTP failures, and replies that arrived but carry no usable answer
+
+import type { SafetyRating, TokenUsage } from '../shared/types.js';
+
+/**
+ * The provider answered, so it is healthy and the tokens were spent, but
+ * there is nothing to use. Thrown instead of returning an empty string that
+ * would otherwise pass for a successful reply.
+ */
+export class ModelResponseError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly finishReason?: string,
+    public readonly usage?: TokenUsage
+  ) {
+    super(message);
+    this.name = 'ModelResponseError';
+  }
+}
+
+// Refused by the provider's content filters, either the prompt or the answer
+export class ContentBlockedError extends ModelResponseError {
+  constructor(
+    message: string,
+    provider: string,
+    public readonly stage: 'prompt' | 'response',
+    public readonly reason: string,
+    public readonly safetyRatings: SafetyRating[] = [],
+    usage?: TokenUsage
+  ) {
+    super(message, provider, stage === 'response' ? reason : undefined, usage);
+    this.name = 'ContentBlockedError';
+  }
+}
+
+// No text and no tool calls, e.g. the token limit ran out before any output
+export class EmptyResponseError extends ModelResponseError {
+  constructor(message: string, provider: string, finishReason?: string, usage?: TokenUsage) {
+    super(message, provider, finishReason, usage);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+// The provider rejected the request with an HTTP error status
+export class ProviderHttpError extends Error {
+  constructor(message: string, public readonly provider: string, public readonly status: number) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+// Missing, invalid or unauthorized credentials; retrying will not help until the key is fixed
+export class ProviderAuthError extends ProviderHttpError {
+  constructor(message: string, provider: string, status: number) {
+    super(message, provider, status);
+    this.name = 'ProviderAuthError';
+  }
+}
+
+// A 5xx: the provider is down or overloaded, and another one may still answer
+export class ProviderUnavailableError extends ProviderHttpError {
+  constructor(message: string, provider: string, status: number) {
+    super(message, provider, status);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+// 429 is not covered here: providers throw RateLimitError for it so the router backs off
+export function providerHttpError(message: string, provider: string, status: number): ProviderHttpError {
+  if (status === 401 || status === 403) return new ProviderAuthError(message, provider, status);
+  if (status >= 500) return new ProviderUnavailableError(message, provider, status);
+  return new ProviderHttpError(message, provider, status);
+}
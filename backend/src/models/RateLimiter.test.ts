@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TaskPriority } from '../shared/types.js';
+import { RateLimiter, parseRetryAfter, type RateLease } from './RateLimiter.js';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Records the order in which queued acquires are granted
+function track(promise: Promise<RateLease>, label: string, granted: string[]): Promise<RateLease> {
+  return promise.then(lease => {
+    granted.push(label);
+    return lease;
+  });
+}
+
+describe('RateLimiter', () => {
+  it('serves waiters by priority, then in arrival order', async () => {
+    const limiter = new RateLimiter({ maxInFlight: 1 });
+    const granted: string[] = [];
+    const first = await limiter.acquire(10);
+
+    const pending = [
+      track(limiter.acquire(10, TaskPriority.LOW), 'low', granted),
+      track(limiter.acquire(10, TaskPriority.MEDIUM), 'medium 1', granted),
+      track(limiter.acquire(10, TaskPriority.CRITICAL), 'critical', granted),
+      track(limiter.acquire(10, TaskPriority.MEDIUM), 'medium 2', granted)
+    ];
+    expect(limiter.getStats()).toMatchObject({ queueDepth: 4, inFlight: 1 });
+
+    let lease = first;
+    for (const next of [pending[2], pending[1], pending[3], pending[0]]) {
+      limiter.release(lease);
+      lease = await next;
+    }
+
+    expect(granted).toEqual(['critical', 'medium 1', 'medium 2', 'low']);
+  });
+
+  it('holds requests beyond the per-minute limit until the window slides', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+    const granted: string[] = [];
+
+    limiter.release(await limiter.acquire(1));
+    vi.advanceTimersByTime(10000);
+    limiter.release(await limiter.acquire(1));
+    const third = track(limiter.acquire(1), 'third', granted);
+
+    await vi.advanceTimersByTimeAsync(49999);
+    expect(granted).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await third;
+    expect(granted).toEqual(['third']);
+    expect(limiter.getStats().maxWaitMs).toBe(50000);
+  });
+
+  it('counts actual token usage against the per-minute token budget', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 1000 });
+    const granted: string[] = [];
+
+    // Estimated at 100 tokens but the call used 900
+    limiter.release(await limiter.acquire(100), 900);
+    const next = track(limiter.acquire(200), 'next', granted);
+
+    await vi.advanceTimersByTimeAsync(59999);
+    expect(granted).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(granted).toEqual(['next']);
+  });
+
+  it('lets a request larger than the token budget through on an empty window', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 1000 });
+
+    await expect(limiter.acquire(5000)).resolves.toMatchObject({ tokens: 5000 });
+  });
+
+  it('pauses every request during a backoff', async () => {
+    const limiter = new RateLimiter();
+    const granted: string[] = [];
+
+    limiter.backoff(3000);
+    const waiting = track(limiter.acquire(1, TaskPriority.CRITICAL), 'critical', granted);
+
+    expect(limiter.getStats()).toMatchObject({ rateLimitedCount: 1, backoffUntil: new Date(Date.now() + 3000) });
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(granted).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await waiting;
+    expect(limiter.getStats().backoffUntil).toBeUndefined();
+  });
+
+  it('drops an aborted waiter from the queue and rejects with the reason', async () => {
+    const limiter = new RateLimiter({ maxInFlight: 1 });
+    const first = await limiter.acquire(1);
+    const controller = new AbortController();
+    const aborted = limiter.acquire(1, TaskPriority.HIGH, controller.signal);
+    const after = limiter.acquire(1, TaskPriority.LOW);
+
+    controller.abort(new Error('task cancelled'));
+
+    await expect(aborted).rejects.toThrow('task cancelled');
+    expect(limiter.getStats().queueDepth).toBe(1);
+    limiter.release(first);
+    await expect(after).resolves.toMatchObject({ tokens: 1 });
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const limiter = new RateLimiter();
+
+    await expect(limiter.acquire(1, TaskPriority.MEDIUM, AbortSignal.abort(new Error('gone')))).rejects.toThrow('gone');
+    expect(limiter.getStats().queueDepth).toBe(0);
+  });
+
+  it('applies raised limits to requests already waiting', async () => {
+    const limiter = new RateLimiter({ maxInFlight: 1 });
+    await limiter.acquire(1);
+    const waiting = limiter.acquire(1);
+
+    limiter.setLimits({ maxInFlight: 2 });
+
+    await expect(waiting).resolves.toMatchObject({ tokens: 1 });
+    expect(limiter.getStats().inFlight).toBe(2);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delays given in seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('reads HTTP dates relative to now and never returns a negative delay', () => {
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT')).toBe(30000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing or unreadable headers', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,235 @@
+// Rate Limiter - per-provider RPM/TPM/concurrency limits with a priority-ordered wait queue
+
+import { TaskPriority } from '../shared/types.js';
+
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxInFlight?: number;
+}
+
+export interface RateLimiterStats {
+  queueDepth: number;
+  inFlight: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  // 429 responses received from the provider
+  rateLimitedCount: number;
+  backoffUntil?: Date;
+}
+
+export interface RateLease {
+  id: number;
+  tokens: number;
+}
+
+// Thrown by providers on HTTP 429 so the router backs off instead of tripping the breaker
+export class RateLimitError extends Error {
+  constructor(message: string, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+// Parses a Retry-After header given in seconds or as an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+interface Waiter {
+  tokens: number;
+  enqueuedAt: number;
+  resolve: (lease: RateLease) => void;
+}
+
+interface WindowEntry {
+  leaseId: number;
+  at: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60000;
+const PRIORITIES: TaskPriority[] = [TaskPriority.CRITICAL, TaskPriority.HIGH, TaskPriority.MEDIUM, TaskPriority.LOW];
+
+export class RateLimiter {
+  private limits: RateLimits;
+  private queues: Map<TaskPriority, Waiter[]> = new Map(PRIORITIES.map(priority => [priority, []]));
+  private window: WindowEntry[] = [];
+  private inFlight = 0;
+  private nextLeaseId = 1;
+  private backoffUntil = 0;
+  private timer?: NodeJS.Timeout;
+  private waits = { count: 0, totalMs: 0, maxMs: 0 };
+  private rateLimitedCount = 0;
+
+  constructor(limits: RateLimits = {}) {
+    this.limits = limits;
+  }
+
+  setLimits(limits: RateLimits): void {
+    this.limits = limits;
+    this.drain();
+  }
+
+  /**
+   * Resolves once the call may go out. Waiters are served strictly by
+   * priority and first-come within a priority, so a later request never
+   * overtakes an earlier one of the same priority. Aborting the signal takes
+   * the request out of the queue and rejects with the signal's reason.
+   */
+  acquire(tokens: number, priority: TaskPriority = TaskPriority.MEDIUM, signal?: AbortSignal): Promise<RateLease> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const queue = this.queues.get(priority) ?? this.queues.get(TaskPriority.MEDIUM)!;
+      const onAbort = () => {
+        const index = queue.indexOf(waiter);
+        if (index >= 0) {
+          queue.splice(index, 1);
+          this.drain();
+        }
+        reject(signal!.reason);
+      };
+      const waiter: Waiter = {
+        tokens,
+        enqueuedAt: Date.now(),
+        resolve: lease => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(lease);
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  // Replaces the estimate with what the provider actually used
+  release(lease: RateLease, actualTokens?: number): void {
+    this.inFlight = Math.max(0, this.inFlight - 1);
+
+    if (actualTokens !== undefined) {
+      const entry = this.window.find(item => item.leaseId === lease.id);
+      if (entry) entry.tokens = actualTokens;
+    }
+
+    this.drain();
+  }
+
+  // Pauses all dispatching after the provider answered 429
+  backoff(delayMs: number): void {
+    this.rateLimitedCount++;
+    this.backoffUntil = Math.max(this.backoffUntil, Date.now() + delayMs);
+    this.drain();
+  }
+
+  getStats(): RateLimiterStats {
+    let queueDepth = 0;
+    for (const queue of this.queues.values()) {
+      queueDepth += queue.length;
+    }
+
+    return {
+      queueDepth,
+      inFlight: this.inFlight,
+      averageWaitMs: this.waits.count > 0 ? this.waits.totalMs / this.waits.count : 0,
+      maxWaitMs: this.waits.maxMs,
+      rateLimitedCount: this.rateLimitedCount,
+      backoffUntil: this.backoffUntil > Date.now() ? new Date(this.backoffUntil) : undefined
+    };
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    for (;;) {
+      const next = this.peek();
+      if (!next) return;
+
+      const waitMs = this.waitTime(next.waiter.tokens);
+      if (waitMs === undefined) return; // blocked on in-flight calls; release() drains again
+      if (waitMs > 0) {
+        // A pending backoff or window retry must not hold the process open at shutdown
+        this.timer = setTimeout(() => this.drain(), waitMs);
+        this.timer.unref();
+        return;
+      }
+
+      next.queue.shift();
+      this.dispatch(next.waiter);
+    }
+  }
+
+  private dispatch(waiter: Waiter): void {
+    const now = Date.now();
+    const lease: RateLease = { id: this.nextLeaseId++, tokens: waiter.tokens };
+
+    this.inFlight++;
+    this.window.push({ leaseId: lease.id, at: now, tokens: waiter.tokens });
+
+    const waited = now - waiter.enqueuedAt;
+    this.waits.count++;
+    this.waits.totalMs += waited;
+    this.waits.maxMs = Math.max(this.waits.maxMs, waited);
+
+    waiter.resolve(lease);
+  }
+
+  private peek(): { queue: Waiter[]; waiter: Waiter } | undefined {
+    for (const priority of PRIORITIES) {
+      const queue = this.queues.get(priority)!;
+      if (queue.length > 0) {
+        return { queue, waiter: queue[0] };
+      }
+    }
+    return undefined;
+  }
+
+  // 0 = go now, n = retry in n ms, undefined = wait for an in-flight call to finish
+  private waitTime(tokens: number): number | undefined {
+    const now = Date.now();
+    this.window = this.window.filter(entry => now - entry.at < WINDOW_MS);
+
+    if (this.backoffUntil > now) {
+      return this.backoffUntil - now;
+    }
+
+    const { requestsPerMinute, tokensPerMinute, maxInFlight } = this.limits;
+    if (maxInFlight && this.inFlight >= maxInFlight) {
+      return undefined;
+    }
+
+    if (requestsPerMinute && this.window.length >= requestsPerMinute) {
+      return this.window[0].at + WINDOW_MS - now;
+    }
+
+    if (tokensPerMinute && this.window.length > 0) {
+      // A request larger than the whole budget still goes through on an empty window
+      let used = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      if (used + tokens > tokensPerMinute) {
+        for (const entry of this.window) {
+          used -= entry.tokens;
+          if (used + tokens <= tokensPerMinute) {
+            return entry.at + WINDOW_MS - now;
+          }
+        }
+        return this.window[this.window.length - 1].at + WINDOW_MS - now;
+      }
+    }
+
+    return 0;
+  }
+}
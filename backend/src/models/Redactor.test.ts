@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { Redactor } from './Redactor.js';
+
+function redactText(redactor: Redactor, text: string) {
+  const redaction = redactor.redact([{ role: 'user', content: text }], 'gemini');
+  return { text: redaction.messages[0].content, vault: redaction.vault };
+}
+
+describe('Redactor', () => {
+  it('replaces keys, emails, card numbers and phone numbers with numbered placeholders', () => {
+    const { text, vault } = redactText(new Redactor(),
+      'Key sk-abcdefghijklmnopqrstuvwx, mail ada@example.com or bob@example.org, card 4111 1111 1111 1111, call +1 415-555-0100');
+
+    expect(text).toBe('Key [API_KEY_1], mail [EMAIL_1] or [EMAIL_2], card [CREDIT_CARD_1], call [PHONE_1]');
+    expect(vault.get('[EMAIL_2]')).toBe('bob@example.org');
+    expect(vault.get('[CREDIT_CARD_1]')).toBe('4111 1111 1111 1111');
+  });
+
+  it('leaves digit runs that are not cards or phone numbers alone', () => {
+    const { text, vault } = redactText(new Redactor(), 'Order 4111 1111 1111 1112 shipped on 2026-01-15, invoice 12345678901234');
+
+    expect(text).toBe('Order 4111 1111 1111 1112 shipped on 2026-01-15, invoice 12345678901234');
+    expect(vault.size).toBe(0);
+  });
+
+  it('gives a repeated value the same placeholder across messages, tool calls and the system instruction', () => {
+    const redaction = new Redactor().redact(
+      [
+        { role: 'user', content: 'Email ada@example.com' },
+        { role: 'assistant', content: '', toolCalls: [{ id: '1', name: 'send', arguments: { to: ['ada@example.com'], cc: 'bob@example.org' } }] }
+      ],
+      'gemini',
+      {},
+      'The account owner is ada@example.com'
+    );
+
+    expect(redaction.systemInstruction).toBe('The account owner is [EMAIL_1]');
+    expect(redaction.messages[0].content).toBe('Email [EMAIL_1]');
+    expect(redaction.messages[1].toolCalls![0].arguments).toEqual({ to: ['[EMAIL_1]'], cc: '[EMAIL_2]' });
+  });
+
+  it('redacts the same input the same way every time', () => {
+    const redactor = new Redactor();
+    const messages = [{ role: 'user' as const, content: 'ada@example.com and bob@example.org' }];
+
+    expect(redactor.redact(messages, 'gemini').messages).toEqual(redactor.redact(messages, 'openai').messages);
+  });
+
+  it('restores placeholders in replies and tool call arguments', () => {
+    const redactor = new Redactor();
+    const { vault } = redactText(redactor, 'Write to ada@example.com');
+
+    const result = redactor.restoreResult({
+      text: 'Sent to [EMAIL_1]; [EMAIL_9] is unknown',
+      toolCalls: [{ id: '1', name: 'send', arguments: { to: '[EMAIL_1]' } }]
+    }, vault);
+
+    expect(result.text).toBe('Sent to ada@example.com; [EMAIL_9] is unknown');
+    expect(result.toolCalls![0].arguments).toEqual({ to: 'ada@example.com' });
+  });
+
+  it('restores placeholders split across stream chunks', () => {
+    const redactor = new Redactor();
+    const { vault } = redactText(redactor, 'Write to ada@example.com');
+    const restorer = redactor.createStreamRestorer(vault);
+
+    const output = ['Sent to [EM', 'AIL', '_1] as [asked', '] [EMA'].map(chunk => restorer.push(chunk)).join('') + restorer.flush();
+
+    expect(output).toBe('Sent to ada@example.com as [asked] [EMA');
+  });
+
+  it('audits what was redacted by fingerprint, never by value', () => {
+    const redactor = new Redactor();
+    redactor.redact([{ role: 'user', content: 'ada@example.com' }], 'gemini', { taskId: 'task-1', agentId: 'dev' });
+    redactor.redact([{ role: 'user', content: 'Nothing secret' }], 'gemini', { taskId: 'task-2' });
+
+    const [entry] = redactor.getAuditLog({ taskId: 'task-1' });
+
+    expect(redactor.getAuditLog()).toHaveLength(1);
+    expect(entry.provider).toBe('gemini');
+    expect(entry.items).toEqual([{ detector: 'EMAIL', placeholder: '[EMAIL_1]', fingerprint: expect.stringMatching(/^[0-9a-f]{12}$/) }]);
+    expect(JSON.stringify(entry)).not.toContain('ada@example.com');
+  });
+
+  it('uses custom detectors and makes their patterns global', () => {
+    const redactor = new Redactor();
+    redactor.addDetector({ name: 'EMPLOYEE_ID', pattern: /EMP-\d{5}/ });
+
+    expect(redactText(redactor, 'EMP-00001 and EMP-00002').text).toBe('[EMPLOYEE_ID_1] and [EMPLOYEE_ID_2]');
+    expect(() => redactor.addDetector({ name: 'employee', pattern: /x/ })).toThrow('must be upper case');
+  });
+
+  it('passes messages through untouched when disabled', () => {
+    const messages = [{ role: 'user' as const, content: 'ada@example.com' }];
+
+    const redaction = new Redactor({ enabled: false }).redact(messages, 'gemini', {}, 'ada@example.com');
+
+    expect(redaction.messages).toBe(messages);
+    expect(redaction.systemInstruction).toBe('ada@example.com');
+    expect(redaction.vault.size).toBe(0);
+  });
+});
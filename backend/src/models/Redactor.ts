@@ -0,0 +1,264 @@
+// Redactor - swaps secrets and personal data for placeholders before prompts leave the process
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import type { ChatMessage, ChatResult, UsageContext } from '../shared/types.js';
+
+export interface RedactionDetector {
+  // Placeholder label, e.g. EMAIL gives [EMAIL_1]
+  name: string;
+  pattern: RegExp;
+  // Second check on a match, e.g. the Luhn checksum for card numbers
+  validate?: (match: string) => boolean;
+}
+
+// Placeholder -> original value for one provider call
+export type RedactionVault = Map<string, string>;
+
+export interface Redaction {
+  messages: ChatMessage[];
+  systemInstruction?: string;
+  vault: RedactionVault;
+}
+
+export interface RedactedItem {
+  detector: string;
+  placeholder: string;
+  // Short hash so an auditor can match values without the log holding them
+  fingerprint: string;
+}
+
+export interface RedactionAuditEntry {
+  provider: string;
+  context: UsageContext;
+  items: RedactedItem[];
+  at: Date;
+}
+
+export interface RedactorConfig {
+  enabled?: boolean;
+  // Replaces the built-in detectors
+  detectors?: RedactionDetector[];
+  maxAuditEntries?: number;
+  // Append audit entries to this file as JSON lines
+  auditLogPath?: string;
+}
+
+const PLACEHOLDER = /\[([A-Z][A-Z0-9_]*)_(\d+)\]/g;
+
+function luhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Order matters: earlier detectors claim text first, so cards are found before phone numbers
+export const DEFAULT_DETECTORS: RedactionDetector[] = [
+  {
+    name: 'API_KEY',
+    pattern: /\b(?:sk-[A-Za-z0-9_-]{20,}|AIza[0-9A-Za-z_-]{35}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abposr]-[A-Za-z0-9-]{10,})\b/g
+  },
+  {
+    name: 'EMAIL',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+  },
+  {
+    name: 'CREDIT_CARD',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: luhn
+  },
+  {
+    name: 'PHONE',
+    // Not part of a longer digit run such as an order or account number
+    pattern: /(?<!\d[\s.-]?)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}\b(?![\s.-]?\d)/g,
+    validate: match => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 8 && digits <= 15;
+    }
+  }
+];
+
+export class Redactor {
+  private enabled: boolean;
+  private detectors: RedactionDetector[];
+  private audit: RedactionAuditEntry[] = [];
+  private maxAuditEntries: number;
+  private auditLogPath?: string;
+
+  constructor(config: RedactorConfig = {}) {
+    this.enabled = config.enabled ?? true;
+    this.detectors = (config.detectors ?? DEFAULT_DETECTORS).map(detector => this.normalize(detector));
+    this.maxAuditEntries = config.maxAuditEntries ?? 1000;
+    this.auditLogPath = config.auditLogPath;
+  }
+
+  // Replaces a detector of the same name
+  addDetector(detector: RedactionDetector): void {
+    this.removeDetector(detector.name);
+    this.detectors.push(this.normalize(detector));
+  }
+
+  removeDetector(name: string): void {
+    this.detectors = this.detectors.filter(detector => detector.name !== name);
+  }
+
+  getDetectors(): string[] {
+    return this.detectors.map(detector => detector.name);
+  }
+
+  /**
+   * Returns copies of the messages and system instruction with every detected
+   * value replaced by a placeholder. The same value gets the same placeholder
+   * throughout the call, and the same input always redacts the same way, so
+   * the result can key a cache.
+   */
+  redact(
+    messages: ChatMessage[],
+    provider: string,
+    context: UsageContext = {},
+    systemInstruction?: string
+  ): Redaction {
+    const vault: RedactionVault = new Map();
+    if (!this.enabled || this.detectors.length === 0) {
+      return { messages, systemInstruction, vault };
+    }
+
+    const byValue = new Map<string, string>();
+    const counters = new Map<string, number>();
+    const items: RedactedItem[] = [];
+
+    const redactText = (text: string): string => {
+      let result = text;
+      for (const detector of this.detectors) {
+        result = result.replace(detector.pattern, match => {
+          if (detector.validate && !detector.validate(match)) return match;
+
+          let placeholder = byValue.get(match);
+          if (!placeholder) {
+            const next = (counters.get(detector.name) ?? 0) + 1;
+            counters.set(detector.name, next);
+            placeholder = `[${detector.name}_${next}]`;
+            byValue.set(match, placeholder);
+            vault.set(placeholder, match);
+            items.push({ detector: detector.name, placeholder, fingerprint: this.fingerprint(match) });
+          }
+          return placeholder;
+        });
+      }
+      return result;
+    };
+
+    const redactedInstruction = systemInstruction === undefined ? undefined : redactText(systemInstruction);
+    const redacted = messages.map(message => ({
+      ...message,
+      content: redactText(message.content),
+      toolCalls: message.toolCalls?.map(call => ({
+        ...call,
+        arguments: this.mapStrings(call.arguments, redactText) as Record<string, any>
+      }))
+    }));
+
+    if (items.length > 0) {
+      this.record({ provider, context, items, at: new Date() });
+    }
+    return { messages: redacted, systemInstruction: redactedInstruction, vault };
+  }
+
+  restore(text: string, vault: RedactionVault): string {
+    if (vault.size === 0) return text;
+    return text.replace(PLACEHOLDER, placeholder => vault.get(placeholder) ?? placeholder);
+  }
+
+  // Restores the reply text and any tool call arguments the model built from placeholders
+  restoreResult(result: ChatResult, vault: RedactionVault): ChatResult {
+    if (vault.size === 0) return result;
+
+    const restore = (text: string) => this.restore(text, vault);
+    return {
+      ...result,
+      text: restore(result.text),
+      toolCalls: result.toolCalls?.map(call => ({
+        ...call,
+        arguments: this.mapStrings(call.arguments, restore) as Record<string, any>
+      }))
+    };
+  }
+
+  /**
+   * Restores a stream whose placeholders may be split across chunks by holding
+   * back a trailing "[..." until the rest of it arrives.
+   */
+  createStreamRestorer(vault: RedactionVault): { push(chunk: string): string; flush(): string } {
+    let pending = '';
+
+    return {
+      push: (chunk: string) => {
+        const text = pending + chunk;
+        const open = text.lastIndexOf('[');
+        const partial = open >= 0 && !text.includes(']', open) && /^\[[A-Z0-9_]*$/.test(text.slice(open));
+        pending = partial ? text.slice(open) : '';
+        return this.restore(partial ? text.slice(0, open) : text, vault);
+      },
+      flush: () => {
+        const rest = pending;
+        pending = '';
+        return this.restore(rest, vault);
+      }
+    };
+  }
+
+  getAuditLog(filter: { taskId?: string; agentId?: string } = {}): RedactionAuditEntry[] {
+    return this.audit.filter(entry =>
+      (!filter.taskId || entry.context.taskId === filter.taskId) &&
+      (!filter.agentId || entry.context.agentId === filter.agentId)
+    );
+  }
+
+  private record(entry: RedactionAuditEntry): void {
+    this.audit.push(entry);
+    if (this.audit.length > this.maxAuditEntries) {
+      this.audit.shift();
+    }
+
+    if (this.auditLogPath) {
+      // A failed audit write is reported but must not fail the model call
+      fs.appendFile(this.auditLogPath, `${JSON.stringify(entry)}\n`).catch(error => {
+        console.warn(`Redaction audit write failed: ${error instanceof Error ? error.message : error}`);
+      });
+    }
+  }
+
+  private mapStrings(value: unknown, transform: (text: string) => string): unknown {
+    if (typeof value === 'string') return transform(value);
+    if (Array.isArray(value)) return value.map(item => this.mapStrings(item, transform));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.mapStrings(item, transform)])
+      );
+    }
+    return value;
+  }
+
+  private fingerprint(value: string): string {
+    return createHash('sha256').update(value).digest('hex').slice(0, 12);
+  }
+
+  // replace() needs the global flag to catch every occurrence
+  private normalize(detector: RedactionDetector): RedactionDetector {
+    if (!/^[A-Z][A-Z0-9_]*$/.test(detector.name)) {
+      throw new Error(`Redaction detector name ${detector.name} must be upper case, e.g. EMPLOYEE_ID`);
+    }
+    const flags = detector.pattern.flags.includes('g') ? detector.pattern.flags : `${detector.pattern.flags}g`;
+    return { ...detector, pattern: new RegExp(detector.pattern.source, flags) };
+  }
+}
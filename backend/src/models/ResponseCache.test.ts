@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ChatMessage } from '../shared/types.js';
+import { ResponseCache } from './ResponseCache.js';
+
+const reply = (text: string) => ({ text });
+
+const listJson = async (directory: string) => (await fs.readdir(directory)).filter(name => name.endsWith('.json')).sort();
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('isCacheable', () => {
+    it('skips noCache calls, hot sampling and a disabled cache', () => {
+      const cache = new ResponseCache({ maxTemperature: 0.5 });
+
+      expect(cache.isCacheable()).toBe(true);
+      expect(cache.isCacheable({ temperature: 0.5 })).toBe(true);
+      expect(cache.isCacheable({ temperature: 0.6 })).toBe(false);
+      expect(cache.isCacheable({ noCache: true })).toBe(false);
+      expect(new ResponseCache({ enabled: false }).isCacheable()).toBe(false);
+    });
+  });
+
+  describe('keyFor', () => {
+    const messages: ChatMessage[] = [{ role: 'user', content: 'Hello   world' }];
+
+    it('ignores whitespace differences in the conversation', () => {
+      const cache = new ResponseCache();
+      expect(cache.keyFor('a', 'm', messages)).toBe(cache.keyFor('a', 'm', [{ role: 'user', content: ' Hello\nworld ' }]));
+    });
+
+    it('changes with the provider, model, roles and sampling options', () => {
+      const cache = new ResponseCache();
+      const base = cache.keyFor('a', 'm', messages);
+
+      expect(cache.keyFor('b', 'm', messages)).not.toBe(base);
+      expect(cache.keyFor('a', 'n', messages)).not.toBe(base);
+      expect(cache.keyFor('a', 'm', [{ role: 'system', content: 'Hello world' }])).not.toBe(base);
+      expect(cache.keyFor('a', 'm', messages, { temperature: 0.2 })).not.toBe(base);
+      expect(cache.keyFor('a', 'm', messages, { maxTokens: 10 })).not.toBe(base);
+      // Options that do not reach the provider leave the key alone
+      expect(cache.keyFor('a', 'm', messages, { noCache: false })).toBe(base);
+    });
+  });
+
+  describe('memory tier', () => {
+    it('evicts the least recently used entry past maxEntries', async () => {
+      const cache = new ResponseCache({ maxEntries: 2 });
+      await cache.set('a', reply('A'));
+      await cache.set('b', reply('B'));
+      // Reading a makes b the oldest
+      await cache.get('a');
+      await cache.set('c', reply('C'));
+
+      expect(cache.size()).toBe(2);
+      expect(await cache.get('b')).toBeUndefined();
+      expect(await cache.get('a')).toEqual(reply('A'));
+      expect(await cache.get('c')).toEqual(reply('C'));
+    });
+
+    it('expires entries once the TTL has passed', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      const cache = new ResponseCache({ ttlMs: 1000 });
+      await cache.set('a', reply('A'));
+
+      vi.setSystemTime(new Date('2026-01-01T00:00:00.999Z'));
+      expect(await cache.get('a')).toEqual(reply('A'));
+
+      vi.setSystemTime(new Date('2026-01-01T00:00:01Z'));
+      expect(await cache.get('a')).toBeUndefined();
+      expect(cache.size()).toBe(0);
+    });
+  });
+
+  describe('disk tier', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = join(await fs.mkdtemp(join(tmpdir(), 'response-cache-')), 'entries');
+    });
+
+    afterEach(async () => {
+      await fs.rm(join(directory, '..'), { recursive: true, force: true });
+    });
+
+    it('serves entries written by an earlier instance', async () => {
+      await new ResponseCache({ directory }).set('a', reply('A'));
+
+      const restarted = new ResponseCache({ directory });
+      expect(restarted.size()).toBe(0);
+      expect(await restarted.get('a')).toEqual(reply('A'));
+      // Read entries are promoted into memory
+      expect(restarted.size()).toBe(1);
+    });
+
+    it('serves entries evicted from memory and clear() leaves the disk alone', async () => {
+      const cache = new ResponseCache({ directory, maxEntries: 1 });
+      await cache.set('a', reply('A'));
+      await cache.set('b', reply('B'));
+      cache.clear();
+
+      expect(await cache.get('a')).toEqual(reply('A'));
+      expect(await cache.get('b')).toEqual(reply('B'));
+    });
+
+    it('deletes an expired file when it is read', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      await new ResponseCache({ directory, ttlMs: 1000 }).set('a', reply('A'));
+
+      vi.setSystemTime(new Date('2026-01-01T00:00:02Z'));
+      expect(await new ResponseCache({ directory, ttlMs: 1000 }).get('a')).toBeUndefined();
+      expect(await listJson(directory)).toEqual([]);
+    });
+
+    it('treats an unreadable file as a miss', async () => {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(join(directory, 'a.json'), '{ broken');
+
+      expect(await new ResponseCache({ directory }).get('a')).toBeUndefined();
+    });
+
+    it('prunes files past the TTL, then the oldest past maxDiskEntries', async () => {
+      const cache = new ResponseCache({ directory, ttlMs: 60_000, maxDiskEntries: 2 });
+      await cache.set('old', reply('old'));
+      await cache.set('a', reply('A'));
+      await cache.set('b', reply('B'));
+      await cache.set('c', reply('C'));
+
+      const now = Date.now() / 1000;
+      await fs.utimes(join(directory, 'old.json'), now - 120, now - 120);
+      await fs.utimes(join(directory, 'a.json'), now - 30, now - 30);
+      await fs.utimes(join(directory, 'b.json'), now - 20, now - 20);
+
+      expect(await cache.pruneDisk()).toBe(2);
+      expect(await listJson(directory)).toEqual(['b.json', 'c.json']);
+    });
+
+    it('prunes on the first write, clearing what earlier runs left', async () => {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(join(directory, 'stale.json'), JSON.stringify({ result: reply('S'), expiresAt: 0 }));
+      const past = Date.now() / 1000 - 7200;
+      await fs.utimes(join(directory, 'stale.json'), past, past);
+
+      await new ResponseCache({ directory }).set('fresh', reply('F'));
+
+      expect(await listJson(directory)).toEqual(['fresh.json']);
+    });
+
+    it('does nothing to prune without a directory', async () => {
+      expect(await new ResponseCache().pruneDisk()).toBe(0);
+    });
+  });
+});
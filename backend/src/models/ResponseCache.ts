@@ -0,0 +1,176 @@
+// Response Cache - in-memory LRU with an optional on-disk tier for model responses
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { ChatMessage, ChatResult, GenerateOptions } from '../shared/types.js';
+
+export interface ResponseCacheConfig {
+  enabled?: boolean;
+  maxEntries?: number;
+  ttlMs?: number;
+  // Requests sampled hotter than this are not worth replaying
+  maxTemperature?: number;
+  // Persist entries here so they survive restarts
+  directory?: string;
+  // Files kept on disk; expired and then the oldest files are pruned past this
+  maxDiskEntries?: number;
+}
+
+// Disk writes between prunes; the first write always prunes what earlier runs left
+const PRUNE_EVERY_WRITES = 100;
+
+interface CacheEntry {
+  result: ChatResult;
+  expiresAt: number;
+}
+
+export class ResponseCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private enabled: boolean;
+  private maxEntries: number;
+  private ttlMs: number;
+  private maxTemperature: number;
+  private directory?: string;
+  private maxDiskEntries: number;
+  private writesSincePrune = PRUNE_EVERY_WRITES;
+  private pruning?: Promise<number>;
+
+  constructor(config: ResponseCacheConfig = {}) {
+    this.enabled = config.enabled ?? true;
+    this.maxEntries = config.maxEntries ?? 500;
+    this.ttlMs = config.ttlMs ?? 60 * 60 * 1000;
+    this.maxTemperature = config.maxTemperature ?? 0.7;
+    this.directory = config.directory;
+    this.maxDiskEntries = config.maxDiskEntries ?? 5000;
+  }
+
+  isCacheable(options: GenerateOptions = {}): boolean {
+    if (!this.enabled || options.noCache) return false;
+    return options.temperature === undefined || options.temperature <= this.maxTemperature;
+  }
+
+  /**
+   * Key over everything that changes the answer: provider, model, the
+   * whitespace-normalized conversation and the sampling options.
+   */
+  keyFor(provider: string, model: string | undefined, messages: ChatMessage[], options: GenerateOptions = {}): string {
+    const normalized = messages.map(message => ({
+      role: message.role,
+      content: message.content.trim().replace(/\s+/g, ' '),
+      name: message.name,
+      toolCalls: message.toolCalls?.map(call => ({ name: call.name, arguments: call.arguments })),
+      toolCallId: message.toolCallId,
+      attachments: message.attachments?.map(attachment => ({ mimeType: attachment.mimeType, data: attachment.data }))
+    }));
+
+    return createHash('sha256')
+      .update(JSON.stringify({
+        provider,
+        model,
+        messages: normalized,
+        temperature: options.temperature,
+        topP: options.topP,
+        topK: options.topK,
+        maxTokens: options.maxTokens,
+        tools: options.tools,
+        systemInstruction: options.systemInstruction,
+        stopSequences: options.stopSequences,
+        responseFormat: options.responseFormat,
+        candidateCount: options.candidateCount,
+        safetySettings: options.safetySettings
+      }))
+      .digest('hex');
+  }
+
+  async get(key: string): Promise<ChatResult | undefined> {
+    const entry = this.entries.get(key) ?? await this.readFromDisk(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      if (this.directory) {
+        await fs.rm(join(this.directory, `${key}.json`), { force: true });
+      }
+      return undefined;
+    }
+
+    this.touch(key, entry);
+    return entry.result;
+  }
+
+  async set(key: string, result: ChatResult): Promise<void> {
+    const entry: CacheEntry = { result, expiresAt: Date.now() + this.ttlMs };
+
+    this.touch(key, entry);
+
+    if (this.directory) {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(join(this.directory, `${key}.json`), JSON.stringify(entry));
+
+      if (++this.writesSincePrune >= PRUNE_EVERY_WRITES) {
+        this.writesSincePrune = 0;
+        await this.pruneDisk();
+      }
+    }
+  }
+
+  /**
+   * Deletes disk entries older than the TTL, then the oldest ones until at
+   * most maxDiskEntries remain. File age stands in for the expiry stored
+   * inside, so nothing has to be read. Resolves with the number removed.
+   */
+  pruneDisk(): Promise<number> {
+    if (!this.directory) return Promise.resolve(0);
+
+    this.pruning ??= this.prune(this.directory).finally(() => {
+      this.pruning = undefined;
+    });
+    return this.pruning;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  // Re-insert as most recently used and evict from the old end
+  private touch(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private async prune(directory: string): Promise<number> {
+    const names = (await fs.readdir(directory)).filter(name => name.endsWith('.json'));
+    const files = (await Promise.all(names.map(async name => {
+      const stat = await fs.stat(join(directory, name)).catch(() => undefined);
+      return stat ? { name, modifiedAt: stat.mtimeMs } : undefined;
+    }))).filter((file): file is { name: string; modifiedAt: number } => file !== undefined);
+
+    // Newest first, so everything past the cap or the TTL sits at the end
+    files.sort((a, b) => b.modifiedAt - a.modifiedAt);
+    const cutoff = Date.now() - this.ttlMs;
+    const stale = files.filter((file, index) => index >= this.maxDiskEntries || file.modifiedAt <= cutoff);
+
+    await Promise.all(stale.map(file => fs.rm(join(directory, file.name), { force: true })));
+    return stale.length;
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | undefined> {
+    if (!this.directory) return undefined;
+
+    try {
+      const raw = await fs.readFile(join(this.directory, `${key}.json`), 'utf-8');
+      return JSON.parse(raw) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+}
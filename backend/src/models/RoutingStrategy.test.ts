@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ModelCapabilities } from '../shared/types.js';
+import type { ModelProvider } from './ModelProvider.js';
+import {
+  CapabilityStrategy,
+  CostStrategy,
+  LatencyStrategy,
+  OrderedStrategy,
+  RoundRobinStrategy,
+  WeightedStrategy,
+  meetsRequirements,
+  type RoutingCandidate
+} from './RoutingStrategy.js';
+
+function candidate(name: string, extra: Omit<Partial<RoutingCandidate>, 'name' | 'provider'> = {}, capabilities: Partial<ModelCapabilities> = {}): RoutingCandidate {
+  const full: ModelCapabilities = { maxTokens: 32000, supportsStreaming: true, supportsEmbedding: false, supportedModalities: ['text'], ...capabilities };
+  const provider = { name, capabilities: full, getCapabilities: () => full } as unknown as ModelProvider;
+  return { name, provider, ...extra };
+}
+
+const pick = (strategy: { select(candidates: RoutingCandidate[], options: object): RoutingCandidate }, candidates: RoutingCandidate[]) =>
+  strategy.select(candidates, {}).name;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('meetsRequirements', () => {
+  it('checks the context window and every required modality', () => {
+    const { provider } = candidate('a', {}, { maxTokens: 8000, supportedModalities: ['text', 'image'] });
+
+    expect(meetsRequirements(provider)).toBe(true);
+    expect(meetsRequirements(provider, { minContextTokens: 8000, modalities: ['image'] })).toBe(true);
+    expect(meetsRequirements(provider, { minContextTokens: 8001 })).toBe(false);
+    expect(meetsRequirements(provider, { modalities: ['text', 'audio'] })).toBe(false);
+  });
+});
+
+describe('OrderedStrategy and RoundRobinStrategy', () => {
+  it('take the first candidate, or each candidate in turn', () => {
+    const candidates = [candidate('a'), candidate('b'), candidate('c')];
+    const roundRobin = new RoundRobinStrategy();
+
+    expect(pick(new OrderedStrategy(), candidates)).toBe('a');
+    expect([1, 2, 3, 4].map(() => pick(roundRobin, candidates))).toEqual(['a', 'b', 'c', 'a']);
+  });
+});
+
+describe('WeightedStrategy', () => {
+  const candidates = [candidate('a'), candidate('b'), candidate('c')];
+
+  it('picks in proportion to weight, with unlisted providers weighing 1', () => {
+    const strategy = new WeightedStrategy({ a: 2, c: 0 });
+    const random = vi.spyOn(Math, 'random');
+
+    // Total weight 3: a covers [0, 2), b covers [2, 3), c gets nothing
+    random.mockReturnValueOnce(0);
+    expect(pick(strategy, candidates)).toBe('a');
+    random.mockReturnValueOnce(0.66);
+    expect(pick(strategy, candidates)).toBe('a');
+    random.mockReturnValueOnce(0.67);
+    expect(pick(strategy, candidates)).toBe('b');
+    random.mockReturnValueOnce(0.999);
+    expect(pick(strategy, candidates)).toBe('b');
+  });
+
+  it('treats negative weights as 0 and falls back to the first candidate when nothing has weight', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    expect(pick(new WeightedStrategy({ a: -5 }), candidates)).toBe('b');
+    expect(pick(new WeightedStrategy({ a: 0, b: 0, c: 0 }), candidates)).toBe('a');
+  });
+
+  it('spreads picks roughly by weight', () => {
+    const strategy = new WeightedStrategy({ a: 3, b: 1, c: 0 });
+    const counts: Record<string, number> = { a: 0, b: 0, c: 0 };
+    for (let i = 0; i < 4000; i++) counts[pick(strategy, candidates)]++;
+
+    expect(counts.c).toBe(0);
+    expect(counts.a / 4000).toBeGreaterThan(0.7);
+    expect(counts.a / 4000).toBeLessThan(0.8);
+  });
+});
+
+describe('CostStrategy', () => {
+  it('picks the lowest combined input and output price, keeping the earlier candidate on ties', () => {
+    const candidates = [
+      candidate('premium', { price: { inputPerMillion: 3, outputPerMillion: 15 } }),
+      candidate('budget', { price: { inputPerMillion: 1, outputPerMillion: 2 } }),
+      candidate('same', { price: { inputPerMillion: 2, outputPerMillion: 1 } })
+    ];
+
+    expect(pick(new CostStrategy(), candidates)).toBe('budget');
+  });
+
+  it('treats a provider without a price as free', () => {
+    expect(pick(new CostStrategy(), [candidate('paid', { price: { inputPerMillion: 0.1, outputPerMillion: 0.1 } }), candidate('local')])).toBe('local');
+  });
+});
+
+describe('LatencyStrategy', () => {
+  it('picks the fastest measured provider', () => {
+    expect(pick(new LatencyStrategy(), [candidate('a', { latencyMs: 900 }), candidate('b', { latencyMs: 120 }), candidate('c', { latencyMs: 400 })])).toBe('b');
+  });
+
+  it('ranks unmeasured providers last, and is ordered routing while nothing is measured', () => {
+    expect(pick(new LatencyStrategy(), [candidate('new'), candidate('slow', { latencyMs: 5000 })])).toBe('slow');
+    expect(pick(new LatencyStrategy(), [candidate('a'), candidate('b')])).toBe('a');
+  });
+});
+
+describe('CapabilityStrategy', () => {
+  it('picks the fewest modalities, then the smallest window', () => {
+    const candidates = [
+      candidate('multimodal', {}, { maxTokens: 8000, supportedModalities: ['text', 'image'] }),
+      candidate('large', {}, { maxTokens: 1_000_000 }),
+      candidate('small', {}, { maxTokens: 8000 })
+    ];
+
+    expect(pick(new CapabilityStrategy(), candidates)).toBe('small');
+  });
+});
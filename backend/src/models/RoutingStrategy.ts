@@ -0,0 +1,121 @@
+// Routing Strategies - decide which available provider serves a request
+
+import type { ModelProvider } from './ModelProvider.js';
+import type { ModelPrice } from './UsageLedger.js';
+import type { CapabilityRequirements, GenerateOptions } from '../shared/types.js';
+
+export interface RoutingCandidate {
+  name: string;
+  provider: ModelProvider;
+  // Smoothed response time, undefined until the provider has answered once
+  latencyMs?: number;
+  price?: ModelPrice;
+}
+
+export interface RoutingStrategy {
+  name: string;
+  // Candidates are available and meet the request's requirements, default provider first
+  select(candidates: RoutingCandidate[], options: GenerateOptions): RoutingCandidate;
+}
+
+export function meetsRequirements(provider: ModelProvider, requirements?: CapabilityRequirements): boolean {
+  if (!requirements) return true;
+
+  const capabilities = provider.getCapabilities();
+  if (requirements.minContextTokens && capabilities.maxTokens < requirements.minContextTokens) {
+    return false;
+  }
+  return (requirements.modalities || []).every(modality => capabilities.supportedModalities.includes(modality));
+}
+
+// Registration order with the default provider first - the original behavior
+export class OrderedStrategy implements RoutingStrategy {
+  name = 'ordered';
+
+  select(candidates: RoutingCandidate[]): RoutingCandidate {
+    return candidates[0];
+  }
+}
+
+export class RoundRobinStrategy implements RoutingStrategy {
+  name = 'round-robin';
+  private next = 0;
+
+  select(candidates: RoutingCandidate[]): RoutingCandidate {
+    return candidates[this.next++ % candidates.length];
+  }
+}
+
+// Random pick proportional to weight; unlisted providers weigh 1
+export class WeightedStrategy implements RoutingStrategy {
+  name = 'weighted';
+
+  constructor(private weights: Record<string, number> = {}) {}
+
+  select(candidates: RoutingCandidate[]): RoutingCandidate {
+    const weighted = candidates.map(candidate => ({
+      candidate,
+      weight: Math.max(0, this.weights[candidate.name] ?? 1)
+    }));
+    const total = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+    if (total === 0) return candidates[0];
+
+    let roll = Math.random() * total;
+    for (const entry of weighted) {
+      roll -= entry.weight;
+      if (roll < 0) return entry.candidate;
+    }
+    return weighted[weighted.length - 1].candidate;
+  }
+}
+
+/**
+ * Fastest measured provider. Unmeasured providers rank after measured ones:
+ * a provider whose calls always fail never records a latency, and must not
+ * look like the fastest forever. With nothing measured yet this is ordered
+ * routing, which gives the default provider the first sample.
+ */
+export class LatencyStrategy implements RoutingStrategy {
+  name = 'latency';
+
+  select(candidates: RoutingCandidate[]): RoutingCandidate {
+    const latency = (candidate: RoutingCandidate) => candidate.latencyMs ?? Number.POSITIVE_INFINITY;
+    return candidates.reduce((best, candidate) => (latency(candidate) < latency(best) ? candidate : best));
+  }
+}
+
+// Providers without a price are treated as free, matching the usage ledger
+export class CostStrategy implements RoutingStrategy {
+  name = 'cost';
+
+  select(candidates: RoutingCandidate[]): RoutingCandidate {
+    const cost = (candidate: RoutingCandidate) =>
+      (candidate.price?.inputPerMillion ?? 0) + (candidate.price?.outputPerMillion ?? 0);
+
+    return candidates.reduce((best, candidate) => (cost(candidate) < cost(best) ? candidate : best));
+  }
+}
+
+/**
+ * Tightest fit: the smallest context window and fewest extra modalities that
+ * still meet the requirements, keeping large multimodal models free for
+ * requests that need them.
+ */
+export class CapabilityStrategy implements RoutingStrategy {
+  name = 'capability';
+
+  select(candidates: RoutingCandidate[]): RoutingCandidate {
+    const size = (candidate: RoutingCandidate) => {
+      const capabilities = candidate.provider.getCapabilities();
+      return [capabilities.supportedModalities.length, capabilities.maxTokens];
+    };
+
+    return candidates.reduce((best, candidate) => {
+      const [modalities, tokens] = size(candidate);
+      const [bestModalities, bestTokens] = size(best);
+      return modalities < bestModalities || (modalities === bestModalities && tokens < bestTokens)
+        ? candidate
+        : best;
+    });
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import type { JsonSchema } from '../shared/types.js';
+import { buildRepairMessage, extractJson, parseStructuredResponse, validateAgainstSchema } from './StructuredOutput.js';
+
+const reviewJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['isValid', 'issues'],
+  properties: {
+    isValid: { type: 'boolean' },
+    issues: { type: 'array', items: { type: 'string' } },
+    severity: { enum: ['low', 'medium', 'high'] },
+    score: { type: 'integer' }
+  }
+};
+
+describe('extractJson', () => {
+  it('parses a bare JSON response', () => {
+    expect(extractJson(' {"a": 1} ')).toEqual({ a: 1 });
+  });
+
+  it('parses a fenced json block surrounded by prose', () => {
+    expect(extractJson('Here you go:\n```json\n{"a": [1, 2]}\n```\nAnything else?')).toEqual({ a: [1, 2] });
+  });
+
+  it('keeps fences that appear inside JSON strings', () => {
+    const response = JSON.stringify({ readme: '# Usage\n```bash\nnpm start\n```' });
+
+    expect(extractJson(response)).toEqual({ readme: '# Usage\n```bash\nnpm start\n```' });
+  });
+
+  it('falls back to the outermost object in free text', () => {
+    expect(extractJson('The answer is {"nested": {"ok": true}} as requested.')).toEqual({ nested: { ok: true } });
+  });
+
+  it('throws when there is no JSON at all', () => {
+    expect(() => extractJson('I cannot help with that.')).toThrow('Response does not contain a JSON object');
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  it('accepts a value that matches a JSON schema', () => {
+    const value = { isValid: true, issues: [], severity: 'low', score: 3 };
+
+    expect(validateAgainstSchema(reviewJsonSchema, value)).toEqual({ success: true, data: value });
+  });
+
+  it('reports every JSON schema violation with its path', () => {
+    const result = validateAgainstSchema(reviewJsonSchema, { issues: ['ok', 7], severity: 'critical', score: 2.5 });
+
+    expect(result).toEqual({
+      success: false,
+      issues: [
+        'isValid: required',
+        'issues[1]: expected string, received number',
+        'severity: expected one of "low", "medium", "high"',
+        'score: expected integer, received number'
+      ]
+    });
+  });
+
+  it('tells arrays and null apart from objects', () => {
+    expect(validateAgainstSchema(reviewJsonSchema, [])).toEqual({ success: false, issues: ['(root): expected object, received array'] });
+    expect(validateAgainstSchema(reviewJsonSchema, null)).toEqual({ success: false, issues: ['(root): expected object, received null'] });
+  });
+
+  it('returns the parsed data from a zod schema, defaults applied', () => {
+    const schema = z.object({ isValid: z.boolean(), issues: z.array(z.string()).default([]) });
+
+    expect(validateAgainstSchema(schema, { isValid: false })).toEqual({ success: true, data: { isValid: false, issues: [] } });
+  });
+
+  it('reports zod issues with their path', () => {
+    const schema = z.object({ steps: z.array(z.object({ title: z.string() })) });
+
+    const result = validateAgainstSchema(schema, { steps: [{ title: 3 }] });
+
+    expect(result.success).toBe(false);
+    expect(result.success ? [] : result.issues).toEqual([expect.stringMatching(/^steps\.0\.title: /)]);
+  });
+});
+
+describe('parseStructuredResponse', () => {
+  it('extracts and validates in one step', () => {
+    expect(parseStructuredResponse(reviewJsonSchema, '```json\n{"isValid": true, "issues": []}\n```'))
+      .toEqual({ success: true, data: { isValid: true, issues: [] } });
+  });
+
+  it('turns unparseable output into an issue instead of throwing', () => {
+    expect(parseStructuredResponse(reviewJsonSchema, 'Looks fine to me')).toEqual({
+      success: false,
+      issues: ['Invalid JSON: Response does not contain a JSON object']
+    });
+  });
+});
+
+describe('buildRepairMessage', () => {
+  it('lists each problem for the model to fix', () => {
+    expect(buildRepairMessage(['isValid: required', 'score: expected integer, received number'])).toBe(
+      'Your previous response could not be used because of these problems:\n' +
+      '- isValid: required\n' +
+      '- score: expected integer, received number\n\n' +
+      'Respond again with only valid JSON that fixes every problem listed above.'
+    );
+  });
+});
@@ -0,0 +1,130 @@
+// Structured Output - JSON extraction and schema validation for model responses
+
+import type { ZodTypeAny } from 'zod';
+import type { JsonSchema, ResponseSchema } from '../shared/types.js';
+
+export type SchemaValidation =
+  | { success: true; data: unknown }
+  | { success: false; issues: string[] };
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[],
+    public readonly attempts: number,
+    public readonly lastResponse: string
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Pulls the JSON payload out of a model response, preferring a fenced
+ * ```json block and falling back to the outermost object or array.
+ */
+export function extractJson(response: string): unknown {
+  // Bare JSON first: its strings may hold Markdown with ``` fences of their own
+  try {
+    return JSON.parse(response.trim());
+  } catch {
+    // Fall through to fenced or embedded JSON
+  }
+
+  // JSON strings cannot contain raw newlines, so only a fence at the start of a line closes the block
+  const fenced = response.match(/```(?:json)?[ \t]*\n([\s\S]*?)\n[ \t]*```/i);
+  const candidate = fenced ? fenced[1].trim() : response.trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start < 0 || end <= start) {
+      throw new SyntaxError('Response does not contain a JSON object');
+    }
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+export function validateAgainstSchema(schema: ResponseSchema, value: unknown): SchemaValidation {
+  if (isZodSchema(schema)) {
+    const parsed = schema.safeParse(value);
+    if (parsed.success) {
+      return { success: true, data: parsed.data };
+    }
+    return {
+      success: false,
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    };
+  }
+
+  const issues: string[] = [];
+  validateJsonSchema(schema, value, '(root)', issues);
+  return issues.length === 0 ? { success: true, data: value } : { success: false, issues };
+}
+
+export function parseStructuredResponse(schema: ResponseSchema, response: string): SchemaValidation {
+  let value: unknown;
+  try {
+    value = extractJson(response);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`]
+    };
+  }
+  return validateAgainstSchema(schema, value);
+}
+
+export function buildRepairMessage(issues: string[]): string {
+  return `
+Your previous response could not be used because of these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Respond again with only valid JSON that fixes every problem listed above.
+  `.trim();
+}
+
+function isZodSchema(schema: ResponseSchema): schema is ZodTypeAny {
+  return typeof (schema as ZodTypeAny).safeParse === 'function';
+}
+
+function validateJsonSchema(schema: JsonSchema, value: unknown, path: string, issues: string[]): void {
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    issues.push(`${path}: expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    return;
+  }
+
+  if (!schema.type) return;
+
+  const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  const matches = schema.type === 'integer'
+    ? Number.isInteger(value)
+    : actual === schema.type;
+
+  if (!matches) {
+    issues.push(`${path}: expected ${schema.type}, received ${actual}`);
+    return;
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        issues.push(`${path === '(root)' ? key : `${path}.${key}`}: required`);
+      }
+    }
+    for (const [key, child] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) {
+        validateJsonSchema(child, record[key], path === '(root)' ? key : `${path}.${key}`, issues);
+      }
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      validateJsonSchema(schema.items!, item, `${path}[${index}]`, issues);
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { BudgetExceededError, UsageLedger } from './UsageLedger.js';
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens
+});
+
+describe('UsageLedger', () => {
+  it('totals usage and cost per provider, agent, task and project', () => {
+    const ledger = new UsageLedger();
+
+    ledger.record('gemini', usage(1_000_000, 200_000), { agentId: 'dev', taskId: 't1', projectId: 'p1' });
+    ledger.record('ollama', usage(500, 100), { agentId: 'dev', taskId: 't2', projectId: 'p1' });
+
+    expect(ledger.getTotals('provider').gemini).toEqual({
+      requests: 1, promptTokens: 1_000_000, completionTokens: 200_000, totalTokens: 1_200_000, cost: 2.25
+    });
+    expect(ledger.getTotals('agent').dev).toMatchObject({ requests: 2, totalTokens: 1_200_600 });
+    expect(Object.keys(ledger.getTotals('task'))).toEqual(['t1', 't2']);
+    expect(ledger.getSummary().overall).toMatchObject({ requests: 2, cost: 2.25 });
+  });
+
+  it('marks estimated entries and prices unknown providers at zero', () => {
+    const entry = new UsageLedger().record('vllm', usage(10, 5), {}, true);
+
+    expect(entry).toMatchObject({ provider: 'vllm', cost: 0, estimated: true });
+  });
+
+  it('goes back to the built-in or constructor price when a price is cleared', () => {
+    const ledger = new UsageLedger({ prices: { vllm: { inputPerMillion: 1, outputPerMillion: 1 } } });
+    ledger.setPrice('gemini', { inputPerMillion: 9, outputPerMillion: 9 });
+    ledger.setPrice('claude', { inputPerMillion: 3, outputPerMillion: 15 });
+    ledger.setPrice('vllm', { inputPerMillion: 2, outputPerMillion: 2 });
+
+    ledger.clearPrice('gemini');
+    ledger.clearPrice('claude');
+    ledger.clearPrice('vllm');
+
+    expect(ledger.getPrice('gemini')).toEqual({ inputPerMillion: 1.25, outputPerMillion: 5 });
+    expect(ledger.getPrice('claude')).toBeUndefined();
+    expect(ledger.getPrice('vllm')).toEqual({ inputPerMillion: 1, outputPerMillion: 1 });
+  });
+
+  it('reports what is left of the tightest budget', () => {
+    const ledger = new UsageLedger({ defaultProjectBudget: 10_000 });
+    ledger.setTaskBudget('t1', 1000);
+    ledger.record('gemini', usage(300, 100), { taskId: 't1', projectId: 'p1' });
+    ledger.record('gemini', usage(9000, 0), { projectId: 'p1' });
+
+    expect(ledger.remainingTokens({ taskId: 't1' })).toBe(600);
+    expect(ledger.remainingTokens({ taskId: 't1', projectId: 'p1' })).toBe(600);
+    expect(ledger.remainingTokens({ projectId: 'p1' })).toBe(600);
+    expect(ledger.remainingTokens({ taskId: 't2' })).toBeUndefined();
+    expect(ledger.remainingTokens({})).toBeUndefined();
+  });
+
+  it('refuses a call whose prompt would use up the budget', () => {
+    const ledger = new UsageLedger();
+    ledger.setTaskBudget('t1', 1000);
+    ledger.record('gemini', usage(500, 300), { taskId: 't1' });
+
+    expect(() => ledger.assertWithinBudget({ taskId: 't1' }, 199)).not.toThrow();
+
+    const exceed = () => ledger.assertWithinBudget({ taskId: 't1' }, 200);
+    expect(exceed).toThrow(BudgetExceededError);
+    expect(exceed).toThrow(expect.objectContaining({
+      message: 'Token budget for task t1 exceeded with a 200-token prompt (800/1000 tokens)',
+      scope: 'task',
+      id: 't1',
+      budget: 1000,
+      used: 800
+    }));
+  });
+
+  it('refuses any call once the budget is spent', () => {
+    const ledger = new UsageLedger({ defaultTaskBudget: 100 });
+    ledger.record('gemini', usage(80, 20), { taskId: 't1' });
+
+    expect(() => ledger.assertWithinBudget({ taskId: 't1' })).toThrow('Token budget for task t1 exceeded (100/100 tokens)');
+  });
+
+  it('stops enforcing a cleared task budget but keeps its usage', () => {
+    const ledger = new UsageLedger();
+    ledger.setTaskBudget('t1', 100);
+    ledger.record('gemini', usage(80, 20), { taskId: 't1' });
+
+    ledger.clearTaskBudget('t1');
+
+    expect(() => ledger.assertWithinBudget({ taskId: 't1' }, 50)).not.toThrow();
+    expect(ledger.getTotals('task').t1.totalTokens).toBe(100);
+  });
+});
@@ -0,0 +1,243 @@
+// Usage Ledger - token and cost accounting per provider, agent, task, workflow and project
+
+import type { TokenUsage, UsageContext } from '../shared/types.js';
+
+// USD per million tokens
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export type UsageDimension = 'provider' | 'agent' | 'task' | 'workflowExecution' | 'project';
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageEntry extends TokenUsage {
+  provider: string;
+  context: UsageContext;
+  cost: number;
+  // True when the provider reported no counts and they were estimated from text length
+  estimated: boolean;
+  recordedAt: Date;
+}
+
+export interface UsageLedgerConfig {
+  prices?: PriceTable;
+  defaultTaskBudget?: number;
+  defaultProjectBudget?: number;
+  maxRecentEntries?: number;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly scope: 'task' | 'project',
+    public readonly id: string,
+    public readonly budget: number,
+    public readonly used: number
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const DEFAULT_PRICES: PriceTable = {
+  gemini: { inputPerMillion: 1.25, outputPerMillion: 5 },
+  ollama: { inputPerMillion: 0, outputPerMillion: 0 }
+};
+
+const DIMENSION_KEYS: Record<Exclude<UsageDimension, 'provider'>, keyof UsageContext> = {
+  agent: 'agentId',
+  task: 'taskId',
+  workflowExecution: 'workflowExecutionId',
+  project: 'projectId'
+};
+
+export class UsageLedger {
+  private prices: PriceTable;
+  // Built-in and constructor prices, which clearPrice goes back to
+  private basePrices: PriceTable;
+  private totals: Map<UsageDimension, Map<string, UsageTotals>> = new Map();
+  private taskBudgets: Map<string, number> = new Map();
+  private projectBudgets: Map<string, number> = new Map();
+  private defaultTaskBudget?: number;
+  private defaultProjectBudget?: number;
+  private recent: UsageEntry[] = [];
+  private maxRecentEntries: number;
+
+  constructor(config: UsageLedgerConfig = {}) {
+    this.basePrices = { ...DEFAULT_PRICES, ...config.prices };
+    this.prices = { ...this.basePrices };
+    this.defaultTaskBudget = config.defaultTaskBudget;
+    this.defaultProjectBudget = config.defaultProjectBudget;
+    this.maxRecentEntries = config.maxRecentEntries ?? 500;
+
+    for (const dimension of ['provider', ...Object.keys(DIMENSION_KEYS)] as UsageDimension[]) {
+      this.totals.set(dimension, new Map());
+    }
+  }
+
+  setPrice(provider: string, price: ModelPrice): void {
+    this.prices[provider] = price;
+  }
+
+  clearPrice(provider: string): void {
+    if (this.basePrices[provider]) {
+      this.prices[provider] = this.basePrices[provider];
+    } else {
+      delete this.prices[provider];
+    }
+  }
+
+  getPrice(provider: string): ModelPrice | undefined {
+    return this.prices[provider];
+  }
+
+  setTaskBudget(taskId: string, tokens: number): void {
+    this.taskBudgets.set(taskId, tokens);
+  }
+
+  // Usage already recorded for the task stays in the totals
+  clearTaskBudget(taskId: string): void {
+    this.taskBudgets.delete(taskId);
+  }
+
+  setProjectBudget(projectId: string, tokens: number): void {
+    this.projectBudgets.set(projectId, tokens);
+  }
+
+  record(provider: string, usage: TokenUsage, context: UsageContext = {}, estimated: boolean = false): UsageEntry {
+    const entry: UsageEntry = {
+      ...usage,
+      provider,
+      context,
+      cost: this.price(provider, usage),
+      estimated,
+      recordedAt: new Date()
+    };
+
+    this.add('provider', provider, entry);
+    for (const [dimension, key] of Object.entries(DIMENSION_KEYS) as Array<[UsageDimension, keyof UsageContext]>) {
+      const id = context[key];
+      if (id) {
+        this.add(dimension, id, entry);
+      }
+    }
+
+    this.recent.push(entry);
+    if (this.recent.length > this.maxRecentEntries) {
+      this.recent.shift();
+    }
+
+    return entry;
+  }
+
+  /**
+   * Tokens left before the tightest applicable budget is hit, or undefined when
+   * neither the task nor the project has a budget.
+   */
+  remainingTokens(context: UsageContext = {}): number | undefined {
+    const limits = this.budgetsFor(context).map(limit => limit.budget - limit.used);
+    return limits.length > 0 ? Math.max(0, Math.min(...limits)) : undefined;
+  }
+
+  // pendingTokens is what the next call will spend before it produces any output, i.e. its prompt
+  assertWithinBudget(context: UsageContext = {}, pendingTokens: number = 0): void {
+    for (const limit of this.budgetsFor(context)) {
+      if (limit.used + pendingTokens >= limit.budget) {
+        const pending = pendingTokens > 0 ? ` with a ${pendingTokens}-token prompt` : '';
+        throw new BudgetExceededError(
+          `Token budget for ${limit.scope} ${limit.id} exceeded${pending} (${limit.used}/${limit.budget} tokens)`,
+          limit.scope,
+          limit.id,
+          limit.budget,
+          limit.used
+        );
+      }
+    }
+  }
+
+  getTotals(dimension: UsageDimension): Record<string, UsageTotals> {
+    return Object.fromEntries(
+      Array.from(this.totals.get(dimension)!.entries()).map(([key, totals]) => [key, { ...totals }])
+    );
+  }
+
+  getSummary() {
+    const overall: UsageTotals = { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+    for (const totals of this.totals.get('provider')!.values()) {
+      this.accumulate(overall, totals);
+    }
+
+    return {
+      overall,
+      byProvider: this.getTotals('provider'),
+      byAgent: this.getTotals('agent'),
+      byTask: this.getTotals('task'),
+      byWorkflowExecution: this.getTotals('workflowExecution'),
+      byProject: this.getTotals('project'),
+      budgets: {
+        defaultTask: this.defaultTaskBudget,
+        defaultProject: this.defaultProjectBudget,
+        tasks: Object.fromEntries(this.taskBudgets),
+        projects: Object.fromEntries(this.projectBudgets)
+      },
+      prices: { ...this.prices },
+      recent: this.recent.slice(-50)
+    };
+  }
+
+  private budgetsFor(context: UsageContext): Array<{ scope: 'task' | 'project'; id: string; budget: number; used: number }> {
+    const limits: Array<{ scope: 'task' | 'project'; id: string; budget: number; used: number }> = [];
+
+    if (context.taskId) {
+      const budget = this.taskBudgets.get(context.taskId) ?? this.defaultTaskBudget;
+      if (budget !== undefined) {
+        limits.push({ scope: 'task', id: context.taskId, budget, used: this.used('task', context.taskId) });
+      }
+    }
+
+    if (context.projectId) {
+      const budget = this.projectBudgets.get(context.projectId) ?? this.defaultProjectBudget;
+      if (budget !== undefined) {
+        limits.push({ scope: 'project', id: context.projectId, budget, used: this.used('project', context.projectId) });
+      }
+    }
+
+    return limits;
+  }
+
+  private used(dimension: UsageDimension, id: string): number {
+    return this.totals.get(dimension)!.get(id)?.totalTokens ?? 0;
+  }
+
+  private price(provider: string, usage: TokenUsage): number {
+    const price = this.prices[provider];
+    if (!price) return 0;
+
+    return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+  }
+
+  private add(dimension: UsageDimension, key: string, entry: UsageEntry): void {
+    const totals = this.totals.get(dimension)!;
+    const current = totals.get(key) ?? { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+    this.accumulate(current, { requests: 1, ...entry });
+    totals.set(key, current);
+  }
+
+  private accumulate(target: UsageTotals, source: UsageTotals): void {
+    target.requests += source.requests;
+    target.promptTokens += source.promptTokens;
+    target.completionTokens += source.completionTokens;
+    target.totalTokens += source.totalTokens;
+    target.cost += source.cost;
+  }
+}
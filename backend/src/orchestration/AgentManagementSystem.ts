@@ -17,14 +17,22 @@ import { SEOAgent } from '../agents/SEOAgent.js';
 import { LeadGenerationAgent } from '../agents/LeadGenerationAgent.js';
 import { AIMLAgent } from '../agents/AIMLAgent.js';
 import { MentorAgent } from '../agents/MentorAgent.js';
+import { DevOpsAgent } from '../agents/DevOpsAgent.js';
+import { DesignerAgent } from '../agents/DesignerAgent.js';
+import { TechWriterAgent } from '../agents/TechWriterAgent.js';
+import { ResearchAgent } from '../agents/ResearchAgent.js';
+import { MarketingAgent } from '../agents/MarketingAgent.js';
+import type { ContentCalendar } from './ContentCalendar.js';
 
 export class AgentManagementSystem {
   private learningProfiles: Map<string, AgentLearningProfile> = new Map();
   private agentTemplates: Map<string, AgentTemplate> = new Map();
   private modelRouter: ModelRouter;
+  private contentCalendar?: ContentCalendar;
 
-  constructor(modelRouter: ModelRouter) {
+  constructor(modelRouter: ModelRouter, contentCalendar?: ContentCalendar) {
     this.modelRouter = modelRouter;
+    this.contentCalendar = contentCalendar;
     this.initializeDefaultTemplates();
   }
 
@@ -100,6 +108,73 @@ export class AgentManagementSystem {
       promptTemplate: 'You are a lead mentor focused on skill growth and feedback loops. Task: {task}.',
       trainingStrategy: 'continuous'
     });
+
+    // DevOps Agent Template
+    this.agentTemplates.set('devops-template', {
+      id: 'devops-template',
+      name: 'DevOps Agent Template',
+      type: 'DEVOPS' as AgentType,
+      description: 'Specialized in Dockerfiles, CI/CD pipelines and Kubernetes deployments',
+      defaultCapabilities: ['containerization', 'ci-cd', 'kubernetes', 'release-management'],
+      defaultSpecializations: ['devops', 'deployment', 'cloud-infrastructure'],
+      promptTemplate: 'You are an expert DevOps engineer who ships pinned, reproducible deployments. Your task is to {task}.',
+      trainingStrategy: 'continuous'
+    });
+
+    // Designer Agent Template
+    this.agentTemplates.set('designer-template', {
+      id: 'designer-template',
+      name: 'Designer Agent Template',
+      type: 'DESIGNER' as AgentType,
+      description: 'Specialized in design tokens, component inventories and accessible wireframes',
+      defaultCapabilities: ['design-tokens', 'wireframing', 'component-design', 'accessibility'],
+      defaultSpecializations: ['ui-ux-design', 'design-systems', 'accessibility'],
+      promptTemplate: 'You are an expert product designer who builds accessible design systems. Your task is to {task}.',
+      trainingStrategy: 'continuous'
+    });
+
+    // Tech Writer Agent Template
+    this.agentTemplates.set('tech-writer-template', {
+      id: 'tech-writer-template',
+      name: 'Tech Writer Agent Template',
+      type: 'TECH_WRITER' as AgentType,
+      description: 'Specialized in reference docs from TypeScript sources and OpenAPI, plus narrative guides',
+      defaultCapabilities: ['api-reference', 'technical-writing', 'openapi', 'tutorials'],
+      defaultSpecializations: ['documentation', 'developer-experience'],
+      promptTemplate: 'You are an expert technical writer who documents only what the code defines. Your task is to {task}.',
+      trainingStrategy: 'continuous'
+    });
+
+    // Research Agent Template
+    this.agentTemplates.set('research-template', {
+      id: 'research-template',
+      name: 'Research Agent Template',
+      type: 'RESEARCH' as AgentType,
+      description: 'Specialized in answering questions from a local document corpus with cited sources',
+      defaultCapabilities: ['information-retrieval', 'citation', 'fact-checking', 'synthesis'],
+      defaultSpecializations: ['research', 'knowledge-retrieval'],
+      promptTemplate: 'You are a careful researcher who states only what your sources support. Your task is to {task}.',
+      trainingStrategy: 'continuous'
+    });
+
+    // Marketing Agent Template
+    this.agentTemplates.set('marketing-template', {
+      id: 'marketing-template',
+      name: 'Marketing Agent Template',
+      type: 'MARKETING' as AgentType,
+      description: 'Specialized in blog posts, social posts and email copy written in the brand voice',
+      defaultCapabilities: ['copywriting', 'social-media', 'email-marketing', 'brand-voice'],
+      defaultSpecializations: ['content-marketing', 'brand', 'campaigns'],
+      promptTemplate: 'You are an expert content marketer who writes in the brand voice. Your task is to {task}.',
+      trainingStrategy: 'continuous',
+      brandVoice: {
+        tone: 'clear, helpful and confident, without hype',
+        bannedTerms: ['guaranteed', 'revolutionary', 'game-changer', 'best-in-class'],
+        preferredTerms: { utilize: 'use', leverage: 'use' },
+        maxSentenceWords: 25,
+        maxExclamations: 1
+      }
+    });
   }
 
   createAgent(request: AgentCreationRequest): Agent {
@@ -153,6 +228,31 @@ export class AgentManagementSystem {
       case 'MENTOR' as AgentType:
         agent = new MentorAgent(this.modelRouter);
         break;
+
+      case 'DEVOPS' as AgentType:
+        agent = new DevOpsAgent(this.modelRouter, {
+          ciSystems: request.customCapabilities,
+          platforms: request.customSpecializations
+        });
+        break;
+
+      case 'DESIGNER' as AgentType:
+        agent = new DesignerAgent(this.modelRouter, {
+          designSystems: request.customCapabilities
+        });
+        break;
+
+      case 'TECH_WRITER' as AgentType:
+        agent = new TechWriterAgent(this.modelRouter, { rootDir: process.env.DOCS_ROOT });
+        break;
+
+      case 'RESEARCH' as AgentType:
+        agent = new ResearchAgent(this.modelRouter, { corpusDir: process.env.RESEARCH_CORPUS_DIR });
+        break;
+
+      case 'MARKETING' as AgentType:
+        agent = new MarketingAgent(this.modelRouter, { brandVoice: template.brandVoice, calendar: this.contentCalendar });
+        break;
       
       default:
         throw new Error(`Agent type ${request.type} not yet implemented`);
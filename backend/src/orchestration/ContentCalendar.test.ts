@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContentCalendar } from './ContentCalendar.js';
+
+let calendar: ContentCalendar;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-03-01T08:00:00Z'));
+  calendar = new ContentCalendar();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ContentCalendar', () => {
+  it('adds entries as drafts and lists them by date, then by creation', () => {
+    const later = calendar.add({ channel: 'blog', date: '2026-03-10', asset: { title: 'Launch post', body: 'We launched' } });
+    vi.advanceTimersByTime(1000);
+    const first = calendar.add({ channel: 'x', date: '2026-03-05', asset: { title: 'Teaser', body: 'Soon' } });
+    vi.advanceTimersByTime(1000);
+    const second = calendar.add({ channel: 'email', date: '2026-03-05', status: 'scheduled', asset: { title: 'Teaser mail', body: 'Soon' } });
+
+    expect(later.status).toBe('draft');
+    expect(calendar.list().map(entry => entry.id)).toEqual([first.id, second.id, later.id]);
+  });
+
+  it('filters by channel, status, campaign and an inclusive date range', () => {
+    calendar.add({ channel: 'blog', date: '2026-03-01', asset: { title: 'A', body: '' }, campaign: 'spring' });
+    calendar.add({ channel: 'blog', date: '2026-03-15T18:00:00Z', status: 'scheduled', asset: { title: 'B', body: '' }, campaign: 'spring' });
+    calendar.add({ channel: 'linkedin', date: '2026-03-31', asset: { title: 'C', body: '' } });
+    calendar.add({ channel: 'blog', date: '2026-04-01', asset: { title: 'D', body: '' }, campaign: 'spring' });
+
+    const titles = (query: Parameters<ContentCalendar['list']>[0]) => calendar.list(query).map(entry => entry.asset.title);
+
+    expect(titles({ channel: 'blog' })).toEqual(['A', 'B', 'D']);
+    expect(titles({ status: 'scheduled' })).toEqual(['B']);
+    expect(titles({ campaign: 'spring', from: '2026-03-15', to: '2026-03-31' })).toEqual(['B']);
+    expect(titles({ from: '2026-03-01', to: '2026-03-31' })).toEqual(['A', 'B', 'C']);
+  });
+
+  it('updates and removes entries by id', () => {
+    const entry = calendar.add({ channel: 'blog', date: '2026-03-10', asset: { title: 'Draft', body: '' } });
+    vi.advanceTimersByTime(5000);
+
+    const updated = calendar.update(entry.id, { status: 'published', date: '2026-03-11' });
+
+    expect(updated).toMatchObject({ status: 'published', date: '2026-03-11', createdAt: entry.createdAt });
+    expect(updated.updatedAt.getTime() - entry.createdAt.getTime()).toBe(5000);
+    expect(calendar.remove(entry.id)).toBe(true);
+    expect(calendar.get(entry.id)).toBeUndefined();
+    expect(() => calendar.update(entry.id, { status: 'draft' })).toThrow(`Calendar entry ${entry.id} not found`);
+  });
+
+  it('rejects dates that are not YYYY-MM-DD or ISO timestamps, or do not exist', () => {
+    const add = (date: string) => () => calendar.add({ channel: 'blog', date, asset: { title: 'T', body: '' } });
+
+    for (const date of ['03/10/2026', '2026-3-10', '2026-03-10 09:00', '2026-02-30', '2026-13-01', '2026-03-10T25:00:00Z']) {
+      expect(add(date)).toThrow(`Invalid calendar date ${date}; use YYYY-MM-DD or an ISO timestamp`);
+    }
+    expect(add('2028-02-29')).not.toThrow();
+    expect(add('2026-03-10T09:30:00+02:00')).not.toThrow();
+
+    const entry = calendar.add({ channel: 'blog', date: '2026-03-10', asset: { title: 'T', body: '' } });
+    expect(() => calendar.update(entry.id, { date: '2026-04-31' })).toThrow('Invalid calendar date 2026-04-31');
+  });
+
+  it('exports all-day and timed events as iCalendar', () => {
+    const allDay = calendar.add({
+      channel: 'email',
+      date: '2026-03-10',
+      status: 'scheduled',
+      asset: { title: 'Spring sale, part 1; early access', subject: 'Early access', body: 'Line one\nLine two' }
+    });
+    calendar.add({ channel: 'x', date: '2026-03-11T09:30:00+02:00', status: 'cancelled', asset: { title: 'Thread', body: 'Hi' } });
+
+    const ics = calendar.toICalendar();
+    const lines = ics.split('\r\n');
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines.slice(0, 5)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Agentic Framework//Content Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH'
+    ]);
+    expect(lines).toContain(`UID:${allDay.id}@content-calendar`);
+    expect(lines).toContain('DTSTAMP:20260301T080000Z');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260310');
+    expect(lines).toContain('SUMMARY:[email] Spring sale\\, part 1\\; early access');
+    expect(lines).toContain('DESCRIPTION:Subject: Early access\\n\\nLine one\\nLine two');
+    expect(lines).toContain('DTSTART:20260311T073000Z');
+    expect(lines.filter(line => line.startsWith('STATUS:'))).toEqual(['STATUS:CONFIRMED', 'STATUS:CANCELLED']);
+    expect(lines).toContain('X-CONTENT-STATUS:CANCELLED');
+  });
+
+  it('folds long iCalendar lines at 75 octets without splitting characters', () => {
+    calendar.add({ channel: 'blog', date: '2026-03-10', asset: { title: 'Post', body: 'é'.repeat(100) } });
+
+    const lines = calendar.toICalendar().split('\r\n');
+    const start = lines.findIndex(line => line.startsWith('DESCRIPTION:'));
+    const end = lines.findIndex((line, index) => index > start && !line.startsWith(' '));
+    const folded = lines.slice(start, end);
+
+    expect(folded.length).toBeGreaterThan(1);
+    expect(folded.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(folded.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(100)}`);
+  });
+
+  it('exports CSV with quoting and neutralised formulas', () => {
+    const entry = calendar.add({
+      channel: 'linkedin',
+      date: '2026-03-10',
+      campaign: '=HYPERLINK("http://evil")',
+      asset: { title: 'Hiring, "senior" engineers', body: 'Apply now\nRemote ok' }
+    });
+
+    expect(calendar.toCsv().split('\r\n')).toEqual([
+      'id,date,channel,status,title,subject,campaign,body',
+      `${entry.id},2026-03-10,linkedin,draft,"Hiring, ""senior"" engineers",,"'=HYPERLINK(""http://evil"")","Apply now\nRemote ok"`,
+      ''
+    ]);
+  });
+});
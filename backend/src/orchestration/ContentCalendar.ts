@@ -0,0 +1,169 @@
+// Content Calendar - scheduled marketing content per channel, exportable as iCalendar and CSV
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ContentAsset, ContentCalendarEntry, ContentChannel, ContentStatus } from '../shared/types.js';
+
+export interface CalendarQuery {
+  channel?: ContentChannel;
+  status?: ContentStatus;
+  campaign?: string;
+  // Inclusive YYYY-MM-DD bounds
+  from?: string;
+  to?: string;
+}
+
+export interface NewCalendarEntry {
+  channel: ContentChannel;
+  date: string;
+  status?: ContentStatus;
+  asset: ContentAsset;
+  campaign?: string;
+  taskId?: string;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const CSV_COLUMNS = ['id', 'date', 'channel', 'status', 'title', 'subject', 'campaign', 'body'] as const;
+
+export class ContentCalendar {
+  private entries: Map<string, ContentCalendarEntry> = new Map();
+
+  add(entry: NewCalendarEntry): ContentCalendarEntry {
+    assertDate(entry.date);
+    const now = new Date();
+    const created: ContentCalendarEntry = {
+      id: uuidv4(),
+      ...entry,
+      status: entry.status ?? 'draft',
+      createdAt: now,
+      updatedAt: now
+    };
+    this.entries.set(created.id, created);
+    return created;
+  }
+
+  get(id: string): ContentCalendarEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  update(id: string, changes: Partial<Pick<ContentCalendarEntry, 'channel' | 'date' | 'status' | 'asset' | 'campaign'>>): ContentCalendarEntry {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      throw new Error(`Calendar entry ${id} not found`);
+    }
+    if (changes.date !== undefined) assertDate(changes.date);
+
+    const updated = { ...entry, ...changes, updatedAt: new Date() };
+    this.entries.set(id, updated);
+    return updated;
+  }
+
+  remove(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  // Sorted by date; entries with a time sort within their day
+  list(query: CalendarQuery = {}): ContentCalendarEntry[] {
+    return Array.from(this.entries.values())
+      .filter(entry =>
+        (!query.channel || entry.channel === query.channel) &&
+        (!query.status || entry.status === query.status) &&
+        (!query.campaign || entry.campaign === query.campaign) &&
+        (!query.from || entry.date.slice(0, 10) >= query.from) &&
+        (!query.to || entry.date.slice(0, 10) <= query.to))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * One VEVENT per entry (RFC 5545). Date-only entries become all-day
+   * events; timed entries are converted to UTC. Cancelled entries are
+   * exported with STATUS:CANCELLED so subscribed calendars drop them.
+   */
+  toICalendar(entries: ContentCalendarEntry[] = this.list()): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Agentic Framework//Content Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH'
+    ];
+
+    for (const entry of entries) {
+      const start = DATE_ONLY.test(entry.date)
+        ? `DTSTART;VALUE=DATE:${entry.date.replace(/-/g, '')}`
+        : `DTSTART:${utcStamp(new Date(entry.date))}`;
+      const description = [entry.asset.subject && `Subject: ${entry.asset.subject}`, entry.asset.body].filter(Boolean).join('\n\n');
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${entry.id}@content-calendar`,
+        `DTSTAMP:${utcStamp(entry.updatedAt)}`,
+        start,
+        `SUMMARY:${escapeText(`[${entry.channel}] ${entry.asset.title}`)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `CATEGORIES:${escapeText(entry.channel)}`,
+        `STATUS:${entry.status === 'cancelled' ? 'CANCELLED' : entry.status === 'idea' || entry.status === 'draft' ? 'TENTATIVE' : 'CONFIRMED'}`,
+        `X-CONTENT-STATUS:${entry.status.toUpperCase()}`,
+        'END:VEVENT'
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  // RFC 4180, with spreadsheet formula prefixes neutralised
+  toCsv(entries: ContentCalendarEntry[] = this.list()): string {
+    const rows = entries.map(entry => [
+      entry.id,
+      entry.date,
+      entry.channel,
+      entry.status,
+      entry.asset.title,
+      entry.asset.subject ?? '',
+      entry.campaign ?? '',
+      entry.asset.body
+    ]);
+    return [[...CSV_COLUMNS], ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+  }
+}
+
+function assertDate(date: string): void {
+  // Date parsing rolls 2026-02-30 over to March, so the day must survive a round trip
+  const day = date.slice(0, 10);
+  const validDay = DATE_ONLY.test(day) && !Number.isNaN(Date.parse(day)) && new Date(day).toISOString().slice(0, 10) === day;
+  if (!validDay || !(date.length === 10 || date[10] === 'T') || Number.isNaN(new Date(date).getTime())) {
+    throw new Error(`Invalid calendar date ${date}; use YYYY-MM-DD or an ISO timestamp`);
+  }
+}
+
+function utcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
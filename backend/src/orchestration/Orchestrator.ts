@@ -4,6 +4,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { AgentRegistry } from './AgentRegistry.js';
 import { AgentSelector } from './AgentSelector.js';
 import { TaskQueue } from './TaskQueue.js';
+import { TaskOutputStream } from './TaskOutputStream.js';
 import { EventEmitter } from 'events';
 import type { Task, TaskResult, TaskType, TaskPriority, TaskStatus } from '../shared/types.js';
 
@@ -16,6 +17,23 @@ interface TaskRequest {
   context?: any;
 }
 
+export interface OrchestratorOptions {
+  // Wall-clock limit for tasks that do not set context.timeoutMs
+  defaultTaskTimeoutMs?: number;
+}
+
+// Abort reason for running tasks: cancelled tasks end CANCELLED, timed-out ones FAILED
+export class TaskAbortedError extends Error {
+  constructor(
+    message: string,
+    public readonly taskId: string,
+    public readonly kind: 'cancelled' | 'timeout'
+  ) {
+    super(message);
+    this.name = 'TaskAbortedError';
+  }
+}
+
 export class Orchestrator {
   private agentRegistry: AgentRegistry;
   private agentSelector: AgentSelector;
@@ -23,8 +41,12 @@ export class Orchestrator {
   private processing: boolean = false;
   private taskResults: Map<string, TaskResult> = new Map();
   private taskEvents: EventEmitter;
+  private runningTasks: Map<string, AbortController> = new Map();
+  private taskOutput: TaskOutputStream = new TaskOutputStream();
+  private defaultTaskTimeoutMs?: number;
 
-  constructor() {
+  constructor(options: OrchestratorOptions = {}) {
+    this.defaultTaskTimeoutMs = options.defaultTaskTimeoutMs;
     this.agentRegistry = new AgentRegistry();
     this.agentSelector = new AgentSelector(this.agentRegistry);
     this.taskQueue = new TaskQueue();
@@ -43,6 +65,10 @@ export class Orchestrator {
     return this.taskQueue;
   }
 
+  getOutputStream(): TaskOutputStream {
+    return this.taskOutput;
+  }
+
   async submitTask(taskRequest: TaskRequest): Promise<string> {
     // Create task
     const task: Task = {
@@ -113,20 +139,43 @@ export class Orchestrator {
       task.status = 'IN_PROGRESS' as TaskStatus;
       this.taskQueue.updateTaskStatus(task.id, 'IN_PROGRESS' as TaskStatus);
 
-      const result = await agent.processTask(task);
+      const controller = new AbortController();
+      this.runningTasks.set(task.id, controller);
+
+      const timeoutMs = task.context.timeoutMs ?? this.defaultTaskTimeoutMs;
+      const timer = timeoutMs
+        ? setTimeout(() => controller.abort(
+            new TaskAbortedError(`Task timed out after ${timeoutMs}ms`, task.id, 'timeout')
+          ), timeoutMs)
+        : undefined;
+
+      let result: TaskResult;
+      try {
+        result = await agent.processTask(task, controller.signal, (phase, text) => {
+          this.taskOutput.publish(task.id, agent.id, phase, text);
+        });
+      } finally {
+        clearTimeout(timer);
+        this.runningTasks.delete(task.id);
+      }
 
       // Store result
       this.taskResults.set(task.id, result);
       this.taskEvents.emit('task:completed', task.id, result);
 
-      // Update task status
+      // Update task status; work that finished before the abort landed still counts
+      const abortReason = controller.signal.reason as TaskAbortedError | undefined;
+      let status: TaskStatus;
       if (result.success) {
-        task.status = 'COMPLETED' as TaskStatus;
-        this.taskQueue.updateTaskStatus(task.id, 'COMPLETED' as TaskStatus);
+        status = 'COMPLETED' as TaskStatus;
+      } else if (controller.signal.aborted && abortReason?.kind === 'cancelled') {
+        status = 'CANCELLED' as TaskStatus;
       } else {
-        task.status = 'FAILED' as TaskStatus;
-        this.taskQueue.updateTaskStatus(task.id, 'FAILED' as TaskStatus);
+        status = 'FAILED' as TaskStatus;
       }
+      task.status = status;
+      this.taskQueue.updateTaskStatus(task.id, status);
+      this.taskOutput.finish(task.id, status);
 
       // Update agent
       this.agentRegistry.decrementLoad(agent.id);
@@ -135,6 +184,7 @@ export class Orchestrator {
       console.error(`Error processing task ${task.id}:`, error);
       task.status = 'FAILED' as TaskStatus;
       this.taskQueue.updateTaskStatus(task.id, 'FAILED' as TaskStatus);
+      this.taskOutput.finish(task.id, 'FAILED' as TaskStatus);
       
       if (task.assignedAgentId) {
         this.agentRegistry.decrementLoad(task.assignedAgentId);
@@ -150,6 +200,10 @@ export class Orchestrator {
     return this.taskResults.get(taskId);
   }
 
+  /**
+   * Queued tasks are dropped straight away. Running tasks have their model
+   * calls aborted and end CANCELLED once the agent has unwound.
+   */
   cancelTask(taskId: string): boolean {
     const task = this.taskQueue.getTask(taskId);
     
@@ -158,6 +212,13 @@ export class Orchestrator {
     if (task.status === 'PENDING' as TaskStatus || task.status === 'ASSIGNED' as TaskStatus) {
       this.taskQueue.removeTask(taskId);
       task.status = 'CANCELLED' as TaskStatus;
+      this.taskOutput.finish(taskId, task.status);
+      return true;
+    }
+
+    const controller = this.runningTasks.get(taskId);
+    if (task.status === 'IN_PROGRESS' as TaskStatus && controller && !controller.signal.aborted) {
+      controller.abort(new TaskAbortedError('Task cancelled by user', taskId, 'cancelled'));
       return true;
     }
 
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import { Agent } from '../agents/Agent.js';
+import type { ModelProvider } from '../models/ModelProvider.js';
+import { ModelRouter } from '../models/ModelRouter.js';
+import {
+  AgentType,
+  TaskPriority,
+  TaskType,
+  type ModelCapabilities,
+  type Task,
+  type TaskAnalysis,
+  type TaskChunk,
+  type TaskStatus,
+  type ValidationResult
+} from '../shared/types.js';
+import { Orchestrator } from './Orchestrator.js';
+import { TaskOutputStream } from './TaskOutputStream.js';
+
+// Streams each reply in the given pieces, one reply per call
+function streamingProvider(...replies: (string[] | Error)[]): ModelProvider {
+  const capabilities: ModelCapabilities = { maxTokens: 32000, supportsStreaming: true, supportsEmbedding: false, supportedModalities: ['text'] };
+  let call = 0;
+
+  return {
+    name: 'streaming',
+    capabilities,
+    getCapabilities: () => capabilities,
+    chat: async () => ({ text: 'unused' }),
+    async *chatStream() {
+      const reply = replies[call++];
+      if (reply instanceof Error) throw reply;
+      yield* reply;
+      return undefined;
+    },
+    generate: async () => 'unused',
+    async *generateStream() {},
+    embed: async () => []
+  };
+}
+
+// Asks the model once to analyze and once to execute, and accepts any non-empty answer
+class EchoAgent extends Agent {
+  constructor(router: ModelRouter) {
+    super('Echo', AgentType.DEVELOPER, {
+      skills: [],
+      maxConcurrentTasks: 1,
+      specializations: [],
+      supportedTaskTypes: [TaskType.CODE_GENERATION]
+    }, router);
+  }
+
+  protected async analyzeTask(task: Task): Promise<TaskAnalysis> {
+    const plan = await this.executeWithModel(`Plan ${task.title}`);
+    return { estimatedComplexity: 'low', requiredSteps: [plan], potentialChallenges: [], recommendedApproach: plan, additionalInfo: {} };
+  }
+
+  protected async execute(analysis: TaskAnalysis): Promise<string> {
+    return this.executeWithModel(`Carry out ${analysis.recommendedApproach}`);
+  }
+
+  protected async validate(result: string): Promise<ValidationResult> {
+    return result ? { isValid: true } : { isValid: false, reason: 'Empty answer' };
+  }
+}
+
+function orchestratorWith(provider: ModelProvider): { orchestrator: Orchestrator; agent: EchoAgent } {
+  const router = new ModelRouter();
+  router.registerProvider(provider.name, provider);
+  router.setDefaultProvider(provider.name);
+
+  const orchestrator = new Orchestrator();
+  const agent = new EchoAgent(router);
+  orchestrator.getRegistry().registerAgent(agent);
+  return { orchestrator, agent };
+}
+
+// Records everything the orchestrator's stream emits
+function listen(stream: TaskOutputStream) {
+  const chunks: TaskChunk[] = [];
+  const ends: Array<[string, TaskStatus]> = [];
+  stream.onChunk(chunk => chunks.push(chunk));
+  stream.onEnd((taskId, status) => ends.push([taskId, status]));
+  return { chunks, ends };
+}
+
+const request = {
+  title: 'Greeting',
+  description: 'Say hello',
+  type: TaskType.CODE_GENERATION,
+  priority: TaskPriority.MEDIUM,
+  requiredCapabilities: []
+};
+
+describe('TaskOutputStream', () => {
+  it('numbers each task\'s chunks and hands them to every subscriber', () => {
+    const stream = new TaskOutputStream();
+    const first: TaskChunk[] = [];
+    const second: TaskChunk[] = [];
+    stream.onChunk(chunk => first.push(chunk));
+    stream.onChunk(chunk => second.push(chunk));
+
+    stream.publish('a', 'agent-1', 'analyze', 'Hel');
+    stream.publish('b', 'agent-2', 'execute', 'Other');
+    stream.publish('a', 'agent-1', 'execute', 'lo');
+
+    expect(first.map(chunk => [chunk.taskId, chunk.index, chunk.text])).toEqual([['a', 0, 'Hel'], ['b', 0, 'Other'], ['a', 1, 'lo']]);
+    expect(second).toEqual(first);
+    expect(stream.replay('a').map(chunk => chunk.text)).toEqual(['Hel', 'lo']);
+  });
+
+  it('stops calling a listener once it unsubscribes', () => {
+    const stream = new TaskOutputStream();
+    const seen: string[] = [];
+    const unsubscribe = stream.onChunk(chunk => seen.push(chunk.text));
+
+    stream.publish('a', 'agent', 'execute', 'one');
+    unsubscribe();
+    stream.publish('a', 'agent', 'execute', 'two');
+
+    expect(seen).toEqual(['one']);
+  });
+
+  it('ends a task once, however often it is finished', () => {
+    const stream = new TaskOutputStream();
+    const ends: Array<[string, TaskStatus]> = [];
+    stream.onEnd((taskId, status) => ends.push([taskId, status]));
+
+    stream.publish('a', 'agent', 'execute', 'done');
+    stream.finish('a', 'COMPLETED' as TaskStatus);
+    stream.finish('a', 'FAILED' as TaskStatus);
+
+    expect(ends).toEqual([['a', 'COMPLETED']]);
+    expect(stream.replay('a')).toHaveLength(1);
+  });
+
+  it('drops the oldest chunks past the limit but keeps counting indices', () => {
+    const stream = new TaskOutputStream({ maxChunksPerTask: 2 });
+
+    for (const text of ['a', 'b', 'c']) stream.publish('task', 'agent', 'execute', text);
+
+    expect(stream.replay('task').map(chunk => [chunk.index, chunk.text])).toEqual([[1, 'b'], [2, 'c']]);
+  });
+
+  it('forgets the output of the oldest finished tasks', () => {
+    const stream = new TaskOutputStream({ maxFinishedTasks: 1 });
+
+    stream.publish('old', 'agent', 'execute', 'x');
+    stream.publish('new', 'agent', 'execute', 'y');
+    stream.publish('running', 'agent', 'execute', 'z');
+    stream.finish('old', 'COMPLETED' as TaskStatus);
+    stream.finish('new', 'COMPLETED' as TaskStatus);
+
+    expect(stream.replay('old')).toEqual([]);
+    expect(stream.replay('new')).toHaveLength(1);
+    expect(stream.replay('running')).toHaveLength(1);
+  });
+});
+
+describe('Orchestrator task output', () => {
+  it('streams model output by phase and ends the stream when the task completes', async () => {
+    const { orchestrator, agent } = orchestratorWith(streamingProvider(['Greet ', 'them'], ['Hello', ', ', 'world']));
+    const { chunks, ends } = listen(orchestrator.getOutputStream());
+
+    const taskId = await orchestrator.submitTask(request);
+    const result = await orchestrator.waitForTask(taskId, 5000);
+
+    expect(result.success).toBe(true);
+    expect(result.result).toBe('Hello, world');
+    expect(chunks.map(chunk => [chunk.phase, chunk.text, chunk.index])).toEqual([
+      ['analyze', 'Greet ', 0],
+      ['analyze', 'them', 1],
+      ['execute', 'Hello', 2],
+      ['execute', ', ', 3],
+      ['execute', 'world', 4]
+    ]);
+    expect(chunks.every(chunk => chunk.taskId === taskId && chunk.agentId === agent.id)).toBe(true);
+    expect(ends).toEqual([[taskId, 'COMPLETED']]);
+    expect(orchestrator.getOutputStream().replay(taskId)).toEqual(chunks);
+  });
+
+  it('ends the stream as FAILED when the model fails partway', async () => {
+    const { orchestrator } = orchestratorWith(streamingProvider(['Greet ', 'them'], new Error('model unavailable')));
+    const { chunks, ends } = listen(orchestrator.getOutputStream());
+
+    const taskId = await orchestrator.submitTask(request);
+    const result = await orchestrator.waitForTask(taskId, 5000);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('model unavailable');
+    // Output already sent stays available to clients that join late
+    expect(chunks.map(chunk => chunk.text)).toEqual(['Greet ', 'them']);
+    expect(ends).toEqual([[taskId, 'FAILED']]);
+  });
+
+  it('ends the stream as FAILED when the result does not validate', async () => {
+    const { orchestrator } = orchestratorWith(streamingProvider(['Greet them'], []));
+    const { ends } = listen(orchestrator.getOutputStream());
+
+    const taskId = await orchestrator.submitTask(request);
+    const result = await orchestrator.waitForTask(taskId, 5000);
+
+    expect(result.error).toBe('Validation failed: Empty answer');
+    expect(ends).toEqual([[taskId, 'FAILED']]);
+  });
+});
@@ -0,0 +1,78 @@
+// Task Output Stream - buffers streamed agent output per task so late subscribers can catch up
+
+import { EventEmitter } from 'events';
+import type { TaskChunk, TaskPhase, TaskStatus } from '../shared/types.js';
+
+export interface TaskOutputStreamConfig {
+  // Oldest chunks are dropped past this; indices keep counting so gaps are visible
+  maxChunksPerTask?: number;
+  // Finished tasks whose output is still kept for replay
+  maxFinishedTasks?: number;
+}
+
+interface TaskOutput {
+  chunks: TaskChunk[];
+  nextIndex: number;
+  finished: boolean;
+}
+
+export class TaskOutputStream {
+  private outputs: Map<string, TaskOutput> = new Map();
+  private finishedOrder: string[] = [];
+  private events: EventEmitter = new EventEmitter();
+  private maxChunksPerTask: number;
+  private maxFinishedTasks: number;
+
+  constructor(config: TaskOutputStreamConfig = {}) {
+    this.maxChunksPerTask = config.maxChunksPerTask ?? 5000;
+    this.maxFinishedTasks = config.maxFinishedTasks ?? 100;
+  }
+
+  publish(taskId: string, agentId: string, phase: TaskPhase, text: string): TaskChunk {
+    let output = this.outputs.get(taskId);
+    if (!output) {
+      output = { chunks: [], nextIndex: 0, finished: false };
+      this.outputs.set(taskId, output);
+    }
+
+    const chunk: TaskChunk = { taskId, agentId, phase, text, index: output.nextIndex++, at: new Date() };
+    output.chunks.push(chunk);
+    if (output.chunks.length > this.maxChunksPerTask) {
+      output.chunks.shift();
+    }
+
+    this.events.emit('chunk', chunk);
+    return chunk;
+  }
+
+  // Keeps the buffer for replay until maxFinishedTasks newer tasks have finished
+  finish(taskId: string, status: TaskStatus): void {
+    const output = this.outputs.get(taskId);
+    if (output?.finished) return;
+
+    if (output) {
+      output.finished = true;
+      this.finishedOrder.push(taskId);
+      while (this.finishedOrder.length > this.maxFinishedTasks) {
+        this.outputs.delete(this.finishedOrder.shift()!);
+      }
+    }
+
+    this.events.emit('end', taskId, status);
+  }
+
+  replay(taskId: string): TaskChunk[] {
+    return [...(this.outputs.get(taskId)?.chunks || [])];
+  }
+
+  // Returns an unsubscribe function
+  onChunk(listener: (chunk: TaskChunk) => void): () => void {
+    this.events.on('chunk', listener);
+    return () => this.events.off('chunk', listener);
+  }
+
+  onEnd(listener: (taskId: string, status: TaskStatus) => void): () => void {
+    this.events.on('end', listener);
+    return () => this.events.off('end', listener);
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { DeveloperAgent } from '../agents/DeveloperAgent.js';
+import { ProductManagerAgent } from '../agents/ProductManagerAgent.js';
+import { CassetteProvider } from '../models/CassetteProvider.js';
+import { ModelRouter } from '../models/ModelRouter.js';
+import { AgentType, TaskType } from '../shared/types.js';
+import { Orchestrator } from './Orchestrator.js';
+import { WorkflowManagementSystem } from './WorkflowManagementSystem.js';
+
+const cassettePath = fileURLToPath(new URL('../../cassettes/workflow-requirements-to-code.json', import.meta.url));
+
+function workflowsWithCassette(): WorkflowManagementSystem {
+  const router = new ModelRouter();
+  const cassette = new CassetteProvider({ path: cassettePath, mode: 'replay', match: 'strict' });
+  router.registerProvider(cassette.name, cassette);
+  router.setDefaultProvider(cassette.name);
+
+  const orchestrator = new Orchestrator();
+  orchestrator.getRegistry().registerAgent(new ProductManagerAgent(router));
+  orchestrator.getRegistry().registerAgent(new DeveloperAgent(router));
+
+  const workflows = new WorkflowManagementSystem(orchestrator);
+  workflows.addCustomTemplate({
+    id: 'requirements-to-code',
+    name: 'Requirements to Code',
+    description: 'Requirements analysis followed by implementation',
+    category: 'custom',
+    requiredAgentTypes: [AgentType.PRODUCT_MANAGER, AgentType.DEVELOPER],
+    estimatedDuration: 60000,
+    steps: [
+      {
+        id: 'requirements',
+        name: 'Analyze Requirements',
+        agentType: AgentType.PRODUCT_MANAGER,
+        taskType: TaskType.REQUIREMENTS_ANALYSIS,
+        dependencies: [],
+        inputs: { goal: 'input' },
+        expectedOutputs: ['requirements document']
+      },
+      {
+        id: 'development',
+        name: 'Develop Solution',
+        agentType: AgentType.DEVELOPER,
+        taskType: TaskType.CODE_GENERATION,
+        dependencies: ['requirements'],
+        inputs: { requirements: 'from_requirements' },
+        expectedOutputs: ['source code']
+      }
+    ]
+  });
+  return workflows;
+}
+
+describe('WorkflowManagementSystem', () => {
+  it('runs each step in order and hands earlier results to later steps', async () => {
+    const workflows = workflowsWithCassette();
+
+    const executionId = await workflows.executeWorkflow('requirements-to-code', {
+      goal: 'A GET /hello endpoint that returns Hello World'
+    });
+    await vi.waitFor(() => {
+      expect(['completed', 'failed']).toContain(workflows.getWorkflowExecution(executionId)?.status);
+    }, { timeout: 10000, interval: 50 });
+
+    const execution = workflows.getWorkflowExecution(executionId)!;
+    expect(execution.results.error).toBeUndefined();
+    expect(execution.status).toBe('completed');
+    expect(execution.steps.map(step => step.status)).toEqual(['completed', 'completed']);
+    expect(execution.steps[0].result.successCriteria).toEqual([
+      'GET /hello returns 200 with body "Hello World" and a text/plain content type'
+    ]);
+    expect(execution.steps[1].result.files.map((file: { name: string }) => file.name)).toEqual(['src/app.ts', 'src/server.ts']);
+  });
+
+  it('fails the step when the recording has no answer for its prompt', async () => {
+    const workflows = workflowsWithCassette();
+
+    const executionId = await workflows.executeWorkflow('requirements-to-code', { goal: 'Something never recorded' });
+    await vi.waitFor(() => {
+      expect(workflows.getWorkflowExecution(executionId)?.status).toBe('failed');
+    }, { timeout: 10000, interval: 50 });
+
+    const execution = workflows.getWorkflowExecution(executionId)!;
+    expect(execution.steps.map(step => step.status)).toEqual(['failed', 'pending']);
+  });
+});
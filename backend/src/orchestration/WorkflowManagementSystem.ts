@@ -77,16 +77,26 @@ export class WorkflowManagementSystem {
       name: 'Complete Marketing Campaign',
       description: 'Launch a comprehensive marketing campaign with SEO and lead generation',
       category: 'marketing',
-      requiredAgentTypes: ['PRODUCT_MANAGER' as AgentType, 'SEO' as AgentType, 'LEAD_GENERATION' as AgentType, 'MARKETING' as AgentType],
+      requiredAgentTypes: ['RESEARCH' as AgentType, 'PRODUCT_MANAGER' as AgentType, 'SEO' as AgentType, 'LEAD_GENERATION' as AgentType, 'MARKETING' as AgentType],
       estimatedDuration: 7200000, // 2 hours in ms
       steps: [
+        {
+          id: 'research',
+          name: 'Research Market and Audience',
+          agentType: 'RESEARCH' as AgentType,
+          taskType: 'RESEARCH' as TaskType,
+          dependencies: [],
+          inputs: { campaign_goals: 'input' },
+          expectedOutputs: ['cited findings', 'sources']
+        },
         {
           id: 'strategy',
           name: 'Define Campaign Strategy',
           agentType: 'PRODUCT_MANAGER' as AgentType,
           taskType: 'REQUIREMENTS_ANALYSIS' as TaskType,
-          dependencies: [],
-          inputs: { campaign_goals: 'input' },
+          dependencies: ['research'],
+          // The research result carries its sources so the strategy can cite them
+          inputs: { campaign_goals: 'input', research: 'from_research' },
           expectedOutputs: ['campaign strategy', 'target audience']
         },
         {
@@ -333,10 +343,18 @@ export class WorkflowManagementSystem {
         const inputs = this.prepareStepInputs(step, execution);
         const taskId = await this.orchestrator.submitTask({
           title: step.name,
-          description: `${step.name}: ${JSON.stringify(inputs)}`,
+          // Upstream results travel as context inputs, which the agent trims to fit the model
+          description: step.name,
           type: step.taskType,
           priority: 'HIGH' as any,
-          requiredCapabilities: []
+          requiredCapabilities: [],
+          context: {
+            projectId: typeof execution.results.projectId === 'string' ? execution.results.projectId : undefined,
+            workflowExecutionId: execution.id,
+            attempt,
+            inputs,
+            additionalData: {}
+          }
         });
 
         stepExecution.taskId = taskId;
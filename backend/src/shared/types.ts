@@ -1,5 +1,7 @@
 // Core type definitions for the Agent Swamps system
 
+import type { ZodTypeAny } from 'zod';
+
 export enum AgentType {
   DEVELOPER = 'DEVELOPER',
   QA = 'QA',
@@ -102,12 +104,36 @@ export interface Task {
 
 export interface TaskContext {
   projectId?: string;
+  workflowExecutionId?: string;
+  // Token cap for all model calls made on behalf of this task
+  tokenBudget?: number;
+  // Wall-clock limit for the whole task; the orchestrator default otherwise
+  timeoutMs?: number;
+  // 1 for the first run; retries of a workflow step count up and bypass the response cache
+  attempt?: number;
+  // Screenshots, PDFs and text files the agent should look at
+  attachments?: Attachment[];
+  // Results of earlier workflow steps, added to prompts as sections that can be cut to fit
+  inputs?: Record<string, any>;
   repositoryUrl?: string;
   branchName?: string;
   files?: string[];
   additionalData: Record<string, any>;
 }
 
+// Stage of Agent.processTask that produced streamed output
+export type TaskPhase = 'analyze' | 'execute' | 'validate';
+
+export interface TaskChunk {
+  taskId: string;
+  agentId: string;
+  phase: TaskPhase;
+  text: string;
+  // Position in the task's output, so clients can drop chunks they already have
+  index: number;
+  at: Date;
+}
+
 export interface TaskResult {
   taskId: string;
   success: boolean;
@@ -141,6 +167,94 @@ export interface ModelCapabilities {
   supportedModalities: string[];
 }
 
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+// File passed to the model alongside the text; data is base64-encoded
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  data: string;
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  // Tool name for role 'tool' messages
+  name?: string;
+  // Calls requested by the model, on role 'assistant' messages
+  toolCalls?: ToolCall[];
+  // Call being answered, on role 'tool' messages
+  toolCallId?: string;
+  // Images and documents sent with role 'user' messages
+  attachments?: Attachment[];
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+// What a provider returns for one chat turn: text, requested tool calls, or both
+export interface ChatResult {
+  text: string;
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
+  // Why generation stopped, as the provider reports it, e.g. STOP or MAX_TOKENS
+  finishReason?: string;
+  // The other answers when options.candidateCount > 1; text is the first
+  candidates?: string[];
+  safetyRatings?: SafetyRating[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Prompt tokens served from the provider's context cache, billed at a lower rate by some
+  cachedTokens?: number;
+}
+
+export type HarmCategoryName = 'HARASSMENT' | 'HATE_SPEECH' | 'SEXUALLY_EXPLICIT' | 'DANGEROUS_CONTENT';
+export type HarmThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+export interface SafetySetting {
+  category: HarmCategoryName;
+  threshold: HarmThreshold;
+}
+
+// How likely the provider judged a prompt or answer to fall in a harm category
+export interface SafetyRating {
+  category: string;
+  probability: string;
+}
+
+// Who a model call is billed to in the usage ledger
+export interface UsageContext {
+  agentId?: string;
+  taskId?: string;
+  workflowExecutionId?: string;
+  projectId?: string;
+}
+
+// Subset of JSON Schema understood by the structured output validator
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  description?: string;
+}
+
+export type ResponseSchema = ZodTypeAny | JsonSchema;
+
 export interface GenerateOptions {
   temperature?: number;
   topP?: number;
@@ -148,6 +262,50 @@ export interface GenerateOptions {
   maxTokens?: number;
   preferredProvider?: string;
   stream?: boolean;
+  responseSchema?: ResponseSchema;
+  maxRepairAttempts?: number;
+  tools?: ToolDeclaration[];
+  maxToolRounds?: number;
+  usageContext?: UsageContext;
+  noCache?: boolean;
+  // Name of a strategy registered on the router; the router default otherwise
+  routingStrategy?: string;
+  requirements?: CapabilityRequirements;
+  // Position in provider rate-limit queues; CRITICAL calls are sent first
+  priority?: TaskPriority;
+  // Aborts in-flight provider calls and any wait in rate-limit queues
+  signal?: AbortSignal;
+  // Streams plain-text replies chunk by chunk; calls that use tools are not streamed
+  onChunk?: (text: string) => void;
+  // Sample several answers and reduce them to one; see ModelRouter ensembles
+  ensemble?: EnsembleOptions;
+  // Sent ahead of any system messages
+  systemInstruction?: string;
+  stopSequences?: string[];
+  // 'json' asks for a bare JSON reply: JSON mode on Gemini and Ollama, response_format elsewhere
+  responseFormat?: 'text' | 'json';
+  // Gemini only: more answers per call, returned in ChatResult.candidates
+  candidateCount?: number;
+  // Gemini only: content filter thresholds per harm category
+  safetySettings?: SafetySetting[];
+}
+
+export type EnsembleReduction = 'vote' | 'judge' | 'merge';
+
+export interface EnsembleOptions {
+  samples: number;
+  // Samples are spread round-robin over these; normal routing otherwise
+  providers?: string[];
+  // Defaults to vote for structured answers and judge for free text
+  reduction?: EnsembleReduction;
+  // Provider for the judge or merge call
+  judgeProvider?: string;
+}
+
+// What a provider must support to be considered for a request
+export interface CapabilityRequirements {
+  minContextTokens?: number;
+  modalities?: string[];
 }
 
 export interface ValidationResult {
@@ -195,6 +353,21 @@ export interface AgentTemplate {
   defaultSpecializations: string[];
   promptTemplate: string;
   trainingStrategy?: 'supervised' | 'reinforced' | 'continuous';
+  // Writing rules for agents that produce customer-facing copy
+  brandVoice?: BrandVoice;
+}
+
+export interface BrandVoice {
+  // e.g. "friendly, plain-spoken, confident"
+  tone: string;
+  audience?: string;
+  // Words that must never appear
+  bannedTerms: string[];
+  // Term to avoid -> term to use instead, e.g. { "users": "customers" }
+  preferredTerms: Record<string, string>;
+  maxSentenceWords?: number;
+  // Exclamation marks allowed per asset
+  maxExclamations?: number;
 }
 
 export interface WorkflowTemplate {
@@ -299,3 +472,29 @@ export interface WorkflowCanvas {
   }>;
   metadata?: Record<string, any>;
 }
+
+export type ContentChannel = 'blog' | 'email' | 'x' | 'linkedin' | 'facebook' | 'instagram';
+
+export type ContentStatus = 'idea' | 'draft' | 'scheduled' | 'published' | 'cancelled';
+
+export interface ContentAsset {
+  title: string;
+  // Email only
+  subject?: string;
+  // Markdown for blog posts, plain text elsewhere
+  body: string;
+}
+
+export interface ContentCalendarEntry {
+  id: string;
+  channel: ContentChannel;
+  // YYYY-MM-DD, or a full ISO timestamp for posts with a set time
+  date: string;
+  status: ContentStatus;
+  asset: ContentAsset;
+  // Workflow execution or task that produced the entry
+  campaign?: string;
+  taskId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml, parseYamlDocuments } from './yaml.js';
+
+describe('parseYaml', () => {
+  it('keeps the GitHub Actions on: key a string and reads nested lists', () => {
+    const workflow = parseYaml([
+      'name: CI',
+      'on:',
+      '  push:',
+      '    branches: [main]',
+      '  pull_request:',
+      'jobs:',
+      '  test:',
+      '    runs-on: ubuntu-latest',
+      '    steps:',
+      '      - uses: actions/checkout@v4',
+      '      - run: npm ci',
+      '      - run: npm test',
+      '        env:',
+      '          CI: true'
+    ].join('\n'));
+
+    expect(workflow).toEqual({
+      name: 'CI',
+      on: { push: { branches: ['main'] }, pull_request: null },
+      jobs: {
+        test: {
+          'runs-on': 'ubuntu-latest',
+          steps: [
+            { uses: 'actions/checkout@v4' },
+            { run: 'npm ci' },
+            { run: 'npm test', env: { CI: true } }
+          ]
+        }
+      }
+    });
+  });
+
+  it('resolves scalars with the YAML 1.2 core schema', () => {
+    expect(parseYaml('a: yes\nb: off\nc: 010\nd: 0x1F\ne: 1e3\nf: ~\ng: "true"')).toEqual({
+      a: 'yes',
+      b: 'off',
+      c: 10,
+      d: 31,
+      e: 1000,
+      f: null,
+      g: 'true'
+    });
+  });
+
+  it('expands anchors, aliases and merge keys', () => {
+    const config = parseYaml([
+      'defaults: &defaults',
+      '  image: node:20',
+      '  retries: 2',
+      'build:',
+      '  <<: *defaults',
+      '  retries: 0',
+      'tags: &tags [a, b]',
+      'copy: *tags'
+    ].join('\n'));
+
+    expect(config).toMatchObject({
+      build: { image: 'node:20', retries: 0 },
+      copy: ['a', 'b']
+    });
+  });
+
+  it('folds > scalars and keeps | scalars line for line', () => {
+    const config = parseYaml([
+      'summary: >',
+      '  one',
+      '  two',
+      'script: |',
+      '  npm ci',
+      '  npm test',
+      'trimmed: |-',
+      '  no trailing newline'
+    ].join('\n'));
+
+    expect(config).toEqual({
+      summary: 'one two\n',
+      script: 'npm ci\nnpm test\n',
+      trimmed: 'no trailing newline'
+    });
+  });
+
+  it('returns null for an empty or comment-only file', () => {
+    expect(parseYaml('')).toBeNull();
+    expect(parseYaml('# nothing here\n')).toBeNull();
+  });
+
+  it('refuses a file with more than one document', () => {
+    expect(() => parseYaml('a: 1\n---\nb: 2')).toThrow('Expected one document, found 2');
+  });
+
+  it('reports the line of a syntax error', () => {
+    expect(() => parseYaml('name: app\nitems:\n  - one\nkey: value: other\nlast: 1')).toThrow(
+      expect.objectContaining({ name: 'YamlParseError', line: 4, message: expect.stringMatching(/\(line 4\)$/) })
+    );
+  });
+});
+
+describe('parseYamlDocuments', () => {
+  it('reads every document of a multi-document Kubernetes manifest', () => {
+    const documents = parseYamlDocuments([
+      '---',
+      'apiVersion: v1',
+      'kind: Service',
+      'metadata:',
+      '  name: api',
+      '---',
+      '# Deployment follows',
+      'apiVersion: apps/v1',
+      'kind: Deployment',
+      'spec:',
+      '  replicas: 3',
+      '  template:',
+      '    spec:',
+      '      containers:',
+      '        - name: api',
+      '          image: api:1.2.0',
+      '          ports:',
+      '            - containerPort: 8080',
+      '---',
+      ''
+    ].join('\n'));
+
+    expect(documents).toHaveLength(2);
+    expect(documents.map(document => (document as { kind: string }).kind)).toEqual(['Service', 'Deployment']);
+    expect(documents[1]).toMatchObject({
+      spec: { replicas: 3, template: { spec: { containers: [{ name: 'api', ports: [{ containerPort: 8080 }] }] } } }
+    });
+  });
+
+  it('keeps a document that is explicitly null', () => {
+    expect(parseYamlDocuments('--- null\n--- ~\n---\n')).toEqual([null, null]);
+  });
+
+  it('reports errors in later documents with their line in the file', () => {
+    expect(() => parseYamlDocuments('a: 1\n---\nb: 2\nkey: value: other\n')).toThrow(
+      expect.objectContaining({ name: 'YamlParseError', line: 4 })
+    );
+  });
+});
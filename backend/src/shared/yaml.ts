@@ -0,0 +1,47 @@
+// YAML - parsing for CI pipelines and Kubernetes manifests, on top of the yaml package
+
+import { LineCounter, isScalar, parseAllDocuments, type YAMLError } from 'yaml';
+
+export class YamlParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'YamlParseError';
+  }
+}
+
+/**
+ * Parses every document in a file. Scalars resolve with the YAML 1.2 core
+ * schema, so `on:` stays a string key as GitHub Actions expects, while
+ * `<<` merge keys still expand as GitLab CI and Compose files rely on. Empty
+ * documents are skipped. The first syntax error is thrown as YamlParseError.
+ */
+export function parseYamlDocuments(text: string): unknown[] {
+  const lineCounter = new LineCounter();
+  const documents = parseAllDocuments(text, { schema: 'core', merge: true, prettyErrors: false, lineCounter });
+  // An input that is only comments or directives parses to an empty list, not an array
+  if (!Array.isArray(documents)) return [];
+
+  const values: unknown[] = [];
+  for (const document of documents) {
+    const [error] = document.errors;
+    if (error) throw toParseError(error, lineCounter);
+
+    // "---" with nothing after it parses to an empty plain scalar, unlike an explicit null
+    const contents = document.contents;
+    if (contents === null || (isScalar(contents) && contents.source === '')) continue;
+    values.push(document.toJS());
+  }
+  return values;
+}
+
+export function parseYaml(text: string): unknown {
+  const documents = parseYamlDocuments(text);
+  if (documents.length > 1) {
+    throw new YamlParseError(`Expected one document, found ${documents.length}`, 1);
+  }
+  return documents[0] ?? null;
+}
+
+function toParseError(error: YAMLError, lineCounter: LineCounter): YamlParseError {
+  return new YamlParseError(error.message, lineCounter.linePos(error.pos[0]).line);
+}